@@ -1,7 +1,7 @@
 import { defineBuildConfig } from "unbuild"
 
-const providers = ["s3", "azure-datalake", "firebase"]
-const serverEntries = ["index", "s3", "azure", "firebase"]
+const providers = ["s3", "azure-datalake", "firebase", "tus"]
+const serverEntries = ["index", "s3", "azure", "firebase", "local"]
 
 export default defineBuildConfig({
   entries: [
@@ -23,6 +23,7 @@ export default defineBuildConfig({
     "firebase-admin/app",
     "firebase-admin/storage",
     "@aws-sdk/client-s3",
+    "@aws-sdk/s3-presigned-post",
     "@aws-sdk/s3-request-presigner",
     "h3",
   ],
@@ -3,6 +3,7 @@ import { join } from "node:path"
 import {
   defineNuxtModule,
   addImports,
+  addPlugin,
   addServerHandler,
   addServerImports,
   addServerPlugin,
@@ -46,6 +47,24 @@ export interface ModuleOptions {
    * ```
    */
   restrictions?: Restrictions
+
+  /**
+   * Named restriction sets, layered over `restrictions`. Select one per surface with
+   * `useUploadKit({ profile })`; the name is sent with each upload and the server enforces
+   * the same merged rules.
+   *
+   * @example
+   * ```ts
+   * uploadKit: {
+   *   restrictions: { maxFileSize: 50_000_000 },
+   *   profiles: {
+   *     avatar: { maxFileSize: 2_000_000, maxFiles: 1, allowedMimeTypes: ["image/*"] },
+   *     documents: { allowedMimeTypes: ["application/pdf"] },
+   *   },
+   * }
+   * ```
+   */
+  profiles?: Record<string, Restrictions>
 }
 
 export default defineNuxtModule<ModuleOptions>({
@@ -57,6 +76,7 @@ export default defineNuxtModule<ModuleOptions>({
     autoImport: true,
     handlerRoute: "/api/_upload",
     restrictions: {},
+    profiles: {},
   },
   setup(options, nuxt) {
     const resolver = createResolver(import.meta.url)
@@ -96,6 +116,18 @@ export default defineNuxtModule<ModuleOptions>({
     nuxt.options.nitro = nuxt.options.nitro ?? {}
     nuxt.options.nitro.alias = nuxt.options.nitro.alias ?? {}
     nuxt.options.nitro.alias["#upload-kit/server"] = resolver.resolve("./runtime/server")
+    // Shared alias — `defineUploadRule` and the rule engine, importable from both runtimes
+    nuxt.options.nitro.alias["#upload-kit/shared"] = resolver.resolve("./runtime/shared")
+
+    // Custom rules from `defineUploadRule` must be registered on both sides, so the same file is
+    // loaded by a Nuxt plugin and a Nitro plugin.
+    const rulesFile = join(nuxt.options.rootDir, "shared", "upload.rules.ts")
+    if (existsSync(rulesFile)) {
+      nuxt.options.alias["#upload-kit-rules"] = rulesFile
+      nuxt.options.nitro.alias["#upload-kit-rules"] = rulesFile
+      addPlugin(resolver.resolve("./runtime/plugins/upload-rules"))
+      addServerPlugin(resolver.resolve("./runtime/server/plugins/upload-rules"))
+    }
 
     // Detect convention file
     const conventionFile = join(nuxt.options.serverDir, "upload.server.config.ts")
@@ -133,6 +165,7 @@ export default defineNuxtModule<ModuleOptions>({
       ...(nuxt.options.runtimeConfig.public.uploadKit as Record<string, unknown> | undefined),
       handlerRoute,
       restrictions: options.restrictions ?? {},
+      profiles: options.profiles ?? {},
     }
 
     addServerPlugin(resolver.resolve("./runtime/server/plugins/bootstrap"))
@@ -143,6 +176,31 @@ export default defineNuxtModule<ModuleOptions>({
       handler: resolver.resolve("./runtime/server/handlers/presign"),
     })
 
+    addServerHandler({
+      route: `${handlerRoute}/complete`,
+      method: "post",
+      handler: resolver.resolve("./runtime/server/handlers/complete"),
+    })
+
+    for (const action of ["create", "sign-part", "complete", "abort"]) {
+      addServerHandler({
+        route: `${handlerRoute}/multipart/${action}`,
+        method: "post",
+        handler: resolver.resolve(`./runtime/server/handlers/multipart-${action}`),
+      })
+    }
+
+    // tus dispatches on the request method itself (OPTIONS/POST here, HEAD/PATCH/DELETE per upload).
+    addServerHandler({
+      route: `${handlerRoute}/tus`,
+      handler: resolver.resolve("./runtime/server/handlers/tus"),
+    })
+
+    addServerHandler({
+      route: `${handlerRoute}/tus/:uploadId`,
+      handler: resolver.resolve("./runtime/server/handlers/tus"),
+    })
+
     addServerHandler({
       route: `${handlerRoute}/direct`,
       method: "post",
@@ -155,6 +213,30 @@ export default defineNuxtModule<ModuleOptions>({
       handler: resolver.resolve("./runtime/server/handlers/download"),
     })
 
+    addServerHandler({
+      route: `${handlerRoute}/meta/:fileId`,
+      method: "get",
+      handler: resolver.resolve("./runtime/server/handlers/meta"),
+    })
+
+    addServerHandler({
+      route: `${handlerRoute}/config`,
+      method: "get",
+      handler: resolver.resolve("./runtime/server/handlers/config"),
+    })
+
+    addServerHandler({
+      route: `${handlerRoute}/list`,
+      method: "get",
+      handler: resolver.resolve("./runtime/server/handlers/list"),
+    })
+
+    // Signed PUT/GET URLs of LocalFsStorage; the handler dispatches on the method.
+    addServerHandler({
+      route: `${handlerRoute}/local/**`,
+      handler: resolver.resolve("./runtime/server/handlers/local"),
+    })
+
     addServerHandler({
       route: `${handlerRoute}/:fileId`,
       method: "delete",
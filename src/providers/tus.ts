@@ -0,0 +1,19 @@
+/**
+ * tus Resumable Upload Adapter
+ *
+ * Uploads files with the tus 1.0 protocol. Works with the module's built-in tus endpoint
+ * (`${handlerRoute}/tus`), which writes through the storage adapter configured in
+ * `server/upload.server.config.ts`, and with any other tus server.
+ *
+ * @example
+ * ```typescript
+ * import { PluginTus } from "nuxt-upload-kit/providers/tus"
+ *
+ * const uploader = useUploadKit({
+ *   storage: PluginTus({ endpoint: "/api/_upload/tus" })
+ * })
+ * ```
+ *
+ * @experimental This adapter is experimental and may change in future releases.
+ */
+export { PluginTus, type TusOptions, type TusUploadResult } from "../runtime/composables/useUploadKit/plugins/storage/tus"
@@ -7,28 +7,43 @@ import type {
   LocalUploadFile,
   RemoteUploadFile,
   UploadOptions,
-  UploadStatus,
   Plugin as UploaderPlugin,
   ProcessingPlugin,
   StoragePlugin,
   InitialFileInput,
+  MinimumRemoteFileAttributes,
+  BrowseOptions,
+  BrowseResult,
+  DownloadOptions,
+  AddFileOptions,
+  FileStatus,
 } from "./types"
 import { PluginThumbnailGenerator, PluginImageCompressor } from "./plugins"
 import { PluginPresignedHttp } from "./plugins/storage/presigned-http"
 import { PluginServerUpload } from "./plugins/storage/server-upload"
-import { createPluginContext, createFileError, getExtension, setupInitialFiles } from "./utils"
+import { fileTokenOf } from "./plugins/storage/handler-files"
+import { createPluginContext, createFileError, getExtension, probeImageDimensions, setupInitialFiles } from "./utils"
 import { createPluginRunner } from "./plugin-runner"
 import { createFileOperations } from "./file-operations"
-import { applyRestrictions, type Restrictions } from "../../shared"
+import { createUploadScheduler, type SchedulerActivity } from "./scheduler"
+import { createRetryPolicy, waitForRetry } from "./retry"
+import { createUploadStatus } from "./upload-status"
+import { applyRestrictions, hasImageRestrictions, UploadPausedError, type Restrictions } from "../../shared"
 
 import { useRuntimeConfig } from "#imports"
 
 const DEFAULT_ENDPOINT = "/api/_upload"
 
+const CANCELLABLE_STATUSES: readonly FileStatus[] = ["waiting", "uploading", "paused"]
+
 interface UploadKitRuntimeConfig {
   handlerRoute?: string
   mode?: "presigned" | "server"
   restrictions?: Restrictions
+  profiles?: Record<string, Restrictions>
+  capabilities?: { multipart?: boolean }
+  downloadMode?: "presigned" | "proxy"
+  dynamicRestrictions?: boolean
 }
 
 const readRuntimeConfig = (): UploadKitRuntimeConfig => {
@@ -40,12 +55,35 @@ const readRuntimeConfig = (): UploadKitRuntimeConfig => {
   }
 }
 
+const resolveProfile = (runtime: UploadKitRuntimeConfig, profile: string | undefined): Restrictions => {
+  if (profile === undefined) return {}
+  const profiles = runtime.profiles ?? {}
+  if (!Object.hasOwn(profiles, profile)) {
+    throw new Error(`[nuxt-upload-kit] Unknown restriction profile "${profile}". Define it in \`uploadKit.profiles\`.`)
+  }
+  return profiles[profile]!
+}
+
+/** Fetch the caller's effective restrictions from `${endpoint}/config`, or `undefined` when that fails. */
+const fetchEffectiveRestrictions = async (endpoint: string, profile: string | undefined): Promise<Restrictions | undefined> => {
+  const query = profile === undefined ? "" : `?profile=${encodeURIComponent(profile)}`
+  try {
+    const response = await fetch(`${endpoint.replace(/\/+$/, "")}/config${query}`)
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`)
+    return ((await response.json()) as { restrictions?: Restrictions }).restrictions
+  } catch (error) {
+    console.warn("[nuxt-upload-kit] Could not load restrictions from the server, using the static ones:", error)
+    return undefined
+  }
+}
+
 const defaultOptions: UploadOptions = {
   storage: undefined,
   plugins: [],
   thumbnails: false,
   imageCompression: false,
   autoUpload: false,
+  concurrency: 1,
 }
 
 export const useUploadKit = <TUploadResult = unknown>(
@@ -53,10 +91,13 @@ export const useUploadKit = <TUploadResult = unknown>(
 ) => {
   const options = { ...defaultOptions, ..._options } as UploadOptions
   const runtime = readRuntimeConfig()
-  const restrictions: Restrictions = { ...(runtime.restrictions ?? {}), ...(options.restrictions ?? {}) }
+  let restrictions: Restrictions = {
+    ...(runtime.restrictions ?? {}),
+    ...resolveProfile(runtime, options.profile),
+    ...(options.restrictions ?? {}),
+  }
   const files = ref<UploadFile<TUploadResult>[]>([]) as Ref<UploadFile<TUploadResult>[]>
   const emitter: UploaderEmitter<TUploadResult> = mitt()
-  const status = ref<UploadStatus>("waiting")
   const isReady = ref(options.initialFiles === undefined)
 
   let resolveReady!: () => void
@@ -71,6 +112,38 @@ export const useUploadKit = <TUploadResult = unknown>(
   // Track if we've emitted files:uploaded to prevent duplicate emissions
   let hasEmittedFilesUploaded = false
 
+  // One controller per file queued in an upload batch; aborted by cancelFile()/cancelAll()
+  const abortControllers = new Map<string, AbortController>()
+
+  // Automatic retry policy and per-file attempt counters for the current upload
+  const retryPolicy = createRetryPolicy(options.retry)
+  const retryAttempts = new Map<string, number>()
+
+  // Files that failed during processing or transfer (as opposed to being rejected on add)
+  const retryableFileIds = new Set<string>()
+
+  /**
+   * With `resolveRestrictions` on the server, limits differ per caller: fetch them from `/config`
+   * on the first add, and have every add wait for them. A failed fetch keeps the static
+   * restrictions and is retried on the next add; the server enforces the real limits either way.
+   */
+  let restrictionsLoaded: Promise<void> | undefined
+  const loadRestrictions = () => {
+    if (!runtime.dynamicRestrictions) return
+    restrictionsLoaded ??= fetchEffectiveRestrictions(
+      options.endpoint ?? runtime.handlerRoute ?? DEFAULT_ENDPOINT,
+      options.profile,
+    ).then((effective) => {
+      if (effective) restrictions = { ...effective, ...(options.restrictions ?? {}) }
+      else restrictionsLoaded = undefined
+    })
+    return restrictionsLoaded
+  }
+
+  // Resume state for paused/retried transfers, and files whose process stage already ran
+  const checkpoints = new Map<string, unknown>()
+  const processedFileIds = new Set<string>()
+
   /**
    * Get the active storage plugin. Falls back to the built-in PresignedHttp transport
    * (which talks to the auto-mounted server endpoints) when none is provided.
@@ -80,8 +153,16 @@ export const useUploadKit = <TUploadResult = unknown>(
     if (options.storage) return options.storage as StoragePlugin<TUploadResult, any>
     if (!defaultTransport) {
       const endpoint = options.endpoint ?? runtime.handlerRoute ?? DEFAULT_ENDPOINT
-      const factory = runtime.mode === "server" ? PluginServerUpload : PluginPresignedHttp
-      defaultTransport = factory({ endpoint }) as unknown as StoragePlugin<TUploadResult, any>
+      const transport =
+        runtime.mode === "server"
+          ? PluginServerUpload({ endpoint, downloadMode: runtime.downloadMode, profile: options.profile })
+          : PluginPresignedHttp({
+              endpoint,
+              profile: options.profile,
+              multipart: runtime.capabilities?.multipart === true,
+              downloadMode: runtime.downloadMode,
+            })
+      defaultTransport = transport as unknown as StoragePlugin<TUploadResult, any>
     }
     return defaultTransport
   }
@@ -140,25 +221,82 @@ export const useUploadKit = <TUploadResult = unknown>(
   }
 
   /**
-   * Upload a single file and update its state
+   * Best-effort removal of an object that finished uploading after its file was cancelled,
+   * so a cancel racing the final response doesn't leave an orphan behind.
+   */
+  const removeCancelledUpload = async (file: UploadFile<TUploadResult>, storageKey: string | undefined) => {
+    const storagePlugin = getStoragePlugin()
+    if (!storageKey || !storagePlugin?.hooks.remove) return
+    try {
+      const context = createPluginContext(storagePlugin.id, files.value, options, emitter, storagePlugin)
+      await storagePlugin.hooks.remove({ ...file, storageKey }, context)
+    } catch (error) {
+      console.error(`Storage plugin remove error:`, error)
+    }
+  }
+
+  /**
+   * Record a failure for a file, unless it was cancelled (cancelFile() already recorded that state)
+   */
+  const failFile = (file: UploadFile<TUploadResult>, err: unknown, signal: AbortSignal) => {
+    if (signal.aborted) return
+    const error = createFileError(file, err)
+    retryableFileIds.add(file.id)
+    updateFile(file.id, { status: "error", error })
+    emitter.emit("file:error", { file, error })
+  }
+
+  /**
+   * Run one phase of a file's upload under the retry policy. The attempt counter is
+   * shared by the process and transfer phases of the same file.
+   */
+  const withRetry = async <T>(fileId: string, signal: AbortSignal, run: () => Promise<T>): Promise<T> => {
+    while (true) {
+      try {
+        return await run()
+      } catch (err) {
+        const file = files.value.find((f) => f.id === fileId)
+        const attempt = (retryAttempts.get(fileId) ?? 0) + 1
+        if (!file || signal.aborted || attempt > retryPolicy.attempts || !retryPolicy.retryable(err, file)) throw err
+
+        retryAttempts.set(fileId, attempt)
+        updateFile(fileId, { progress: { percentage: 0 } })
+        emitter.emit("file:retry", { file, attempt, error: createFileError(file, err) })
+        await waitForRetry(retryPolicy.delay(attempt, err), signal)
+      }
+    }
+  }
+
+  /**
+   * Run the process stage for a queued file
    */
-  const uploadSingleFile = async (file: UploadFile<TUploadResult>): Promise<void> => {
+  const processFile = async (file: UploadFile<TUploadResult>, signal: AbortSignal): Promise<UploadFile<TUploadResult>> => {
+    // A resumed file was already processed before it was paused
+    if (processedFileIds.has(file.id)) return file
+
     const processedFile = await runPluginStage("process", file)
+    if (processedFile) processedFileIds.add(processedFile.id)
+    signal.throwIfAborted()
 
     if (!processedFile) {
-      const error = createFileError(file, new Error("File processing failed"))
-      updateFile(file.id, { status: "error", error })
-      emitter.emit("file:error", { file, error })
-      return
+      throw new Error("File processing failed")
     }
 
     if (processedFile.id !== file.id) {
       files.value = files.value.map((f) => (f.id === file.id ? (processedFile as UploadFile<TUploadResult>) : f))
     }
 
+    return processedFile
+  }
+
+  /**
+   * Upload a processed file through the storage plugin and update its state
+   */
+  const transferFile = async (processedFile: UploadFile<TUploadResult>, signal: AbortSignal): Promise<void> => {
     updateFile(processedFile.id, { status: "uploading" })
 
     const onProgress = (progress: number) => {
+      if (signal.aborted) return
       updateFile(processedFile.id, { progress: { percentage: progress } })
       emitter.emit("upload:progress", { file: processedFile, progress })
     }
@@ -172,12 +310,23 @@ export const useUploadKit = <TUploadResult = unknown>(
       files: files.value,
       options,
       onProgress,
+      signal,
+      checkpoint: checkpoints.get(processedFile.id),
+      setCheckpoint: (checkpoint: unknown) => {
+        checkpoints.set(processedFile.id, checkpoint)
+      },
       emit: getPluginEmitFn(storagePlugin.id),
     }
-    const result = await storagePlugin.hooks.upload(file, context)
+    const result = await storagePlugin.hooks.upload(processedFile, context)
     const uploadResult = result as TUploadResult
     const remoteUrl = result.url
 
+    // A pause that lands after the transfer finished doesn't undo it: the file is complete
+    if (signal.aborted && !(signal.reason instanceof UploadPausedError)) {
+      await removeCancelledUpload(processedFile, extractStorageKey(uploadResult))
+      signal.throwIfAborted()
+    }
+
     const currentFile = files.value.find((f) => f.id === processedFile.id)
     const preview = currentFile?.preview || remoteUrl
     const storageKey = extractStorageKey(uploadResult)
@@ -185,33 +334,63 @@ export const useUploadKit = <TUploadResult = unknown>(
     // Get thumbnail from file if it was uploaded by the thumbnail plugin
     const thumbnail = currentFile?.thumbnail
 
+    checkpoints.delete(processedFile.id)
+    processedFileIds.delete(processedFile.id)
     updateFile(processedFile.id, { status: "complete", uploadResult, remoteUrl, preview, storageKey, thumbnail })
   }
 
-  const upload = async () => {
-    // Synchronously flip status off "waiting" so a concurrent upload() call
-    // issued in the same tick won't re-select these files (see #169).
-    const idsToUpload = files.value.filter((f) => f.status === "waiting").map((f) => f.id)
-    for (const id of idsToUpload) {
-      updateFile(id, { status: "uploading" })
-    }
-    const filesToUpload = idsToUpload
-      .map((id) => files.value.find((f) => f.id === id))
-      .filter((f): f is UploadFile<TUploadResult> => f !== undefined)
-
-    emitter.emit("upload:start", filesToUpload)
+  const uploadStatus = createUploadStatus({ files, getActivity: (): SchedulerActivity => scheduler.getActivity() })
 
-    for (const file of filesToUpload) {
+  const scheduler = createUploadScheduler<TUploadResult>({
+    concurrency: options.concurrency ?? 1,
+    getPriority: (fileId) => files.value.find((f) => f.id === fileId)?.priority ?? 0,
+    prepare: async (fileId, signal) => {
+      const file = files.value.find((f) => f.id === fileId)
+      if (!file) return null
+      try {
+        return await withRetry(fileId, signal, () => processFile(file, signal))
+      } catch (err) {
+        failFile(file, err, signal)
+        return null
+      }
+    },
+    transfer: async (file, signal) => {
       try {
-        await uploadSingleFile(file)
+        await withRetry(file.id, signal, () => transferFile(file, signal))
       } catch (err) {
-        const error = createFileError(file, err)
-        updateFile(file.id, { status: "error", error })
-        emitter.emit("file:error", { file, error })
+        failFile(file, err, signal)
       }
+    },
+    onChange: uploadStatus.sync,
+  })
+
+  /**
+   * Queue files that were flipped to "uploading" and wait for all of them to settle. A batch
+   * that ends with some of its files paused resolves without the completion events: the
+   * batch started by resuming them emits those once they finish.
+   */
+  const runBatch = async (filesToUpload: UploadFile<TUploadResult>[]) => {
+    emitter.emit("upload:start", filesToUpload)
+
+    // Files from earlier upload() calls may still be in flight; this call only waits for its own batch
+    const entries = filesToUpload.map((file) => ({
+      fileId: file.id,
+      controller: abortControllers.get(file.id) ?? new AbortController(),
+    }))
+    await scheduler.enqueue(entries.map(({ fileId, controller }) => ({ fileId, signal: controller.signal })))
+    // A file paused in this batch may already have been resumed under a new controller
+    for (const { fileId, controller } of entries) {
+      if (abortControllers.get(fileId) === controller) abortControllers.delete(fileId)
     }
+    uploadStatus.settle()
+
+    const batchIds = new Set(entries.map(({ fileId }) => fileId))
+    if (files.value.some((f) => batchIds.has(f.id) && f.status === "paused")) return
 
-    const completed = files.value.filter((f) => f.status === "complete") as Array<Required<UploadFile<TUploadResult>>>
+    // Only this batch's files: earlier uploads and files restored with addExistingFiles were reported already
+    const completed = files.value.filter((f) => batchIds.has(f.id) && f.status === "complete") as Array<
+      Required<UploadFile<TUploadResult>>
+    >
     emitter.emit("upload:complete", completed)
 
     const allComplete = files.value.length > 0 && files.value.every((f) => f.status === "complete")
@@ -221,6 +400,134 @@ export const useUploadKit = <TUploadResult = unknown>(
     }
   }
 
+  /**
+   * Synchronously flip files to "uploading" and reset their retry state, so a concurrent
+   * upload() call issued in the same tick won't re-select them (see #169).
+   */
+  const claimFiles = (ids: string[]): UploadFile<TUploadResult>[] => {
+    for (const id of ids) {
+      retryAttempts.delete(id)
+      retryableFileIds.delete(id)
+      checkpoints.delete(id)
+      processedFileIds.delete(id)
+      updateFile(id, { status: "uploading", error: undefined, progress: { percentage: 0 } })
+      abortControllers.set(id, new AbortController())
+    }
+    return ids.map((id) => files.value.find((f) => f.id === id)).filter((f): f is UploadFile<TUploadResult> => f !== undefined)
+  }
+
+  const upload = async () => {
+    const idsToUpload = files.value.filter((f) => f.status === "waiting").map((f) => f.id)
+    await runBatch(claimFiles(idsToUpload))
+  }
+
+  /**
+   * Upload a file again after it failed during processing or transfer. Files rejected
+   * when added (restrictions, validators) can't be retried and are ignored.
+   */
+  const retryFile = async (fileId: string): Promise<void> => {
+    const file = files.value.find((f) => f.id === fileId)
+    if (!file || file.status !== "error" || !retryableFileIds.has(fileId)) return
+    await runBatch(claimFiles([fileId]))
+  }
+
+  /**
+   * Retry every file that failed during processing or transfer
+   */
+  const retryFailed = async (): Promise<void> => {
+    const ids = files.value.filter((f) => f.status === "error" && retryableFileIds.has(f.id)).map((f) => f.id)
+    if (ids.length === 0) return
+    await runBatch(claimFiles(ids))
+  }
+
+  /**
+   * Change the upload priority of a file. Applies to files still queued in the scheduler;
+   * higher values are processed and uploaded first.
+   */
+  const setFilePriority = (fileId: string, priority: number): void => {
+    updateFile(fileId, { priority })
+  }
+
+  /**
+   * Cancel a waiting or in-flight file. Aborts its transfer through the storage plugin's
+   * `signal`, marks it `cancelled` and emits `file:cancelled`. No-op for files that have
+   * already completed, failed or been cancelled.
+   */
+  const cancelFile = (fileId: string): void => {
+    const file = files.value.find((f) => f.id === fileId)
+    if (!file || !CANCELLABLE_STATUSES.includes(file.status)) return
+
+    abortControllers.get(fileId)?.abort()
+    checkpoints.delete(fileId)
+    processedFileIds.delete(fileId)
+    updateFile(fileId, { status: "cancelled", progress: { percentage: 0 } })
+    emitter.emit("file:cancelled", files.value.find((f) => f.id === fileId) ?? file)
+  }
+
+  /**
+   * Cancel every waiting, in-flight or paused file.
+   */
+  const cancelAll = (): void => {
+    const ids = files.value.filter((f) => CANCELLABLE_STATUSES.includes(f.status)).map((f) => f.id)
+    for (const id of ids) cancelFile(id)
+  }
+
+  /**
+   * Pause an in-flight file. Its transfer is aborted with an `UploadPausedError` reason so
+   * resumable storage plugins keep the partial upload and its checkpoint. The file keeps
+   * its progress and moves to `paused` until `resumeFile()`.
+   */
+  const pauseFile = (fileId: string): void => {
+    const file = files.value.find((f) => f.id === fileId)
+    if (!file || file.status !== "uploading") return
+
+    abortControllers.get(fileId)?.abort(new UploadPausedError())
+    updateFile(fileId, { status: "paused" })
+    emitter.emit("file:paused", files.value.find((f) => f.id === fileId) ?? file)
+  }
+
+  /**
+   * Queue paused files again. Plugins that saved a checkpoint continue from it;
+   * others restart the transfer.
+   */
+  const resumeFiles = async (ids: string[]): Promise<void> => {
+    for (const id of ids) {
+      updateFile(id, { status: "uploading" })
+      abortControllers.set(id, new AbortController())
+    }
+    const resumed = ids
+      .map((id) => files.value.find((f) => f.id === id))
+      .filter((f): f is UploadFile<TUploadResult> => f !== undefined)
+    for (const file of resumed) emitter.emit("file:resumed", file)
+    await runBatch(resumed)
+  }
+
+  /**
+   * Resume a paused file. Resolves once it has settled again.
+   */
+  const resumeFile = async (fileId: string): Promise<void> => {
+    const file = files.value.find((f) => f.id === fileId)
+    if (!file || file.status !== "paused") return
+    await resumeFiles([fileId])
+  }
+
+  /**
+   * Pause every in-flight file, including files queued behind the concurrency limit.
+   */
+  const pause = (): void => {
+    const ids = files.value.filter((f) => f.status === "uploading").map((f) => f.id)
+    for (const id of ids) pauseFile(id)
+  }
+
+  /**
+   * Resume every paused file.
+   */
+  const resume = async (): Promise<void> => {
+    const ids = files.value.filter((f) => f.status === "paused").map((f) => f.id)
+    if (ids.length === 0) return
+    await resumeFiles(ids)
+  }
+
   // Create file operations (cast files to avoid Vue's UnwrapRef type complexity)
   const fileOps = createFileOperations({
     files: files as any,
@@ -246,6 +553,35 @@ export const useUploadKit = <TUploadResult = unknown>(
     updateFile(file.id, { progress: { percentage: progress } })
   })
 
+  // Re-derive the aggregate status when files change outside the scheduler
+  for (const event of ["file:added", "file:removed", "file:replaced", "file:cancelled", "file:paused"] as const) {
+    emitter.on(event, uploadStatus.sync)
+  }
+
+  const reset = () => {
+    fileOps.reset()
+    uploadStatus.sync()
+  }
+
+  const toRemoteFile = (
+    storageKey: string,
+    remoteFileData: MinimumRemoteFileAttributes<TUploadResult>,
+  ): RemoteUploadFile<TUploadResult> => ({
+    id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    storageKey,
+    name: storageKey.split("/").pop() || storageKey,
+    data: null,
+    status: "complete",
+    progress: { percentage: 100 },
+    meta: {},
+    size: remoteFileData.size,
+    mimeType: remoteFileData.mimeType,
+    remoteUrl: remoteFileData.remoteUrl,
+    preview: remoteFileData.preview || remoteFileData.remoteUrl,
+    source: "storage",
+    uploadResult: remoteFileData.uploadResult,
+  })
+
   /**
    * Resolve an array of InitialFileInput into RemoteUploadFile objects via the storage plugin.
    */
@@ -264,27 +600,7 @@ export const useUploadKit = <TUploadResult = unknown>(
         const context = createPluginContext(storagePlugin.id, files.value, options, emitter, storagePlugin)
         const remoteFileData = await getRemoteFile(storageKey, context)
 
-        const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`
-        const name = storageKey.split("/").pop() || storageKey
-
-        const existingFile: RemoteUploadFile<TUploadResult> = {
-          ...file,
-          id,
-          storageKey,
-          name,
-          data: null,
-          status: "complete",
-          progress: { percentage: 100 },
-          meta: {},
-          size: remoteFileData.size,
-          mimeType: remoteFileData.mimeType,
-          remoteUrl: remoteFileData.remoteUrl,
-          preview: remoteFileData.preview || remoteFileData.remoteUrl,
-          source: "storage",
-          uploadResult: remoteFileData.uploadResult,
-        }
-
-        return existingFile
+        return { ...file, ...toRemoteFile(storageKey, remoteFileData) }
       }),
     )
 
@@ -307,6 +623,8 @@ export const useUploadKit = <TUploadResult = unknown>(
 
     if (filesToAdd.length === 0) return []
 
+    await loadRestrictions()
+
     // Respect maxFiles restriction
     if (restrictions.maxFiles !== undefined && Number.isFinite(restrictions.maxFiles)) {
       const available = restrictions.maxFiles - files.value.length
@@ -325,7 +643,56 @@ export const useUploadKit = <TUploadResult = unknown>(
     return resolvedFiles
   }
 
-  const addFile = async (file: File) => {
+  /**
+   * Fetch a page of files that are already in storage, without adding them to `files`.
+   * Pass the returned `cursor` back to get the next page.
+   */
+  const browse = async (browseOptions: BrowseOptions = {}): Promise<BrowseResult<TUploadResult>> => {
+    const storagePlugin = getStoragePlugin()
+    const list = storagePlugin?.hooks.list
+    if (!storagePlugin || !list) {
+      throw new Error("Storage plugin with list hook is required to browse remote files")
+    }
+
+    const context = createPluginContext(storagePlugin.id, files.value, options, emitter, storagePlugin)
+    const page = await list(browseOptions, context)
+
+    return {
+      files: page.files.map(({ storageKey, ...remoteFileData }) => toRemoteFile(storageKey, remoteFileData)),
+      cursor: page.cursor,
+    }
+  }
+
+  /**
+   * Save a stored file to disk. Asks the storage plugin for a download URL with an `attachment`
+   * disposition, named after the file unless `filename` says otherwise, and clicks a link to it.
+   */
+  const downloadFile = async (fileId: string, downloadOptions: Omit<DownloadOptions, "disposition"> = {}) => {
+    const file = files.value.find((f) => f.id === fileId)
+    if (!file) throw new Error(`File not found: ${fileId}`)
+    if (!file.storageKey) throw new Error(`File has not been uploaded: ${fileId}`)
+
+    const storagePlugin = getStoragePlugin()
+    const getDownloadUrl = storagePlugin?.hooks.getDownloadUrl
+    if (!storagePlugin || !getDownloadUrl) {
+      throw new Error("Storage plugin with getDownloadUrl hook is required to download files")
+    }
+
+    const filename = downloadOptions.filename ?? file.name
+    const context = createPluginContext(storagePlugin.id, files.value, options, emitter, storagePlugin)
+    const token = downloadOptions.token ?? fileTokenOf(file)
+    const url = await getDownloadUrl(file.storageKey, { disposition: "attachment", filename, ...(token && { token }) }, context)
+
+    const link = document.createElement("a")
+    link.href = url
+    link.download = filename
+    link.rel = "noopener"
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+  }
+
+  const addFile = async (file: File, addOptions: AddFileOptions = {}) => {
     const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`
     const extension = getExtension(file.name)
 
@@ -339,11 +706,15 @@ export const useUploadKit = <TUploadResult = unknown>(
       data: file,
       source: "local",
       meta: { extension },
+      ...(addOptions.priority !== undefined && { priority: addOptions.priority }),
     }
 
     try {
+      await loadRestrictions()
+      // Probed before preprocessing, so the limits apply to the file the user picked.
+      const dimensions = hasImageRestrictions(restrictions) ? await probeImageDimensions(file) : undefined
       const violation = applyRestrictions(
-        { name: file.name, size: file.size, type: file.type },
+        { name: file.name, size: file.size, type: file.type, ...(dimensions && { dimensions }) },
         {
           existingCount: files.value.length,
           existingTotalSize: files.value.reduce((sum, f) => sum + f.size, 0),
@@ -380,7 +751,7 @@ export const useUploadKit = <TUploadResult = unknown>(
     }
   }
 
-  const addFiles = async (newFiles: File[]) => {
+  const addFiles = async (newFiles: File[], addOptions: AddFileOptions = {}) => {
     // Serialize so each addFile sees the up-to-date `files.value` snapshot for
     // restriction checks (maxFiles, maxTotalSize). Running in parallel via
     // Promise.allSettled lets multiple files pass aggregate checks against the
@@ -388,7 +759,7 @@ export const useUploadKit = <TUploadResult = unknown>(
     const addedFiles: UploadFile<TUploadResult>[] = []
     for (const file of newFiles) {
       try {
-        const added = await addFile(file)
+        const added = await addFile(file, addOptions)
         addedFiles.push(added)
       } catch {
         // addFile already records error state and emits file:error
@@ -431,8 +802,20 @@ export const useUploadKit = <TUploadResult = unknown>(
     reorderFile: fileOps.reorderFile,
     getFile: fileOps.getFile,
     upload,
-    reset: fileOps.reset,
-    status,
+    cancelFile,
+    cancelAll,
+    pause,
+    resume,
+    pauseFile,
+    resumeFile,
+    setFilePriority,
+    retryFile,
+    retryFailed,
+    reset,
+    status: uploadStatus.status,
+    pendingCount: uploadStatus.pendingCount,
+    failedCount: uploadStatus.failedCount,
+    completedCount: uploadStatus.completedCount,
 
     // File Data Access (for editing/processing)
     getFileData: fileOps.getFileData,
@@ -442,6 +825,8 @@ export const useUploadKit = <TUploadResult = unknown>(
     updateFile,
     setExistingFiles,
     addExistingFiles,
+    browse,
+    downloadFile,
 
     // Utilities
     addPlugin,
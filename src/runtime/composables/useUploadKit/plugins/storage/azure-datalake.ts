@@ -1,6 +1,7 @@
 import { ref } from "vue"
 import { DataLakeDirectoryClient, DataLakeFileClient, type PathHttpHeaders } from "@azure/storage-file-datalake"
-import { defineStorageAdapter, type StandaloneUploadOptions } from "../../types"
+import { defineStorageAdapter, type StandaloneUploadOptions, type UploadHookContext } from "../../types"
+import { UploadPausedError } from "../../../../shared"
 
 export interface AzureDataLakeOptions {
   /**
@@ -62,6 +63,17 @@ export interface AzureUploadResult {
 
 type SasMode = "directory" | "file"
 
+/**
+ * Resume state saved after every confirmed append
+ */
+interface AzureUploadCheckpoint {
+  offset: number
+  size: number
+}
+
+/** Size of each append in resumable hook uploads */
+const CHUNK_SIZE = 4 * 1024 * 1024
+
 export const PluginAzureDataLake = defineStorageAdapter<AzureDataLakeOptions, AzureUploadResult>((options) => {
   const sasURL = ref(options.sasURL || "")
   let refreshPromise: Promise<string> | null = null
@@ -229,6 +241,61 @@ export const PluginAzureDataLake = defineStorageAdapter<AzureDataLakeOptions, Az
     return getFileClientFromDirectory(sasUrl, storageKey)
   }
 
+  /**
+   * Run an upload against a file client, deleting the file if the upload is cancelled.
+   * DataLake uploads create the (empty) file before appending data, so an aborted transfer
+   * would otherwise leave a zero-length or partially appended file behind. A pause keeps
+   * the partial file so the upload can continue from its checkpoint.
+   */
+  const uploadOrCleanup = async (
+    fileClient: DataLakeFileClient,
+    signal: AbortSignal | undefined,
+    run: () => Promise<unknown>,
+  ) => {
+    try {
+      await run()
+    } catch (error) {
+      if (signal?.aborted && !(signal.reason instanceof UploadPausedError)) {
+        await fileClient.deleteIfExists().catch(() => {})
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Create the file and append `data` in chunks, recording the confirmed offset after each
+   * append. When the context carries a checkpoint for the same data, the upload continues
+   * from that offset instead of recreating the file.
+   */
+  const appendInChunks = async (
+    fileClient: DataLakeFileClient,
+    data: Blob,
+    context: Pick<UploadHookContext, "onProgress" | "signal" | "checkpoint" | "setCheckpoint">,
+    headers: { metadata: Record<string, string>; pathHttpHeaders: PathHttpHeaders },
+  ) => {
+    const { signal } = context
+    const saved = context.checkpoint as AzureUploadCheckpoint | undefined
+    let offset = saved?.size === data.size ? saved.offset : 0
+
+    if (offset === 0) {
+      await fileClient.create({ ...headers, abortSignal: signal })
+    }
+
+    while (offset < data.size) {
+      const start = offset
+      const chunk = data.slice(start, start + CHUNK_SIZE)
+      await fileClient.append(chunk, start, chunk.size, {
+        abortSignal: signal,
+        onProgress: ({ loadedBytes }) => context.onProgress(Math.round(((start + loadedBytes) / data.size) * 100)),
+      })
+      offset = start + chunk.size
+      context.setCheckpoint({ offset, size: data.size } satisfies AzureUploadCheckpoint)
+    }
+
+    await fileClient.flush(data.size, { pathHttpHeaders: headers.pathHttpHeaders, abortSignal: signal })
+    context.onProgress(100)
+  }
+
   return {
     id: "azure-datalake-storage",
 
@@ -237,19 +304,23 @@ export const PluginAzureDataLake = defineStorageAdapter<AzureDataLakeOptions, Az
       const fileClient = await getFileClient(requestKey, "upload")
 
       const contentType = uploadOptions?.contentType || "application/octet-stream"
+      const signal = uploadOptions?.signal
 
-      await fileClient.upload(data, {
-        pathHttpHeaders: {
-          ...options.pathHttpHeaders,
-          contentType,
-        },
-        onProgress: uploadOptions?.onProgress
-          ? ({ loadedBytes }: { loadedBytes: number }) => {
-              const percentage = Math.round((loadedBytes / data.size) * 100)
-              uploadOptions.onProgress!(percentage)
-            }
-          : undefined,
-      })
+      await uploadOrCleanup(fileClient, signal, () =>
+        fileClient.upload(data, {
+          abortSignal: signal,
+          pathHttpHeaders: {
+            ...options.pathHttpHeaders,
+            contentType,
+          },
+          onProgress: uploadOptions?.onProgress
+            ? ({ loadedBytes }: { loadedBytes: number }) => {
+                const percentage = Math.round((loadedBytes / data.size) * 100)
+                uploadOptions.onProgress!(percentage)
+              }
+            : undefined,
+        }),
+      )
 
       const actualStorageKey = getBlobPathFromUrl(fileClient.url) || requestKey
 
@@ -275,22 +346,21 @@ export const PluginAzureDataLake = defineStorageAdapter<AzureDataLakeOptions, Az
         const requestKey = buildFullStorageKey(file.id, true)
         const fileClient = await getFileClient(requestKey, "upload")
 
-        await fileClient.upload(file.data, {
-          metadata: {
-            ...options.metadata,
-            mimeType: file.mimeType,
-            size: String(file.size),
-            originalName: file.name,
-          },
-          pathHttpHeaders: {
-            ...options.pathHttpHeaders,
-            contentType: file.mimeType,
-          },
-          onProgress: ({ loadedBytes }: { loadedBytes: number }) => {
-            const uploadedPercentage = Math.round((loadedBytes / file.size) * 100)
-            context.onProgress(uploadedPercentage)
-          },
-        })
+        const fileData = file.data
+        await uploadOrCleanup(fileClient, context.signal, () =>
+          appendInChunks(fileClient, fileData, context, {
+            metadata: {
+              ...options.metadata,
+              mimeType: file.mimeType,
+              size: String(file.size),
+              originalName: file.name,
+            },
+            pathHttpHeaders: {
+              ...options.pathHttpHeaders,
+              contentType: file.mimeType,
+            },
+          }),
+        )
 
         // Extract the actual storage key from the file client URL
         const actualStorageKey = getBlobPathFromUrl(fileClient.url) || requestKey
@@ -6,8 +6,10 @@ import {
   deleteObject,
   type FirebaseStorage,
   type UploadMetadata,
+  type UploadTask,
 } from "firebase/storage"
 import { defineStorageAdapter, type StandaloneUploadOptions } from "../../types"
+import { UploadPausedError } from "../../../../shared"
 
 export interface FirebaseStorageOptions {
   /**
@@ -101,6 +103,11 @@ export const PluginFirebaseStorage = defineStorageAdapter<FirebaseStorageOptions
   /**
    * Upload a file to Firebase Storage with progress tracking.
    * Expects storageKey to be the full path.
+   *
+   * Aborting `signal` cancels the resumable upload task; Firebase discards the
+   * uncommitted session, so no partial object is left behind. When the abort reason is
+   * an `UploadPausedError`, the task is paused instead and handed to `savePaused` so a
+   * later call can pass it back as `pausedTask` and continue the same upload session.
    */
   const uploadToFirebase = (
     storageKey: string,
@@ -108,6 +115,8 @@ export const PluginFirebaseStorage = defineStorageAdapter<FirebaseStorageOptions
     mimeType: string,
     fileName: string,
     onProgress: (percentage: number) => void,
+    signal?: AbortSignal,
+    resumable?: { pausedTask?: UploadTask; savePaused: (task: UploadTask | undefined) => void },
   ): Promise<FirebaseStorageUploadResult> => {
     const fileRef = getStorageRef(storageKey)
 
@@ -123,7 +132,16 @@ export const PluginFirebaseStorage = defineStorageAdapter<FirebaseStorageOptions
     }
 
     return new Promise<FirebaseStorageUploadResult>((resolve, reject) => {
-      const uploadTask = uploadBytesResumable(fileRef, data, metadata)
+      if (signal?.aborted) {
+        reject(new Error("Upload was aborted"))
+        return
+      }
+
+      const uploadTask = resumable?.pausedTask ?? uploadBytesResumable(fileRef, data, metadata)
+      if (resumable?.pausedTask) {
+        resumable.savePaused(undefined)
+        uploadTask.resume()
+      }
 
       const handleProgress = (snapshot: { bytesTransferred: number; totalBytes: number }) => {
         const percentage = Math.round((snapshot.bytesTransferred / snapshot.totalBytes) * 100)
@@ -149,7 +167,22 @@ export const PluginFirebaseStorage = defineStorageAdapter<FirebaseStorageOptions
         }
       }
 
-      uploadTask.on("state_changed", handleProgress, handleError, handleComplete)
+      const unsubscribe = uploadTask.on("state_changed", handleProgress, handleError, handleComplete)
+
+      signal?.addEventListener(
+        "abort",
+        () => {
+          if (!(signal.reason instanceof UploadPausedError)) {
+            uploadTask.cancel()
+            return
+          }
+          uploadTask.pause()
+          unsubscribe()
+          resumable?.savePaused(uploadTask)
+          reject(signal.reason)
+        },
+        { once: true },
+      )
     })
   }
 
@@ -160,7 +193,14 @@ export const PluginFirebaseStorage = defineStorageAdapter<FirebaseStorageOptions
       const fullKey = buildFullStorageKey(storageKey)
       const contentType = uploadOptions?.contentType || "application/octet-stream"
 
-      return uploadToFirebase(fullKey, data, contentType, storageKey, uploadOptions?.onProgress || (() => {}))
+      return uploadToFirebase(
+        fullKey,
+        data,
+        contentType,
+        storageKey,
+        uploadOptions?.onProgress || (() => {}),
+        uploadOptions?.signal,
+      )
     },
 
     hooks: {
@@ -173,7 +213,11 @@ export const PluginFirebaseStorage = defineStorageAdapter<FirebaseStorageOptions
         }
 
         const storageKey = buildFullStorageKey(file.id)
-        return uploadToFirebase(storageKey, file.data as Blob, file.mimeType, file.name, context.onProgress)
+        return uploadToFirebase(storageKey, file.data as Blob, file.mimeType, file.name, context.onProgress, context.signal, {
+          // The paused task itself is the checkpoint: resuming it continues the same upload session
+          pausedTask: context.checkpoint as UploadTask | undefined,
+          savePaused: context.setCheckpoint,
+        })
       },
 
       /**
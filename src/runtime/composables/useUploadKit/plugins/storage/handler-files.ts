@@ -0,0 +1,94 @@
+import type { BrowseOptions, DownloadOptions, MinimumRemoteFileAttributes, RemoteFilePage, UploadFile } from "../../types"
+import { UploadHttpError } from "../../../../shared"
+
+/** Response of `GET ${handlerRoute}/meta/:fileId`. */
+interface RemoteFileMeta {
+  fileId: string
+  size: number
+  mimeType: string
+  downloadUrl: string
+}
+
+/** Response of `GET ${handlerRoute}/list`. */
+interface RemoteFileList {
+  files: RemoteFileMeta[]
+  cursor?: string
+}
+
+const toRemoteFile = (meta: RemoteFileMeta) => ({
+  size: meta.size,
+  mimeType: meta.mimeType,
+  remoteUrl: meta.downloadUrl,
+  uploadResult: { url: meta.downloadUrl, storageKey: meta.fileId },
+})
+
+/** Ownership token the server issued with the upload, if any. */
+export const fileTokenOf = (file: UploadFile): string | undefined => {
+  const token = (file.uploadResult as { fileToken?: unknown } | undefined)?.fileToken
+  return typeof token === "string" ? token : undefined
+}
+
+const request = async (url: string, init: RequestInit, tag: string) => {
+  const response = await fetch(url, init)
+  if (!response.ok) {
+    const text = await response.text().catch(() => "")
+    throw new UploadHttpError(`[${tag}] ${url} returned ${response.status}: ${text}`, response.status)
+  }
+  return response
+}
+
+/**
+ * `getRemoteFile`, `list`, `getDownloadUrl` and `remove` hooks shared by the built-in transports.
+ * They go through the auto-mounted `GET /meta/:fileId`, `GET /list`, `GET /download/:fileId` and
+ * `DELETE /:fileId` handlers, so `authorize` and `beforeDelete` apply exactly as they do to uploads.
+ * In `proxy` download mode the download handler streams the file itself, so its URL is used as-is.
+ */
+export const createHandlerFileHooks = (endpoint: string, tag: string, downloadMode: "presigned" | "proxy" = "presigned") => {
+  const fileUrl = (path: string, key: string) => `${endpoint}${path}/${encodeURIComponent(key)}`
+
+  return {
+    async getRemoteFile(storageKey: string): Promise<MinimumRemoteFileAttributes<{ url: string; storageKey: string }>> {
+      const response = await request(fileUrl("/meta", storageKey), { method: "GET" }, tag)
+      return toRemoteFile((await response.json()) as RemoteFileMeta)
+    },
+
+    async list(options: BrowseOptions): Promise<RemoteFilePage<{ url: string; storageKey: string }>> {
+      const query = new URLSearchParams()
+      if (options.prefix) query.set("prefix", options.prefix)
+      if (options.cursor) query.set("cursor", options.cursor)
+      if (options.limit !== undefined) query.set("limit", String(options.limit))
+      const search = query.toString()
+      const response = await request(`${endpoint}/list${search ? `?${search}` : ""}`, { method: "GET" }, tag)
+      const page = (await response.json()) as RemoteFileList
+      return {
+        files: page.files.map((meta) => ({ storageKey: meta.fileId, ...toRemoteFile(meta) })),
+        cursor: page.cursor,
+      }
+    },
+
+    async getDownloadUrl(storageKey: string, options: DownloadOptions): Promise<string> {
+      const query = new URLSearchParams()
+      if (options.disposition) query.set("disposition", options.disposition)
+      if (options.filename) query.set("filename", options.filename)
+      // A query parameter rather than a header, so proxy-mode URLs work as plain links.
+      if (options.token) query.set("token", options.token)
+      const search = query.toString()
+      const url = `${fileUrl("/download", storageKey)}${search ? `?${search}` : ""}`
+      if (downloadMode === "proxy") return url
+
+      const response = await request(url, { method: "GET" }, tag)
+      return ((await response.json()) as { downloadUrl: string }).downloadUrl
+    },
+
+    async remove(file: UploadFile) {
+      // Never uploaded — nothing to delete.
+      if (!file.storageKey) return
+      const fileToken = fileTokenOf(file)
+      await request(
+        fileUrl("", file.storageKey),
+        { method: "DELETE", ...(fileToken && { headers: { "X-Upload-Token": fileToken } }) },
+        tag,
+      )
+    },
+  }
+}
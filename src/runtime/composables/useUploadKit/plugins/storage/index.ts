@@ -7,6 +7,7 @@
  * import { PluginS3 } from "nuxt-upload-kit/providers/s3"
  * import { PluginAzureDataLake } from "nuxt-upload-kit/providers/azure-datalake"
  * import { PluginFirebaseStorage } from "nuxt-upload-kit/providers/firebase"
+ * import { PluginTus } from "nuxt-upload-kit/providers/tus"
  * ```
  *
  * This prevents bundling unused provider code and external SDK dependencies.
@@ -16,3 +17,4 @@
 export type { S3Options, S3UploadResult } from "./s3"
 export type { AzureDataLakeOptions, AzureUploadResult } from "./azure-datalake"
 export type { FirebaseStorageOptions, FirebaseStorageUploadResult } from "./firebase-storage"
+export type { TusOptions, TusUploadResult } from "./tus"
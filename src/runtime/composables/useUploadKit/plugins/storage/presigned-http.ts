@@ -1,113 +1,406 @@
 import { defineStorageAdapter, type StandaloneUploadOptions } from "../../types"
+import { UploadHttpError, UploadNetworkError, UploadPausedError } from "../../../../shared"
+import { parseRetryAfter } from "../../retry"
+import { createHandlerFileHooks } from "./handler-files"
+
+export interface PresignedHttpMultipartOptions {
+  /**
+   * Files of at least this many bytes are uploaded in parts.
+   * @default 104857600 (100 MiB)
+   */
+  threshold?: number
+  /**
+   * Preferred part size in bytes. The server raises it to S3's 5 MiB minimum, or further
+   * when the file would otherwise need more than 10,000 parts.
+   * @default 8388608 (8 MiB)
+   */
+  partSize?: number
+  /**
+   * Parts uploaded at once for a single file.
+   * @default 4
+   */
+  concurrency?: number
+}
 
 export interface PresignedHttpOptions {
   /** Mount path of the auto-mounted upload endpoints. Defaults to the module's `handlerRoute`. */
   endpoint: string
   /**
-   * Retry count for the `/presign` request when it fails with a network error or 5xx
+   * Retry count for the `/presign`, `/complete` and `/multipart/*` requests when they fail with a network error or 5xx
    * response. Each retry waits `2^attempt * 200ms` (200ms, 400ms, 800ms by default).
-   * 4xx responses (rejected by `authorize`/`validators`/`restrictions`) are not retried.
+   * 429 responses are retried after their `Retry-After` delay. Other 4xx responses (rejected by
+   * `authorize`/`validators`/`restrictions`) are not retried. Ignored for uploads started by a
+   * `useUploadKit` with a `retry` policy, which retries the whole file instead.
    * @default 3
    */
   retries?: number
+  /**
+   * Upload large files as parallel parts through the `/multipart/*` endpoints. Needs a server
+   * storage adapter with multipart support (e.g. `S3Storage`); the default transport enables
+   * it automatically when the server reports that capability.
+   * @default false
+   */
+  multipart?: boolean | PresignedHttpMultipartOptions
+  /**
+   * How the server answers `/download/:fileId`. With `proxy`, `getDownloadUrl` returns the
+   * handler URL itself instead of asking it for a signed one. The default transport follows the server.
+   * @default "presigned"
+   */
+  downloadMode?: "presigned" | "proxy"
+  /** Restriction profile sent with `/presign` and `/multipart/create`, for the server to enforce. */
+  profile?: string
 }
 
 export interface PresignedHttpUploadResult {
   url: string
   storageKey: string
   etag?: string
+  /** Results of the server's `processors`, by processor name. */
+  processed?: Record<string, unknown>
+  /**
+   * Ownership token from servers using `ownership: { strategy: "token" }`. Store it with
+   * `storageKey`: deleting or downloading the file later requires it.
+   */
+  fileToken?: string
+}
+
+interface MultipartCheckpoint {
+  uploadId: string
+  fileId: string
+  publicUrl: string
+  partSize: number
+  partCount: number
+  parts: Array<{ partNumber: number; etag: string }>
+}
+
+interface TransferOptions {
+  onProgress: (percentage: number) => void
+  signal?: AbortSignal
+  checkpoint?: unknown
+  setCheckpoint?: (checkpoint: unknown) => void
+  /** Request retries for this transfer. Defaults to the `retries` option. */
+  retries?: number
 }
 
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+const DEFAULT_MULTIPART_THRESHOLD = 100 * 1024 * 1024
+const DEFAULT_PART_CONCURRENCY = 4
+
+/** Resolves after `ms`, or as soon as `signal` aborts. */
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer)
+        resolve()
+      },
+      { once: true },
+    )
+  })
+
+const isMultipartCheckpoint = (value: unknown): value is MultipartCheckpoint =>
+  !!value && typeof value === "object" && typeof (value as MultipartCheckpoint).uploadId === "string"
 
 /**
  * Built-in client transport for `mode: "presigned"`.
- * POSTs file metadata to `${endpoint}/presign`, then PUTs the file to the returned signed URL.
+ * POSTs file metadata to `${endpoint}/presign`, PUTs the file to the returned signed URL (or
+ * POSTs it as a form when the server returns POST policy `fields`), then confirms it with
+ * `${endpoint}/complete` so the server can run `afterUpload`.
+ * With `multipart` enabled, large files go through `${endpoint}/multipart/*` instead.
+ * Existing files are resolved through `${endpoint}/meta/:fileId`, listed with `${endpoint}/list`,
+ * downloaded through `${endpoint}/download/:fileId` and deleted with `DELETE ${endpoint}/:fileId`.
  * Storage credentials and key strategy live server-side in the upload server config.
  */
 export const PluginPresignedHttp = defineStorageAdapter<PresignedHttpOptions, PresignedHttpUploadResult>((options) => {
-  const presignEndpoint = `${options.endpoint.replace(/\/+$/, "")}/presign`
+  const baseEndpoint = options.endpoint.replace(/\/+$/, "")
+  const presignEndpoint = `${baseEndpoint}/presign`
+  const completeEndpoint = `${baseEndpoint}/complete`
+  const multipartEndpoint = `${baseEndpoint}/multipart`
   const maxRetries = options.retries ?? 3
+  const multipart = options.multipart === true ? {} : options.multipart || null
+  const fileHooks = createHandlerFileHooks(baseEndpoint, "presigned-http", options.downloadMode)
 
-  const requestPresign = async (file: { name: string; size: number; mimeType: string }) => {
+  /**
+   * POST a JSON body to one of the upload endpoints, retrying network errors and 5xx responses.
+   * 4xx responses (rejected by `authorize`/`validators`/`restrictions`) are surfaced immediately.
+   */
+  const postJson = async <T>(url: string, body: unknown, signal?: AbortSignal, retries = maxRetries): Promise<T> => {
     let lastError: unknown
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      signal?.throwIfAborted()
       let response: Response | undefined
       try {
-        response = await fetch(presignEndpoint, {
+        response = await fetch(url, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ file }),
+          body: JSON.stringify(body),
+          signal,
         })
       } catch (err) {
+        if (signal?.aborted) throw err
         // Network error — retryable.
         lastError = err
-        if (attempt < maxRetries) await sleep(2 ** attempt * 200)
+        if (attempt < retries) await sleep(2 ** attempt * 200, signal)
         continue
       }
-      if (response.ok) {
-        return (await response.json()) as {
-          uploadUrl: string
-          publicUrl: string
-          fileId: string
-          headers?: Record<string, string>
-        }
-      }
+      if (response.ok) return (await response.json()) as T
       const text = await response.text().catch(() => "")
-      const error = new Error(`[presigned-http] ${presignEndpoint} returned ${response.status}: ${text}`)
-      // 4xx is a rejection (auth, validators, restrictions). Don't retry — surface immediately.
-      if (response.status >= 400 && response.status < 500) throw error
-      // 5xx — retryable.
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"))
+      const error = new UploadHttpError(
+        `[presigned-http] ${url} returned ${response.status}: ${text}`,
+        response.status,
+        retryAfter,
+      )
+      // 429 — rate limited. Wait as long as the server asks, then retry.
+      if (response.status === 429) {
+        lastError = error
+        if (attempt < retries) await sleep(retryAfter ?? 2 ** attempt * 200, signal)
+        continue
+      }
+      // 4xx is a rejection (auth, validators, restrictions) and 501 an endpoint the adapter
+      // doesn't support. Don't retry — surface immediately.
+      if ((response.status >= 400 && response.status < 500) || response.status === 501) throw error
+      // Other 5xx — retryable.
       lastError = error
-      if (attempt < maxRetries) await sleep(2 ** attempt * 200)
+      if (attempt < retries) await sleep(retryAfter ?? 2 ** attempt * 200, signal)
     }
-    throw lastError instanceof Error ? lastError : new Error("[presigned-http] /presign failed after retries")
+    throw lastError instanceof Error ? lastError : new Error(`[presigned-http] ${url} failed after retries`)
   }
 
-  const putWithProgress = (
+  const requestPresign = (file: { name: string; size: number; mimeType: string }, signal?: AbortSignal, retries?: number) =>
+    postJson<{
+      uploadUrl: string
+      publicUrl: string
+      fileId: string
+      fields?: Record<string, string>
+      headers?: Record<string, string>
+      fileToken?: string
+    }>(presignEndpoint, { file, profile: options.profile }, signal, retries)
+
+  /** Send `body` with XHR for upload progress. Resolves with the response's ETag, if exposed. */
+  const sendWithProgress = (
+    method: "PUT" | "POST",
     url: string,
-    data: File | Blob,
-    contentType: string,
-    onProgress: (percentage: number) => void,
-    extraHeaders?: Record<string, string>,
+    body: Blob | FormData,
+    onProgress: (loaded: number, total: number) => void,
+    headers: Record<string, string>,
+    signal?: AbortSignal,
   ): Promise<string | undefined> =>
     new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(new Error("Upload was aborted"))
       const xhr = new XMLHttpRequest()
       xhr.upload.addEventListener("progress", (event) => {
-        if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100))
+        if (event.lengthComputable) onProgress(event.loaded, event.total)
       })
       xhr.addEventListener("load", () => {
         if (xhr.status >= 200 && xhr.status < 300) {
           resolve(xhr.getResponseHeader("ETag")?.replaceAll('"', ""))
         } else {
-          reject(new Error(`Upload failed with status ${xhr.status}: ${xhr.statusText}`))
+          const retryAfter = parseRetryAfter(xhr.getResponseHeader("Retry-After"))
+          reject(new UploadHttpError(`Upload failed with status ${xhr.status}: ${xhr.statusText}`, xhr.status, retryAfter))
         }
       })
-      xhr.addEventListener("error", () => reject(new Error("Upload failed due to network error")))
+      xhr.addEventListener("error", () => reject(new UploadNetworkError()))
       xhr.addEventListener("abort", () => reject(new Error("Upload was aborted")))
-      xhr.open("PUT", url)
-      let extraHasContentType = false
-      if (extraHeaders) {
-        for (const [k, v] of Object.entries(extraHeaders)) {
-          if (k.toLowerCase() === "content-type") extraHasContentType = true
-          xhr.setRequestHeader(k, v)
+      // A single PUT or POST is atomic on every supported backend: aborting it leaves no partial object.
+      signal?.addEventListener("abort", () => xhr.abort(), { once: true })
+      xhr.open(method, url)
+      for (const [k, v] of Object.entries(headers)) xhr.setRequestHeader(k, v)
+      xhr.send(body)
+    })
+
+  const putWithProgress = (
+    url: string,
+    data: File | Blob,
+    contentType: string,
+    onProgress: (loaded: number, total: number) => void,
+    extraHeaders: Record<string, string> = {},
+    signal?: AbortSignal,
+  ) => {
+    const extraHasContentType = Object.keys(extraHeaders).some((k) => k.toLowerCase() === "content-type")
+    const headers = extraHasContentType ? extraHeaders : { ...extraHeaders, "Content-Type": contentType }
+    return sendWithProgress("PUT", url, data, onProgress, headers, signal)
+  }
+
+  /**
+   * POST-policy upload: the signed `fields` as form fields, then the file, which S3 requires to
+   * come last. The policy pins the Content-Type, so the file part carries it too.
+   */
+  const postFormWithProgress = (
+    url: string,
+    data: File | Blob,
+    contentType: string,
+    fields: Record<string, string>,
+    onProgress: (loaded: number, total: number) => void,
+    signal?: AbortSignal,
+  ) => {
+    const form = new FormData()
+    for (const [name, value] of Object.entries(fields)) form.append(name, value)
+    form.append("file", new Blob([data], { type: contentType }))
+    return sendWithProgress("POST", url, form, onProgress, {}, signal)
+  }
+
+  /**
+   * Have the server verify the stored object and run its `processors` and `afterUpload`. Adapters
+   * without `stat` answer 501; the PUT itself succeeded, so that isn't treated as a failed upload.
+   */
+  const confirmUpload = async (fileId: string, signal?: AbortSignal, retries?: number) => {
+    try {
+      const result = await postJson<{ processed?: Record<string, unknown> }>(completeEndpoint, { fileId }, signal, retries)
+      return result.processed
+    } catch (err) {
+      if (!(err instanceof UploadHttpError && err.status === 501)) throw err
+      return undefined
+    }
+  }
+
+  const uploadSingle = async (data: Blob | File, name: string, contentType: string, transfer: TransferOptions) => {
+    const { uploadUrl, publicUrl, fileId, fields, headers, fileToken } = await requestPresign(
+      { name, size: data.size, mimeType: contentType },
+      transfer.signal,
+      transfer.retries,
+    )
+    const onProgress = (loaded: number, total: number) => transfer.onProgress(Math.round((loaded / total) * 100))
+    const etag = fields
+      ? await postFormWithProgress(uploadUrl, data, contentType, fields, onProgress, transfer.signal)
+      : await putWithProgress(uploadUrl, data, contentType, onProgress, headers, transfer.signal)
+    const processed = await confirmUpload(fileId, transfer.signal, transfer.retries)
+    return { url: publicUrl, storageKey: fileId, etag, ...(processed && { processed }), ...(fileToken && { fileToken }) }
+  }
+
+  /**
+   * Upload `data` as parts, `concurrency` at a time. Finished parts are saved through
+   * `setCheckpoint`, so a resumed or retried transfer only uploads the parts still missing.
+   * Cancelling (any abort other than a pause) aborts the multipart upload server-side.
+   */
+  const uploadMultipart = async (
+    data: Blob | File,
+    name: string,
+    contentType: string,
+    transfer: TransferOptions,
+    settings: PresignedHttpMultipartOptions,
+  ) => {
+    const { signal, setCheckpoint, retries } = transfer
+    let state = isMultipartCheckpoint(transfer.checkpoint) ? transfer.checkpoint : undefined
+    if (!state) {
+      const init = await postJson<Omit<MultipartCheckpoint, "parts">>(
+        `${multipartEndpoint}/create`,
+        { file: { name, size: data.size, mimeType: contentType }, partSize: settings.partSize, profile: options.profile },
+        signal,
+        retries,
+      )
+      state = { ...init, parts: [] }
+      setCheckpoint?.(state)
+    }
+    const session = { ...state }
+
+    const onAbort = () => {
+      if (signal?.reason instanceof UploadPausedError) return
+      // Best effort: a failed abort leaves parts behind for the bucket's lifecycle rule.
+      fetch(`${multipartEndpoint}/abort`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ uploadId: session.uploadId }),
+        keepalive: true,
+      }).catch(() => {})
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+
+    // One failed part stops its siblings; finished parts stay in the checkpoint.
+    const controller = new AbortController()
+    const stop = () => controller.abort(signal?.reason)
+    signal?.addEventListener("abort", stop, { once: true })
+
+    const partBytes = (partNumber: number) => Math.min(session.partSize, data.size - (partNumber - 1) * session.partSize)
+    let completedBytes = session.parts.reduce((sum, part) => sum + partBytes(part.partNumber), 0)
+    const inFlight = new Map<number, number>()
+    const reportProgress = () => {
+      let loaded = completedBytes
+      for (const bytes of inFlight.values()) loaded += bytes
+      transfer.onProgress(data.size === 0 ? 100 : Math.min(100, Math.round((loaded / data.size) * 100)))
+    }
+
+    const done = new Set(session.parts.map((part) => part.partNumber))
+    const remaining = Array.from({ length: session.partCount }, (_, i) => i + 1).filter((n) => !done.has(n))
+
+    const worker = async () => {
+      while (remaining.length > 0) {
+        controller.signal.throwIfAborted()
+        const partNumber = remaining.shift()!
+        const { uploadUrl, headers } = await postJson<{ uploadUrl: string; headers?: Record<string, string> }>(
+          `${multipartEndpoint}/sign-part`,
+          { uploadId: session.uploadId, partNumber },
+          controller.signal,
+          retries,
+        )
+        const start = (partNumber - 1) * session.partSize
+        const etag = await putWithProgress(
+          uploadUrl,
+          data.slice(start, start + session.partSize),
+          contentType,
+          (loaded) => {
+            inFlight.set(partNumber, loaded)
+            reportProgress()
+          },
+          headers,
+          controller.signal,
+        )
+        if (!etag) {
+          throw new Error("[presigned-http] Part upload returned no ETag. Expose the `ETag` header in the bucket's CORS rules.")
         }
+        inFlight.delete(partNumber)
+        completedBytes += partBytes(partNumber)
+        session.parts = [...session.parts, { partNumber, etag }]
+        setCheckpoint?.({ ...session })
+        reportProgress()
       }
-      if (!extraHasContentType) xhr.setRequestHeader("Content-Type", contentType)
-      xhr.send(data)
-    })
+    }
 
-  const upload = async (data: Blob | File, storageKey: string, uploadOptions?: StandaloneUploadOptions) => {
-    const contentType = uploadOptions?.contentType || "application/octet-stream"
-    const { uploadUrl, publicUrl, fileId, headers } = await requestPresign({
-      name: storageKey,
-      size: data.size,
-      mimeType: contentType,
-    })
-    const etag = await putWithProgress(uploadUrl, data, contentType, uploadOptions?.onProgress || (() => {}), headers)
-    return { url: publicUrl, storageKey: fileId, etag }
+    try {
+      const concurrency = Math.max(1, Math.floor(settings.concurrency ?? DEFAULT_PART_CONCURRENCY))
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, remaining.length) }, () =>
+          worker().catch((err) => {
+            controller.abort(err)
+            throw err
+          }),
+        ),
+      )
+      const result = await postJson<{
+        publicUrl: string
+        fileId: string
+        processed?: Record<string, unknown>
+        fileToken?: string
+      }>(`${multipartEndpoint}/complete`, { uploadId: session.uploadId, parts: session.parts }, signal, retries)
+      return {
+        url: result.publicUrl,
+        storageKey: result.fileId,
+        ...(result.processed && { processed: result.processed }),
+        ...(result.fileToken && { fileToken: result.fileToken }),
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort)
+      signal?.removeEventListener("abort", stop)
+    }
   }
 
+  const transferData = (data: Blob | File, name: string, contentType: string, transfer: TransferOptions) => {
+    if (
+      multipart &&
+      (isMultipartCheckpoint(transfer.checkpoint) || data.size >= (multipart.threshold ?? DEFAULT_MULTIPART_THRESHOLD))
+    ) {
+      return uploadMultipart(data, name, contentType, transfer, multipart)
+    }
+    return uploadSingle(data, name, contentType, transfer)
+  }
+
+  const upload = async (data: Blob | File, storageKey: string, uploadOptions?: StandaloneUploadOptions) =>
+    transferData(data, storageKey, uploadOptions?.contentType || "application/octet-stream", {
+      onProgress: uploadOptions?.onProgress || (() => {}),
+      signal: uploadOptions?.signal,
+    })
+
   return {
     id: "presigned-http",
     upload,
@@ -116,8 +409,19 @@ export const PluginPresignedHttp = defineStorageAdapter<PresignedHttpOptions, Pr
         if (file.source !== "local" || file.data === null) {
           throw new Error("Cannot upload remote file - no local data available")
         }
-        return upload(file.data, file.name, { contentType: file.mimeType, onProgress: context.onProgress })
+        return transferData(file.data, file.name, file.mimeType || "application/octet-stream", {
+          onProgress: context.onProgress,
+          signal: context.signal,
+          checkpoint: context.checkpoint,
+          setCheckpoint: context.setCheckpoint,
+          // The uploader's retry policy re-runs the whole transfer; retrying requests here too would multiply attempts.
+          ...(context.options.retry && { retries: 0 }),
+        })
       },
+      getRemoteFile: fileHooks.getRemoteFile,
+      list: fileHooks.list,
+      getDownloadUrl: fileHooks.getDownloadUrl,
+      remove: fileHooks.remove,
     },
   }
 })
@@ -1,4 +1,5 @@
 import { defineStorageAdapter, type StandaloneUploadOptions } from "../../types"
+import { UploadHttpError, UploadNetworkError } from "../../../../shared"
 
 export interface S3Options {
   /**
@@ -109,9 +110,10 @@ export const PluginS3 = defineStorageAdapter<S3Options, S3UploadResult>((options
   }
 
   /**
-   * Retry an async operation with exponential backoff
+   * Retry an async operation with exponential backoff.
+   * Stops immediately once `signal` is aborted — a cancelled upload is never retried.
    */
-  async function withRetry<T>(operation: () => Promise<T>, operationName: string): Promise<T> {
+  async function withRetry<T>(operation: () => Promise<T>, operationName: string, signal?: AbortSignal): Promise<T> {
     let lastError: Error | undefined
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
@@ -120,6 +122,8 @@ export const PluginS3 = defineStorageAdapter<S3Options, S3UploadResult>((options
       } catch (error) {
         lastError = error as Error
 
+        if (signal?.aborted) throw error
+
         if (attempt === maxRetries) {
           break
         }
@@ -144,23 +148,33 @@ export const PluginS3 = defineStorageAdapter<S3Options, S3UploadResult>((options
     id: "s3-storage",
 
     async upload(data: Blob | File, storageKey: string, uploadOptions?: StandaloneUploadOptions) {
-      return withRetry(async () => {
-        const fullKey = buildFullStorageKey(storageKey)
-        const contentType = uploadOptions?.contentType || "application/octet-stream"
-
-        const { uploadUrl, publicUrl } = await options.getPresignedUploadUrl(fullKey, contentType, {
-          fileName: storageKey,
-          fileSize: data.size,
-        })
-
-        const etag = await uploadWithProgress(uploadUrl, data, contentType, uploadOptions?.onProgress || (() => {}))
-
-        return {
-          url: publicUrl,
-          storageKey: fullKey,
-          etag,
-        } satisfies S3UploadResult
-      }, `Standalone upload "${storageKey}"`)
+      return withRetry(
+        async () => {
+          const fullKey = buildFullStorageKey(storageKey)
+          const contentType = uploadOptions?.contentType || "application/octet-stream"
+
+          const { uploadUrl, publicUrl } = await options.getPresignedUploadUrl(fullKey, contentType, {
+            fileName: storageKey,
+            fileSize: data.size,
+          })
+
+          const etag = await uploadWithProgress(
+            uploadUrl,
+            data,
+            contentType,
+            uploadOptions?.onProgress || (() => {}),
+            uploadOptions?.signal,
+          )
+
+          return {
+            url: publicUrl,
+            storageKey: fullKey,
+            etag,
+          } satisfies S3UploadResult
+        },
+        `Standalone upload "${storageKey}"`,
+        uploadOptions?.signal,
+      )
     },
 
     hooks: {
@@ -172,25 +186,29 @@ export const PluginS3 = defineStorageAdapter<S3Options, S3UploadResult>((options
           throw new Error("Cannot upload remote file - no local data available")
         }
 
-        return withRetry(async () => {
-          // Build full storage key upfront
-          const storageKey = buildFullStorageKey(file.id)
+        return withRetry(
+          async () => {
+            // Build full storage key upfront
+            const storageKey = buildFullStorageKey(file.id)
 
-          // Get presigned URL from backend
-          const { uploadUrl, publicUrl } = await options.getPresignedUploadUrl(storageKey, file.mimeType, {
-            fileName: file.name,
-            fileSize: file.size,
-          })
+            // Get presigned URL from backend
+            const { uploadUrl, publicUrl } = await options.getPresignedUploadUrl(storageKey, file.mimeType, {
+              fileName: file.name,
+              fileSize: file.size,
+            })
 
-          // Upload using fetch with progress tracking via XMLHttpRequest
-          const etag = await uploadWithProgress(uploadUrl, file.data, file.mimeType, context.onProgress)
+            // Upload using fetch with progress tracking via XMLHttpRequest
+            const etag = await uploadWithProgress(uploadUrl, file.data, file.mimeType, context.onProgress, context.signal)
 
-          return {
-            url: publicUrl,
-            storageKey,
-            etag,
-          } satisfies S3UploadResult
-        }, `Upload file "${file.name}"`)
+            return {
+              url: publicUrl,
+              storageKey,
+              etag,
+            } satisfies S3UploadResult
+          },
+          `Upload file "${file.name}"`,
+          context.signal,
+        )
       },
 
       /**
@@ -259,8 +277,14 @@ function uploadWithProgress(
   data: File | Blob,
   contentType: string,
   onProgress: (percentage: number) => void,
+  signal?: AbortSignal,
 ): Promise<string | undefined> {
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Upload was aborted"))
+      return
+    }
+
     const xhr = new XMLHttpRequest()
 
     xhr.upload.addEventListener("progress", (event) => {
@@ -275,18 +299,21 @@ function uploadWithProgress(
         const etag = xhr.getResponseHeader("ETag")?.replaceAll('"', "")
         resolve(etag)
       } else {
-        reject(new Error(`Upload failed with status ${xhr.status}: ${xhr.statusText}`))
+        reject(new UploadHttpError(`Upload failed with status ${xhr.status}: ${xhr.statusText}`, xhr.status))
       }
     })
 
     xhr.addEventListener("error", () => {
-      reject(new Error("Upload failed due to network error"))
+      reject(new UploadNetworkError())
     })
 
     xhr.addEventListener("abort", () => {
       reject(new Error("Upload was aborted"))
     })
 
+    // Aborting the single PUT leaves no partial object in the bucket
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true })
+
     xhr.open("PUT", url)
     xhr.setRequestHeader("Content-Type", contentType)
     xhr.send(data)
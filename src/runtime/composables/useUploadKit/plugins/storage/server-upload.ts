@@ -1,13 +1,31 @@
 import { defineStorageAdapter, type StandaloneUploadOptions } from "../../types"
+import { UploadHttpError, UploadNetworkError } from "../../../../shared"
+import { parseRetryAfter } from "../../retry"
+import { createHandlerFileHooks } from "./handler-files"
 
 export interface ServerUploadOptions {
   /** Mount path of the auto-mounted upload endpoints. Defaults to the module's `handlerRoute`. */
   endpoint: string
+  /**
+   * How the server answers `/download/:fileId`. With `proxy`, `getDownloadUrl` returns the
+   * handler URL itself instead of asking it for a signed one. The default transport follows the server.
+   * @default "presigned"
+   */
+  downloadMode?: "presigned" | "proxy"
+  /** Restriction profile sent with `/direct`, for the server to enforce. */
+  profile?: string
 }
 
 export interface ServerUploadResult {
   url: string
   storageKey: string
+  /** Results of the server's `processors`, by processor name. */
+  processed?: Record<string, unknown>
+  /**
+   * Ownership token from servers using `ownership: { strategy: "token" }`. Store it with
+   * `storageKey`: deleting or downloading the file later requires it.
+   */
+  fileToken?: string
 }
 
 const postMultipartWithProgress = (
@@ -15,10 +33,14 @@ const postMultipartWithProgress = (
   data: Blob | File,
   filename: string,
   contentType: string,
+  profile: string | undefined,
   onProgress: (percentage: number) => void,
-): Promise<{ publicUrl: string; fileId: string }> =>
+  signal?: AbortSignal,
+): Promise<{ publicUrl: string; fileId: string; processed?: Record<string, unknown>; fileToken?: string }> =>
   new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error("Upload was aborted"))
     const form = new FormData()
+    if (profile !== undefined) form.append("profile", profile)
     form.append("file", new Blob([data], { type: contentType }), filename)
 
     const xhr = new XMLHttpRequest()
@@ -33,11 +55,19 @@ const postMultipartWithProgress = (
           reject(new Error(`[server-upload] failed to parse response: ${(err as Error).message}`))
         }
       } else {
-        reject(new Error(`[server-upload] ${url} returned ${xhr.status}: ${xhr.statusText} ${xhr.responseText}`))
+        reject(
+          new UploadHttpError(
+            `[server-upload] ${url} returned ${xhr.status}: ${xhr.statusText} ${xhr.responseText}`,
+            xhr.status,
+            parseRetryAfter(xhr.getResponseHeader("Retry-After")),
+          ),
+        )
       }
     })
-    xhr.addEventListener("error", () => reject(new Error("Upload failed due to network error")))
+    xhr.addEventListener("error", () => reject(new UploadNetworkError()))
     xhr.addEventListener("abort", () => reject(new Error("Upload was aborted")))
+    // The server only writes to storage once the full body has arrived, so aborting leaves nothing behind.
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true })
     xhr.open("POST", url)
     xhr.send(form)
   })
@@ -46,20 +76,26 @@ const postMultipartWithProgress = (
  * Built-in client transport for `mode: "server"`.
  * POSTs the file as multipart/form-data to `${endpoint}/direct`. The Nitro handler forwards
  * it to the configured storage adapter server-side. Credentials never leave the server.
+ * Existing files are resolved through `${endpoint}/meta/:fileId`, listed with `${endpoint}/list`,
+ * downloaded through `${endpoint}/download/:fileId` and deleted with `DELETE ${endpoint}/:fileId`.
  */
 export const PluginServerUpload = defineStorageAdapter<ServerUploadOptions, ServerUploadResult>((options) => {
-  const directEndpoint = `${options.endpoint.replace(/\/+$/, "")}/direct`
+  const baseEndpoint = options.endpoint.replace(/\/+$/, "")
+  const directEndpoint = `${baseEndpoint}/direct`
+  const fileHooks = createHandlerFileHooks(baseEndpoint, "server-upload", options.downloadMode)
 
   const upload = async (data: Blob | File, storageKey: string, uploadOptions?: StandaloneUploadOptions) => {
     const contentType = uploadOptions?.contentType || "application/octet-stream"
-    const { publicUrl, fileId } = await postMultipartWithProgress(
+    const { publicUrl, fileId, processed, fileToken } = await postMultipartWithProgress(
       directEndpoint,
       data,
       storageKey,
       contentType,
+      options.profile,
       uploadOptions?.onProgress || (() => {}),
+      uploadOptions?.signal,
     )
-    return { url: publicUrl, storageKey: fileId }
+    return { url: publicUrl, storageKey: fileId, ...(processed && { processed }), ...(fileToken && { fileToken }) }
   }
 
   return {
@@ -70,8 +106,16 @@ export const PluginServerUpload = defineStorageAdapter<ServerUploadOptions, Serv
         if (file.source !== "local" || file.data === null) {
           throw new Error("Cannot upload remote file - no local data available")
         }
-        return upload(file.data, file.name, { contentType: file.mimeType, onProgress: context.onProgress })
+        return upload(file.data, file.name, {
+          contentType: file.mimeType,
+          onProgress: context.onProgress,
+          signal: context.signal,
+        })
       },
+      getRemoteFile: fileHooks.getRemoteFile,
+      list: fileHooks.list,
+      getDownloadUrl: fileHooks.getDownloadUrl,
+      remove: fileHooks.remove,
     },
   }
 })
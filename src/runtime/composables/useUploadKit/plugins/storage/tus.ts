@@ -0,0 +1,223 @@
+import { defineStorageAdapter, type StandaloneUploadOptions } from "../../types"
+import { UploadHttpError, UploadNetworkError, UploadPausedError } from "../../../../shared"
+import { parseRetryAfter } from "../../retry"
+
+export interface TusOptions {
+  /**
+   * tus creation endpoint. With the built-in server this is `${handlerRoute}/tus`
+   * (`/api/_upload/tus` by default); any tus 1.0 server with the creation extension works.
+   */
+  endpoint: string
+  /**
+   * Bytes sent per PATCH request. Smaller chunks lose less progress when a request fails;
+   * larger ones mean fewer round trips.
+   * @default 5242880 (5 MiB)
+   */
+  chunkSize?: number
+  /** Extra headers sent with every tus request (e.g. an auth token for a third-party tus server). */
+  headers?: Record<string, string> | (() => Record<string, string>)
+  /** Restriction profile sent as the `profile` upload metadata entry, for the server to enforce. */
+  profile?: string
+}
+
+export interface TusUploadResult {
+  /** Public URL reported by the built-in server, or the tus upload URL for other servers. */
+  url: string
+  storageKey: string
+  /** The tus upload resource, usable with `HEAD` to inspect the upload. */
+  uploadUrl: string
+  /**
+   * Ownership token from servers using `ownership: { strategy: "token" }`. Store it with
+   * `storageKey`: deleting or downloading the file later requires it.
+   */
+  fileToken?: string
+}
+
+interface TusTransfer {
+  onProgress: (percentage: number) => void
+  signal?: AbortSignal
+  checkpoint?: unknown
+  setCheckpoint?: (checkpoint: unknown) => void
+}
+
+const TUS_VERSION = "1.0.0"
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024
+
+const encodeMetadata = (metadata: Record<string, string>): string =>
+  Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value)
+      return `${key} ${btoa(String.fromCharCode(...bytes))}`
+    })
+    .join(",")
+
+const patchWithProgress = (
+  url: string,
+  chunk: Blob,
+  offset: number,
+  headers: Record<string, string>,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal,
+): Promise<(name: string) => string | null> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error("Upload was aborted"))
+    const xhr = new XMLHttpRequest()
+    xhr.upload.addEventListener("progress", (event) => onProgress(event.loaded))
+    xhr.addEventListener("load", () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve((name) => xhr.getResponseHeader(name))
+      } else {
+        reject(new UploadHttpError(`[tus] PATCH ${url} returned ${xhr.status}: ${xhr.statusText}`, xhr.status))
+      }
+    })
+    xhr.addEventListener("error", () => reject(new UploadNetworkError()))
+    xhr.addEventListener("abort", () => reject(new Error("Upload was aborted")))
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true })
+    xhr.open("PATCH", url)
+    for (const [k, v] of Object.entries(headers)) xhr.setRequestHeader(k, v)
+    xhr.setRequestHeader("Tus-Resumable", TUS_VERSION)
+    xhr.setRequestHeader("Upload-Offset", String(offset))
+    xhr.setRequestHeader("Content-Type", "application/offset+octet-stream")
+    xhr.send(chunk)
+  })
+
+/**
+ * Client storage plugin for the tus 1.0 resumable upload protocol.
+ * Creates an upload with `POST`, then sends the file in `chunkSize` PATCH requests. The upload
+ * URL is the checkpoint, so a paused or retried file asks the server for its offset with `HEAD`
+ * and continues from there. Cancelling terminates the upload with `DELETE`.
+ */
+export const PluginTus = defineStorageAdapter<TusOptions, TusUploadResult>((options) => {
+  const endpoint = options.endpoint.replace(/\/+$/, "")
+  const chunkSize = Math.max(1, Math.floor(options.chunkSize ?? DEFAULT_CHUNK_SIZE))
+  const getHeaders = () => (typeof options.headers === "function" ? options.headers() : (options.headers ?? {}))
+
+  const resolveLocation = (location: string) => (/^(?:https?:)?\//.test(location) ? location : `${endpoint}/${location}`)
+
+  const tusFetch = async (url: string, init: RequestInit & { headers?: Record<string, string> }) =>
+    fetch(url, { ...init, headers: { ...getHeaders(), ...init.headers, "Tus-Resumable": TUS_VERSION } })
+
+  const createUpload = async (data: Blob, name: string, contentType: string, signal?: AbortSignal) => {
+    const response = await tusFetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Upload-Length": String(data.size),
+        "Upload-Metadata": encodeMetadata({
+          filename: name,
+          filetype: contentType,
+          ...(options.profile !== undefined && { profile: options.profile }),
+        }),
+      },
+      signal,
+    })
+    const location = response.headers.get("Location")
+    if (!response.ok || !location) {
+      const text = await response.text().catch(() => "")
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"))
+      throw new UploadHttpError(`[tus] ${endpoint} returned ${response.status}: ${text}`, response.status, retryAfter)
+    }
+    return { uploadUrl: resolveLocation(location), header: (name: string) => response.headers.get(name) }
+  }
+
+  /** Current offset of an existing upload, or `null` when the server no longer knows it. */
+  const getOffset = async (uploadUrl: string, signal?: AbortSignal) => {
+    const response = await tusFetch(uploadUrl, { method: "HEAD", signal })
+    if (response.status === 404 || response.status === 410) return null
+    if (!response.ok) throw new UploadHttpError(`[tus] HEAD ${uploadUrl} returned ${response.status}`, response.status)
+    return { offset: Number(response.headers.get("Upload-Offset") ?? 0), header: (name: string) => response.headers.get(name) }
+  }
+
+  const transfer = async (
+    data: Blob,
+    name: string,
+    contentType: string,
+    transferOptions: TusTransfer,
+  ): Promise<TusUploadResult> => {
+    const { signal, setCheckpoint, onProgress } = transferOptions
+
+    let uploadUrl = typeof transferOptions.checkpoint === "string" ? transferOptions.checkpoint : undefined
+    let offset = 0
+    let header: (name: string) => string | null = () => null
+    if (uploadUrl) {
+      const existing = await getOffset(uploadUrl, signal)
+      if (existing) {
+        offset = existing.offset
+        header = existing.header
+      } else {
+        uploadUrl = undefined
+      }
+    }
+    if (!uploadUrl) {
+      const created = await createUpload(data, name, contentType, signal)
+      uploadUrl = created.uploadUrl
+      header = created.header
+      setCheckpoint?.(uploadUrl)
+    }
+    const url = uploadUrl
+
+    const onAbort = () => {
+      if (signal?.reason instanceof UploadPausedError) return
+      tusFetch(url, { method: "DELETE", keepalive: true }).catch(() => {})
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+
+    // The built-in server tags its responses with `Upload-Kit-File-Id` and only adds the public URL
+    // once the file is in storage, so an upload that reached its length without one still needs an
+    // (empty) PATCH to write it. Other tus servers are done as soon as the offset reaches the length.
+    const pending = () =>
+      offset < data.size || (header("Upload-Kit-File-Id") !== null && header("Upload-Kit-Public-Url") === null)
+
+    try {
+      while (pending()) {
+        const start = offset
+        header = await patchWithProgress(
+          url,
+          data.slice(start, start + chunkSize),
+          start,
+          getHeaders(),
+          (loaded) => onProgress(data.size === 0 ? 100 : Math.round(((start + loaded) / data.size) * 100)),
+          signal,
+        )
+        offset = Number(header("Upload-Offset") ?? start)
+        if (pending() && (offset <= start || start >= data.size)) {
+          throw new Error(`[tus] ${url} did not accept the chunk at offset ${start}`)
+        }
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort)
+    }
+
+    onProgress(100)
+    const fileToken = header("Upload-Kit-File-Token")
+    return {
+      url: header("Upload-Kit-Public-Url") ?? url,
+      storageKey: header("Upload-Kit-File-Id") ?? url.slice(url.lastIndexOf("/") + 1),
+      uploadUrl: url,
+      ...(fileToken && { fileToken }),
+    }
+  }
+
+  const upload = async (data: Blob | File, storageKey: string, uploadOptions?: StandaloneUploadOptions) =>
+    transfer(data, storageKey, uploadOptions?.contentType || "application/octet-stream", {
+      onProgress: uploadOptions?.onProgress || (() => {}),
+      signal: uploadOptions?.signal,
+    })
+
+  return {
+    id: "tus",
+    upload,
+    hooks: {
+      async upload(file, context) {
+        if (file.source !== "local" || file.data === null) {
+          throw new Error("Cannot upload remote file - no local data available")
+        }
+        return transfer(file.data, file.name, file.mimeType || "application/octet-stream", {
+          onProgress: context.onProgress,
+          signal: context.signal,
+          checkpoint: context.checkpoint,
+          setCheckpoint: context.setCheckpoint,
+        })
+      },
+    },
+  }
+})
@@ -0,0 +1,67 @@
+import { UploadHttpError, UploadNetworkError } from "../../shared"
+import type { RetryOptions, UploadFile } from "./types"
+
+const DEFAULT_ATTEMPTS = 3
+const DEFAULT_BACKOFF_BASE = 1000
+
+/**
+ * Default `retryable` predicate: retry network failures, 5xx, 408 and 429. Other errors,
+ * such as 4xx responses, restriction violations and misconfiguration thrown before any
+ * request, won't change on a second attempt.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof UploadHttpError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429
+  }
+  // `fetch` rejects with a TypeError when the request never got a response.
+  return error instanceof UploadNetworkError || error instanceof TypeError
+}
+
+/** Delay requested by a `Retry-After` header (seconds or an HTTP date), in milliseconds. */
+export function parseRetryAfter(header: string | null | undefined): number | undefined {
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+export interface RetryPolicy {
+  attempts: number
+  delay: (attempt: number, error: unknown) => number
+  retryable: (error: unknown, file: Readonly<UploadFile>) => boolean
+}
+
+/**
+ * Normalize the `retry` option. Without it, failures are final (`attempts: 0`).
+ * A retry never starts before the `Retry-After` delay the failed response asked for.
+ */
+export function createRetryPolicy(options: RetryOptions | false | undefined): RetryPolicy {
+  if (!options) return { attempts: 0, delay: () => 0, retryable: () => false }
+
+  const { backoff = DEFAULT_BACKOFF_BASE } = options
+  const backoffDelay = typeof backoff === "function" ? backoff : (attempt: number) => 2 ** (attempt - 1) * backoff
+  return {
+    attempts: Math.max(0, Math.floor(options.attempts ?? DEFAULT_ATTEMPTS)),
+    delay: (attempt, error) => Math.max(backoffDelay(attempt), error instanceof UploadHttpError ? (error.retryAfter ?? 0) : 0),
+    retryable: options.retryable ?? isRetryableError,
+  }
+}
+
+/**
+ * Wait `ms`, rejecting early if the signal aborts so a cancelled file doesn't sit out its backoff.
+ */
+export function waitForRetry(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }
+    signal.addEventListener("abort", onAbort, { once: true })
+  })
+}
@@ -0,0 +1,155 @@
+import type { UploadFile } from "./types"
+
+export interface UploadSchedulerDeps<TUploadResult = unknown> {
+  /** Maximum number of files transferring at once. Processing runs ahead by the same amount. */
+  concurrency: number
+  /** Current priority of a queued file (higher runs first). Read at pick time so changes apply to queued files. */
+  getPriority: (fileId: string) => number
+  /** Run the `process` stage. Resolve `null` when the file was dropped (error already recorded). */
+  prepare: (fileId: string, signal: AbortSignal) => Promise<UploadFile<TUploadResult> | null>
+  /** Transfer a prepared file to storage. Must record its own success or failure state. */
+  transfer: (file: UploadFile<TUploadResult>, signal: AbortSignal) => Promise<void>
+  /** Called whenever a file enters or leaves a stage, so callers can re-derive aggregate state. */
+  onChange?: () => void
+}
+
+export interface SchedulerActivity {
+  /** Files waiting for the process stage */
+  queued: number
+  /** Files in the process stage */
+  preparing: number
+  /** Processed files waiting for a transfer slot */
+  prepared: number
+  /** Files transferring to storage */
+  transferring: number
+}
+
+interface QueueEntry<TUploadResult> {
+  fileId: string
+  seq: number
+  signal: AbortSignal
+  prepared?: UploadFile<TUploadResult>
+  settle: () => void
+}
+
+/**
+ * Creates the upload scheduler: a persistent priority queue shared by every `upload()` call.
+ *
+ * Files move through two stages — `prepare` (the `process` plugin stage, e.g. compression) and
+ * `transfer` (the storage upload). Up to `concurrency` files transfer at once while up to
+ * `concurrency` more are prepared ahead of a free slot, so compressing the next file overlaps
+ * uploading the current one. Within each stage the highest priority wins, FIFO on ties.
+ */
+export function createUploadScheduler<TUploadResult = unknown>(deps: UploadSchedulerDeps<TUploadResult>) {
+  const { getPriority, prepare, transfer, onChange } = deps
+  const concurrency = Math.max(1, Math.floor(deps.concurrency))
+
+  const pending: QueueEntry<TUploadResult>[] = []
+  const prepared: QueueEntry<TUploadResult>[] = []
+  let preparing = 0
+  let transferring = 0
+  let seq = 0
+
+  const takeNext = (queue: QueueEntry<TUploadResult>[]): QueueEntry<TUploadResult> | undefined => {
+    let best = -1
+    for (let i = 0; i < queue.length; i++) {
+      const entry = queue[i]!
+      if (best === -1) {
+        best = i
+        continue
+      }
+      const current = queue[best]!
+      const priority = getPriority(entry.fileId)
+      const bestPriority = getPriority(current.fileId)
+      if (priority > bestPriority || (priority === bestPriority && entry.seq < current.seq)) best = i
+    }
+    return best === -1 ? undefined : queue.splice(best, 1)[0]
+  }
+
+  const runPrepare = async (entry: QueueEntry<TUploadResult>) => {
+    try {
+      const file = entry.signal.aborted ? null : await prepare(entry.fileId, entry.signal)
+      if (file && !entry.signal.aborted) {
+        entry.prepared = file
+        prepared.push(entry)
+      } else {
+        entry.settle()
+      }
+    } catch {
+      entry.settle()
+    } finally {
+      preparing--
+      pump()
+    }
+  }
+
+  const runTransfer = async (entry: QueueEntry<TUploadResult>) => {
+    try {
+      if (!entry.signal.aborted) await transfer(entry.prepared!, entry.signal)
+    } catch {
+      // transfer() records its own failure state
+    } finally {
+      transferring--
+      entry.settle()
+      pump()
+    }
+  }
+
+  function pump() {
+    while (transferring < concurrency && prepared.length > 0) {
+      const entry = takeNext(prepared)!
+      transferring++
+      runTransfer(entry)
+    }
+    while (preparing + prepared.length < concurrency && pending.length > 0) {
+      const entry = takeNext(pending)!
+      preparing++
+      runPrepare(entry)
+    }
+    onChange?.()
+  }
+
+  /**
+   * Drop a queued entry whose signal fired before it started, so its batch doesn't wait on a free slot.
+   */
+  const dropIfQueued = (entry: QueueEntry<TUploadResult>) => {
+    for (const queue of [pending, prepared]) {
+      const index = queue.indexOf(entry)
+      if (index !== -1) {
+        queue.splice(index, 1)
+        entry.settle()
+        pump()
+        return
+      }
+    }
+  }
+
+  /**
+   * Queue a batch of files. Resolves once every file in the batch has settled
+   * (completed, failed or cancelled), regardless of the order they finish in.
+   */
+  const enqueue = (batch: Array<{ fileId: string; signal: AbortSignal }>): Promise<void> => {
+    const settled = batch.map(
+      ({ fileId, signal }) =>
+        new Promise<void>((resolve) => {
+          const entry: QueueEntry<TUploadResult> = { fileId, signal, seq: seq++, settle: resolve }
+          signal.addEventListener("abort", () => dropIfQueued(entry), { once: true })
+          pending.push(entry)
+        }),
+    )
+    pump()
+    return Promise.all(settled).then(() => undefined)
+  }
+
+  const getActivity = (): SchedulerActivity => ({
+    queued: pending.length,
+    preparing,
+    prepared: prepared.length,
+    transferring,
+  })
+
+  return {
+    enqueue,
+    getActivity,
+  }
+}
@@ -10,8 +10,19 @@ export type { Restrictions } from "../../shared"
  */
 
 // Core file and upload types
-export type FileStatus = "waiting" | "preprocessing" | "uploading" | "postprocessing" | "complete" | "error"
-export type UploadStatus = "waiting" | "uploading"
+export type FileStatus =
+  "waiting" | "preprocessing" | "uploading" | "paused" | "postprocessing" | "complete" | "error" | "cancelled"
+/**
+ * Aggregate uploader state
+ *
+ * - 'idle': nothing in flight (initial state, or new files added since the last batch)
+ * - 'processing': files are queued or running the `process` stage, none transferring yet
+ * - 'uploading': at least one file is transferring to storage
+ * - 'paused': in-flight work is paused
+ * - 'completed': the last batch finished and every file that wasn't cancelled is complete
+ * - 'completed-with-errors': the last batch finished and some files failed
+ */
+export type UploadStatus = "idle" | "processing" | "uploading" | "paused" | "completed" | "completed-with-errors"
 
 export interface FileProgress {
   percentage: number
@@ -110,6 +121,51 @@ export interface BaseUploadFile<TUploadResult = unknown> {
     url: string
     storageKey: string
   }
+
+  /**
+   * Upload priority within the queue. Higher values are processed and uploaded first;
+   * files with equal priority keep the order they were queued in.
+   * @default 0
+   */
+  priority?: number
+}
+
+/**
+ * Automatic retry policy for failed uploads. Covers both the `process` stage and the
+ * storage transfer; the attempt counter is shared across both.
+ */
+export interface RetryOptions {
+  /**
+   * Number of automatic retries after the first attempt fails
+   * @default 3
+   */
+  attempts?: number
+
+  /**
+   * Delay before each retry in ms. A number is the base of an exponential backoff
+   * (`base * 2^(attempt - 1)`); a function receives the 1-based retry attempt. A longer
+   * `Retry-After` on the failed response (`UploadHttpError.retryAfter`) takes precedence.
+   * @default 1000
+   */
+  backoff?: number | ((attempt: number) => number)
+
+  /**
+   * Decide whether an error is worth retrying. By default network errors (`UploadNetworkError`,
+   * or the `TypeError` a failed `fetch` rejects with), 5xx, 408 and 429 are retried. Anything
+   * else, including 4xx, restriction violations and errors thrown by processing plugins, is not.
+   */
+  retryable?: (error: unknown, file: Readonly<UploadFile>) => boolean
+}
+
+/**
+ * Per-file options accepted by `addFile()` / `addFiles()`
+ */
+export interface AddFileOptions {
+  /**
+   * Upload priority within the queue (higher goes first)
+   * @default 0
+   */
+  priority?: number
 }
 
 /**
@@ -255,6 +311,19 @@ export interface UploadOptions {
    */
   restrictions?: Restrictions
 
+  /**
+   * Apply a named restriction profile from `nuxt.config.ts > uploadKit.profiles`. Its rules
+   * are layered over the shared restrictions, and `restrictions` above still override both.
+   * The built-in transports send the name with each upload, so the server enforces the
+   * profile too.
+   *
+   * @example
+   * ```typescript
+   * useUploadKit({ profile: "avatar" })
+   * ```
+   */
+  profile?: string
+
   /**
    * Generate thumbnail previews for images/videos
    * - false: disabled
@@ -279,6 +348,24 @@ export interface UploadOptions {
    */
   autoUpload?: boolean
 
+  /**
+   * Maximum number of files uploading at the same time. While these transfer, up to the
+   * same number of queued files run the `process` stage (e.g. compression) ahead of them.
+   * @default 1
+   */
+  concurrency?: number
+
+  /**
+   * Retry failed uploads automatically. Disabled by default; failed files can still be
+   * retried manually with `retryFile()` / `retryFailed()`.
+   *
+   * @example
+   * ```typescript
+   * retry: { attempts: 3, backoff: 500 }
+   * ```
+   */
+  retry?: RetryOptions | false
+
   /**
    * Initialize with existing file paths/IDs (e.g., from a form model)
    * Accepts a static array or a reactive ref for deferred initialization.
@@ -325,6 +412,8 @@ export interface StandaloneUploadOptions {
   contentType?: string
   /** Progress callback (0-100) */
   onProgress?: (percentage: number) => void
+  /** Abort the upload. Storage plugins stop the transfer and clean up any partially written object. */
+  signal?: AbortSignal
 }
 
 export interface ImageCompressionOptions {
@@ -343,6 +432,14 @@ type CoreUploaderEvents<TUploadResult = unknown> = {
   "file:replaced": Readonly<UploadFile<TUploadResult>>
   "file:processing": Readonly<UploadFile<TUploadResult>>
   "file:error": { file: Readonly<UploadFile<TUploadResult>>; error: FileError }
+  /** Emitted when a file is cancelled via `cancelFile()` / `cancelAll()` */
+  "file:cancelled": Readonly<UploadFile<TUploadResult>>
+  /** Emitted when an in-flight file is paused via `pauseFile()` / `pause()` */
+  "file:paused": Readonly<UploadFile<TUploadResult>>
+  /** Emitted when a paused file is queued again via `resumeFile()` / `resume()` */
+  "file:resumed": Readonly<UploadFile<TUploadResult>>
+  /** Emitted before a failed file is attempted again. `attempt` is 1 for the first retry. */
+  "file:retry": { file: Readonly<UploadFile<TUploadResult>>; attempt: number; error: FileError }
   "upload:start": Array<Readonly<UploadFile<TUploadResult>>>
   "upload:complete": Array<Required<Readonly<UploadFile<TUploadResult>>>>
   "upload:error": FileError
@@ -398,12 +495,40 @@ export type SetupHook<TPluginEvents extends Record<string, any> = Record<string,
   context: PluginContext<TPluginEvents>,
 ) => Promise<void>
 
+/**
+ * Context passed to a storage plugin's `upload` hook.
+ */
+export type UploadHookContext<TPluginEvents extends Record<string, any> = Record<string, never>> =
+  PluginContext<TPluginEvents> & {
+    onProgress: (progress: number) => void
+    /**
+     * Aborted when the file is cancelled (`cancelFile()` / `cancelAll()`) or paused
+     * (`pauseFile()` / `pause()`). Storage plugins must stop the transfer and reject. On cancel
+     * they clean up any partially written object; when `signal.reason` is an `UploadPausedError`
+     * they keep it so the upload can continue from `checkpoint`.
+     */
+    signal: AbortSignal
+    /**
+     * Resume state saved through `setCheckpoint` by an earlier attempt at this file (after a
+     * pause or a retry). `undefined` on a fresh upload.
+     */
+    checkpoint?: unknown
+    /**
+     * Record how far the transfer got (e.g. the last confirmed byte offset). Plugins that
+     * support chunked transfer call this after every confirmed chunk.
+     */
+    setCheckpoint: (checkpoint: unknown) => void
+  }
+
 /**
  * Storage hooks for handling upload/download/deletion operations
  *
  * Storage plugins MUST return an object containing a `url` property.
  * This URL will be set as the file's `remoteUrl` after successful upload.
  *
+ * The `context.signal` is aborted when the file is cancelled or paused; plugins must stop the
+ * transfer and reject (see {@link UploadHookContext}).
+ *
  * @example
  * ```typescript
  * upload: async (file, context) => {
@@ -418,7 +543,7 @@ export type SetupHook<TPluginEvents extends Record<string, any> = Record<string,
  */
 export type UploadHook<TUploadResult = unknown, TPluginEvents extends Record<string, any> = Record<string, never>> = (
   file: UploadFile<TUploadResult>,
-  context: PluginContext<TPluginEvents> & { onProgress: (progress: number) => void },
+  context: UploadHookContext<TPluginEvents>,
 ) => Promise<
   TUploadResult & {
     /** Public URL to access the uploaded file */
@@ -433,6 +558,26 @@ export type GetRemoteFileHook<TUploadResult = unknown, TPluginEvents extends Rec
   context: PluginContext<TPluginEvents>,
 ) => Promise<MinimumRemoteFileAttributes<TUploadResult>>
 
+/**
+ * A page of stored files, as returned by a storage plugin's `list` hook.
+ */
+export interface RemoteFilePage<TUploadResult = unknown> {
+  files: Array<MinimumRemoteFileAttributes<TUploadResult> & { storageKey: string }>
+  /** Pass back as `cursor` to fetch the next page. Absent on the last page. */
+  cursor?: string
+}
+
+export type ListRemoteFilesHook<TUploadResult = unknown, TPluginEvents extends Record<string, any> = Record<string, never>> = (
+  options: BrowseOptions,
+  context: PluginContext<TPluginEvents>,
+) => Promise<RemoteFilePage<TUploadResult>>
+
+export type GetDownloadUrlHook<TPluginEvents extends Record<string, any> = Record<string, never>> = (
+  storageKey: string,
+  options: DownloadOptions,
+  context: PluginContext<TPluginEvents>,
+) => Promise<string>
+
 export type RemoveHook<TPluginEvents extends Record<string, any> = Record<string, never>> = (
   file: UploadFile,
   context: PluginContext<TPluginEvents>,
@@ -457,6 +602,8 @@ export type StoragePluginHooks<TUploadResult = unknown, TPluginEvents extends Re
   upload: UploadHook<TUploadResult, TPluginEvents>
   getRemoteFile?: GetRemoteFileHook<TUploadResult, TPluginEvents>
   remove?: RemoveHook<TPluginEvents>
+  list?: ListRemoteFilesHook<TUploadResult, TPluginEvents>
+  getDownloadUrl?: GetDownloadUrlHook<TPluginEvents>
 }
 
 /**
@@ -469,6 +616,8 @@ export type PluginHooks<TUploadResult = unknown, TPluginEvents extends Record<st
   upload?: UploadHook<TUploadResult, TPluginEvents>
   getRemoteFile?: GetRemoteFileHook<TUploadResult, TPluginEvents>
   remove?: RemoveHook<TPluginEvents>
+  list?: ListRemoteFilesHook<TUploadResult, TPluginEvents>
+  getDownloadUrl?: GetDownloadUrlHook<TPluginEvents>
   complete?: ProcessingHook<TPluginEvents>
 }
 
@@ -638,6 +787,33 @@ export type MinimumRemoteFileAttributes<TUploadResult = unknown> = {
   uploadResult?: TUploadResult
 }
 
+/**
+ * Options for `browse()`: which page of stored files to fetch.
+ */
+export interface BrowseOptions {
+  /** Only return files whose storage key starts with this prefix. */
+  prefix?: string
+  /** `cursor` from the previous page. */
+  cursor?: string
+  /** Maximum number of files in the page. */
+  limit?: number
+}
+
+export interface BrowseResult<TUploadResult = unknown> {
+  files: RemoteUploadFile<TUploadResult>[]
+  /** Pass back as `cursor` to fetch the next page. Absent on the last page. */
+  cursor?: string
+}
+
+export interface DownloadOptions {
+  /** `attachment` makes the browser save the file instead of opening it. */
+  disposition?: "inline" | "attachment"
+  /** Name to save the file under. Defaults to the last segment of the storage key. */
+  filename?: string
+  /** Ownership token issued with the upload, for servers that enforce token ownership. */
+  token?: string
+}
+
 /**
  * Input for initializing existing files from storage.
  * Requires `storageKey` (which is optional in BaseUploadFile since it's set after upload).
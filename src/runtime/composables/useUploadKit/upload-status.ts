@@ -0,0 +1,85 @@
+import { computed, readonly, ref } from "vue"
+import type { Ref } from "vue"
+import type { FileStatus, UploadFile, UploadStatus } from "./types"
+import type { SchedulerActivity } from "./scheduler"
+
+/**
+ * Allowed transitions of the aggregate uploader status. Anything else is ignored, so a late
+ * event (e.g. a removal after a batch) can't push the uploader into a state it never reached.
+ */
+export const UPLOAD_STATUS_TRANSITIONS: Record<UploadStatus, readonly UploadStatus[]> = {
+  idle: ["processing", "uploading", "completed", "completed-with-errors"],
+  processing: ["uploading", "paused", "completed", "completed-with-errors", "idle"],
+  uploading: ["processing", "paused", "completed", "completed-with-errors", "idle"],
+  paused: ["processing", "uploading", "completed", "completed-with-errors", "idle"],
+  completed: ["idle", "processing", "uploading"],
+  "completed-with-errors": ["completed", "idle", "processing", "uploading"],
+}
+
+const TERMINAL_STATUSES: readonly UploadStatus[] = ["completed", "completed-with-errors"]
+
+const PENDING_FILE_STATUSES: readonly FileStatus[] = ["waiting", "preprocessing", "uploading", "paused", "postprocessing"]
+
+export interface UploadStatusDeps<TUploadResult = unknown> {
+  files: Ref<UploadFile<TUploadResult>[]>
+  getActivity: () => SchedulerActivity
+}
+
+/**
+ * Creates the aggregate uploader state machine and the file counters derived from `files`.
+ *
+ * `sync()` derives the target status from scheduler activity and file states, then applies it
+ * through {@link UPLOAD_STATUS_TRANSITIONS}. Call it whenever either of those may have changed.
+ * `settle()` does the same when an upload call has finished, and is the only way to reach a
+ * terminal status straight from `idle`, e.g. when every file was already complete or rejected.
+ */
+export function createUploadStatus<TUploadResult = unknown>(deps: UploadStatusDeps<TUploadResult>) {
+  const { files, getActivity } = deps
+  const status = ref<UploadStatus>("idle")
+
+  const pendingCount = computed(() => files.value.filter((f) => PENDING_FILE_STATUSES.includes(f.status)).length)
+  const failedCount = computed(() => files.value.filter((f) => f.status === "error").length)
+  const completedCount = computed(() => files.value.filter((f) => f.status === "complete").length)
+
+  const derive = (): UploadStatus => {
+    const activity = getActivity()
+    if (activity.transferring > 0) return "uploading"
+    if (activity.queued + activity.preparing + activity.prepared > 0) return "processing"
+    if (files.value.some((f) => f.status === "paused")) return "paused"
+
+    if (files.value.some((f) => f.status === "waiting")) return "idle"
+    if (failedCount.value > 0) return "completed-with-errors"
+    // Cancelled files were dropped from the batch, so they don't hold it back from completing
+    const batchSize = files.value.filter((f) => f.status !== "cancelled").length
+    if (completedCount.value > 0 && completedCount.value === batchSize) return "completed"
+    return "idle"
+  }
+
+  const transition = (next: UploadStatus): boolean => {
+    if (next === status.value) return true
+    if (!UPLOAD_STATUS_TRANSITIONS[status.value].includes(next)) return false
+    status.value = next
+    return true
+  }
+
+  const sync = () => {
+    const next = derive()
+    // Files added, rejected or removed before any upload leave an idle uploader idle
+    if (status.value === "idle" && TERMINAL_STATUSES.includes(next)) return
+    transition(next)
+  }
+
+  const settle = () => {
+    transition(derive())
+  }
+
+  return {
+    status: readonly(status),
+    pendingCount,
+    failedCount,
+    completedCount,
+    transition,
+    sync,
+    settle,
+  }
+}
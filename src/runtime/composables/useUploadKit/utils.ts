@@ -1,4 +1,5 @@
 import { isRef, toValue, watch } from "vue"
+import { readImageSize, IMAGE_HEADER_BYTES } from "../../shared"
 import type {
   PluginContext,
   UploadFile,
@@ -83,6 +84,15 @@ export function calculateThumbnailDimensions(
   return { width, height }
 }
 
+/**
+ * Read an image's pixel dimensions from the start of the file, without decoding it.
+ * Returns `undefined` for files whose header can't be read, non-images included.
+ */
+export async function probeImageDimensions(file: Blob): Promise<{ width: number; height: number } | undefined> {
+  const image = readImageSize(new Uint8Array(await file.slice(0, IMAGE_HEADER_BYTES).arrayBuffer()))
+  return image && { width: image.width, height: image.height }
+}
+
 /**
  * Convert a base64-encoded data URL (e.g., from canvas.toDataURL) to a Blob.
  * Only supports base64-encoded data URLs (`;base64,` format).
@@ -0,0 +1,6 @@
+// Registers the custom rules in shared/upload.rules.ts before any uploader checks a file.
+// @ts-expect-error virtual import of shared/upload.rules.ts; resolved by the module
+import "#upload-kit-rules"
+import { defineNuxtPlugin } from "#imports"
+
+export default defineNuxtPlugin(() => {})
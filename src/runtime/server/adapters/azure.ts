@@ -5,7 +5,9 @@ import {
   StorageSharedKeyCredential,
   generateBlobSASQueryParameters,
 } from "@azure/storage-blob"
-import type { PresignedFileInput, ServerHookContext, StorageAdapter } from "../types"
+import type { Readable } from "node:stream"
+import type { ByteRange, DownloadDisposition, PresignedFileInput, ServerHookContext, StorageAdapter } from "../types"
+import { signedDisposition } from "../download"
 
 export interface AzureStorageOptions {
   /** Azure storage account name (e.g. `mystorageaccount`). */
@@ -46,7 +48,7 @@ export const AzureStorage = (options: AzureStorageOptions): StorageAdapter => {
   const defaultPublicUrl = (key: string): string => `${blobEndpoint}/${options.container}/${encodeBlobPath(key)}`
   const publicUrl = options.publicUrl ?? defaultPublicUrl
 
-  const buildSas = (key: string, permissions: BlobSASPermissions, contentType?: string): string =>
+  const buildSas = (key: string, permissions: BlobSASPermissions, contentType?: string, contentDisposition?: string): string =>
     generateBlobSASQueryParameters(
       {
         containerName: options.container,
@@ -55,6 +57,7 @@ export const AzureStorage = (options: AzureStorageOptions): StorageAdapter => {
         expiresOn: new Date(Date.now() + expiresIn * 1000),
         protocol: SASProtocol.Https,
         contentType,
+        contentDisposition,
       },
       sharedKey,
     ).toString()
@@ -75,10 +78,46 @@ export const AzureStorage = (options: AzureStorageOptions): StorageAdapter => {
         headers: { "x-ms-blob-type": "BlockBlob" },
       }
     },
-    presignDownload: async (key: string) => {
-      const sas = buildSas(key, BlobSASPermissions.parse("r"))
+    presignDownload: async (key: string, _ctx: ServerHookContext, disposition?: DownloadDisposition) => {
+      const sas = buildSas(key, BlobSASPermissions.parse("r"), undefined, signedDisposition(key, disposition))
       return { downloadUrl: `${blobUrl(key)}?${sas}` }
     },
+    stat: async (key: string) => {
+      try {
+        const properties = await containerClient.getBlockBlobClient(key).getProperties()
+        return {
+          size: properties.contentLength ?? 0,
+          contentType: properties.contentType,
+          etag: properties.etag?.replace(/"/g, ""),
+          lastModified: properties.lastModified,
+          metadata: properties.metadata,
+        }
+      } catch (err) {
+        if ((err as { statusCode?: number }).statusCode === 404) return null
+        throw err
+      }
+    },
+    getStream: async (key: string, range?: ByteRange) => {
+      const response = await containerClient
+        .getBlockBlobClient(key)
+        .download(range?.start ?? 0, range ? range.end - range.start + 1 : undefined)
+      return response.readableStreamBody as Readable
+    },
+    listPage: async ({ prefix, cursor, limit }) => {
+      const pages = containerClient.listBlobsFlat({ prefix }).byPage({ continuationToken: cursor, maxPageSize: limit })
+      const result = await pages.next()
+      const page = result.done ? undefined : result.value
+      return {
+        items: (page?.segment.blobItems ?? []).map((blob) => ({
+          key: blob.name,
+          size: blob.properties.contentLength ?? 0,
+          contentType: blob.properties.contentType,
+          etag: blob.properties.etag?.replace(/"/g, ""),
+          lastModified: blob.properties.lastModified,
+        })),
+        cursor: page?.continuationToken || undefined,
+      }
+    },
     delete: async (key: string) => {
       await containerClient.getBlockBlobClient(key).deleteIfExists()
     },
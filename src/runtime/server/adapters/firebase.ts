@@ -1,6 +1,7 @@
 import { cert, getApps, initializeApp, type App } from "firebase-admin/app"
 import { getStorage } from "firebase-admin/storage"
-import type { PresignedFileInput, ServerHookContext, StorageAdapter } from "../types"
+import type { ByteRange, DownloadDisposition, PresignedFileInput, ServerHookContext, StorageAdapter } from "../types"
+import { signedDisposition } from "../download"
 
 export interface FirebaseStorageOptions {
   /** GCS bucket name backing Firebase Storage (e.g. `my-project.appspot.com`). */
@@ -25,6 +26,10 @@ export interface FirebaseStorageOptions {
   publicUrl?: (key: string) => string
 }
 
+/** Cloud Storage custom metadata values may be numbers, booleans or null; expose them as strings. */
+const stringifyMetadata = (metadata: Record<string, string | number | boolean | null>): Record<string, string> =>
+  Object.fromEntries(Object.entries(metadata).flatMap(([key, value]) => (value === null ? [] : [[key, String(value)]])))
+
 export const FirebaseStorage = (options: FirebaseStorageOptions): StorageAdapter => {
   // Namespaced app instance avoids clashing with the user's default `initializeApp()`.
   const appName = `nuxt-upload-kit:${options.bucket}`
@@ -63,14 +68,44 @@ export const FirebaseStorage = (options: FirebaseStorageOptions): StorageAdapter
         fileId: key,
       }
     },
-    presignDownload: async (key: string) => {
+    presignDownload: async (key: string, _ctx: ServerHookContext, disposition?: DownloadDisposition) => {
       const [downloadUrl] = await bucket.file(key).getSignedUrl({
         action: "read",
         version: "v4",
         expires: Date.now() + expiresIn * 1000,
+        responseDisposition: signedDisposition(key, disposition),
       })
       return { downloadUrl }
     },
+    stat: async (key: string) => {
+      try {
+        const [metadata] = await bucket.file(key).getMetadata()
+        return {
+          size: Number(metadata.size ?? 0),
+          contentType: metadata.contentType,
+          etag: metadata.etag,
+          lastModified: metadata.updated ? new Date(metadata.updated) : undefined,
+          metadata: metadata.metadata ? stringifyMetadata(metadata.metadata) : undefined,
+        }
+      } catch (err) {
+        if ((err as { code?: number }).code === 404) return null
+        throw err
+      }
+    },
+    getStream: async (key: string, range?: ByteRange) => bucket.file(key).createReadStream(range ?? {}),
+    listPage: async ({ prefix, cursor, limit }) => {
+      const [files, nextQuery] = await bucket.getFiles({ prefix, pageToken: cursor, maxResults: limit, autoPaginate: false })
+      return {
+        items: files.map((file) => ({
+          key: file.name,
+          size: Number(file.metadata.size ?? 0),
+          contentType: file.metadata.contentType,
+          etag: file.metadata.etag,
+          lastModified: file.metadata.updated ? new Date(file.metadata.updated) : undefined,
+        })),
+        cursor: (nextQuery as { pageToken?: string } | null | undefined)?.pageToken,
+      }
+    },
     delete: async (key: string) => {
       await bucket.file(key).delete({ ignoreNotFound: true })
     },
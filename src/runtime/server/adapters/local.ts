@@ -0,0 +1,314 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "node:crypto"
+import { createReadStream, createWriteStream } from "node:fs"
+import { mkdir, readdir, readFile, rename, rm, stat as statFile, writeFile } from "node:fs/promises"
+import { dirname, join, resolve } from "node:path"
+import { Readable, Transform } from "node:stream"
+import { pipeline } from "node:stream/promises"
+import type { ReadableStream as WebReadableStream } from "node:stream/web"
+import {
+  createError,
+  getQuery,
+  getRequestHeader,
+  getRequestWebStream,
+  sendStream,
+  setResponseHeader,
+  setResponseHeaders,
+  setResponseStatus,
+  type H3Event,
+} from "h3"
+import type {
+  StorageAdapter,
+  PresignedFileInput,
+  ServerHookContext,
+  ByteRange,
+  DownloadDisposition,
+  StoredObjectInfo,
+  StorageListItem,
+} from "../types"
+import { DOWNLOAD_SECURITY_HEADERS, isActiveContentType, signedDisposition } from "../download"
+
+export interface LocalFsStorageOptions {
+  /** Directory the files are written under. Created on first write. */
+  directory: string
+  /** HMAC secret for the emulated presigned URLs. Keep it server-only. */
+  secret: string
+  /**
+   * Must match the module's `uploadKit.handlerRoute`: the signed URLs point at the
+   * `${handlerRoute}/local/**` route it mounts.
+   * @default "/api/_upload"
+   */
+  handlerRoute?: string
+  /** Origin prepended to every URL, e.g. `https://app.example.com`. Defaults to root-relative URLs. */
+  baseUrl?: string
+  /** Seconds until presigned URLs expire. Defaults to 900 (15 min). */
+  expiresIn?: number
+  /**
+   * Resolve the storage key for an incoming file. Defaults to `uploads/${fileId}`. Keys map to
+   * paths under `directory`, so segments can't be empty or start with a dot.
+   */
+  keyStrategy?: (input: PresignedFileInput) => string
+  /**
+   * Serve files without a signature, like a public bucket. Without it, `publicUrl`s are
+   * unreadable and files are only served through signed download URLs.
+   * @default false
+   */
+  publicRead?: boolean
+  /** Build the public URL for a stored file. Defaults to its unsigned `/local` URL. */
+  publicUrl?: (key: string) => string
+}
+
+export interface LocalFsStorageAdapter extends StorageAdapter {
+  /** Answer a request to `${handlerRoute}/local/<key>`: a signed PUT upload or a GET/HEAD download. */
+  serve: (event: H3Event, key: string) => Promise<unknown>
+}
+
+/** Holds the content-type sidecars and in-flight uploads. Keys can't reach it: dot segments are rejected. */
+const META_DIR = ".upload-kit"
+
+interface LocalObjectMeta {
+  contentType?: string
+  etag: string
+}
+
+const isLocalKey = (key: string) =>
+  key.length > 0 && key.split("/").every((segment) => segment.length > 0 && !segment.startsWith(".") && !/[\\\0]/.test(segment))
+
+const safeEqual = (expected: string, actual: unknown) =>
+  typeof actual === "string" && actual.length === expected.length && timingSafeEqual(Buffer.from(expected), Buffer.from(actual))
+
+const forbidden = () => createError({ statusCode: 403, statusMessage: "Forbidden", message: "Invalid or expired signature." })
+
+const toSource = (body: unknown): Readable => {
+  if (body instanceof Readable) return body
+  if (typeof body === "string") return Readable.from([Buffer.from(body)])
+  if (body instanceof Uint8Array) return Readable.from([body])
+  if (body instanceof Blob) return Readable.fromWeb(body.stream() as WebReadableStream)
+  if (body instanceof ReadableStream) return Readable.fromWeb(body as WebReadableStream)
+  throw new Error("[nuxt-upload-kit] LocalFsStorage: unsupported body type.")
+}
+
+const isNotFound = (err: unknown) => (err as NodeJS.ErrnoException).code === "ENOENT"
+
+/**
+ * Storage on the local filesystem, for development, CI and self-hosted installs. Presigned
+ * uploads and downloads are emulated with HMAC-signed, expiring URLs served by the module's
+ * `${handlerRoute}/local/**` route, so the presigned flow runs exactly as it does against S3.
+ */
+export const LocalFsStorage = (options: LocalFsStorageOptions): LocalFsStorageAdapter => {
+  const root = resolve(options.directory)
+  const routeBase = `${options.baseUrl?.replace(/\/+$/, "") ?? ""}${options.handlerRoute ?? "/api/_upload"}/local`
+  const expiresIn = options.expiresIn ?? 900
+  const keyStrategy = options.keyStrategy ?? ((input) => `uploads/${input.fileId}`)
+
+  const filePath = (key: string) => {
+    if (!isLocalKey(key)) {
+      throw createError({ statusCode: 400, statusMessage: "Bad Request", message: `Invalid storage key "${key}".` })
+    }
+    return join(root, key)
+  }
+  const metaPath = (key: string) => join(root, META_DIR, "meta", `${key}.json`)
+
+  const objectUrl = (key: string, query?: Record<string, string>) => {
+    const path = `${routeBase}/${key.split("/").map(encodeURIComponent).join("/")}`
+    return query ? `${path}?${new URLSearchParams(query)}` : path
+  }
+  const publicUrl = options.publicUrl ?? ((key: string) => objectUrl(key))
+
+  /** Signature over everything the URL grants: method, key, expiry and the method's own conditions. */
+  const sign = (method: "PUT" | "GET", key: string, expires: string, conditions: string[]) =>
+    createHmac("sha256", options.secret)
+      .update([method, key, expires, ...conditions].join("\n"))
+      .digest("hex")
+
+  const expiry = () => String(Math.floor(Date.now() / 1000) + expiresIn)
+  const isExpired = (expires: unknown) => typeof expires !== "string" || !(Number(expires) * 1000 > Date.now())
+
+  const readMeta = async (key: string): Promise<LocalObjectMeta | undefined> => {
+    try {
+      return JSON.parse(await readFile(metaPath(key), "utf8")) as LocalObjectMeta
+    } catch (err) {
+      if (isNotFound(err)) return undefined
+      throw err
+    }
+  }
+
+  /**
+   * Stream `source` to a temporary file, then move it into place, so readers never see a
+   * partial file. With `expectedSize`, any other length is rejected and nothing is written.
+   */
+  const writeObject = async (key: string, source: Readable, contentType?: string, expectedSize?: number) => {
+    const path = filePath(key)
+    const temp = join(root, META_DIR, "tmp", randomUUID())
+    await mkdir(dirname(temp), { recursive: true })
+
+    const hash = createHash("md5")
+    let size = 0
+    const measure = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length
+        if (expectedSize !== undefined && size > expectedSize) {
+          return callback(
+            createError({ statusCode: 413, statusMessage: "Payload Too Large", message: "Body exceeds the signed size." }),
+          )
+        }
+        hash.update(chunk)
+        callback(null, chunk)
+      },
+    })
+
+    try {
+      await pipeline(source, measure, createWriteStream(temp))
+      if (expectedSize !== undefined && size !== expectedSize) {
+        throw createError({
+          statusCode: 400,
+          statusMessage: "Bad Request",
+          message: `Body is ${size} bytes; ${expectedSize} bytes were signed.`,
+        })
+      }
+      await mkdir(dirname(path), { recursive: true })
+      await rename(temp, path)
+    } catch (err) {
+      await rm(temp, { force: true })
+      throw err
+    }
+
+    const meta: LocalObjectMeta = { contentType, etag: hash.digest("hex") }
+    await mkdir(dirname(metaPath(key)), { recursive: true })
+    await writeFile(metaPath(key), JSON.stringify(meta))
+    return meta
+  }
+
+  const stat = async (key: string): Promise<StoredObjectInfo | null> => {
+    try {
+      const info = await statFile(filePath(key))
+      if (!info.isFile()) return null
+      const meta = await readMeta(key)
+      return { size: info.size, contentType: meta?.contentType, etag: meta?.etag, lastModified: info.mtime }
+    } catch (err) {
+      if (isNotFound(err)) return null
+      throw err
+    }
+  }
+
+  /** Every stored key under `dir`, skipping the dot-prefixed metadata directory. */
+  const walk = async (dir: string, prefix = ""): Promise<string[]> => {
+    let entries
+    try {
+      entries = await readdir(dir, { withFileTypes: true })
+    } catch (err) {
+      if (isNotFound(err)) return []
+      throw err
+    }
+    const keys: string[] = []
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue
+      const key = `${prefix}${entry.name}`
+      if (entry.isDirectory()) keys.push(...(await walk(join(dir, entry.name), `${key}/`)))
+      else if (entry.isFile()) keys.push(key)
+    }
+    return keys
+  }
+
+  const serveUpload = async (event: H3Event, key: string) => {
+    const query = getQuery(event)
+    const { expires, size, type, signature } = query
+    if (typeof size !== "string" || typeof type !== "string" || isExpired(expires)) throw forbidden()
+    if (!safeEqual(sign("PUT", key, expires as string, [type, size]), signature)) throw forbidden()
+
+    // The signature covers the content type, as it does for a presigned S3 PUT.
+    const contentType = getRequestHeader(event, "content-type")
+    if (contentType?.split(";")[0]?.trim() !== type.split(";")[0]?.trim()) throw forbidden()
+
+    const body = getRequestWebStream(event)
+    const source = body ? Readable.fromWeb(body as WebReadableStream) : Readable.from([])
+    const meta = await writeObject(key, source, type, Number(size))
+    setResponseHeader(event, "ETag", `"${meta.etag}"`)
+    return null
+  }
+
+  const serveDownload = async (event: H3Event, key: string, method: "GET" | "HEAD") => {
+    const { expires, disposition, signature } = getQuery(event)
+    const signed = signature !== undefined || !options.publicRead
+    if (signed) {
+      if (isExpired(expires) || (disposition !== undefined && typeof disposition !== "string")) throw forbidden()
+      if (!safeEqual(sign("GET", key, expires as string, [(disposition as string | undefined) ?? ""]), signature)) {
+        throw forbidden()
+      }
+    }
+
+    const info = await stat(key)
+    if (!info) throw createError({ statusCode: 404, statusMessage: "Not Found", message: "File does not exist." })
+
+    // Served from the app's origin: without a signed disposition, active content is downloaded rather than rendered.
+    const header =
+      signed && typeof disposition === "string"
+        ? disposition
+        : isActiveContentType(info.contentType)
+          ? signedDisposition(key, { type: "attachment" })
+          : undefined
+    setResponseHeaders(event, DOWNLOAD_SECURITY_HEADERS)
+    setResponseHeader(event, "Content-Type", info.contentType ?? "application/octet-stream")
+    setResponseHeader(event, "Content-Length", info.size)
+    if (info.etag) setResponseHeader(event, "ETag", `"${info.etag}"`)
+    if (header) setResponseHeader(event, "Content-Disposition", header)
+    setResponseStatus(event, 200)
+    if (method === "HEAD") return null
+    return sendStream(event, createReadStream(filePath(key)))
+  }
+
+  return {
+    id: "local-fs",
+    resolveKey: keyStrategy,
+    presignUpload: async (input: PresignedFileInput, _ctx: ServerHookContext) => {
+      const key = keyStrategy(input)
+      filePath(key)
+      const expires = expiry()
+      const signature = sign("PUT", key, expires, [input.mimeType, String(input.size)])
+      return {
+        uploadUrl: objectUrl(key, { expires, size: String(input.size), type: input.mimeType, signature }),
+        publicUrl: publicUrl(key),
+        fileId: key,
+      }
+    },
+    presignDownload: async (key: string, ctx: ServerHookContext, disposition?: DownloadDisposition) => {
+      filePath(key)
+      const expires = expiry()
+      // Active content is only signed inline when `authorize` returned `inlineActiveContent: true`.
+      const forceAttachment = ctx.auth.inlineActiveContent !== true && isActiveContentType((await stat(key))?.contentType)
+      const header = signedDisposition(key, forceAttachment ? { ...disposition, type: "attachment" } : disposition)
+      const signature = sign("GET", key, expires, [header ?? ""])
+      return { downloadUrl: objectUrl(key, { expires, ...(header && { disposition: header }), signature }) }
+    },
+    stat: (key: string) => stat(key),
+    getStream: async (key: string, range?: ByteRange) =>
+      createReadStream(filePath(key), range ? { start: range.start, end: range.end } : undefined),
+    listPage: async ({ prefix, cursor, limit }) => {
+      const keys = (await walk(root)).filter((key) => (!prefix || key.startsWith(prefix)) && (!cursor || key > cursor)).sort()
+      const page = keys.slice(0, limit ?? 1000)
+      const items: StorageListItem[] = []
+      for (const key of page) {
+        const info = await stat(key)
+        if (info) items.push({ key, ...info })
+      }
+      return { items, cursor: page.length < keys.length ? page.at(-1) : undefined }
+    },
+    delete: async (key: string) => {
+      await rm(filePath(key), { force: true })
+      await rm(metaPath(key), { force: true })
+    },
+    put: async (input: { key: string; body: unknown; contentType?: string }) => {
+      await writeObject(input.key, toSource(input.body), input.contentType)
+      return { publicUrl: publicUrl(input.key) }
+    },
+    serve: async (event: H3Event, key: string) => {
+      const method = event.method
+      if (method === "PUT") return serveUpload(event, key)
+      if (method === "GET" || method === "HEAD") return serveDownload(event, key, method)
+      throw createError({ statusCode: 405, statusMessage: "Method Not Allowed", message: `${method} is not supported.` })
+    },
+  }
+}
+
+/** Whether `storage` is a {@link LocalFsStorage} adapter, whose signed URLs the `/local` route serves. */
+export const isLocalFsStorage = (storage: StorageAdapter): storage is LocalFsStorageAdapter =>
+  storage.id === "local-fs" && typeof (storage as Partial<LocalFsStorageAdapter>).serve === "function"
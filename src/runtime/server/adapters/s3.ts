@@ -1,8 +1,20 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3"
+import {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from "@aws-sdk/client-s3"
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner"
 import { Upload } from "@aws-sdk/lib-storage"
 import type { Readable } from "node:stream"
-import type { StorageAdapter, PresignedFileInput, ServerHookContext } from "../types"
+import type { StorageAdapter, PresignedFileInput, ServerHookContext, ByteRange, DownloadDisposition } from "../types"
+import { signedDisposition } from "../download"
 
 export interface S3StorageOptions {
   bucket: string
@@ -28,6 +40,14 @@ export interface S3StorageOptions {
    * or path-style when `forcePathStyle` is set. Override for CDN domains.
    */
   publicUrl?: (key: string) => string
+  /**
+   * Issue S3 POST policies instead of presigned PUT URLs. The policy pins the key and
+   * Content-Type, and its `content-length-range` only admits the presigned size, so S3 itself
+   * rejects bodies over `maxFileSize`. The built-in transport submits the returned `fields`
+   * as a multipart form. Multipart uploads are unaffected. Requires `@aws-sdk/s3-presigned-post`.
+   * @default false
+   */
+  presignedPost?: boolean
 }
 
 export const S3Storage = (options: S3StorageOptions): StorageAdapter => {
@@ -36,6 +56,8 @@ export const S3Storage = (options: S3StorageOptions): StorageAdapter => {
     credentials: options.credentials,
     endpoint: options.endpoint,
     forcePathStyle: options.forcePathStyle,
+    // Otherwise presigned PUT/UploadPart URLs carry the CRC32 of an empty body, and S3 rejects the real upload.
+    requestChecksumCalculation: "WHEN_REQUIRED",
   })
 
   const expiresIn = options.expiresIn ?? 900
@@ -59,11 +81,31 @@ export const S3Storage = (options: S3StorageOptions): StorageAdapter => {
   }
   const publicUrl = options.publicUrl ?? defaultPublicUrl
 
+  /**
+   * SigV4-signed POST policy for one object. Beyond the SDK's own key and credential conditions,
+   * it pins the Content-Type and admits only the presigned size. The signer is only loaded when
+   * `presignedPost` is on, so it stays an optional install.
+   */
+  const presignPost = async (key: string, input: PresignedFileInput) => {
+    const { createPresignedPost } = await import("@aws-sdk/s3-presigned-post")
+    return createPresignedPost(client, {
+      Bucket: options.bucket,
+      Key: key,
+      Conditions: [["content-length-range", input.size, input.size]],
+      Fields: { "Content-Type": input.mimeType },
+      Expires: expiresIn,
+    })
+  }
+
   return {
     id: "s3-storage",
     resolveKey: keyStrategy,
     presignUpload: async (input: PresignedFileInput, _ctx: ServerHookContext) => {
       const key = keyStrategy(input)
+      if (options.presignedPost) {
+        const { url, fields } = await presignPost(key, input)
+        return { uploadUrl: url, publicUrl: publicUrl(key), fileId: key, fields }
+      }
       const command = new PutObjectCommand({
         Bucket: options.bucket,
         Key: key,
@@ -77,11 +119,54 @@ export const S3Storage = (options: S3StorageOptions): StorageAdapter => {
         fileId: key,
       }
     },
-    presignDownload: async (key: string) => {
-      const command = new GetObjectCommand({ Bucket: options.bucket, Key: key })
+    presignDownload: async (key: string, _ctx: ServerHookContext, disposition?: DownloadDisposition) => {
+      const command = new GetObjectCommand({
+        Bucket: options.bucket,
+        Key: key,
+        ResponseContentDisposition: signedDisposition(key, disposition),
+      })
       const downloadUrl = await getSignedUrl(client, command, { expiresIn })
       return { downloadUrl }
     },
+    stat: async (key: string) => {
+      try {
+        const head = await client.send(new HeadObjectCommand({ Bucket: options.bucket, Key: key }))
+        return {
+          size: head.ContentLength ?? 0,
+          contentType: head.ContentType,
+          etag: head.ETag?.replace(/"/g, ""),
+          lastModified: head.LastModified,
+          metadata: head.Metadata,
+        }
+      } catch (err) {
+        if ((err as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode === 404) return null
+        throw err
+      }
+    },
+    getStream: async (key: string, range?: ByteRange) => {
+      const object = await client.send(
+        new GetObjectCommand({
+          Bucket: options.bucket,
+          Key: key,
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        }),
+      )
+      return object.Body as Readable
+    },
+    listPage: async ({ prefix, cursor, limit }) => {
+      const page = await client.send(
+        new ListObjectsV2Command({ Bucket: options.bucket, Prefix: prefix, ContinuationToken: cursor, MaxKeys: limit }),
+      )
+      return {
+        items: (page.Contents ?? []).map((object) => ({
+          key: object.Key!,
+          size: object.Size ?? 0,
+          etag: object.ETag?.replace(/"/g, ""),
+          lastModified: object.LastModified,
+        })),
+        cursor: page.IsTruncated ? page.NextContinuationToken : undefined,
+      }
+    },
     delete: async (key: string) => {
       await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }))
     },
@@ -98,5 +183,41 @@ export const S3Storage = (options: S3StorageOptions): StorageAdapter => {
       await upload.done()
       return { publicUrl: publicUrl(input.key) }
     },
+    createMultipartUpload: async (input: PresignedFileInput) => {
+      const key = keyStrategy(input)
+      const { UploadId } = await client.send(
+        new CreateMultipartUploadCommand({ Bucket: options.bucket, Key: key, ContentType: input.mimeType }),
+      )
+      if (!UploadId) throw new Error("[nuxt-upload-kit] S3Storage: CreateMultipartUpload returned no UploadId.")
+      return { uploadId: UploadId, fileId: key, publicUrl: publicUrl(key) }
+    },
+    signMultipartPart: async (input) => {
+      const command = new UploadPartCommand({
+        Bucket: options.bucket,
+        Key: input.fileId,
+        UploadId: input.uploadId,
+        PartNumber: input.partNumber,
+        ContentLength: input.size,
+      })
+      const uploadUrl = await getSignedUrl(client, command, { expiresIn })
+      return { uploadUrl }
+    },
+    completeMultipartUpload: async (input) => {
+      await client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: options.bucket,
+          Key: input.fileId,
+          UploadId: input.uploadId,
+          MultipartUpload: {
+            // Browsers often surface the ETag header unquoted; S3 expects the quoted form back.
+            Parts: input.parts.map((part) => ({ PartNumber: part.partNumber, ETag: `"${part.etag.replaceAll('"', "")}"` })),
+          },
+        }),
+      )
+      return { publicUrl: publicUrl(input.fileId) }
+    },
+    abortMultipartUpload: async (input) => {
+      await client.send(new AbortMultipartUploadCommand({ Bucket: options.bucket, Key: input.fileId, UploadId: input.uploadId }))
+    },
   }
 }
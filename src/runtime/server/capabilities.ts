@@ -1,12 +1,35 @@
 import type { StorageAdapter } from "./types"
 
 export type UploadMode = "presigned" | "server"
+export type DownloadMode = "presigned" | "proxy"
 
 export interface StorageCapabilities {
   presigned: boolean
   server: boolean
   download: boolean
   delete: boolean
+  /** Adapter can read object metadata, enabling `/complete` and `/meta/:fileId`. */
+  stat: boolean
+  /** Adapter can list stored objects, enabling `/list`. */
+  list: boolean
+  /** Adapter can stream objects, enabling `downloadMode: "proxy"`. */
+  stream: boolean
+  /** Adapter implements the multipart methods, so the presigned transport may split large files into parts. */
+  multipart: boolean
+}
+
+export function hasMultipartSupport(storage: StorageAdapter): boolean {
+  return (
+    typeof storage.createMultipartUpload === "function" &&
+    typeof storage.signMultipartPart === "function" &&
+    typeof storage.completeMultipartUpload === "function" &&
+    typeof storage.abortMultipartUpload === "function"
+  )
+}
+
+/** Whether the adapter implements `listPage` or the older `list`. */
+export function hasListSupport(storage: StorageAdapter): boolean {
+  return typeof storage.listPage === "function" || typeof storage.list === "function"
 }
 
 export function deriveCapabilities(storage: StorageAdapter): StorageCapabilities {
@@ -15,6 +38,10 @@ export function deriveCapabilities(storage: StorageAdapter): StorageCapabilities
     server: typeof storage.put === "function",
     download: typeof storage.presignDownload === "function",
     delete: typeof storage.delete === "function",
+    stat: typeof storage.stat === "function",
+    list: hasListSupport(storage),
+    stream: typeof storage.getStream === "function",
+    multipart: hasMultipartSupport(storage),
   }
 }
 
@@ -47,3 +74,8 @@ export function resolveMode(
 
   return { mode: supported[0]!, capabilities }
 }
+
+/** `downloadMode` when pinned, otherwise presigned URLs when the adapter can sign them. */
+export function resolveDownloadMode(storage: StorageAdapter, requested: DownloadMode | undefined): DownloadMode {
+  return requested ?? (typeof storage.presignDownload === "function" ? "presigned" : "proxy")
+}
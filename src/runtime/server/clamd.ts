@@ -0,0 +1,90 @@
+import { connect, type Socket } from "node:net"
+import type { Readable } from "node:stream"
+
+export interface MalwareScanResult {
+  infected: boolean
+  /** Name of the detected signature, when infected. */
+  signature?: string
+}
+
+/** Scan a byte stream. Rejects when the scanner itself fails, so an unscanned file is never let through. */
+export type MalwareScanner = (body: Readable) => Promise<MalwareScanResult>
+
+export interface ClamdScannerOptions {
+  /** Unix socket of the daemon (e.g. `/run/clamav/clamd.ctl`). Takes precedence over `host`/`port`. */
+  socket?: string
+  /** @default "127.0.0.1" */
+  host?: string
+  /** @default 3310 */
+  port?: number
+  /** Milliseconds of socket inactivity before the scan fails. @default 30000 */
+  timeout?: number
+  /**
+   * Largest chunk sent in one INSTREAM frame, in bytes.
+   * @default 65536
+   */
+  chunkSize?: number
+}
+
+const write = (socket: Socket, data: Uint8Array | string) =>
+  new Promise<void>((resolve, reject) => socket.write(data, (err) => (err ? reject(err) : resolve())))
+
+/** INSTREAM: length-prefixed chunks terminated by a zero-length chunk. */
+const sendStream = async (socket: Socket, body: Readable, chunkSize: number) => {
+  await write(socket, "zINSTREAM\0")
+  for await (const chunk of body) {
+    const data = typeof chunk === "string" ? Buffer.from(chunk) : (chunk as Buffer)
+    for (let offset = 0; offset < data.length; offset += chunkSize) {
+      const piece = data.subarray(offset, offset + chunkSize)
+      const header = Buffer.alloc(4)
+      header.writeUInt32BE(piece.length)
+      await write(socket, Buffer.concat([header, piece]))
+    }
+  }
+  await write(socket, Buffer.alloc(4))
+}
+
+const parseReply = (reply: string): MalwareScanResult => {
+  if (reply === "stream: OK") return { infected: false }
+  const found = reply.match(/^stream: (.+) FOUND$/)
+  if (found) return { infected: true, signature: found[1] }
+  throw new Error(`[clamd] scan failed: ${reply || "empty reply"}`)
+}
+
+/**
+ * Scanner that streams the bytes to a clamd-compatible daemon with the INSTREAM command, over
+ * TCP or a Unix socket. Keep the daemon's `StreamMaxLength` at or above your `maxFileSize`:
+ * clamd rejects longer streams, and the scan then fails.
+ */
+export const ClamdScanner = (options: ClamdScannerOptions = {}): MalwareScanner => {
+  const timeout = options.timeout ?? 30_000
+  const chunkSize = options.chunkSize ?? 64 * 1024
+
+  return (body) =>
+    new Promise((resolve, reject) => {
+      const socket = options.socket
+        ? connect({ path: options.socket })
+        : connect({ host: options.host ?? "127.0.0.1", port: options.port ?? 3310 })
+      const reply: Buffer[] = []
+
+      socket.setTimeout(timeout, () => socket.destroy(new Error(`[clamd] no reply within ${timeout}ms`)))
+      socket.on("data", (chunk: Buffer) => reply.push(chunk))
+      // clamd may answer (e.g. a size-limit error) and hang up while we're still writing, so a
+      // write error only counts when nothing was received.
+      socket.on("error", (err) => {
+        if (reply.length === 0) reject(err)
+      })
+      socket.on("close", () => {
+        try {
+          resolve(parseReply(Buffer.concat(reply).toString("utf8").replace(/\0/g, "").trim()))
+        } catch (err) {
+          reject(err)
+        }
+      })
+      socket.once("connect", () => {
+        sendStream(socket, body, chunkSize).catch((err: Error) => {
+          if (reply.length === 0) socket.destroy(err)
+        })
+      })
+    })
+}
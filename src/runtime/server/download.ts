@@ -0,0 +1,83 @@
+import type { ByteRange, DownloadDisposition } from "./types"
+
+/**
+ * Resolve a `Range` header against an object of `size` bytes.
+ * Returns `undefined` when the whole object should be served (no header, a syntax we don't
+ * handle, or several ranges) and `"unsatisfiable"` when the range lies outside the object.
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | "unsatisfiable" | undefined {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match) return undefined
+  const [, rawStart, rawEnd] = match as unknown as [string, string, string]
+  if (rawStart === "" && rawEnd === "") return undefined
+
+  // Suffix range: the last N bytes.
+  if (rawStart === "") {
+    const length = Number(rawEnd)
+    if (length === 0 || size === 0) return "unsatisfiable"
+    return { start: Math.max(0, size - length), end: size - 1 }
+  }
+
+  const start = Number(rawStart)
+  const end = rawEnd === "" ? size - 1 : Math.min(Number(rawEnd), size - 1)
+  if (start >= size || start > end) return "unsatisfiable"
+  return { start, end }
+}
+
+const normalizeEtag = (etag: string) => etag.trim().replace(/^W\//, "").replace(/"/g, "")
+
+/** Weak comparison of an `If-None-Match` header against the object's entity tag. */
+export function etagMatches(header: string | undefined, etag: string | undefined): boolean {
+  if (!header || !etag) return false
+  if (header.trim() === "*") return true
+  const current = normalizeEtag(etag)
+  return header.split(",").some((candidate) => normalizeEtag(candidate) === current)
+}
+
+/**
+ * `Content-Disposition` value with an ASCII fallback `filename` and the exact name in
+ * `filename*` (RFC 6266), so non-ASCII names survive every browser.
+ */
+export function contentDisposition(type: "inline" | "attachment", filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7E]/g, "_").replace(/["\\]/g, "_")
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`
+}
+
+/**
+ * Header value an adapter should sign into a download URL, or `undefined` to leave the
+ * backend's default. The filename falls back to the last segment of the key.
+ */
+export function signedDisposition(key: string, disposition: DownloadDisposition | undefined): string | undefined {
+  if (!disposition) return undefined
+  return contentDisposition(disposition.type, disposition.filename ?? (key.split("/").pop() || key))
+}
+
+/**
+ * Headers sent with every file served from Nitro: browsers must not sniff a different type, and
+ * a document opened from the response can't run scripts or reach the app's origin.
+ */
+export const DOWNLOAD_SECURITY_HEADERS = {
+  "X-Content-Type-Options": "nosniff",
+  "Content-Security-Policy": "sandbox",
+} as const
+
+const ACTIVE_CONTENT_TYPES = new Set([
+  "text/html",
+  "application/xhtml+xml",
+  "image/svg+xml",
+  "text/xml",
+  "application/xml",
+  "text/javascript",
+  "application/javascript",
+  "application/x-javascript",
+  "application/ecmascript",
+  "text/ecmascript",
+])
+
+/** Content types a browser renders as a document or runs as a script: HTML, SVG, XML and JavaScript. */
+export function isActiveContentType(contentType: string | undefined): boolean {
+  const type = contentType?.split(";")[0]?.trim().toLowerCase()
+  if (!type) return false
+  return ACTIVE_CONTENT_TYPES.has(type) || type.endsWith("+xml")
+}
@@ -0,0 +1,56 @@
+import { defineEventHandler, readBody, createError } from "h3"
+// @ts-expect-error virtual user-config import
+import userConfig from "#upload-kit-user-config"
+import type { UploadServerConfig, ServerHookContext } from "../types"
+import { requireStorage, requireStorageMethod } from "../utils"
+import { enforceStoredImageRestrictions, enforceStoredObjectMatches } from "../restrictions"
+import { getPendingUpload, removePendingUpload } from "../pending-uploads"
+import { runProcessors } from "../processing"
+import { recordUpload } from "../registry"
+
+const config = userConfig as UploadServerConfig
+
+/**
+ * Confirm a presigned upload. The browser PUTs straight to the bucket, so this is the only
+ * point where the server sees the upload finish: it checks the stored object against the
+ * descriptor signed by `/presign` and any image dimension restrictions, then runs the `processors` and `afterUpload`.
+ * An object that doesn't match the descriptor or the image restrictions is deleted, when the adapter can,
+ * along with its pending record.
+ */
+export default defineEventHandler(async (event) => {
+  const storage = requireStorage(config)
+  const stat = requireStorageMethod(storage, "stat")
+
+  const body = (await readBody(event)) as { fileId?: unknown } | null
+  const key = body?.fileId
+  if (typeof key !== "string" || key.length === 0) {
+    throw createError({ statusCode: 400, statusMessage: "Bad Request", message: "Body must be `{ fileId }`." })
+  }
+
+  const pending = await getPendingUpload(key)
+  if (!pending) {
+    throw createError({ statusCode: 404, statusMessage: "Not Found", message: "No pending upload for this fileId." })
+  }
+
+  const ctx: ServerHookContext = { event, auth: pending.auth }
+  const stored = await stat(key, ctx)
+  if (!stored) {
+    throw createError({ statusCode: 404, statusMessage: "Not Found", message: "The uploaded object does not exist." })
+  }
+
+  // A rejected object was never verified: drop it and its pending record so it can't be completed later.
+  const discard = async () => {
+    await storage.delete?.(key, ctx)
+    await removePendingUpload(key)
+  }
+  await enforceStoredObjectMatches(stored, pending.file, discard)
+  await enforceStoredImageRestrictions(config, { ...pending.file, key }, pending.restrictions, ctx, discard)
+
+  // Runs before the record is dropped, so a failed processor or hook can be retried by calling /complete again.
+  const processed = await runProcessors(config, { ...pending.file, key }, ctx)
+  await recordUpload(config, { ...pending.file, key }, ctx)
+  await config.hooks?.afterUpload?.({ ...pending.file, key }, ctx)
+  await removePendingUpload(key)
+
+  return { fileId: key, publicUrl: pending.publicUrl, ...(processed && { processed }) }
+})
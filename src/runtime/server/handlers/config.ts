@@ -0,0 +1,22 @@
+import { defineEventHandler, getQuery } from "h3"
+// @ts-expect-error virtual user-config import
+import userConfig from "#upload-kit-user-config"
+import type { UploadServerConfig, ServerHookContext } from "../types"
+import { getEffectiveRestrictions } from "../restrictions"
+import { authorizeRequest } from "../rate-limit"
+import { readProfile } from "../utils"
+
+const config = userConfig as UploadServerConfig
+
+/**
+ * The caller's effective restrictions for `?profile=`, as the upload endpoints will enforce
+ * them. `useUploadKit` fetches these when the server config defines `resolveRestrictions`.
+ */
+export default defineEventHandler(async (event) => {
+  const profile = readProfile(getQuery(event).profile)
+
+  const auth = await authorizeRequest(config, event, { type: "config", profile })
+  const ctx: ServerHookContext = { event, auth }
+
+  return { restrictions: (await getEffectiveRestrictions(config, ctx, profile)) ?? {} }
+})
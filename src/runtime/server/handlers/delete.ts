@@ -2,6 +2,9 @@ import { defineEventHandler } from "h3"
 // @ts-expect-error virtual user-config import
 import userConfig from "#upload-kit-user-config"
 import type { UploadServerConfig, ServerHookContext } from "../types"
+import { authorizeRequest } from "../rate-limit"
+import { enforceOwnership } from "../ownership"
+import { removeUploadRecord } from "../registry"
 import { decodeFileIdParam, requireStorage, requireStorageMethod } from "../utils"
 
 const config = userConfig as UploadServerConfig
@@ -12,11 +15,13 @@ export default defineEventHandler(async (event) => {
 
   const key = decodeFileIdParam(event)
 
-  const auth = config.authorize ? await config.authorize(event, { type: "delete", key }) : {}
+  const auth = await authorizeRequest(config, event, { type: "delete", key })
   const ctx: ServerHookContext = { event, auth }
+  await enforceOwnership(config, key, ctx)
 
   await config.hooks?.beforeDelete?.(key, ctx)
   await remove(key, ctx)
+  await removeUploadRecord(config, key)
 
   return { ok: true }
 })
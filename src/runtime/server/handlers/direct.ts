@@ -2,8 +2,12 @@ import { defineEventHandler, readMultipartFormData, createError, getRequestHeade
 // @ts-expect-error virtual user-config import
 import userConfig from "#upload-kit-user-config"
 import type { UploadServerConfig, UploadFileDescriptor, ServerHookContext } from "../types"
-import { enforceRestrictions } from "../restrictions"
-import { generateFileId, getRestrictions, requireStorage, requireStorageMethod } from "../utils"
+import { enforceImageRestrictions, enforceRestrictions, getEffectiveRestrictions } from "../restrictions"
+import { runProcessors } from "../processing"
+import { authorizeRequest } from "../rate-limit"
+import { issueFileToken } from "../ownership"
+import { recordUpload, resolveExistingState } from "../registry"
+import { generateFileId, readProfile, requireStorage, requireStorageMethod } from "../utils"
 
 const config = userConfig as UploadServerConfig
 
@@ -38,11 +42,15 @@ export default defineEventHandler(async (event) => {
     mimeType: filePart.type || "application/octet-stream",
   }
 
-  const auth = config.authorize ? await config.authorize(event, { type: "direct-upload", file }) : {}
+  const profile = readProfile(parts?.find((p) => p.name === "profile" && !p.filename)?.data.toString())
+
+  const auth = await authorizeRequest(config, event, { type: "direct-upload", file, profile })
   const ctx: ServerHookContext = { event, auth }
 
-  const state = config.getExistingState ? await config.getExistingState(ctx) : undefined
-  enforceRestrictions(file, getRestrictions(), state)
+  const state = await resolveExistingState(config, ctx)
+  const restrictions = await getEffectiveRestrictions(config, ctx, profile)
+  enforceRestrictions(file, restrictions, state)
+  enforceImageRestrictions(file, restrictions, filePart.data)
 
   if (config.validators) {
     for (const validate of config.validators) await validate(file, ctx)
@@ -53,7 +61,10 @@ export default defineEventHandler(async (event) => {
 
   const result = await put({ key, body: filePart.data, contentType: file.mimeType }, ctx)
 
-  await config.hooks?.afterUpload?.(file, ctx)
+  const processed = await runProcessors(config, { ...file, key }, ctx, filePart.data)
+  await recordUpload(config, { ...file, key }, ctx)
+  await config.hooks?.afterUpload?.({ ...file, key }, ctx)
 
-  return { publicUrl: result.publicUrl, fileId: key }
+  const fileToken = issueFileToken(config, key)
+  return { publicUrl: result.publicUrl, fileId: key, ...(processed && { processed }), ...(fileToken && { fileToken }) }
 })
@@ -1,19 +1,139 @@
-import { defineEventHandler } from "h3"
+import {
+  defineEventHandler,
+  createError,
+  getQuery,
+  getRequestHeader,
+  sendStream,
+  setResponseHeaders,
+  setResponseStatus,
+  type H3Event,
+} from "h3"
 // @ts-expect-error virtual user-config import
 import userConfig from "#upload-kit-user-config"
-import type { UploadServerConfig, ServerHookContext } from "../types"
+import type { UploadServerConfig, ServerHookContext, StorageAdapter, DownloadDisposition } from "../types"
+import { resolveDownloadMode } from "../capabilities"
+import { authorizeRequest } from "../rate-limit"
+import { enforceOwnership } from "../ownership"
+import { requireFinishedUpload } from "../pending-uploads"
 import { decodeFileIdParam, requireStorage, requireStorageMethod } from "../utils"
+import { DOWNLOAD_SECURITY_HEADERS, contentDisposition, etagMatches, isActiveContentType, parseRange } from "../download"
 
 const config = userConfig as UploadServerConfig
 
+const MAX_FILENAME_LENGTH = 255
+
+/**
+ * Stream the object through Nitro. `stat` supplies the size and entity tag needed to answer
+ * `If-None-Match` with 304 and to resolve `Range` before the adapter opens the stream.
+ * Uploaded bytes are served from the app's origin, so active content types go out as
+ * `attachment` unless `authorize` returned `inlineActiveContent: true`.
+ */
+const proxy = async (
+  event: H3Event,
+  storage: StorageAdapter,
+  key: string,
+  ctx: ServerHookContext,
+  disposition: DownloadDisposition | undefined,
+) => {
+  const stat = requireStorageMethod(storage, "stat")
+  const getStream = requireStorageMethod(storage, "getStream")
+
+  const stored = await stat(key, ctx)
+  if (!stored) {
+    throw createError({ statusCode: 404, statusMessage: "Not Found", message: "File does not exist." })
+  }
+
+  const etag = stored.etag ? `"${stored.etag}"` : undefined
+  const cacheHeaders: Record<string, string> = { "Accept-Ranges": "bytes" }
+  if (etag) cacheHeaders.ETag = etag
+  if (stored.lastModified) cacheHeaders["Last-Modified"] = stored.lastModified.toUTCString()
+
+  if (etagMatches(getRequestHeader(event, "if-none-match"), stored.etag)) {
+    setResponseHeaders(event, cacheHeaders)
+    setResponseStatus(event, 304)
+    return null
+  }
+
+  const range = parseRange(getRequestHeader(event, "range"), stored.size)
+  if (range === "unsatisfiable") {
+    setResponseHeaders(event, { "Content-Range": `bytes */${stored.size}` })
+    throw createError({
+      statusCode: 416,
+      statusMessage: "Range Not Satisfiable",
+      message: "Requested range is outside the file.",
+    })
+  }
+
+  const filename = disposition?.filename ?? (key.split("/").pop() || key)
+  const type =
+    isActiveContentType(stored.contentType) && ctx.auth.inlineActiveContent !== true
+      ? "attachment"
+      : (disposition?.type ?? "inline")
+  setResponseHeaders(event, {
+    ...cacheHeaders,
+    ...DOWNLOAD_SECURITY_HEADERS,
+    "Content-Type": stored.contentType || "application/octet-stream",
+    "Content-Length": String(range ? range.end - range.start + 1 : stored.size),
+    "Content-Disposition": contentDisposition(type, filename),
+  })
+  if (range) {
+    setResponseHeaders(event, { "Content-Range": `bytes ${range.start}-${range.end}/${stored.size}` })
+    setResponseStatus(event, 206)
+  }
+
+  return sendStream(event, await getStream(key, range, ctx))
+}
+
+/** Control characters (U+0000–U+001F, U+007F) or a path separator. */
+const hasUnsafeFilenameChar = (filename: string): boolean => {
+  for (let i = 0; i < filename.length; i++) {
+    const code = filename.charCodeAt(i)
+    if (code < 0x20 || code === 0x7f || code === 0x2f || code === 0x5c) return true
+  }
+  return false
+}
+
+/**
+ * Optional `?disposition=inline|attachment&filename=` overrides. Validated here, then handed to
+ * `authorize` so the app decides who may rename what.
+ */
+const readDisposition = (event: H3Event): DownloadDisposition | undefined => {
+  const query = getQuery(event)
+  const type = typeof query.disposition === "string" ? query.disposition : undefined
+  const filename = typeof query.filename === "string" && query.filename !== "" ? query.filename : undefined
+  if (type === undefined && filename === undefined) return undefined
+
+  if (type !== undefined && type !== "inline" && type !== "attachment") {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Bad Request",
+      message: "`disposition` must be `inline` or `attachment`.",
+    })
+  }
+  if (filename !== undefined && (filename.length > MAX_FILENAME_LENGTH || hasUnsafeFilenameChar(filename))) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Bad Request",
+      message: `\`filename\` must be at most ${MAX_FILENAME_LENGTH} characters, without control characters or path separators.`,
+    })
+  }
+  return { type: type ?? "inline", filename }
+}
+
 export default defineEventHandler(async (event) => {
   const storage = requireStorage(config)
-  const presignDownload = requireStorageMethod(storage, "presignDownload")
+  const downloadMode = resolveDownloadMode(storage, config.downloadMode)
 
   const key = decodeFileIdParam(event)
+  const disposition = readDisposition(event)
 
-  const auth = config.authorize ? await config.authorize(event, { type: "presign-download", key }) : {}
+  const auth = await authorizeRequest(config, event, { type: "presign-download", key, ...(disposition && { disposition }) })
   const ctx: ServerHookContext = { event, auth }
+  await enforceOwnership(config, key, ctx)
+  await requireFinishedUpload(key)
+
+  if (downloadMode === "proxy") return proxy(event, storage, key, ctx, disposition)
 
-  return await presignDownload(key, ctx)
+  const presignDownload = requireStorageMethod(storage, "presignDownload")
+  return await presignDownload(key, ctx, disposition)
 })
@@ -0,0 +1,59 @@
+import { defineEventHandler, createError, getQuery } from "h3"
+// @ts-expect-error virtual user-config import
+import userConfig from "#upload-kit-user-config"
+import type { UploadServerConfig, ServerHookContext } from "../types"
+import { authorizeRequest } from "../rate-limit"
+import { canAccessKey } from "../ownership"
+import { listStoragePage, requireListing } from "../listing"
+import { requireStorage, requireStorageMethod } from "../utils"
+
+const config = userConfig as UploadServerConfig
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 1000
+
+const readString = (value: unknown): string | undefined => (typeof value === "string" && value !== "" ? value : undefined)
+
+/**
+ * One page of stored files for the client's `browse()`. Each entry carries a signed download
+ * URL, so a successful `list` authorization also grants read access to the listed keys —
+ * narrow `prefix` in `authorize` to scope what a caller may see. With `ownership`, keys the
+ * caller may not download are left out, so a page can hold fewer than `limit` files.
+ */
+export default defineEventHandler(async (event) => {
+  const storage = requireStorage(config)
+  requireListing(storage)
+  const presignDownload = requireStorageMethod(storage, "presignDownload")
+
+  const query = getQuery(event)
+  const prefix = readString(query.prefix)
+  const cursor = readString(query.cursor)
+  const rawLimit = readString(query.limit)
+  const limit = rawLimit === undefined ? DEFAULT_LIMIT : Number(rawLimit)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Bad Request",
+      message: `\`limit\` must be an integer between 1 and ${MAX_LIMIT}.`,
+    })
+  }
+
+  const auth = await authorizeRequest(config, event, { type: "list", prefix })
+  const ctx: ServerHookContext = { event, auth }
+
+  const page = await listStoragePage(storage, { prefix, cursor, limit }, ctx)
+  const allowed = await Promise.all(page.items.map((item) => canAccessKey(config, item.key, ctx)))
+  const files = await Promise.all(
+    page.items
+      .filter((_, index) => allowed[index])
+      .map(async (item) => ({
+        fileId: item.key,
+        size: item.size,
+        mimeType: item.contentType || "application/octet-stream",
+        lastModified: item.lastModified?.toISOString(),
+        downloadUrl: (await presignDownload(item.key, ctx)).downloadUrl,
+      })),
+  )
+
+  return { files, cursor: page.cursor }
+})
@@ -0,0 +1,33 @@
+import { defineEventHandler, createError, getRouterParam } from "h3"
+// @ts-expect-error virtual user-config import
+import userConfig from "#upload-kit-user-config"
+import type { UploadServerConfig } from "../types"
+import { isLocalFsStorage } from "../adapters/local"
+import { requireStorage } from "../utils"
+
+const config = userConfig as UploadServerConfig
+
+/**
+ * Serve the signed URLs `LocalFsStorage` hands out in place of presigned bucket URLs: PUT
+ * uploads and GET/HEAD downloads of `<key>`. The signature is the authorization, as with a
+ * presigned S3 URL, so `authorize` doesn't run here. 404 for every other adapter.
+ */
+export default defineEventHandler(async (event) => {
+  const storage = requireStorage(config)
+  if (!isLocalFsStorage(storage)) {
+    throw createError({ statusCode: 404, statusMessage: "Not Found" })
+  }
+
+  const raw = getRouterParam(event, "_")
+  if (!raw) {
+    throw createError({ statusCode: 400, statusMessage: "Bad Request", message: "Missing storage key." })
+  }
+  let key: string
+  try {
+    key = raw.split("/").map(decodeURIComponent).join("/")
+  } catch {
+    throw createError({ statusCode: 400, statusMessage: "Bad Request", message: "Invalid storage key encoding." })
+  }
+
+  return storage.serve(event, key)
+})
@@ -0,0 +1,41 @@
+import { defineEventHandler, createError } from "h3"
+// @ts-expect-error virtual user-config import
+import userConfig from "#upload-kit-user-config"
+import type { UploadServerConfig, ServerHookContext } from "../types"
+import { authorizeRequest } from "../rate-limit"
+import { enforceOwnership } from "../ownership"
+import { requireFinishedUpload } from "../pending-uploads"
+import { decodeFileIdParam, requireStorage, requireStorageMethod } from "../utils"
+
+const config = userConfig as UploadServerConfig
+
+/**
+ * Resolve a stored file for the client: its size and content type from the adapter's `stat`,
+ * plus a signed download URL. Backs `getRemoteFile` in the built-in transports, which is how
+ * `initialFiles` and `addExistingFiles` turn a storage key into a file.
+ */
+export default defineEventHandler(async (event) => {
+  const storage = requireStorage(config)
+  const stat = requireStorageMethod(storage, "stat")
+  const presignDownload = requireStorageMethod(storage, "presignDownload")
+
+  const key = decodeFileIdParam(event)
+
+  const auth = await authorizeRequest(config, event, { type: "presign-download", key })
+  const ctx: ServerHookContext = { event, auth }
+  await enforceOwnership(config, key, ctx)
+  await requireFinishedUpload(key)
+
+  const stored = await stat(key, ctx)
+  if (!stored) {
+    throw createError({ statusCode: 404, statusMessage: "Not Found", message: "File does not exist." })
+  }
+  const { downloadUrl } = await presignDownload(key, ctx)
+
+  return {
+    fileId: key,
+    size: stored.size,
+    mimeType: stored.contentType || "application/octet-stream",
+    downloadUrl,
+  }
+})
@@ -0,0 +1,20 @@
+import { defineEventHandler } from "h3"
+// @ts-expect-error virtual user-config import
+import userConfig from "#upload-kit-user-config"
+import type { UploadServerConfig } from "../types"
+import { requireStorage, requireStorageMethod } from "../utils"
+import { authorizeMultipartSession, readMultipartSession, removeMultipartSession } from "../multipart"
+
+const config = userConfig as UploadServerConfig
+
+export default defineEventHandler(async (event) => {
+  const storage = requireStorage(config)
+  const abortMultipartUpload = requireStorageMethod(storage, "abortMultipartUpload")
+
+  const { session } = await readMultipartSession(event)
+  const ctx = await authorizeMultipartSession(config, event, session, "abort")
+  await abortMultipartUpload({ fileId: session.fileId, uploadId: session.uploadId }, ctx)
+  await removeMultipartSession(session)
+
+  return { ok: true }
+})
@@ -0,0 +1,62 @@
+import { defineEventHandler, createError } from "h3"
+// @ts-expect-error virtual user-config import
+import userConfig from "#upload-kit-user-config"
+import type { UploadServerConfig, MultipartPart } from "../types"
+import { requireStorage, requireStorageMethod } from "../utils"
+import { authorizeMultipartSession, readMultipartSession, removeMultipartSession } from "../multipart"
+import { runProcessors } from "../processing"
+import { recordUpload } from "../registry"
+import { enforceStoredImageRestrictions, enforceStoredObjectMatches } from "../restrictions"
+import { issueFileToken } from "../ownership"
+
+const config = userConfig as UploadServerConfig
+
+const isPart = (v: unknown): v is MultipartPart => {
+  if (!v || typeof v !== "object") return false
+  const p = v as Record<string, unknown>
+  return typeof p.partNumber === "number" && Number.isInteger(p.partNumber) && typeof p.etag === "string" && p.etag.length > 0
+}
+
+export default defineEventHandler(async (event) => {
+  const storage = requireStorage(config)
+  const completeMultipartUpload = requireStorageMethod(storage, "completeMultipartUpload")
+  const stat = requireStorageMethod(storage, "stat")
+
+  const { body, session } = await readMultipartSession<{ parts?: unknown }>(event)
+  const ctx = await authorizeMultipartSession(config, event, session, "complete")
+  const parts = Array.isArray(body.parts) && body.parts.every(isPart) ? [...body.parts] : null
+  parts?.sort((a, b) => a.partNumber - b.partNumber)
+  if (!parts || parts.length !== session.partCount || parts.some((part, i) => part.partNumber !== i + 1)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Bad Request",
+      message: `Body must list \`parts: [{ partNumber, etag }]\` for every part 1..${session.partCount}.`,
+    })
+  }
+
+  const result = await completeMultipartUpload({ fileId: session.fileId, uploadId: session.uploadId, parts }, ctx)
+  await removeMultipartSession(session)
+
+  // The parts were PUT straight to the bucket, so the assembled object is checked against the
+  // declared descriptor; a mismatched one is deleted rather than left behind unverified.
+  const stored = await stat(session.fileId, ctx)
+  if (!stored) {
+    throw createError({ statusCode: 404, statusMessage: "Not Found", message: "The uploaded object does not exist." })
+  }
+  await enforceStoredObjectMatches(stored, session.file, async () => {
+    await storage.delete?.(session.fileId, ctx)
+  })
+  await enforceStoredImageRestrictions(config, { ...session.file, key: session.fileId }, session.restrictions, ctx)
+
+  const processed = await runProcessors(config, { ...session.file, key: session.fileId }, ctx)
+  await recordUpload(config, { ...session.file, key: session.fileId }, ctx)
+  await config.hooks?.afterUpload?.({ ...session.file, key: session.fileId }, ctx)
+
+  const fileToken = issueFileToken(config, session.fileId)
+  return {
+    publicUrl: result.publicUrl,
+    fileId: session.fileId,
+    ...(processed && { processed }),
+    ...(fileToken && { fileToken }),
+  }
+})
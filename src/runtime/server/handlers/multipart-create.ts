@@ -0,0 +1,72 @@
+import { defineEventHandler, readBody, createError } from "h3"
+// @ts-expect-error virtual user-config import
+import userConfig from "#upload-kit-user-config"
+import type { UploadServerConfig, ServerHookContext } from "../types"
+import { enforceRestrictions, getEffectiveRestrictions, storedImageRestrictions } from "../restrictions"
+import { authorizeRequest } from "../rate-limit"
+import { resolveExistingState } from "../registry"
+import { generateFileId, isFileDescriptor, readProfile, requireStorage } from "../utils"
+import { hasMultipartSupport } from "../capabilities"
+import { resolvePartSize, saveMultipartSession } from "../multipart"
+
+const config = userConfig as UploadServerConfig
+
+/**
+ * Start a multipart upload. This is the only multipart endpoint that runs `authorize`,
+ * restrictions, validators and `beforePresign` — the part/complete/abort endpoints are
+ * bound to the session recorded here.
+ */
+export default defineEventHandler(async (event) => {
+  const storage = requireStorage(config)
+  if (!hasMultipartSupport(storage)) {
+    throw createError({
+      statusCode: 501,
+      statusMessage: "Not Implemented",
+      message: `Storage adapter "${storage.id}" does not implement multipart uploads.`,
+    })
+  }
+
+  const body = (await readBody(event)) as { file?: unknown; partSize?: unknown; profile?: unknown } | null
+  const file = body?.file
+  if (!isFileDescriptor(file)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Bad Request",
+      message: "Body must be `{ file: { name, size, mimeType }, partSize?, profile? }`.",
+    })
+  }
+
+  const profile = readProfile(body?.profile)
+
+  const auth = await authorizeRequest(config, event, { type: "presign-upload", file, profile })
+  const ctx: ServerHookContext = { event, auth }
+
+  const state = await resolveExistingState(config, ctx)
+  const restrictions = await getEffectiveRestrictions(config, ctx, profile)
+  enforceRestrictions(file, restrictions, state)
+  // Image dimensions are only known once the object is stored; `/multipart/complete` checks them then.
+  const imageRestrictions = storedImageRestrictions(config, restrictions)
+
+  if (config.validators) {
+    for (const validate of config.validators) await validate(file, ctx)
+  }
+
+  await config.hooks?.beforePresign?.(file, ctx)
+
+  const partSize = resolvePartSize(file.size, typeof body?.partSize === "number" ? body.partSize : undefined)
+  const partCount = Math.max(1, Math.ceil(file.size / partSize))
+
+  const fileId = generateFileId(file)
+  const init = await storage.createMultipartUpload!({ ...file, fileId }, ctx)
+  await saveMultipartSession({
+    fileId: init.fileId,
+    uploadId: init.uploadId,
+    file,
+    partSize,
+    partCount,
+    auth,
+    ...(imageRestrictions && { restrictions: imageRestrictions }),
+  })
+
+  return { ...init, partSize, partCount }
+})
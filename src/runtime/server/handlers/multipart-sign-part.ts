@@ -0,0 +1,29 @@
+import { defineEventHandler, createError } from "h3"
+// @ts-expect-error virtual user-config import
+import userConfig from "#upload-kit-user-config"
+import type { UploadServerConfig } from "../types"
+import { requireStorage, requireStorageMethod } from "../utils"
+import { authorizeMultipartSession, partSizeOf, readMultipartSession } from "../multipart"
+
+const config = userConfig as UploadServerConfig
+
+export default defineEventHandler(async (event) => {
+  const storage = requireStorage(config)
+  const signMultipartPart = requireStorageMethod(storage, "signMultipartPart")
+
+  const { body, session } = await readMultipartSession<{ partNumber?: unknown }>(event)
+  const ctx = await authorizeMultipartSession(config, event, session, "sign-part")
+  const partNumber = body.partNumber
+  if (typeof partNumber !== "number" || !Number.isInteger(partNumber) || partNumber < 1 || partNumber > session.partCount) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Bad Request",
+      message: `\`partNumber\` must be an integer between 1 and ${session.partCount}.`,
+    })
+  }
+
+  const size = partSizeOf(session, partNumber)
+  const signed = await signMultipartPart({ fileId: session.fileId, uploadId: session.uploadId, partNumber, size }, ctx)
+
+  return { ...signed, partNumber, size }
+})
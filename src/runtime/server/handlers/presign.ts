@@ -2,30 +2,20 @@ import { defineEventHandler, readBody, createError } from "h3"
 // Resolved by the module's Nitro alias to ~~/server/upload.server.config.ts
 // @ts-expect-error virtual user-config import
 import userConfig from "#upload-kit-user-config"
-import type { UploadServerConfig, UploadFileDescriptor, ServerHookContext } from "../types"
-import { enforceRestrictions } from "../restrictions"
-import { generateFileId, getRestrictions, requireStorage } from "../utils"
+import type { UploadServerConfig, ServerHookContext } from "../types"
+import { enforceRestrictions, getEffectiveRestrictions, storedImageRestrictions } from "../restrictions"
+import { authorizeRequest } from "../rate-limit"
+import { issueFileToken } from "../ownership"
+import { resolveExistingState } from "../registry"
+import { generateFileId, isFileDescriptor, readProfile, requireStorage } from "../utils"
+import { savePendingUpload } from "../pending-uploads"
 
 const config = userConfig as UploadServerConfig
 
-const isFileDescriptor = (v: unknown): v is UploadFileDescriptor => {
-  if (!v || typeof v !== "object") return false
-  const f = v as Record<string, unknown>
-  return (
-    typeof f.name === "string" &&
-    f.name.length > 0 &&
-    typeof f.size === "number" &&
-    Number.isFinite(f.size) &&
-    f.size >= 0 &&
-    typeof f.mimeType === "string" &&
-    f.mimeType.length > 0
-  )
-}
-
 export default defineEventHandler(async (event) => {
   const storage = requireStorage(config)
 
-  const body = (await readBody(event)) as { file?: unknown } | null
+  const body = (await readBody(event)) as { file?: unknown; profile?: unknown } | null
   const file = body?.file
   if (!isFileDescriptor(file)) {
     throw createError({
@@ -35,11 +25,16 @@ export default defineEventHandler(async (event) => {
     })
   }
 
-  const auth = config.authorize ? await config.authorize(event, { type: "presign-upload", file }) : {}
+  const profile = readProfile(body?.profile)
+
+  const auth = await authorizeRequest(config, event, { type: "presign-upload", file, profile })
   const ctx: ServerHookContext = { event, auth }
 
-  const state = config.getExistingState ? await config.getExistingState(ctx) : undefined
-  enforceRestrictions(file, getRestrictions(), state)
+  const state = await resolveExistingState(config, ctx)
+  const restrictions = await getEffectiveRestrictions(config, ctx, profile)
+  enforceRestrictions(file, restrictions, state)
+  // Image dimensions are only known once the object is stored; `/complete` checks them then.
+  const imageRestrictions = storedImageRestrictions(config, restrictions)
 
   if (config.validators) {
     for (const validate of config.validators) await validate(file, ctx)
@@ -48,5 +43,14 @@ export default defineEventHandler(async (event) => {
   await config.hooks?.beforePresign?.(file, ctx)
 
   const fileId = generateFileId(file)
-  return await storage.presignUpload({ ...file, fileId }, ctx)
+  const result = await storage.presignUpload({ ...file, fileId }, ctx)
+  await savePendingUpload({
+    key: result.fileId,
+    file,
+    publicUrl: result.publicUrl,
+    auth,
+    ...(imageRestrictions && { restrictions: imageRestrictions }),
+  })
+  const fileToken = issueFileToken(config, result.fileId)
+  return { ...result, ...(fileToken && { fileToken }) }
 })
@@ -0,0 +1,261 @@
+import {
+  defineEventHandler,
+  createError,
+  getQuery,
+  getRequestHeader,
+  getRouterParam,
+  readRawBody,
+  setResponseHeader,
+  setResponseHeaders,
+  setResponseStatus,
+  type H3Event,
+} from "h3"
+// @ts-expect-error virtual user-config import
+import userConfig from "#upload-kit-user-config"
+import type { UploadServerConfig, UploadFileDescriptor, ServerHookContext } from "../types"
+import { hasImageRestrictions, type Restrictions } from "../../shared"
+import { enforceImageRestrictions, enforceRestrictions, getEffectiveRestrictions } from "../restrictions"
+import { runProcessors } from "../processing"
+import { authorizeRequest } from "../rate-limit"
+import { recordUpload, resolveExistingState } from "../registry"
+import { issueFileToken } from "../ownership"
+import { generateFileId, getRestrictions, readProfile, requireStorage, requireStorageMethod } from "../utils"
+import {
+  DEFAULT_TUS_MAX_SIZE,
+  TUS_EXTENSIONS,
+  TUS_VERSION,
+  appendTusChunk,
+  createTusUpload,
+  finishTusUpload,
+  getTusUpload,
+  parseUploadMetadata,
+  readTusBody,
+  serializeTusRequest,
+  type TusUpload,
+} from "../tus"
+
+const config = userConfig as UploadServerConfig
+const maxSize = config.tusMaxSize ?? DEFAULT_TUS_MAX_SIZE
+
+const readLengthHeader = (event: H3Event, name: string): number | undefined => {
+  const raw = getRequestHeader(event, name)
+  if (raw === undefined || !/^\d+$/.test(raw)) return undefined
+  return Number(raw)
+}
+
+const requireUpload = async (event: H3Event): Promise<TusUpload> => {
+  const id = getRouterParam(event, "uploadId")
+  const upload = id ? await getTusUpload(id) : null
+  if (!upload) {
+    throw createError({ statusCode: 404, statusMessage: "Not Found", message: "Unknown or expired upload." })
+  }
+  return upload
+}
+
+/**
+ * Tag a response with the upload's storage key and, once the file is in storage, its public URL
+ * and file token. Only the uploader knows the upload URL, so a `HEAD` after a lost final response
+ * can hand the token out again.
+ */
+const setResultHeaders = (event: H3Event, upload: TusUpload) => {
+  setResponseHeader(event, "Upload-Kit-File-Id", upload.key)
+  if (!upload.publicUrl) return
+  setResponseHeader(event, "Upload-Kit-Public-Url", upload.publicUrl)
+  const fileToken = issueFileToken(config, upload.key)
+  if (fileToken) setResponseHeader(event, "Upload-Kit-File-Token", fileToken)
+}
+
+/**
+ * Creation: validate the declared file exactly like `/direct` does, then record the upload.
+ */
+const create = async (event: H3Event) => {
+  const storage = requireStorage(config)
+  requireStorageMethod(storage, "put")
+
+  const size = readLengthHeader(event, "upload-length")
+  if (size === undefined) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Bad Request",
+      message: "`Upload-Length` is required (`Upload-Defer-Length` is not supported).",
+    })
+  }
+  if (size > maxSize) {
+    throw createError({
+      statusCode: 413,
+      statusMessage: "Payload Too Large",
+      message: `\`Upload-Length\` exceeds tusMaxSize (${maxSize} bytes).`,
+    })
+  }
+
+  const metadata = parseUploadMetadata(getRequestHeader(event, "upload-metadata"))
+  const file: UploadFileDescriptor = {
+    name: metadata.filename || metadata.name || "upload",
+    size,
+    mimeType: metadata.filetype || metadata.type || "application/octet-stream",
+  }
+
+  const profile = readProfile(metadata.profile)
+
+  const auth = await authorizeRequest(config, event, { type: "direct-upload", file, profile })
+  const ctx: ServerHookContext = { event, auth }
+
+  const state = await resolveExistingState(config, ctx)
+  const restrictions = await getEffectiveRestrictions(config, ctx, profile)
+  enforceRestrictions(file, restrictions, state)
+
+  if (config.validators) {
+    for (const validate of config.validators) await validate(file, ctx)
+  }
+
+  const fileId = generateFileId(file)
+  const key = storage.resolveKey?.({ ...file, fileId }) ?? `uploads/${fileId}`
+  const id = crypto.randomUUID()
+  await createTusUpload({ id, key, file, auth, ...(hasImageRestrictions(restrictions) && { restrictions }) })
+
+  const base = event.path.split("?")[0]!.replace(/\/+$/, "")
+  setResponseHeader(event, "Location", `${base}/${id}`)
+  setResponseHeader(event, "Upload-Kit-File-Id", key)
+  setResponseStatus(event, 201)
+  return null
+}
+
+const head = async (event: H3Event) => {
+  const upload = await requireUpload(event)
+  setResponseHeaders(event, {
+    "Upload-Offset": String(upload.offset),
+    "Upload-Length": String(upload.file.size),
+    "Cache-Control": "no-store",
+  })
+  setResultHeaders(event, upload)
+  return null
+}
+
+/**
+ * Append a chunk at the current offset. The final chunk writes the assembled body through the
+ * adapter's `put` and runs the `processors` and `afterUpload`.
+ */
+const patch = async (event: H3Event) => {
+  const storage = requireStorage(config)
+  const put = requireStorageMethod(storage, "put")
+
+  if (getRequestHeader(event, "content-type")?.split(";")[0]?.trim() !== "application/offset+octet-stream") {
+    throw createError({
+      statusCode: 415,
+      statusMessage: "Unsupported Media Type",
+      message: "PATCH requests must use `Content-Type: application/offset+octet-stream`.",
+    })
+  }
+
+  let upload = await requireUpload(event)
+  const offset = readLengthHeader(event, "upload-offset")
+  if (offset === undefined || offset !== upload.offset || upload.publicUrl) {
+    throw createError({
+      statusCode: 409,
+      statusMessage: "Conflict",
+      message: `\`Upload-Offset\` must match the current offset (${upload.offset}).`,
+    })
+  }
+
+  // Check the declared length first so an oversized chunk is never read into memory.
+  const contentLength = readLengthHeader(event, "content-length")
+  const remaining = upload.file.size - upload.offset
+  const body =
+    contentLength !== undefined && contentLength > remaining ? null : ((await readRawBody(event, false)) ?? Buffer.alloc(0))
+  if (!body || body.byteLength > remaining) {
+    throw createError({
+      statusCode: 413,
+      statusMessage: "Payload Too Large",
+      message: "Chunk would exceed the declared `Upload-Length`.",
+    })
+  }
+
+  if (body.byteLength > 0) upload = await appendTusChunk(upload, body)
+
+  if (upload.offset === upload.file.size) {
+    const ctx: ServerHookContext = { event, auth: upload.auth }
+    const assembled = await readTusBody(upload)
+    try {
+      enforceImageRestrictions(upload.file, upload.restrictions, assembled)
+    } catch (error) {
+      await finishTusUpload(upload)
+      throw error
+    }
+    const result = await put({ key: upload.key, body: assembled, contentType: upload.file.mimeType }, ctx)
+    await finishTusUpload(upload, result.publicUrl)
+    upload = { ...upload, publicUrl: result.publicUrl }
+    await runProcessors(config, { ...upload.file, key: upload.key }, ctx, assembled)
+    await recordUpload(config, { ...upload.file, key: upload.key }, ctx)
+    await config.hooks?.afterUpload?.({ ...upload.file, key: upload.key }, ctx)
+  }
+
+  setResponseHeader(event, "Upload-Offset", String(upload.offset))
+  setResultHeaders(event, upload)
+  setResponseStatus(event, 204)
+  return null
+}
+
+/** Termination: discard the buffered chunks of an unfinished upload. */
+const terminate = async (event: H3Event) => {
+  const upload = await requireUpload(event)
+  await finishTusUpload(upload)
+  setResponseStatus(event, 204)
+  return null
+}
+
+/** Largest file any MIME group may upload, or `undefined` when one of them has no limit. */
+const largestFileSize = (restrictions: Restrictions | undefined) => {
+  const limits = [
+    restrictions?.maxFileSize,
+    ...(restrictions?.rules ?? []).map((rule) => rule.maxFileSize ?? restrictions?.maxFileSize),
+  ]
+  return limits.some((limit) => limit == null) ? undefined : Math.max(...(limits as number[]))
+}
+
+/**
+ * Discovery: advertise the largest file the static restrictions allow for `?profile=`, capped by
+ * `tusMaxSize`. OPTIONS requests, CORS preflights included, carry no credentials, so discovery
+ * skips `authorize` and can't apply `resolveRestrictions`; creation still enforces both.
+ */
+const options = async (event: H3Event) => {
+  const restrictions = getRestrictions(readProfile(getQuery(event).profile))
+  const maxFileSize = Math.min(largestFileSize(restrictions) ?? maxSize, maxSize)
+
+  setResponseHeaders(event, {
+    "Tus-Version": TUS_VERSION,
+    "Tus-Extension": TUS_EXTENSIONS,
+    "Tus-Max-Size": String(maxFileSize),
+  })
+  setResponseStatus(event, 204)
+  return null
+}
+
+/**
+ * tus 1.0 server (core + creation + termination). Mounted at `${handlerRoute}/tus` for
+ * creation and discovery, and at `${handlerRoute}/tus/:uploadId` for the upload resources.
+ * Chunks are buffered in Nitro storage and written through the storage adapter's `put`
+ * once the upload is complete, so uploads are capped at `tusMaxSize`.
+ */
+export default defineEventHandler(async (event) => {
+  setResponseHeader(event, "Tus-Resumable", TUS_VERSION)
+  const method = (getRequestHeader(event, "x-http-method-override") ?? event.method).toUpperCase()
+
+  if (method === "OPTIONS") return options(event)
+
+  if (getRequestHeader(event, "tus-resumable") !== TUS_VERSION) {
+    setResponseHeader(event, "Tus-Version", TUS_VERSION)
+    throw createError({
+      statusCode: 412,
+      statusMessage: "Precondition Failed",
+      message: `Unsupported \`Tus-Resumable\` version. Supported: ${TUS_VERSION}.`,
+    })
+  }
+
+  const uploadId = getRouterParam(event, "uploadId")
+  if (!uploadId && method === "POST") return create(event)
+  if (uploadId && method === "HEAD") return head(event)
+  if (uploadId && method === "PATCH") return serializeTusRequest(uploadId, () => patch(event))
+  if (uploadId && method === "DELETE") return serializeTusRequest(uploadId, () => terminate(event))
+
+  throw createError({ statusCode: 405, statusMessage: "Method Not Allowed", message: `${method} is not supported here.` })
+})
@@ -1,2 +1,11 @@
 export { defineUploadServerConfig } from "./define-config"
+export { MetadataProcessor, type MetadataProcessorOptions, type UploadMetadata } from "./processors/metadata"
+export {
+  ImageResizeProcessor,
+  type ImageResizeProcessorOptions,
+  type ImageResizeVariant,
+  type ResizedImage,
+} from "./processors/image-resize"
+export { MalwareScanProcessor, type MalwareScanProcessorOptions } from "./processors/malware-scan"
+export { ClamdScanner, type ClamdScannerOptions, type MalwareScanner, type MalwareScanResult } from "./clamd"
 export type * from "./types"
@@ -0,0 +1,54 @@
+import { createError } from "h3"
+import type { ServerHookContext, StorageAdapter, StorageListOptions, StorageListPage } from "./types"
+import { requireStorageMethod } from "./utils"
+import { hasListSupport } from "./capabilities"
+
+/** Throw 501 unless the adapter can list, like {@link requireStorageMethod} does for one method. */
+export function requireListing(storage: StorageAdapter): void {
+  if (hasListSupport(storage)) return
+  throw createError({
+    statusCode: 501,
+    statusMessage: "Not Implemented",
+    message: `Storage adapter "${storage.id}" does not implement listPage() or list().`,
+  })
+}
+
+/**
+ * One page of stored objects, through the adapter's `listPage`. An adapter that only has the
+ * older `list(prefix)` is listed in full and sliced, with the next page's offset as the cursor.
+ */
+export async function listStoragePage(
+  storage: StorageAdapter,
+  input: StorageListOptions,
+  ctx: ServerHookContext,
+): Promise<StorageListPage> {
+  if (storage.listPage) return storage.listPage(input, ctx)
+  const list = requireStorageMethod(storage, "list")
+
+  const offset = input.cursor === undefined ? 0 : Number(input.cursor)
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw createError({ statusCode: 400, statusMessage: "Bad Request", message: "Invalid `cursor`." })
+  }
+  const items = await list(input.prefix, ctx)
+  const end = input.limit === undefined ? items.length : offset + input.limit
+  return { items: items.slice(offset, end), cursor: end < items.length ? String(end) : undefined }
+}
+
+/** Every stored object under `prefix`, through the adapter's `list` or by following `listPage` to its last page. */
+export async function listAllStorage(
+  storage: StorageAdapter,
+  prefix: string | undefined,
+  ctx: ServerHookContext,
+): Promise<Array<{ key: string; size: number }>> {
+  if (storage.list) return storage.list(prefix, ctx)
+  const listPage = requireStorageMethod(storage, "listPage")
+
+  const items: Array<{ key: string; size: number }> = []
+  let cursor: string | undefined
+  do {
+    const page = await listPage({ prefix, cursor }, ctx)
+    items.push(...page.items)
+    cursor = page.cursor
+  } while (cursor)
+  return items
+}
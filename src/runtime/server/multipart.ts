@@ -0,0 +1,119 @@
+import { createError, readBody, type H3Event } from "h3"
+import { useStorage } from "#imports"
+import type { Restrictions } from "../shared"
+import type { AuthorizeContext, AuthorizeOp, ServerHookContext, UploadFileDescriptor, UploadServerConfig } from "./types"
+import { authorizeRequest } from "./rate-limit"
+
+/** S3's lower bound for every part except the last. */
+export const MIN_PART_SIZE = 5 * 1024 * 1024
+export const MAX_PART_SIZE = 5 * 1024 * 1024 * 1024
+export const MAX_PARTS = 10_000
+export const DEFAULT_PART_SIZE = 8 * 1024 * 1024
+
+/** How long an unfinished multipart session stays usable after `/multipart/create`. */
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Server-side record of a multipart upload, written once `/multipart/create` has run
+ * `authorize`, restrictions and validators. The follow-up endpoints only accept uploads
+ * with a live session, so they never re-validate and the client can't change the
+ * file's size, part layout or key after the fact.
+ */
+export interface MultipartSession {
+  fileId: string
+  uploadId: string
+  file: UploadFileDescriptor
+  partSize: number
+  partCount: number
+  auth: AuthorizeContext
+  /** Restrictions to check the completed object's image dimensions against, when they set any. */
+  restrictions?: Restrictions
+  expiresAt: number
+}
+
+const sessionKey = (uploadId: string) => `upload-kit:multipart:${uploadId}`
+const fileKey = (fileId: string) => `upload-kit:multipart-file:${fileId}`
+
+/**
+ * Resolve the part size for a file: the client's preference clamped to S3's limits,
+ * grown as needed so the file fits in {@link MAX_PARTS} parts.
+ */
+export function resolvePartSize(fileSize: number, requested?: number): number {
+  const preferred =
+    requested != null && Number.isFinite(requested) ? Math.min(Math.floor(requested), MAX_PART_SIZE) : DEFAULT_PART_SIZE
+  const partSize = Math.max(preferred, MIN_PART_SIZE, Math.ceil(fileSize / MAX_PARTS))
+  if (partSize > MAX_PART_SIZE) {
+    throw createError({
+      statusCode: 413,
+      statusMessage: "Payload Too Large",
+      message: `File is too large for a multipart upload (max ${MAX_PARTS} parts of ${MAX_PART_SIZE} bytes).`,
+    })
+  }
+  return partSize
+}
+
+/** Size of part `partNumber` (1-based); only the last part may be smaller than `partSize`. */
+export function partSizeOf(session: MultipartSession, partNumber: number): number {
+  if (partNumber < session.partCount) return session.partSize
+  return session.file.size - session.partSize * (session.partCount - 1)
+}
+
+export async function saveMultipartSession(session: Omit<MultipartSession, "expiresAt">): Promise<MultipartSession> {
+  const stored: MultipartSession = { ...session, expiresAt: Date.now() + SESSION_TTL_MS }
+  const storage = useStorage()
+  await storage.setItem(sessionKey(session.uploadId), stored)
+  await storage.setItem(fileKey(session.fileId), session.uploadId)
+  return stored
+}
+
+export async function removeMultipartSession(session: MultipartSession): Promise<void> {
+  const storage = useStorage()
+  await storage.removeItem(sessionKey(session.uploadId))
+  await storage.removeItem(fileKey(session.fileId))
+}
+
+/** Whether `fileId` belongs to a multipart upload that was started but not completed or aborted. */
+export async function hasOpenMultipartSession(fileId: string): Promise<boolean> {
+  const storage = useStorage()
+  const uploadId = await storage.getItem<string>(fileKey(fileId))
+  if (!uploadId) return false
+  const session = await storage.getItem<MultipartSession>(sessionKey(uploadId))
+  return !!session && session.expiresAt >= Date.now()
+}
+
+/**
+ * Read `{ uploadId, ... }` from the request body and load its session. Throws 404 for unknown
+ * or expired uploads, so a client can only touch multipart uploads that `/multipart/create` started.
+ */
+export async function readMultipartSession<T extends Record<string, unknown>>(
+  event: H3Event,
+): Promise<{ body: T; session: MultipartSession }> {
+  const body = (await readBody(event)) as (T & { uploadId?: unknown }) | null
+  if (!body || typeof body.uploadId !== "string" || body.uploadId.length === 0) {
+    throw createError({ statusCode: 400, statusMessage: "Bad Request", message: "Body must include an `uploadId`." })
+  }
+
+  const session = await useStorage().getItem<MultipartSession>(sessionKey(body.uploadId))
+  if (!session || session.expiresAt < Date.now()) {
+    throw createError({ statusCode: 404, statusMessage: "Not Found", message: "Unknown or expired multipart upload." })
+  }
+  return { body, session }
+}
+
+/**
+ * Authorize a follow-up request on `session` and apply the `multipart` rate limit. When
+ * `/multipart/create` identified a user, only that user may sign parts, complete or abort the
+ * upload; knowing the `uploadId` isn't enough. Hooks keep seeing the auth from `create`.
+ */
+export async function authorizeMultipartSession(
+  config: UploadServerConfig,
+  event: H3Event,
+  session: MultipartSession,
+  action: Extract<AuthorizeOp, { type: "multipart" }>["action"],
+): Promise<ServerHookContext> {
+  const auth = await authorizeRequest(config, event, { type: "multipart", action, key: session.fileId })
+  if (session.auth.userId !== undefined && auth.userId !== session.auth.userId) {
+    throw createError({ statusCode: 403, statusMessage: "Forbidden", message: "This multipart upload belongs to another user." })
+  }
+  return { event, auth: session.auth }
+}
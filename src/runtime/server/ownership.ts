@@ -0,0 +1,85 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+import { createError, getQuery, getRequestHeader, type H3Event } from "h3"
+import { getUploadRecord } from "./registry"
+import type { ServerHookContext, UploadServerConfig } from "./types"
+
+const requireSecret = (config: UploadServerConfig): string => {
+  const secret = config.ownership?.secret
+  if (!secret) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: "Internal Server Error",
+      message: "[nuxt-upload-kit] `ownership.secret` is required by the token strategy.",
+    })
+  }
+  return secret
+}
+
+const signKey = (secret: string, key: string) => createHmac("sha256", secret).update(`upload-kit:file:${key}`).digest("base64url")
+
+/**
+ * File token to return with an upload under the token strategy, `undefined` otherwise.
+ * Whoever holds it can delete and download the key, so only hand it to the uploader.
+ */
+export function issueFileToken(config: UploadServerConfig, key: string): string | undefined {
+  if (config.ownership?.strategy !== "token") return undefined
+  return signKey(requireSecret(config), key)
+}
+
+/** Token sent with a request: the `X-Upload-Token` header, or a `token` query parameter for plain links. */
+const readFileToken = (event: H3Event): string | undefined => {
+  const token = getRequestHeader(event, "x-upload-token") ?? getQuery(event).token
+  return typeof token === "string" ? token : undefined
+}
+
+const tokenMatches = (expected: string, actual: string | undefined) => {
+  if (!actual) return false
+  const a = Buffer.from(expected)
+  const b = Buffer.from(actual)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+const ownsRecordedKey = async (config: UploadServerConfig, key: string, ctx: ServerHookContext): Promise<boolean> => {
+  const record = await getUploadRecord(config, key)
+  return !!record?.owner && record.owner === ctx.auth.userId
+}
+
+/**
+ * Under the token strategy a request without the key's token (a `/list` page, or `/meta` for
+ * `initialFiles`) can still prove ownership through the registry's recorded owner, when enabled.
+ */
+const ownsKey = async (config: UploadServerConfig, key: string, ctx: ServerHookContext): Promise<boolean> => {
+  if (config.ownership!.strategy === "token") {
+    if (tokenMatches(signKey(requireSecret(config), key), readFileToken(ctx.event))) return true
+    return !!config.registry && (await ownsRecordedKey(config, key, ctx))
+  }
+  if (!config.registry) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: "Internal Server Error",
+      message: "[nuxt-upload-kit] The registry ownership strategy requires `registry` to be enabled.",
+    })
+  }
+  return ownsRecordedKey(config, key, ctx)
+}
+
+/** Whether the caller owns `key` or `canAccess` allows it. Always `true` without `ownership`. */
+export async function canAccessKey(config: UploadServerConfig, key: string, ctx: ServerHookContext): Promise<boolean> {
+  if (!config.ownership) return true
+  if (await ownsKey(config, key, ctx)) return true
+  return !!(await config.ownership.canAccess?.(key, ctx))
+}
+
+/**
+ * Reject with 403 unless the caller owns `key` or `canAccess` allows it. Runs after `authorize`,
+ * so `ctx.auth` identifies the caller. A no-op without `ownership`.
+ */
+export async function enforceOwnership(config: UploadServerConfig, key: string, ctx: ServerHookContext): Promise<void> {
+  if (await canAccessKey(config, key, ctx)) return
+
+  throw createError({
+    statusCode: 403,
+    statusMessage: "Forbidden",
+    message: `Access to "${key}" is not allowed.`,
+  })
+}
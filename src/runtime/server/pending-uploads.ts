@@ -0,0 +1,54 @@
+import { createError } from "h3"
+import { useStorage } from "#imports"
+import type { Restrictions } from "../shared"
+import type { AuthorizeContext, UploadFileDescriptor } from "./types"
+import { hasOpenMultipartSession } from "./multipart"
+
+/** How long a presigned upload can be confirmed through `/complete` after it was signed. */
+const PENDING_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * A presigned upload waiting for the client's `/complete` call. Records the descriptor that
+ * passed `authorize`, restrictions and validators, so `/complete` checks the stored object
+ * against what was signed rather than against what the client reports afterwards.
+ */
+export interface PendingUpload {
+  key: string
+  file: UploadFileDescriptor
+  publicUrl: string
+  auth: AuthorizeContext
+  /** Restrictions to check the stored object's image dimensions against, when they set any. */
+  restrictions?: Restrictions
+  expiresAt: number
+}
+
+const pendingKey = (key: string) => `upload-kit:pending:${key}`
+
+export async function savePendingUpload(upload: Omit<PendingUpload, "expiresAt">): Promise<void> {
+  await useStorage().setItem(pendingKey(upload.key), { ...upload, expiresAt: Date.now() + PENDING_TTL_MS })
+}
+
+/** Load a pending upload, or `null` when it was never signed, already completed, or expired. */
+export async function getPendingUpload(key: string): Promise<PendingUpload | null> {
+  const upload = await useStorage().getItem<PendingUpload>(pendingKey(key))
+  if (!upload || upload.expiresAt < Date.now()) return null
+  return upload
+}
+
+export async function removePendingUpload(key: string): Promise<void> {
+  await useStorage().removeItem(pendingKey(key))
+}
+
+/**
+ * Reject with 409 while `key` still has a presigned upload waiting for `/complete` or an open
+ * multipart session. Those objects may already be in the bucket, but haven't been verified or
+ * run through the `processors` (malware scanning included), so they must not be served yet.
+ */
+export async function requireFinishedUpload(key: string): Promise<void> {
+  if (!(await getPendingUpload(key)) && !(await hasOpenMultipartSession(key))) return
+  throw createError({
+    statusCode: 409,
+    statusMessage: "Conflict",
+    message: "The upload of this file has not been completed.",
+  })
+}
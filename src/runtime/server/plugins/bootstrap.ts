@@ -2,7 +2,7 @@
 import userConfig from "#upload-kit-user-config"
 import { defineNitroPlugin, useRuntimeConfig } from "#imports"
 import type { UploadServerConfig } from "../types"
-import { resolveMode } from "../capabilities"
+import { resolveDownloadMode, resolveMode } from "../capabilities"
 
 const config = userConfig as UploadServerConfig
 
@@ -16,6 +16,9 @@ export default defineNitroPlugin(() => {
   runtimeConfig.public.uploadKit = {
     ...existing,
     mode,
+    downloadMode: resolveDownloadMode(config.storage, config.downloadMode),
     capabilities,
+    // The client fetches per-caller restrictions from `/config` only when they can differ from the static ones.
+    dynamicRestrictions: !!config.resolveRestrictions,
   }
 })
@@ -0,0 +1,6 @@
+// Registers the custom rules in shared/upload.rules.ts before the handlers enforce restrictions.
+// @ts-expect-error virtual import of shared/upload.rules.ts; resolved by the module
+import "#upload-kit-rules"
+import { defineNitroPlugin } from "#imports"
+
+export default defineNitroPlugin(() => {})
@@ -0,0 +1,47 @@
+import { Readable } from "node:stream"
+import type { ReadableStream as WebReadableStream } from "node:stream/web"
+import type { ServerHookContext, ServerProcessorContext, UploadedFile, UploadServerConfig } from "./types"
+import { requireStorage, requireStorageMethod } from "./utils"
+
+const toNodeStream = (stream: ReadableStream | Readable): Readable =>
+  stream instanceof Readable ? stream : Readable.fromWeb(stream as WebReadableStream)
+
+export const readAll = async (stream: ReadableStream | Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = []
+  for await (const chunk of toNodeStream(stream)) chunks.push(Buffer.from(chunk as Uint8Array))
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Run the configured `processors` that match `file`, in order. Returns their results keyed by
+ * processor name, or `undefined` when none ran so responses stay unchanged.
+ * Pass `body` when the bytes are already in memory to spare a read from storage.
+ */
+export async function runProcessors(
+  config: UploadServerConfig,
+  file: UploadedFile,
+  ctx: ServerHookContext,
+  body?: Uint8Array,
+): Promise<Record<string, unknown> | undefined> {
+  const processors = config.processors?.filter((processor) => !processor.match || processor.match(file))
+  if (!processors?.length) return undefined
+
+  const storage = requireStorage(config)
+  const openStream = () => requireStorageMethod(storage, "getStream")(file.key, undefined, ctx)
+  let bytes: Promise<Buffer> | undefined = body
+    ? Promise.resolve(Buffer.from(body.buffer, body.byteOffset, body.byteLength))
+    : undefined
+  const processorCtx: ServerProcessorContext = {
+    ...ctx,
+    storage,
+    read: () => (bytes ??= openStream().then(readAll)),
+    stream: async () => (bytes ? Readable.from([await bytes]) : toNodeStream(await openStream())),
+    put: (input) => requireStorageMethod(storage, "put")(input, ctx),
+  }
+
+  const results: Record<string, unknown> = {}
+  for (const processor of processors) {
+    results[processor.name] = await processor.process(file, processorCtx)
+  }
+  return results
+}
@@ -0,0 +1,63 @@
+import type { ServerProcessor, UploadedFile } from "../types"
+
+export interface ImageResizeVariant {
+  /** Variant name, used in the default derivative key and as the result key. */
+  name: string
+  width?: number
+  height?: number
+  /** Content type of the resized output. Defaults to the original file's. */
+  contentType?: string
+}
+
+export interface ImageResizeProcessorOptions {
+  variants: ImageResizeVariant[]
+  /**
+   * Resize `input` to the variant's bounds with the image library of your choice, e.g.
+   * `(input, { width, height }) => sharp(input).resize({ width, height, fit: "inside" }).toBuffer()`.
+   */
+  resize: (input: Buffer, variant: ImageResizeVariant) => Uint8Array | Promise<Uint8Array>
+  /** Result key in `processed`. Defaults to `images`. */
+  name?: string
+  /** Storage key of a derivative. Defaults to `photo_thumb.jpg` next to `photo.jpg`. */
+  key?: (file: UploadedFile, variant: ImageResizeVariant) => string
+  /** Which uploads to resize. Defaults to raster images (`image/*` except SVG). */
+  match?: (file: UploadedFile) => boolean
+}
+
+export interface ResizedImage {
+  key: string
+  publicUrl: string
+}
+
+const defaultKey = (file: UploadedFile, variant: ImageResizeVariant) => {
+  const slash = file.key.lastIndexOf("/")
+  const dot = file.key.lastIndexOf(".")
+  return dot > slash + 1 ? `${file.key.slice(0, dot)}_${variant.name}${file.key.slice(dot)}` : `${file.key}_${variant.name}`
+}
+
+const isRasterImage = (file: UploadedFile) => file.mimeType.startsWith("image/") && !file.mimeType.startsWith("image/svg")
+
+/**
+ * Write resized copies of uploaded images through the storage adapter's `put`. The resize
+ * itself is delegated to `resize`, so the module doesn't pull in a native image library.
+ * Resolves to the key and public URL of each variant, by variant name.
+ */
+export const ImageResizeProcessor = (options: ImageResizeProcessorOptions): ServerProcessor<Record<string, ResizedImage>> => {
+  const keyFor = options.key ?? defaultKey
+
+  return {
+    name: options.name ?? "images",
+    match: options.match ?? isRasterImage,
+    process: async (file, ctx) => {
+      const input = await ctx.read()
+      const results: Record<string, ResizedImage> = {}
+      for (const variant of options.variants) {
+        const key = keyFor(file, variant)
+        const body = await options.resize(input, variant)
+        const { publicUrl } = await ctx.put({ key, body, contentType: variant.contentType ?? file.mimeType })
+        results[variant.name] = { key, publicUrl }
+      }
+      return results
+    },
+  }
+}
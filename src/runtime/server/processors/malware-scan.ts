@@ -0,0 +1,51 @@
+import type { MalwareScanner, MalwareScanResult } from "../clamd"
+import { restrictionError } from "../restrictions"
+import type { ServerProcessor, UploadedFile } from "../types"
+import { requireStorageMethod } from "../utils"
+
+export interface MalwareScanProcessorOptions {
+  /** Scanner to stream the upload through, e.g. `ClamdScanner({ socket: "/run/clamav/clamd.ctl" })`. */
+  scanner: MalwareScanner
+  /**
+   * What happens to an infected object. `quarantine` copies it to `quarantineKey` before deleting
+   * the original; `delete` only deletes it.
+   * @default "delete"
+   */
+  onInfected?: "delete" | "quarantine"
+  /** Storage key of a quarantined copy. Defaults to `quarantine/${file.key}`. */
+  quarantineKey?: (file: UploadedFile) => string
+  /** Result key in `processed`. Defaults to `malwareScan`. */
+  name?: string
+  /** Which uploads to scan. Defaults to every file. */
+  match?: (file: UploadedFile) => boolean
+}
+
+/**
+ * Scan every upload once it is in storage. An infected object is removed from its key (and
+ * optionally quarantined), and the upload fails with a `malware-detected` restriction error
+ * (422) carrying the signature name. List it first so other processors never see infected bytes.
+ */
+export const MalwareScanProcessor = (options: MalwareScanProcessorOptions): ServerProcessor<MalwareScanResult> => {
+  const onInfected = options.onInfected ?? "delete"
+  const quarantineKey = options.quarantineKey ?? ((file: UploadedFile) => `quarantine/${file.key}`)
+
+  return {
+    name: options.name ?? "malwareScan",
+    match: options.match,
+    process: async (file, ctx) => {
+      const result = await options.scanner(await ctx.stream())
+      if (!result.infected) return result
+
+      if (onInfected === "quarantine") {
+        await ctx.put({ key: quarantineKey(file), body: await ctx.read(), contentType: file.mimeType })
+      }
+      await requireStorageMethod(ctx.storage, "delete")(file.key, ctx)
+
+      throw restrictionError({
+        code: "malware-detected",
+        message: `"${file.name}" was rejected: malware detected (${result.signature ?? "unknown signature"}).`,
+        meta: { signature: result.signature },
+      })
+    },
+  }
+}
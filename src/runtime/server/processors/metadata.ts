@@ -0,0 +1,39 @@
+import { createHash } from "node:crypto"
+import { readImageSize, type ImageFormat } from "../../shared"
+import type { ServerProcessor } from "../types"
+
+export interface MetadataProcessorOptions {
+  /** Result key in `processed`. Defaults to `metadata`. */
+  name?: string
+  /** Digest to compute over the stored bytes, or `false` to skip hashing. Defaults to `sha256`. */
+  checksum?: "sha256" | "sha1" | "md5" | false
+}
+
+export interface UploadMetadata {
+  /** Size of the stored object in bytes, as read back rather than as declared by the client. */
+  size: number
+  /** Hex digest of the stored bytes. */
+  checksum?: string
+  /** Pixel dimensions and format, for PNG, JPEG, GIF, WebP and AVIF images. */
+  image?: { width: number; height: number; format: ImageFormat }
+}
+
+/**
+ * Extract metadata from the stored bytes: the real size, a checksum and, for images, the pixel
+ * dimensions read from the file header.
+ */
+export const MetadataProcessor = (options: MetadataProcessorOptions = {}): ServerProcessor<UploadMetadata> => {
+  const checksum = options.checksum ?? "sha256"
+
+  return {
+    name: options.name ?? "metadata",
+    process: async (_file, ctx) => {
+      const body = await ctx.read()
+      const metadata: UploadMetadata = { size: body.byteLength }
+      if (checksum) metadata.checksum = createHash(checksum).update(body).digest("hex")
+      const image = readImageSize(body)
+      if (image) metadata.image = image
+      return metadata
+    },
+  }
+}
@@ -0,0 +1,51 @@
+import { createError, getRequestIP, setResponseHeader, type H3Event } from "h3"
+import { useStorage } from "#imports"
+import type { AuthorizeContext, AuthorizeOp, UploadServerConfig } from "./types"
+
+const rateLimitKey = (op: AuthorizeOp["type"], id: string) => `upload-kit:rate-limit:${op}:${id}`
+
+/**
+ * Sliding-window limit for one operation: the timestamps of the requests inside the window are
+ * kept in Nitro storage, and a request is rejected with 429 once `limit` of them are recent.
+ * The read-modify-write isn't atomic, so concurrent requests can overshoot by a few.
+ */
+export async function enforceRateLimit(
+  config: UploadServerConfig,
+  event: H3Event,
+  op: AuthorizeOp,
+  auth: AuthorizeContext,
+): Promise<void> {
+  const rule = config.rateLimit?.limits[op.type]
+  if (!rule) return
+
+  const id =
+    config.rateLimit?.key?.(event, op, auth) ??
+    auth.userId ??
+    getRequestIP(event, { xForwardedFor: config.rateLimit?.trustProxy }) ??
+    "anonymous"
+  const storage = useStorage(config.rateLimit?.storage)
+  const key = rateLimitKey(op.type, id)
+  const now = Date.now()
+  const windowMs = rule.window * 1000
+
+  const hits = ((await storage.getItem<number[]>(key)) ?? []).filter((at: number) => at > now - windowMs)
+  if (hits.length >= rule.limit) {
+    const retryAfter = Math.max(1, Math.ceil((hits[0]! + windowMs - now) / 1000))
+    setResponseHeader(event, "Retry-After", retryAfter)
+    throw createError({
+      statusCode: 429,
+      statusMessage: "Too Many Requests",
+      message: `Rate limit of ${rule.limit} ${op.type} requests per ${rule.window}s exceeded.`,
+      data: { retryAfter },
+    })
+  }
+
+  await storage.setItem(key, [...hits, now], { ttl: rule.window })
+}
+
+/** Run `authorize` for `op`, then apply the operation's rate limit to the caller it identified. */
+export async function authorizeRequest(config: UploadServerConfig, event: H3Event, op: AuthorizeOp): Promise<AuthorizeContext> {
+  const auth = config.authorize ? await config.authorize(event, op) : {}
+  await enforceRateLimit(config, event, op, auth)
+  return auth
+}
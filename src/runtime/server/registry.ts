@@ -0,0 +1,83 @@
+import { useStorage } from "#imports"
+import type { ExistingUploadState, ServerHookContext, UploadedFile, UploadRecord, UploadServerConfig } from "./types"
+
+const recordKey = (key: string) => `upload-kit:registry:files:${key}`
+/** Per-owner index of storage key → size, so aggregate state is one read. */
+const ownerKey = (owner: string) => `upload-kit:registry:owners:${owner}`
+
+type OwnerIndex = Record<string, number>
+
+const registryStorage = (config: UploadServerConfig) =>
+  useStorage(typeof config.registry === "object" ? config.registry.storage : undefined)
+
+type RegistryStorage = ReturnType<typeof registryStorage>
+
+/** Set the size of `key` in the owner's index, or drop `key` when `size` is undefined. */
+const updateOwnerIndex = async (storage: RegistryStorage, owner: string, key: string, size?: number) => {
+  const index: OwnerIndex = (await storage.getItem<OwnerIndex>(ownerKey(owner))) ?? {}
+  const others = Object.entries(index).filter(([indexed]) => indexed !== key)
+  await storage.setItem(ownerKey(owner), Object.fromEntries(size === undefined ? others : [...others, [key, size]]))
+}
+
+/**
+ * Record an upload that is now in storage. Overwriting a key keeps its `createdAt` and moves it
+ * to the new owner. Index updates are read-modify-write, so concurrent uploads by the same owner
+ * can race; `getExistingState` is the place for strictly consistent quotas.
+ */
+export async function recordUpload(config: UploadServerConfig, file: UploadedFile, ctx: ServerHookContext): Promise<void> {
+  if (!config.registry) return
+
+  const storage = registryStorage(config)
+  const previous = await storage.getItem<UploadRecord>(recordKey(file.key))
+  const now = Date.now()
+  const record: UploadRecord = {
+    key: file.key,
+    owner: ctx.auth.userId,
+    name: file.name,
+    size: file.size,
+    mimeType: file.mimeType,
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+  }
+
+  if (previous?.owner && previous.owner !== record.owner) {
+    await updateOwnerIndex(storage, previous.owner, file.key)
+  }
+  await storage.setItem(recordKey(file.key), record)
+  if (record.owner) {
+    await updateOwnerIndex(storage, record.owner, file.key, file.size)
+  }
+}
+
+/** Look up the record of `key`, or `null` when the registry is off or the key was never recorded. */
+export async function getUploadRecord(config: UploadServerConfig, key: string): Promise<UploadRecord | null> {
+  if (!config.registry) return null
+  return await registryStorage(config).getItem<UploadRecord>(recordKey(key))
+}
+
+export async function removeUploadRecord(config: UploadServerConfig, key: string): Promise<void> {
+  if (!config.registry) return
+
+  const storage = registryStorage(config)
+  const record = await storage.getItem<UploadRecord>(recordKey(key))
+  if (!record) return
+  await storage.removeItem(recordKey(key))
+  if (record.owner) await updateOwnerIndex(storage, record.owner, key)
+}
+
+/**
+ * Existing upload state for aggregate restrictions: `getExistingState` when configured,
+ * otherwise the caller's registry records. `undefined` (aggregate rules not enforced) when
+ * neither applies, including anonymous callers, whose uploads can't be attributed.
+ */
+export async function resolveExistingState(
+  config: UploadServerConfig,
+  ctx: ServerHookContext,
+): Promise<ExistingUploadState | undefined> {
+  if (config.getExistingState) return await config.getExistingState(ctx)
+  if (!config.registry || !ctx.auth.userId) return undefined
+
+  const index: OwnerIndex = (await registryStorage(config).getItem<OwnerIndex>(ownerKey(ctx.auth.userId))) ?? {}
+  const sizes = Object.values(index)
+  return { count: sizes.length, totalSize: sizes.reduce((sum, size) => sum + size, 0) }
+}
@@ -1,14 +1,61 @@
 import { createError } from "h3"
-import { applyFileRestrictions, applyRestrictions, type Restrictions, type RestrictionCode } from "../shared"
-import type { ExistingUploadState, UploadFileDescriptor } from "./types"
+import {
+  applyFileRestrictions,
+  applyImageRestrictions,
+  applyRestrictions,
+  getUploadRule,
+  hasImageRestrictions,
+  readImageSize,
+  IMAGE_HEADER_BYTES,
+  type BuiltInRestrictionCode,
+  type Restrictions,
+  type RuleViolation,
+} from "../shared"
+import type {
+  ExistingUploadState,
+  ServerHookContext,
+  StoredObjectInfo,
+  UploadedFile,
+  UploadFileDescriptor,
+  UploadServerConfig,
+} from "./types"
+import { getRestrictions, requireStorage, requireStorageMethod } from "./utils"
+import { readAll } from "./processing"
 
-const STATUS_BY_CODE: Record<RestrictionCode, { code: number; statusMessage: string }> = {
+const STATUS_BY_CODE: Record<BuiltInRestrictionCode, { code: number; statusMessage: string }> = {
   "max-file-size": { code: 413, statusMessage: "Payload Too Large" },
   "max-total-size": { code: 413, statusMessage: "Payload Too Large" },
   "min-file-size": { code: 422, statusMessage: "Unprocessable Entity" },
   "max-files": { code: 409, statusMessage: "Conflict" },
   "allowed-mime-types": { code: 415, statusMessage: "Unsupported Media Type" },
   "disallowed-mime-types": { code: 415, statusMessage: "Unsupported Media Type" },
+  "malware-detected": { code: 422, statusMessage: "Unprocessable Entity" },
+  "min-image-dimensions": { code: 422, statusMessage: "Unprocessable Entity" },
+  "max-image-dimensions": { code: 422, statusMessage: "Unprocessable Entity" },
+  "aspect-ratio": { code: 422, statusMessage: "Unprocessable Entity" },
+  "max-megapixels": { code: 422, statusMessage: "Unprocessable Entity" },
+  "unreadable-image": { code: 422, statusMessage: "Unprocessable Entity" },
+}
+
+/** Vector images have no header dimensions, so they are the only images exempt from the checks. */
+const isRasterImageType = (type: string) => type.startsWith("image/") && type !== "image/svg+xml"
+
+/** Status of a violation: fixed for the built-in codes, the rule's own (422 by default) for custom ones. */
+const statusOf = (code: string): { code: number; statusMessage: string } => {
+  if (Object.hasOwn(STATUS_BY_CODE, code)) return STATUS_BY_CODE[code as BuiltInRestrictionCode]
+  const rule = getUploadRule(code)
+  return { code: rule?.statusCode ?? 422, statusMessage: rule?.statusMessage ?? "Unprocessable Entity" }
+}
+
+/** h3 error for a rule violation, with a status code derived from the violation type. */
+export function restrictionError(violation: RuleViolation) {
+  const { code, statusMessage } = statusOf(violation.code)
+  return createError({
+    statusCode: code,
+    statusMessage,
+    message: violation.message,
+    data: { code: violation.code, ...violation.meta },
+  })
 }
 
 /**
@@ -29,12 +76,117 @@ export function enforceRestrictions(
   const violation = state
     ? applyRestrictions(descriptor, { existingCount: state.count, existingTotalSize: state.totalSize }, restrictions)
     : applyFileRestrictions(descriptor, restrictions)
-  if (!violation) return
-  const { code, statusMessage } = STATUS_BY_CODE[violation.code]
-  throw createError({
-    statusCode: code,
-    statusMessage,
-    message: violation.message,
-    data: { code: violation.code, ...violation.meta },
-  })
+  if (violation) throw restrictionError(violation)
+}
+
+/**
+ * Enforce the image dimension restrictions against the leading bytes of an uploaded file.
+ * Runs once the bytes are available, after `enforceRestrictions` passed on the descriptor.
+ * Any image other than an SVG whose header can't be read is rejected, whatever its declared
+ * subtype, so an unknown `image/*` type can't skip the limits. SVGs and non-images pass.
+ */
+export function enforceImageRestrictions(
+  file: UploadFileDescriptor,
+  restrictions: Restrictions | undefined,
+  header: Uint8Array,
+): void {
+  if (!restrictions || !hasImageRestrictions(restrictions)) return
+  const image = readImageSize(header)
+  if (!image) {
+    const type = file.mimeType.split(";")[0]!.trim().toLowerCase()
+    if (!isRasterImageType(type)) return
+    throw restrictionError({
+      code: "unreadable-image",
+      message: `Image "${file.name}" has no readable ${type} header, so its dimensions can't be checked.`,
+      meta: { mimeType: file.mimeType, fileName: file.name },
+    })
+  }
+  const descriptor = { name: file.name, size: file.size, type: file.mimeType, dimensions: image }
+  const violation = applyImageRestrictions(descriptor, restrictions)
+  if (violation) throw restrictionError(violation)
+}
+
+/**
+ * The restrictions a presigned upload is checked against once stored, or `undefined` when they
+ * set no image limits. Fails with a 501 before signing when the adapter can't read objects back.
+ */
+export function storedImageRestrictions(
+  config: UploadServerConfig,
+  restrictions: Restrictions | undefined,
+): Restrictions | undefined {
+  if (!hasImageRestrictions(restrictions)) return undefined
+  requireStorageMethod(requireStorage(config), "getStream")
+  return restrictions
+}
+
+const baseMimeType = (mimeType: string) => mimeType.split(";")[0]!.trim().toLowerCase()
+
+/**
+ * Check an object the client wrote straight to storage against the descriptor it declared up
+ * front, so it can't store more bytes than `maxFileSize` allowed or a different type. On a
+ * mismatch `discard` runs, then 409 is thrown.
+ */
+export async function enforceStoredObjectMatches(
+  stored: StoredObjectInfo,
+  file: UploadFileDescriptor,
+  discard: () => Promise<void>,
+): Promise<void> {
+  if (stored.size !== file.size) {
+    await discard()
+    throw createError({
+      statusCode: 409,
+      statusMessage: "Conflict",
+      message: `Stored object is ${stored.size} bytes; ${file.size} bytes were declared.`,
+    })
+  }
+  if (stored.contentType && baseMimeType(stored.contentType) !== baseMimeType(file.mimeType)) {
+    await discard()
+    throw createError({
+      statusCode: 409,
+      statusMessage: "Conflict",
+      message: `Stored object has content type "${stored.contentType}"; "${file.mimeType}" was declared.`,
+    })
+  }
+}
+
+/**
+ * {@link enforceImageRestrictions} for an object already in storage, such as a presigned upload
+ * confirmed by the client. Reads only the header, through the adapter's `getStream`. A rejected
+ * object is already in the bucket, so `discard` runs before the error is thrown; by default it
+ * deletes the object when the adapter can.
+ */
+export async function enforceStoredImageRestrictions(
+  config: UploadServerConfig,
+  file: UploadedFile,
+  restrictions: Restrictions | undefined,
+  ctx: ServerHookContext,
+  discard: () => Promise<void> = async () => {
+    await requireStorage(config).delete?.(file.key, ctx)
+  },
+): Promise<void> {
+  if (!restrictions || !hasImageRestrictions(restrictions)) return
+  const getStream = requireStorageMethod(requireStorage(config), "getStream")
+  const header =
+    file.size === 0
+      ? new Uint8Array()
+      : await readAll(await getStream(file.key, { start: 0, end: Math.min(file.size, IMAGE_HEADER_BYTES) - 1 }, ctx))
+  try {
+    enforceImageRestrictions(file, restrictions, header)
+  } catch (error) {
+    await discard()
+    throw error
+  }
+}
+
+/**
+ * Restrictions to enforce for a request: the static ones for `profile`, passed through
+ * `resolveRestrictions` when configured. Call after `authorize`, since the hook reads `ctx.auth`.
+ */
+export async function getEffectiveRestrictions(
+  config: UploadServerConfig,
+  ctx: ServerHookContext,
+  profile?: string,
+): Promise<Restrictions | undefined> {
+  const restrictions = getRestrictions(profile)
+  return config.resolveRestrictions ? await config.resolveRestrictions(ctx, restrictions) : restrictions
 }
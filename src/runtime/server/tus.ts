@@ -0,0 +1,113 @@
+import { useStorage } from "#imports"
+import type { Restrictions } from "../shared"
+import type { AuthorizeContext, UploadFileDescriptor } from "./types"
+
+export const TUS_VERSION = "1.0.0"
+export const TUS_EXTENSIONS = "creation,termination"
+
+/** How long an unfinished tus upload can be resumed after its creation request. */
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000
+
+/** Default for `tusMaxSize`: the assembled body is held in memory before `put`. */
+export const DEFAULT_TUS_MAX_SIZE = 100 * 1024 * 1024
+
+/**
+ * Server-side record of a tus upload. Written by the creation request once `authorize`,
+ * restrictions and validators have passed; PATCH requests append to it until `offset`
+ * reaches `file.size`, at which point the assembled body is handed to the adapter's `put`.
+ */
+export interface TusUpload {
+  id: string
+  key: string
+  file: UploadFileDescriptor
+  offset: number
+  chunks: number
+  auth: AuthorizeContext
+  /** Restrictions to check the assembled body's image dimensions against, when they set any. */
+  restrictions?: Restrictions
+  expiresAt: number
+  /** Set once the body was written to storage. */
+  publicUrl?: string
+}
+
+const uploadKey = (id: string) => `upload-kit:tus:${id}`
+const chunkKey = (id: string, index: number) => `upload-kit:tus:${id}:${index}`
+
+/**
+ * Parse the tus `Upload-Metadata` header: comma-separated `key base64value` pairs,
+ * where the value may be omitted.
+ */
+export function parseUploadMetadata(header: string | undefined): Record<string, string> {
+  const metadata: Record<string, string> = {}
+  if (!header) return metadata
+  for (const pair of header.split(",")) {
+    const [key, value] = pair.trim().split(" ")
+    if (!key) continue
+    metadata[key] = value ? Buffer.from(value, "base64").toString("utf8") : ""
+  }
+  return metadata
+}
+
+export async function createTusUpload(upload: Omit<TusUpload, "offset" | "chunks" | "expiresAt">): Promise<TusUpload> {
+  const stored: TusUpload = { ...upload, offset: 0, chunks: 0, expiresAt: Date.now() + UPLOAD_TTL_MS }
+  await useStorage().setItem(uploadKey(upload.id), stored)
+  return stored
+}
+
+/** Load a live upload, or `null` when it never existed or has expired. */
+export async function getTusUpload(id: string): Promise<TusUpload | null> {
+  const upload = await useStorage().getItem<TusUpload>(uploadKey(id))
+  if (!upload || upload.expiresAt < Date.now()) return null
+  return upload
+}
+
+/** Tail of each upload's queue of PATCH and DELETE requests on this server instance. */
+const uploadQueues = new Map<string, Promise<unknown>>()
+
+/**
+ * Run `task` once every earlier task for the same upload has settled. PATCH reads the offset,
+ * checks it and writes it back; run concurrently, two PATCHes with the same `Upload-Offset`
+ * would both pass the check. The queue is per instance, so pin an upload's requests to one
+ * instance (e.g. sticky sessions) when several serve the tus endpoint.
+ */
+export async function serializeTusRequest<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const run = (uploadQueues.get(id) ?? Promise.resolve()).then(task)
+  const tail = run.catch(() => {})
+  uploadQueues.set(id, tail)
+  try {
+    return await run
+  } finally {
+    if (uploadQueues.get(id) === tail) uploadQueues.delete(id)
+  }
+}
+
+/** Persist one PATCH body and advance the upload's offset. */
+export async function appendTusChunk(upload: TusUpload, chunk: Uint8Array): Promise<TusUpload> {
+  const storage = useStorage()
+  await storage.setItemRaw(chunkKey(upload.id, upload.chunks), chunk)
+  const next: TusUpload = { ...upload, offset: upload.offset + chunk.byteLength, chunks: upload.chunks + 1 }
+  await storage.setItem(uploadKey(upload.id), next)
+  return next
+}
+
+/** Concatenate every stored chunk of an upload, in order. */
+export async function readTusBody(upload: TusUpload): Promise<Buffer> {
+  const storage = useStorage()
+  const chunks: Buffer[] = []
+  for (let i = 0; i < upload.chunks; i++) {
+    const chunk = await storage.getItemRaw(chunkKey(upload.id, i))
+    if (chunk) chunks.push(Buffer.from(chunk as Uint8Array))
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Drop the buffered chunks. With `publicUrl`, keep the upload record so a client resuming a
+ * finished upload still gets its final offset and URL; without it, forget the upload entirely.
+ */
+export async function finishTusUpload(upload: TusUpload, publicUrl?: string): Promise<void> {
+  const storage = useStorage()
+  for (let i = 0; i < upload.chunks; i++) await storage.removeItem(chunkKey(upload.id, i))
+  if (publicUrl) await storage.setItem(uploadKey(upload.id), { ...upload, chunks: 0, publicUrl })
+  else await storage.removeItem(uploadKey(upload.id))
+}
@@ -1,4 +1,6 @@
 import type { H3Event } from "h3"
+import type { Readable } from "node:stream"
+import type { Restrictions } from "../shared"
 
 export interface UploadFileDescriptor {
   name: string
@@ -6,18 +8,118 @@ export interface UploadFileDescriptor {
   mimeType: string
 }
 
+/** A file that has been written to storage, as passed to `hooks.afterUpload`. */
+export interface UploadedFile extends UploadFileDescriptor {
+  /** Storage key the file was written under. */
+  key: string
+}
+
+/** Metadata of a stored object, as reported by the storage backend. */
+export interface StoredObjectInfo {
+  size: number
+  contentType?: string
+  /** Entity tag without surrounding quotes. */
+  etag?: string
+  lastModified?: Date
+  /** Custom metadata stored with the object (S3 `x-amz-meta-*`, Azure blob metadata, Firebase custom metadata). */
+  metadata?: Record<string, string>
+}
+
+/** Inclusive byte range, as in an HTTP `Range: bytes=start-end` header. */
+export interface ByteRange {
+  start: number
+  end: number
+}
+
+/** Page request for {@link StorageAdapter.listPage}. */
+export interface StorageListOptions {
+  /** Only return keys starting with this prefix. */
+  prefix?: string
+  /** Opaque token from the previous page's `cursor`. */
+  cursor?: string
+  /** Maximum number of items in the page. Backends may return fewer. */
+  limit?: number
+}
+
+export interface StorageListItem {
+  key: string
+  size: number
+  /** Not every backend reports the content type when listing (S3 doesn't). */
+  contentType?: string
+  etag?: string
+  lastModified?: Date
+}
+
+export interface StorageListPage {
+  items: StorageListItem[]
+  /** Pass back as `cursor` to fetch the next page. Absent on the last page. */
+  cursor?: string
+}
+
+/**
+ * Requested `Content-Disposition` for a download. Without `filename`, adapters fall back to
+ * the last segment of the storage key.
+ */
+export interface DownloadDisposition {
+  type: "inline" | "attachment"
+  filename?: string
+}
+
+/**
+ * The operation being authorized. Uploads carry the restriction `profile` the client selected;
+ * it comes from the request, so require the expected one here when a caller must not pick another.
+ */
 export type AuthorizeOp =
-  | { type: "presign-upload"; file: UploadFileDescriptor }
-  | { type: "presign-download"; key: string }
+  | { type: "presign-upload"; file: UploadFileDescriptor; profile?: string }
+  | { type: "presign-download"; key: string; disposition?: DownloadDisposition }
   | { type: "delete"; key: string }
-  | { type: "direct-upload"; file: UploadFileDescriptor }
+  | { type: "direct-upload"; file: UploadFileDescriptor; profile?: string }
   | { type: "list"; prefix?: string }
+  | { type: "config"; profile?: string }
+  /** A follow-up request on a multipart upload that `presign-upload` started. `key` is its storage key. */
+  | { type: "multipart"; action: "sign-part" | "complete" | "abort"; key: string }
 
 export interface AuthorizeContext {
   userId?: string
+  /**
+   * Return `true` from a `presign-download` authorization to let `/download/:fileId` serve HTML,
+   * SVG, XML or JavaScript inline in proxy mode. Otherwise those are always sent as `attachment`.
+   */
+  inlineActiveContent?: boolean
   [key: string]: unknown
 }
 
+/** At most `limit` requests per sliding `window` of seconds. */
+export interface RateLimitRule {
+  limit: number
+  window: number
+}
+
+export interface RateLimitOptions {
+  /** Limits per operation. Operations without an entry are not limited. */
+  limits: Partial<Record<AuthorizeOp["type"], RateLimitRule>>
+  /** Identify the caller. Defaults to `auth.userId`, falling back to the client IP. */
+  key?: (event: H3Event, op: AuthorizeOp, auth: AuthorizeContext) => string | undefined
+  /** Read the client IP from `X-Forwarded-For`. Only enable behind a proxy that sets it. */
+  trustProxy?: boolean
+  /** Nitro storage mount holding the request timestamps (e.g. `"redis"`). Defaults to the root storage. */
+  storage?: string
+}
+
+export interface OwnershipOptions {
+  /**
+   * How a caller proves they own a key. `"token"` requires the file token returned with the
+   * upload (`fileToken`), an HMAC of the key signed with `secret`, or, failing that, the registry
+   * check when `registry` is enabled. `"registry"` requires the caller's `auth.userId` to match
+   * the owner recorded by the `registry`.
+   */
+  strategy: "token" | "registry"
+  /** HMAC secret for file tokens. Required by the `"token"` strategy. Keep it server-only. */
+  secret?: string
+  /** Grant access that ownership alone would refuse, e.g. to admins or shared files. */
+  canAccess?: (key: string, ctx: ServerHookContext) => boolean | Promise<boolean>
+}
+
 export interface ServerHookContext {
   event: H3Event
   auth: AuthorizeContext
@@ -43,6 +145,27 @@ export interface PresignedFileInput extends UploadFileDescriptor {
   fileId: string
 }
 
+/**
+ * Result returned by a storage adapter's createMultipartUpload.
+ * `fileId` is the resolved storage key, as with {@link PresignUploadResult}.
+ */
+export interface MultipartUploadInit {
+  uploadId: string
+  fileId: string
+  publicUrl: string
+}
+
+export interface MultipartUploadRef {
+  /** Storage key returned by `createMultipartUpload`. */
+  fileId: string
+  uploadId: string
+}
+
+export interface MultipartPart {
+  partNumber: number
+  etag: string
+}
+
 /**
  * Server-side storage adapter contract.
  * Adapters wrap a cloud SDK and expose the operations the auto-mounted endpoints need.
@@ -51,15 +174,50 @@ export interface PresignedFileInput extends UploadFileDescriptor {
 export interface StorageAdapter {
   id: string
   presignUpload: (input: PresignedFileInput, ctx: ServerHookContext) => Promise<PresignUploadResult>
-  presignDownload?: (key: string, ctx: ServerHookContext) => Promise<{ downloadUrl: string }>
+  /**
+   * Sign a read URL. With `disposition`, the URL must make the backend answer with that
+   * `Content-Disposition` (S3 `response-content-disposition`, Azure `rscd`, GCS `response-content-disposition`).
+   */
+  presignDownload?: (key: string, ctx: ServerHookContext, disposition?: DownloadDisposition) => Promise<{ downloadUrl: string }>
   delete?: (key: string, ctx: ServerHookContext) => Promise<void>
   put?: (input: { key: string; body: unknown; contentType?: string }, ctx: ServerHookContext) => Promise<{ publicUrl: string }>
+  /**
+   * Open a read stream over a stored object, or over `range` of it. Used by `/download/:fileId`
+   * in proxy mode, after `stat` has confirmed the object exists.
+   */
+  getStream?: (key: string, range: ByteRange | undefined, ctx: ServerHookContext) => Promise<ReadableStream | Readable>
+  /**
+   * List every stored object under `prefix` in one call. Superseded by `listPage`; `/list` falls
+   * back to it, paging through the result in memory, for adapters that only implement this.
+   */
   list?: (prefix: string | undefined, ctx: ServerHookContext) => Promise<Array<{ key: string; size: number }>>
+  /** List stored objects one page at a time, in the backend's key order. */
+  listPage?: (input: StorageListOptions, ctx: ServerHookContext) => Promise<StorageListPage>
   /**
    * Resolve the final storage key for a given file descriptor using the adapter's keyStrategy.
    * Used by the /direct handler so direct uploads share the same key resolution as presigned uploads.
    */
   resolveKey?: (input: PresignedFileInput) => string
+  /**
+   * Read a stored object's metadata without downloading it. Resolve `null` when it doesn't exist.
+   * Used by `/complete` to verify presigned uploads before `afterUpload` runs, and by `/meta/:fileId`
+   * to resolve existing files.
+   */
+  stat?: (key: string, ctx: ServerHookContext) => Promise<StoredObjectInfo | null>
+  /**
+   * Multipart uploads. All four methods must be implemented for the `/multipart/*` endpoints
+   * to be enabled. Each part is PUT by the client to a URL from `signMultipartPart`.
+   */
+  createMultipartUpload?: (input: PresignedFileInput, ctx: ServerHookContext) => Promise<MultipartUploadInit>
+  signMultipartPart?: (
+    input: MultipartUploadRef & { partNumber: number; size: number },
+    ctx: ServerHookContext,
+  ) => Promise<{ uploadUrl: string; headers?: Record<string, string> }>
+  completeMultipartUpload?: (
+    input: MultipartUploadRef & { parts: MultipartPart[] },
+    ctx: ServerHookContext,
+  ) => Promise<{ publicUrl: string }>
+  abortMultipartUpload?: (input: MultipartUploadRef, ctx: ServerHookContext) => Promise<void>
 }
 
 /**
@@ -72,6 +230,35 @@ export interface StorageAdapter {
  */
 export type ServerValidator = (file: UploadFileDescriptor, ctx: ServerHookContext) => void | Promise<void>
 
+/** Context passed to a {@link ServerProcessor}. */
+export interface ServerProcessorContext extends ServerHookContext {
+  storage: StorageAdapter
+  /**
+   * The uploaded bytes. Taken from the request body for `/direct` and tus uploads, otherwise
+   * read once through the adapter's `getStream` and shared by every processor.
+   */
+  read: () => Promise<Buffer>
+  /**
+   * The uploaded bytes as a stream, for consumers that shouldn't buffer large files. Opens a
+   * fresh adapter stream on every call unless the bytes are already in memory.
+   */
+  stream: () => Promise<Readable>
+  /** Write a derivative object through the adapter's `put`. */
+  put: (input: { key: string; body: unknown; contentType?: string }) => Promise<{ publicUrl: string }>
+}
+
+/**
+ * Server-side post-processing step (derivatives, metadata extraction, scanning). Processors run
+ * in order once an upload is in storage; a thrown error fails the upload request.
+ */
+export interface ServerProcessor<TResult = unknown> {
+  /** Key of this processor's result in the response's `processed` object. */
+  name: string
+  /** Only process matching files. Defaults to every file. */
+  match?: (file: UploadedFile) => boolean
+  process: (file: UploadedFile, ctx: ServerProcessorContext) => TResult | Promise<TResult>
+}
+
 /**
  * Existing per-user upload state used to enforce aggregate restrictions
  * (`maxFiles`, `maxTotalSize`) on the server. Returned by `getExistingState`.
@@ -81,6 +268,27 @@ export interface ExistingUploadState {
   totalSize: number
 }
 
+/** An upload as recorded by the `registry`. Timestamps are epoch milliseconds. */
+export interface UploadRecord {
+  key: string
+  /** `auth.userId` of the uploader, when `authorize` identified one. */
+  owner?: string
+  name: string
+  size: number
+  mimeType: string
+  createdAt: number
+  /** Last time an upload was written to `key`. Equals `createdAt` until the key is overwritten. */
+  updatedAt: number
+}
+
+export interface RegistryOptions {
+  /**
+   * Nitro storage mount holding the records. Mount it with a persistent driver in
+   * `nitro.storage` (e.g. `{ driver: "redis" }`); the default root storage is in-memory.
+   */
+  storage?: string
+}
+
 export interface UploadServerConfig {
   storage?: StorageAdapter
   authorize?: (event: H3Event, op: AuthorizeOp) => AuthorizeContext | Promise<AuthorizeContext>
@@ -89,6 +297,13 @@ export interface UploadServerConfig {
    * If unset, the first supported mode is used (presigned takes priority when available).
    */
   mode?: "presigned" | "server"
+  /**
+   * How `/download/:fileId` serves files. `"presigned"` answers with a signed URL from the
+   * adapter's `presignDownload`; `"proxy"` streams the object through Nitro with `getStream`,
+   * honouring `Range` and `If-None-Match`. Defaults to `"presigned"` when the adapter can sign
+   * download URLs, `"proxy"` otherwise.
+   */
+  downloadMode?: "presigned" | "proxy"
   /**
    * Custom server-side validators. Run after `authorize` and after declarative
    * restrictions have passed. Use for stateful or imperative checks (DB quotas,
@@ -102,6 +317,12 @@ export interface UploadServerConfig {
    * proxy/CDN request-size cap for chunked transfer encoding, which has no Content-Length.
    */
   maxBodySize?: number
+  /**
+   * Maximum file size (in bytes) accepted by the tus endpoint. tus chunks are buffered in Nitro
+   * storage and assembled in memory before `put`, so this caps what one upload can hold.
+   * Checked against `Upload-Length` at creation and advertised as `Tus-Max-Size`. Defaults to 100 MiB.
+   */
+  tusMaxSize?: number
   /**
    * Resolve the caller's existing upload state (count + total size) so the server
    * can enforce aggregate restrictions (`maxFiles`, `maxTotalSize`) statefully.
@@ -112,17 +333,56 @@ export interface UploadServerConfig {
    * remain client-side UX and can be bypassed by a hostile client.
    */
   getExistingState?: (ctx: ServerHookContext) => ExistingUploadState | Promise<ExistingUploadState>
+  /**
+   * Compute the caller's effective restrictions, e.g. larger limits for paid plans. Receives the
+   * static restrictions (the module's `restrictions`, merged with the requested profile) and
+   * returns the ones to enforce. Runs after `authorize`, so `ctx.auth` identifies the caller.
+   * `GET ${handlerRoute}/config` serves the result, and `useUploadKit` applies it client-side.
+   */
+  resolveRestrictions?: (
+    ctx: ServerHookContext,
+    restrictions: Restrictions | undefined,
+  ) => Restrictions | undefined | Promise<Restrictions | undefined>
+  /**
+   * Record every upload (key, owner, size, type, name, timestamps) in Nitro storage. Records are
+   * written after the `processors` and before `afterUpload`, and removed by `DELETE`. When set and
+   * `getExistingState` isn't, aggregate restrictions are enforced from the caller's records.
+   */
+  registry?: boolean | RegistryOptions
+  /**
+   * Restrict delete, download and meta requests to the file's owner. Without it, any caller
+   * that passes `authorize` can reach any key.
+   */
+  ownership?: OwnershipOptions
+  /**
+   * Run after every upload, before `afterUpload`: after `/direct`, a tus upload's last chunk,
+   * `/multipart/complete` and `/complete`. Results are returned as `processed` by the JSON
+   * endpoints (tus responses have no body).
+   */
+  processors?: ServerProcessor[]
+  /**
+   * Per-operation request limits, checked right after `authorize`. Limited requests get 429
+   * with `Retry-After`.
+   */
+  rateLimit?: RateLimitOptions
   hooks?: {
     beforePresign?: (file: UploadFileDescriptor, ctx: ServerHookContext) => void | Promise<void>
-    afterUpload?: (file: UploadFileDescriptor, ctx: ServerHookContext) => void | Promise<void>
+    /**
+     * Runs once the file is in storage: after `/direct`, after a tus upload's last chunk, after
+     * `/multipart/complete`, and after `/complete` has verified a presigned upload.
+     */
+    afterUpload?: (file: UploadedFile, ctx: ServerHookContext) => void | Promise<void>
     beforeDelete?: (key: string, ctx: ServerHookContext) => void | Promise<void>
   }
 }
 
 export interface ServerUpload {
   presignUpload: (file: PresignedFileInput) => Promise<PresignUploadResult>
-  presignDownload: (key: string) => Promise<{ downloadUrl: string }>
+  presignDownload: (key: string, disposition?: DownloadDisposition) => Promise<{ downloadUrl: string }>
   delete: (key: string) => Promise<void>
   put: (input: { key: string; body: unknown; contentType?: string }) => Promise<{ publicUrl: string }>
+  /** Every stored object under `prefix`. Walks all pages of `listPage` when the adapter has no `list`. */
   list: (prefix?: string) => Promise<Array<{ key: string; size: number }>>
+  listPage: (options?: StorageListOptions) => Promise<StorageListPage>
+  stat: (key: string) => Promise<StoredObjectInfo | null>
 }
@@ -1,7 +1,17 @@
 import type { H3Event } from "h3"
 // @ts-expect-error virtual user-config import
 import userConfig from "#upload-kit-user-config"
-import type { ServerUpload, UploadServerConfig, PresignedFileInput, ServerHookContext, StorageAdapter } from "./types"
+import type {
+  ServerUpload,
+  UploadServerConfig,
+  PresignedFileInput,
+  ServerHookContext,
+  StorageAdapter,
+  StorageListOptions,
+  DownloadDisposition,
+} from "./types"
+import { hasListSupport } from "./capabilities"
+import { listAllStorage, listStoragePage } from "./listing"
 
 const config = userConfig as UploadServerConfig
 
@@ -20,9 +30,9 @@ export function useServerUpload(event: H3Event): ServerUpload {
   const ctx: ServerHookContext = { event, auth: {} }
   return {
     presignUpload: (file: PresignedFileInput) => requireStorage().presignUpload(file, ctx),
-    presignDownload: (key: string) => {
+    presignDownload: (key: string, disposition?: DownloadDisposition) => {
       const s = requireStorage()
-      return s.presignDownload ? s.presignDownload(key, ctx) : notImplemented("presignDownload", s.id)
+      return s.presignDownload ? s.presignDownload(key, ctx, disposition) : notImplemented("presignDownload", s.id)
     },
     delete: (key: string) => {
       const s = requireStorage()
@@ -34,7 +44,15 @@ export function useServerUpload(event: H3Event): ServerUpload {
     },
     list: (prefix?: string) => {
       const s = requireStorage()
-      return s.list ? s.list(prefix, ctx) : notImplemented("list", s.id)
+      return hasListSupport(s) ? listAllStorage(s, prefix, ctx) : notImplemented("list", s.id)
+    },
+    listPage: (options: StorageListOptions = {}) => {
+      const s = requireStorage()
+      return hasListSupport(s) ? listStoragePage(s, options, ctx) : notImplemented("listPage", s.id)
+    },
+    stat: (key: string) => {
+      const s = requireStorage()
+      return s.stat ? s.stat(key, ctx) : notImplemented("stat", s.id)
     },
   }
 }
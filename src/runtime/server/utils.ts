@@ -11,6 +11,20 @@ export function generateFileId(file: UploadFileDescriptor): string {
   return `${ts}-${rand}${ext}`
 }
 
+export function isFileDescriptor(v: unknown): v is UploadFileDescriptor {
+  if (!v || typeof v !== "object") return false
+  const f = v as Record<string, unknown>
+  return (
+    typeof f.name === "string" &&
+    f.name.length > 0 &&
+    typeof f.size === "number" &&
+    Number.isFinite(f.size) &&
+    f.size >= 0 &&
+    typeof f.mimeType === "string" &&
+    f.mimeType.length > 0
+  )
+}
+
 export function requireStorage(config: UploadServerConfig): StorageAdapter {
   if (!config.storage) {
     throw createError({
@@ -49,6 +63,27 @@ export function decodeFileIdParam(event: H3Event): string {
   }
 }
 
-export function getRestrictions(): Restrictions | undefined {
-  return (useRuntimeConfig().public.uploadKit as { restrictions?: Restrictions } | undefined)?.restrictions
+/**
+ * Restrictions to enforce: the module's `restrictions`, overlaid with the named profile's when
+ * one is given. Throws 400 for a profile that isn't configured.
+ */
+export function getRestrictions(profile?: string): Restrictions | undefined {
+  const runtime = useRuntimeConfig().public.uploadKit as
+    { restrictions?: Restrictions; profiles?: Record<string, Restrictions> } | undefined
+  if (profile === undefined) return runtime?.restrictions
+
+  const profiles = runtime?.profiles ?? {}
+  if (!Object.hasOwn(profiles, profile)) {
+    throw createError({ statusCode: 400, statusMessage: "Bad Request", message: `Unknown restriction profile "${profile}".` })
+  }
+  return { ...runtime?.restrictions, ...profiles[profile] }
+}
+
+/** Read the restriction profile name sent with an upload request. */
+export function readProfile(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  if (typeof value !== "string") {
+    throw createError({ statusCode: 400, statusMessage: "Bad Request", message: "`profile` must be a string." })
+  }
+  return value
 }
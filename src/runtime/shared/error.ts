@@ -11,3 +11,43 @@ export class RestrictionError extends Error {
     this.meta = violation.meta
   }
 }
+
+/**
+ * Thrown by the built-in client transports when the server or storage responds with a
+ * non-2xx status. `status` lets retry policies tell rejections (4xx) from outages (5xx).
+ */
+export class UploadHttpError extends Error {
+  readonly status: number
+  /** Delay in ms the response asked for with `Retry-After`, typically on a 429 or 503. */
+  readonly retryAfter?: number
+
+  constructor(message: string, status: number, retryAfter?: number) {
+    super(message)
+    this.name = "UploadHttpError"
+    this.status = status
+    if (retryAfter !== undefined) this.retryAfter = retryAfter
+  }
+}
+
+/**
+ * Thrown by the built-in XHR transports when a request fails without a response, e.g. when
+ * the connection drops. `fetch` reports the same failures as a `TypeError`.
+ */
+export class UploadNetworkError extends Error {
+  constructor(message = "Upload failed due to network error") {
+    super(message)
+    this.name = "UploadNetworkError"
+  }
+}
+
+/**
+ * Abort reason used when a file is paused. Storage plugins check
+ * `signal.reason instanceof UploadPausedError` to keep partial uploads (and their
+ * checkpoint) instead of cleaning them up as they would on cancel.
+ */
+export class UploadPausedError extends Error {
+  constructor() {
+    super("Upload was paused")
+    this.name = "UploadPausedError"
+  }
+}
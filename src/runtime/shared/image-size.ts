@@ -0,0 +1,205 @@
+export type ImageFormat = "png" | "jpeg" | "gif" | "webp" | "avif"
+
+export interface ImageSize {
+  width: number
+  height: number
+  format: ImageFormat
+}
+
+/**
+ * Bytes to read from the start of a file for {@link readImageSize}. Enough to get past the EXIF
+ * and ICC segments that come before a JPEG's frame header.
+ */
+export const IMAGE_HEADER_BYTES = 256 * 1024
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+const u16be = (bytes: Uint8Array, offset: number) => (bytes[offset]! << 8) | bytes[offset + 1]!
+const u16le = (bytes: Uint8Array, offset: number) => bytes[offset]! | (bytes[offset + 1]! << 8)
+const u24le = (bytes: Uint8Array, offset: number) => bytes[offset]! | (bytes[offset + 1]! << 8) | (bytes[offset + 2]! << 16)
+const u32be = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset]! << 24) >>> 0) + (u16be(bytes, offset + 1) << 8) + bytes[offset + 3]!
+const u32le = (bytes: Uint8Array, offset: number) => u24le(bytes, offset) + ((bytes[offset + 3]! << 24) >>> 0)
+
+const readPng = (bytes: Uint8Array): ImageSize | undefined => {
+  if (bytes.length < 24 || ascii(bytes, 12, 4) !== "IHDR") return undefined
+  return { width: u32be(bytes, 16), height: u32be(bytes, 20), format: "png" }
+}
+
+const readGif = (bytes: Uint8Array): ImageSize | undefined => {
+  if (bytes.length < 10) return undefined
+  return { width: u16le(bytes, 6), height: u16le(bytes, 8), format: "gif" }
+}
+
+/** The Orientation tag (0x0112) of IFD0 in an APP1 Exif segment spanning `[start, end)`. */
+const readExifOrientation = (bytes: Uint8Array, start: number, end: number): number | undefined => {
+  if (end - start < 14 || ascii(bytes, start, 6) !== "Exif\0\0") return undefined
+  const tiff = start + 6
+  const order = ascii(bytes, tiff, 2)
+  if (order !== "II" && order !== "MM") return undefined
+  const u16 = order === "II" ? u16le : u16be
+  const u32 = order === "II" ? u32le : u32be
+
+  const ifd = tiff + u32(bytes, tiff + 4)
+  if (ifd + 2 > end) return undefined
+  const count = u16(bytes, ifd)
+  for (let entry = ifd + 2; entry + 12 <= end && entry < ifd + 2 + count * 12; entry += 12) {
+    if (u16(bytes, entry) === 0x0112) return u16(bytes, entry + 8)
+  }
+  return undefined
+}
+
+/**
+ * Walk the marker segments up to the first start-of-frame, which carries the stored dimensions.
+ * EXIF orientations 5–8 turn the image a quarter turn for display, so they swap width and height.
+ */
+const readJpeg = (bytes: Uint8Array): ImageSize | undefined => {
+  let orientation: number | undefined
+  let offset = 2
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return undefined
+    const marker = bytes[offset + 1]!
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    // SOF0–SOF15, minus DHT (C4), JPG (C8) and DAC (CC).
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const width = u16be(bytes, offset + 7)
+      const height = u16be(bytes, offset + 5)
+      const turned = orientation !== undefined && orientation >= 5 && orientation <= 8
+      return turned ? { width: height, height: width, format: "jpeg" } : { width, height, format: "jpeg" }
+    }
+    // Standalone markers carry no length.
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2
+      continue
+    }
+    const length = u16be(bytes, offset + 2)
+    if (marker === 0xe1) orientation ??= readExifOrientation(bytes, offset + 4, Math.min(offset + 2 + length, bytes.length))
+    offset += 2 + length
+  }
+  return undefined
+}
+
+const readWebp = (bytes: Uint8Array): ImageSize | undefined => {
+  if (bytes.length < 30) return undefined
+  switch (ascii(bytes, 12, 4)) {
+    case "VP8 ":
+      return { width: u16le(bytes, 26) & 0x3fff, height: u16le(bytes, 28) & 0x3fff, format: "webp" }
+    case "VP8L": {
+      const [b0, b1, b2, b3] = [bytes[21]!, bytes[22]!, bytes[23]!, bytes[24]!]
+      return {
+        width: 1 + (((b1 & 0x3f) << 8) | b0),
+        height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+        format: "webp",
+      }
+    }
+    case "VP8X":
+      return { width: 1 + u24le(bytes, 24), height: 1 + u24le(bytes, 27), format: "webp" }
+    default:
+      return undefined
+  }
+}
+
+interface Box {
+  type: string
+  /** Offset of the payload, past the box header. */
+  start: number
+  end: number
+}
+
+/** The ISO-BMFF boxes laid out in `[start, end)`, stopping at the first one that is malformed. */
+const readBoxes = (bytes: Uint8Array, start: number, end: number): Box[] => {
+  const boxes: Box[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    let size = u32be(bytes, offset)
+    let header = 8
+    if (size === 1) {
+      if (offset + 16 > end) break
+      size = u32be(bytes, offset + 8) * 2 ** 32 + u32be(bytes, offset + 12)
+      header = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < header) break
+    boxes.push({ type: ascii(bytes, offset + 4, 4), start: offset + header, end: Math.min(offset + size, end) })
+    offset += size
+  }
+  return boxes
+}
+
+/** 1-based indices into `ipco` of the properties the `ipma` box associates with `itemId`. */
+const itemPropertyIndices = (bytes: Uint8Array, ipma: Box, itemId: number): number[] => {
+  const version = bytes[ipma.start]!
+  const wideIndices = (bytes[ipma.start + 3]! & 1) === 1
+  let offset = ipma.start + 8
+  for (let i = u32be(bytes, ipma.start + 4); i > 0 && offset < ipma.end; i--) {
+    const id = version < 1 ? u16be(bytes, offset) : u32be(bytes, offset)
+    offset += version < 1 ? 2 : 4
+    const indices: number[] = []
+    for (let n = bytes[offset++]!; n > 0; n--) {
+      indices.push(wideIndices ? u16be(bytes, offset) & 0x7fff : bytes[offset]! & 0x7f)
+      offset += wideIndices ? 2 : 1
+    }
+    if (id === itemId) return indices
+  }
+  return []
+}
+
+/**
+ * The `ispe` (image spatial extents) property of the primary item (`pitm`) holds the dimensions.
+ * Other items, such as thumbnails, carry their own `ispe`. An `irot` of 90° or 270° swaps them.
+ */
+const readAvif = (bytes: Uint8Array): ImageSize | undefined => {
+  const meta = readBoxes(bytes, 0, bytes.length).find((box) => box.type === "meta")
+  if (!meta) return undefined
+  const metaBoxes = readBoxes(bytes, meta.start + 4, meta.end)
+  const pitm = metaBoxes.find((box) => box.type === "pitm")
+  const iprp = metaBoxes.find((box) => box.type === "iprp")
+  if (!pitm || !iprp) return undefined
+  const primary = bytes[pitm.start] === 0 ? u16be(bytes, pitm.start + 4) : u32be(bytes, pitm.start + 4)
+
+  const iprpBoxes = readBoxes(bytes, iprp.start, iprp.end)
+  const ipco = iprpBoxes.find((box) => box.type === "ipco")
+  if (!ipco) return undefined
+  const properties = readBoxes(bytes, ipco.start, ipco.end)
+  const associated = iprpBoxes
+    .filter((box) => box.type === "ipma")
+    .flatMap((ipma) => itemPropertyIndices(bytes, ipma, primary))
+    .map((index) => properties[index - 1])
+
+  const ispe = associated.find((box) => box?.type === "ispe")
+  if (!ispe || ispe.start + 12 > ispe.end) return undefined
+  const width = u32be(bytes, ispe.start + 4)
+  const height = u32be(bytes, ispe.start + 8)
+  const irot = associated.find((box) => box?.type === "irot")
+  const turned = irot !== undefined && irot.start < irot.end && (bytes[irot.start]! & 1) === 1
+  return turned ? { width: height, height: width, format: "avif" } : { width, height, format: "avif" }
+}
+
+/** Whether the `ftyp` box names AVIF as its major brand or, as `mif1`-branded files do, a compatible one. */
+const isAvif = (bytes: Uint8Array): boolean => {
+  const end = Math.min(u32be(bytes, 0), bytes.length)
+  const brands = [ascii(bytes, 8, 4)]
+  for (let offset = 16; offset + 4 <= end; offset += 4) brands.push(ascii(bytes, offset, 4))
+  return brands.includes("avif") || brands.includes("avis")
+}
+
+/**
+ * Read an image's pixel dimensions from its header, without decoding it, as it is displayed:
+ * a JPEG's EXIF orientation and an AVIF's `irot` rotation are applied.
+ * Supports PNG, JPEG, GIF, WebP and AVIF. Returns `undefined` for other formats and for
+ * headers cut short.
+ */
+export function readImageSize(bytes: Uint8Array): ImageSize | undefined {
+  if (bytes.length < 12) return undefined
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === "PNG") return readPng(bytes)
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpeg(bytes)
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") return readGif(bytes)
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") return readWebp(bytes)
+  if (ascii(bytes, 4, 4) === "ftyp" && isAvif(bytes)) return readAvif(bytes)
+  return undefined
+}
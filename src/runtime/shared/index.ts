@@ -1,11 +1,18 @@
-export type { FileDescriptor, RestrictionCode, RuleContext, RuleViolation, Rule } from "./types"
-export type { Restrictions } from "./restrictions"
-export { RestrictionError } from "./error"
-export { applyRestrictions, applyFileRestrictions } from "./rules/apply"
+export type { FileDescriptor, BuiltInRestrictionCode, RestrictionCode, RuleContext, RuleViolation, Rule } from "./types"
+export type { Restrictions, RestrictionRule } from "./restrictions"
+export { RestrictionError, UploadHttpError, UploadNetworkError, UploadPausedError } from "./error"
+export { applyRestrictions, applyFileRestrictions, applyImageRestrictions, hasImageRestrictions } from "./rules/apply"
 export { matchesMimeType } from "./rules/mime"
+export { matchRestrictionRule, restrictionRuleGroup } from "./rules/mime-group"
+export { defineUploadRule, getUploadRule, applyCustomRules, type UploadRule, type UploadRuleResult } from "./rules/custom"
 export { maxFileSizeRule } from "./rules/max-file-size"
 export { minFileSizeRule } from "./rules/min-file-size"
 export { maxFilesRule } from "./rules/max-files"
 export { maxTotalSizeRule } from "./rules/max-total-size"
 export { allowedMimeTypesRule } from "./rules/allowed-mime-types"
 export { disallowedMimeTypesRule } from "./rules/disallowed-mime-types"
+export { minImageDimensionsRule } from "./rules/min-image-dimensions"
+export { maxImageDimensionsRule } from "./rules/max-image-dimensions"
+export { aspectRatioRule } from "./rules/aspect-ratio"
+export { maxMegapixelsRule } from "./rules/max-megapixels"
+export { readImageSize, IMAGE_HEADER_BYTES, type ImageSize, type ImageFormat } from "./image-size"
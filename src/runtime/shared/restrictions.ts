@@ -1,3 +1,11 @@
+/** Size limits for the files whose MIME type matches `match`. */
+export interface RestrictionRule {
+  /** MIME type pattern(s), wildcards like `video/*` included. */
+  match: string | string[]
+  maxFileSize?: number
+  minFileSize?: number
+}
+
 export interface Restrictions {
   maxFileSize?: number
   minFileSize?: number
@@ -5,4 +13,27 @@ export interface Restrictions {
   maxTotalSize?: number
   allowedMimeTypes?: string[]
   disallowedMimeTypes?: string[]
+  /** Pixel limits for images. Read from the file header; files it can't be read from are not checked. */
+  minWidth?: number
+  maxWidth?: number
+  minHeight?: number
+  maxHeight?: number
+  /**
+   * Required width-to-height ratio of images, as a number (`1.5`) or `"width:height"` (`"16:9"`).
+   * Matches within 1%, so dimensions rounded to whole pixels still pass.
+   */
+  aspectRatio?: number | `${number}:${number}`
+  /** Maximum image area in millions of pixels. */
+  maxMegapixels?: number
+  /**
+   * Size limits per MIME group, checked in order. The first rule matching a file's type
+   * replaces `maxFileSize`/`minFileSize` for it; a limit the rule leaves out falls back
+   * to the top-level one. Files no rule matches use the top-level limits.
+   */
+  rules?: RestrictionRule[]
+  /**
+   * Custom rules registered with `defineUploadRule`, by name, each with the options it is
+   * called with. `false` disables a rule. They run after the built-in rules, in order.
+   */
+  custom?: Record<string, unknown>
 }
@@ -6,40 +6,81 @@ import { maxFilesRule } from "./max-files"
 import { maxTotalSizeRule } from "./max-total-size"
 import { allowedMimeTypesRule } from "./allowed-mime-types"
 import { disallowedMimeTypesRule } from "./disallowed-mime-types"
+import { minImageDimensionsRule } from "./min-image-dimensions"
+import { maxImageDimensionsRule } from "./max-image-dimensions"
+import { aspectRatioRule } from "./aspect-ratio"
+import { maxMegapixelsRule } from "./max-megapixels"
+import { matchRestrictionRule, restrictionRuleGroup } from "./mime-group"
+import { applyCustomRules } from "./custom"
+
+/**
+ * Size rules for `file`: the limits of the first matching `restrictions.rules` entry, falling
+ * back to the top-level ones. Violations name the group when its limit was the one exceeded.
+ */
+const fileSizeRules = (file: FileDescriptor, restrictions: Restrictions): Rule[] => {
+  const matched = matchRestrictionRule(file, restrictions.rules)
+  const group = matched && restrictionRuleGroup(matched)
+  return [
+    maxFileSizeRule(matched?.maxFileSize ?? restrictions.maxFileSize, matched?.maxFileSize !== undefined ? group : undefined),
+    minFileSizeRule(matched?.minFileSize ?? restrictions.minFileSize, matched?.minFileSize !== undefined ? group : undefined),
+  ]
+}
+
+const imageRules = (restrictions: Restrictions): Rule[] => [
+  minImageDimensionsRule(restrictions.minWidth, restrictions.minHeight),
+  maxImageDimensionsRule(restrictions.maxWidth, restrictions.maxHeight),
+  aspectRatioRule(restrictions.aspectRatio),
+  maxMegapixelsRule(restrictions.maxMegapixels),
+]
+
+const runRules = (rules: Rule[], file: FileDescriptor, ctx: RuleContext): RuleViolation | null => {
+  for (const rule of rules) {
+    const violation = rule(file, ctx)
+    if (violation) return violation
+  }
+  return null
+}
+
+/** Whether `restrictions` limit image dimensions, which need `file.dimensions` to be checked. */
+export function hasImageRestrictions(restrictions: Restrictions | undefined): boolean {
+  if (!restrictions) return false
+  const { minWidth, maxWidth, minHeight, maxHeight, aspectRatio, maxMegapixels } = restrictions
+  return [minWidth, maxWidth, minHeight, maxHeight, aspectRatio, maxMegapixels].some((limit) => limit !== undefined)
+}
+
+/**
+ * Apply only the image dimension restrictions. For servers that read the dimensions after the
+ * other restrictions passed, from the uploaded bytes.
+ */
+export function applyImageRestrictions(file: FileDescriptor, restrictions: Restrictions): RuleViolation | null {
+  return runRules(imageRules(restrictions), file, { existingCount: 0, existingTotalSize: 0 })
+}
 
 export function applyRestrictions(file: FileDescriptor, ctx: RuleContext, restrictions: Restrictions): RuleViolation | null {
   const rules: Rule[] = [
     maxFilesRule(restrictions.maxFiles),
-    maxFileSizeRule(restrictions.maxFileSize),
-    minFileSizeRule(restrictions.minFileSize),
+    ...fileSizeRules(file, restrictions),
     maxTotalSizeRule(restrictions.maxTotalSize),
     allowedMimeTypesRule(restrictions.allowedMimeTypes),
     disallowedMimeTypesRule(restrictions.disallowedMimeTypes),
+    ...imageRules(restrictions),
   ]
-  for (const rule of rules) {
-    const violation = rule(file, ctx)
-    if (violation) return violation
-  }
-  return null
+  return runRules(rules, file, ctx) ?? applyCustomRules(file, ctx, restrictions.custom)
 }
 
 /**
- * Apply only per-file restrictions (size, mime). Skips aggregate rules
+ * Apply only per-file restrictions (size, mime, image dimensions). Skips aggregate rules
  * (maxFiles, maxTotalSize) which depend on client-side state and cannot be
  * enforced statelessly on the server. Use this from server handlers; the
  * client uses `applyRestrictions` because it has the full context.
  */
 export function applyFileRestrictions(file: FileDescriptor, restrictions: Restrictions): RuleViolation | null {
   const rules: Rule[] = [
-    maxFileSizeRule(restrictions.maxFileSize),
-    minFileSizeRule(restrictions.minFileSize),
+    ...fileSizeRules(file, restrictions),
     allowedMimeTypesRule(restrictions.allowedMimeTypes),
     disallowedMimeTypesRule(restrictions.disallowedMimeTypes),
+    ...imageRules(restrictions),
   ]
   const ctx: RuleContext = { existingCount: 0, existingTotalSize: 0 }
-  for (const rule of rules) {
-    const violation = rule(file, ctx)
-    if (violation) return violation
-  }
-  return null
+  return runRules(rules, file, ctx) ?? applyCustomRules(file, ctx, restrictions.custom)
 }
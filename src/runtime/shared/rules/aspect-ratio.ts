@@ -0,0 +1,26 @@
+import type { Rule } from "../types"
+
+/** Relative difference tolerated between the actual and required ratio. */
+const TOLERANCE = 0.01
+
+const parseRatio = (ratio: number | string): number => {
+  if (typeof ratio === "number") return ratio
+  const parts = ratio.split(":").map(Number)
+  return parts.length === 2 ? parts[0]! / parts[1]! : Number.NaN
+}
+
+export const aspectRatioRule = (aspectRatio: number | string | undefined): Rule => {
+  const expected = aspectRatio === undefined ? Number.NaN : parseRatio(aspectRatio)
+  if (!Number.isFinite(expected) || expected <= 0) return () => null
+  return (file) => {
+    if (!file.dimensions || file.dimensions.height === 0) return null
+    const { width, height } = file.dimensions
+    const actual = width / height
+    if (Math.abs(actual - expected) / expected <= TOLERANCE) return null
+    return {
+      code: "aspect-ratio",
+      message: `Image "${file.name}" (${width}×${height}) does not have the required ${aspectRatio} aspect ratio.`,
+      meta: { aspectRatio, expected, actual, width, height, fileName: file.name },
+    }
+  }
+}
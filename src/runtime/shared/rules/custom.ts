@@ -0,0 +1,86 @@
+import type { BuiltInRestrictionCode, FileDescriptor, RuleContext, RuleViolation } from "../types"
+
+export type UploadRuleResult = string | { message: string; meta?: Record<string, unknown> } | null | undefined
+
+export interface UploadRule<TOptions = unknown> {
+  /** Referenced from `restrictions.custom`, and reported as the violation `code`. */
+  name: string
+  /**
+   * Status the server rejects violations with.
+   * @default 422
+   */
+  statusCode?: number
+  /** @default "Unprocessable Entity" */
+  statusMessage?: string
+  /**
+   * Return a message, or a message and `meta`, when `file` breaks the rule. `options` is the
+   * rule's value in `restrictions.custom`. On the server, per-file checks run with a zeroed
+   * `ctx` unless aggregate state is available.
+   */
+  validate: (file: FileDescriptor, options: TOptions, ctx: RuleContext) => UploadRuleResult
+}
+
+const BUILT_IN_CODES = new Set<string>([
+  "max-file-size",
+  "min-file-size",
+  "max-files",
+  "max-total-size",
+  "allowed-mime-types",
+  "disallowed-mime-types",
+  "malware-detected",
+  "min-image-dimensions",
+  "max-image-dimensions",
+  "aspect-ratio",
+  "max-megapixels",
+  "unreadable-image",
+] satisfies BuiltInRestrictionCode[])
+
+const registry = new Map<string, UploadRule<never>>()
+
+/**
+ * Register a custom restriction rule. Enable it with `restrictions.custom: { [name]: options }`,
+ * and both `useUploadKit` and the server handlers run it after the built-in rules. Define rules
+ * in `shared/upload.rules.ts`, which the module loads on the client and the server.
+ *
+ * @example
+ * ```ts
+ * export const maxNameLength = defineUploadRule<number>({
+ *   name: "max-name-length",
+ *   validate: (file, max) => (file.name.length > max ? `"${file.name}" is longer than ${max} characters.` : null),
+ * })
+ * ```
+ */
+export function defineUploadRule<TOptions = true>(rule: UploadRule<TOptions>): UploadRule<TOptions> {
+  if (BUILT_IN_CODES.has(rule.name)) {
+    throw new Error(`[nuxt-upload-kit] "${rule.name}" is a built-in restriction and can't be redefined.`)
+  }
+  registry.set(rule.name, rule as UploadRule<never>)
+  return rule
+}
+
+export function getUploadRule(name: string): UploadRule | undefined {
+  return registry.get(name) as UploadRule | undefined
+}
+
+/**
+ * Run the custom rules enabled in `custom`, in order, and return the first violation. Throws for
+ * a rule that was never registered, so a rules file missing on one side fails closed.
+ */
+export function applyCustomRules(
+  file: FileDescriptor,
+  ctx: RuleContext,
+  custom: Record<string, unknown> | undefined,
+): RuleViolation | null {
+  for (const [name, options] of Object.entries(custom ?? {})) {
+    if (options === false || options == null) continue
+    const rule = registry.get(name) as UploadRule | undefined
+    if (!rule) {
+      throw new Error(`[nuxt-upload-kit] Unknown upload rule "${name}". Register it with defineUploadRule().`)
+    }
+    const result = rule.validate(file, options, ctx)
+    if (!result) continue
+    const { message, meta } = typeof result === "string" ? { message: result, meta: undefined } : result
+    return { code: name, message, meta: { fileName: file.name, ...meta } }
+  }
+  return null
+}
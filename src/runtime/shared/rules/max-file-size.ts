@@ -1,13 +1,13 @@
 import type { Rule } from "../types"
 
 export const maxFileSizeRule =
-  (maxBytes: number | undefined): Rule =>
+  (maxBytes: number | undefined, group?: string): Rule =>
   (file) => {
     if (maxBytes === undefined || !Number.isFinite(maxBytes)) return null
     if (file.size <= maxBytes) return null
     return {
       code: "max-file-size",
-      message: `File "${file.name}" (${file.size} bytes) exceeds the ${maxBytes}-byte limit.`,
-      meta: { maxBytes, actual: file.size, fileName: file.name },
+      message: `File "${file.name}" (${file.size} bytes) exceeds the ${maxBytes}-byte limit${group ? ` for ${group}` : ""}.`,
+      meta: { maxBytes, actual: file.size, fileName: file.name, ...(group && { group }) },
     }
   }
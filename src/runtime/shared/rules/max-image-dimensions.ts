@@ -0,0 +1,16 @@
+import type { Rule } from "../types"
+
+const isLimit = (value: number | undefined): value is number => value !== undefined && Number.isFinite(value)
+
+export const maxImageDimensionsRule =
+  (maxWidth: number | undefined, maxHeight: number | undefined): Rule =>
+  (file) => {
+    if (!file.dimensions || (!isLimit(maxWidth) && !isLimit(maxHeight))) return null
+    const { width, height } = file.dimensions
+    if ((!isLimit(maxWidth) || width <= maxWidth) && (!isLimit(maxHeight) || height <= maxHeight)) return null
+    return {
+      code: "max-image-dimensions",
+      message: `Image "${file.name}" (${width}×${height}) exceeds the maximum of ${maxWidth ?? "any"}×${maxHeight ?? "any"} pixels.`,
+      meta: { maxWidth, maxHeight, width, height, fileName: file.name },
+    }
+  }
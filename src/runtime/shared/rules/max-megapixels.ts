@@ -0,0 +1,15 @@
+import type { Rule } from "../types"
+
+export const maxMegapixelsRule =
+  (maxMegapixels: number | undefined): Rule =>
+  (file) => {
+    if (!file.dimensions || maxMegapixels === undefined || !Number.isFinite(maxMegapixels)) return null
+    const { width, height } = file.dimensions
+    const megapixels = (width * height) / 1_000_000
+    if (megapixels <= maxMegapixels) return null
+    return {
+      code: "max-megapixels",
+      message: `Image "${file.name}" (${width}×${height}) exceeds the ${maxMegapixels}-megapixel limit.`,
+      meta: { maxMegapixels, actual: megapixels, width, height, fileName: file.name },
+    }
+  }
@@ -0,0 +1,11 @@
+import type { FileDescriptor } from "../types"
+import type { RestrictionRule } from "../restrictions"
+import { matchesMimeType } from "./mime"
+
+/** The first rule whose `match` covers the file's MIME type. */
+export function matchRestrictionRule(file: FileDescriptor, rules: RestrictionRule[] | undefined): RestrictionRule | undefined {
+  return rules?.find((rule) => [rule.match].flat().some((pattern) => matchesMimeType(file.type, pattern)))
+}
+
+/** Name of a rule's MIME group, as reported in violation messages and `meta.group`. */
+export const restrictionRuleGroup = (rule: RestrictionRule): string => [rule.match].flat().join(", ")
@@ -1,13 +1,13 @@
 import type { Rule } from "../types"
 
 export const minFileSizeRule =
-  (minBytes: number | undefined): Rule =>
+  (minBytes: number | undefined, group?: string): Rule =>
   (file) => {
     if (minBytes === undefined || !Number.isFinite(minBytes) || minBytes <= 0) return null
     if (file.size >= minBytes) return null
     return {
       code: "min-file-size",
-      message: `File "${file.name}" (${file.size} bytes) is below the ${minBytes}-byte minimum.`,
-      meta: { minBytes, actual: file.size, fileName: file.name },
+      message: `File "${file.name}" (${file.size} bytes) is below the ${minBytes}-byte minimum${group ? ` for ${group}` : ""}.`,
+      meta: { minBytes, actual: file.size, fileName: file.name, ...(group && { group }) },
     }
   }
@@ -0,0 +1,16 @@
+import type { Rule } from "../types"
+
+const isLimit = (value: number | undefined): value is number => value !== undefined && Number.isFinite(value) && value > 0
+
+export const minImageDimensionsRule =
+  (minWidth: number | undefined, minHeight: number | undefined): Rule =>
+  (file) => {
+    if (!file.dimensions || (!isLimit(minWidth) && !isLimit(minHeight))) return null
+    const { width, height } = file.dimensions
+    if ((!isLimit(minWidth) || width >= minWidth) && (!isLimit(minHeight) || height >= minHeight)) return null
+    return {
+      code: "min-image-dimensions",
+      message: `Image "${file.name}" (${width}×${height}) is below the minimum of ${minWidth ?? "any"}×${minHeight ?? "any"} pixels.`,
+      meta: { minWidth, minHeight, width, height, fileName: file.name },
+    }
+  }
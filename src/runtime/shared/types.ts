@@ -2,15 +2,26 @@ export interface FileDescriptor {
   name: string
   size: number
   type: string
+  /** Pixel dimensions read from the image header. Image rules skip files without them. */
+  dimensions?: { width: number; height: number }
 }
 
-export type RestrictionCode =
+export type BuiltInRestrictionCode =
   | "max-file-size"
   | "min-file-size"
   | "max-files"
   | "max-total-size"
   | "allowed-mime-types"
   | "disallowed-mime-types"
+  | "malware-detected"
+  | "min-image-dimensions"
+  | "max-image-dimensions"
+  | "aspect-ratio"
+  | "max-megapixels"
+  | "unreadable-image"
+
+/** A built-in code, or the name of a rule registered with `defineUploadRule`. */
+export type RestrictionCode = BuiltInRestrictionCode | (string & {})
 
 export interface RuleViolation {
   code: RestrictionCode
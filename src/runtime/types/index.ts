@@ -1,5 +1,5 @@
 // Re-export all types from composables
 export * from "../composables/useUploadKit/types"
 export * from "../composables/useUploadKit/plugins"
-export type { Restrictions, RestrictionCode, RuleViolation, FileDescriptor } from "../shared"
-export { RestrictionError } from "../shared"
+export type { Restrictions, RestrictionCode, RuleViolation, FileDescriptor, UploadRule } from "../shared"
+export { RestrictionError, UploadHttpError, UploadNetworkError, UploadPausedError, defineUploadRule } from "../shared"
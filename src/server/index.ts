@@ -15,5 +15,20 @@
  * })
  * ```
  */
-export { defineUploadServerConfig } from "../runtime/server"
+export {
+  defineUploadServerConfig,
+  MetadataProcessor,
+  ImageResizeProcessor,
+  MalwareScanProcessor,
+  ClamdScanner,
+  type MetadataProcessorOptions,
+  type UploadMetadata,
+  type ImageResizeProcessorOptions,
+  type ImageResizeVariant,
+  type ResizedImage,
+  type MalwareScanProcessorOptions,
+  type ClamdScannerOptions,
+  type MalwareScanner,
+  type MalwareScanResult,
+} from "../runtime/server"
 export type * from "../runtime/server/types"
@@ -0,0 +1,19 @@
+/**
+ * Local filesystem server adapter — Nitro-side, uses `node:fs` only.
+ *
+ * For development, CI and self-hosted installs without a bucket. Presigned uploads and downloads
+ * are emulated with HMAC-signed, expiring URLs served by the module under `${handlerRoute}/local`.
+ *
+ * @example
+ * ```typescript
+ * import { LocalFsStorage } from "nuxt-upload-kit/server/local"
+ *
+ * export default defineUploadServerConfig({
+ *   storage: LocalFsStorage({
+ *     directory: "./.data/uploads",
+ *     secret: process.env.UPLOAD_SIGNING_SECRET!,
+ *   }),
+ * })
+ * ```
+ */
+export { LocalFsStorage, type LocalFsStorageOptions } from "../runtime/server/adapters/local"
@@ -5,7 +5,17 @@ interface UploadKitPublicConfig {
   handlerRoute?: string
   mode?: "presigned" | "server"
   restrictions?: Restrictions
-  capabilities?: { presigned: boolean; server: boolean; download: boolean; delete: boolean }
+  profiles?: Record<string, Restrictions>
+  dynamicRestrictions?: boolean
+  capabilities?: {
+    presigned: boolean
+    server: boolean
+    download: boolean
+    delete: boolean
+    stat?: boolean
+    list?: boolean
+    multipart?: boolean
+  }
 }
 
 let publicConfig: { uploadKit?: UploadKitPublicConfig } = {}
@@ -18,3 +28,29 @@ export const __setRuntimeConfig = (cfg: { uploadKit?: UploadKitPublicConfig }) =
 export const useRuntimeConfig = (): { public: { uploadKit?: UploadKitPublicConfig } } => ({ public: publicConfig })
 
 export const defineNitroPlugin = <T extends (...args: unknown[]) => unknown>(plugin: T): T => plugin
+
+const storageItems = new Map<string, unknown>()
+
+/** In-memory stand-in for Nitro's `useStorage(base?)`; cleared with `__resetStorage()`. */
+export const useStorage = (base?: string) => {
+  const k = (key: string) => (base ? `${base}:${key}` : key)
+  return {
+    getItem: async <T = unknown>(key: string): Promise<T | null> => (storageItems.get(k(key)) as T | undefined) ?? null,
+    setItem: async (key: string, value: unknown, _opts?: { ttl?: number }) => {
+      storageItems.set(k(key), structuredClone(value))
+    },
+    getItemRaw: async (key: string): Promise<Uint8Array | null> => (storageItems.get(k(key)) as Uint8Array | undefined) ?? null,
+    setItemRaw: async (key: string, value: Uint8Array) => {
+      storageItems.set(k(key), new Uint8Array(value))
+    },
+    removeItem: async (key: string) => {
+      storageItems.delete(k(key))
+    },
+  }
+}
+
+/** Test-only helper: keys written through the `useStorage()` stub, including the mount prefix. */
+export const __storageKeys = () => [...storageItems.keys()]
+
+/** Test-only helper: drop everything written through the `useStorage()` stub. */
+export const __resetStorage = () => storageItems.clear()
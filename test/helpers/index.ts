@@ -6,6 +6,7 @@ import type {
   PluginContext,
   UploadOptions,
   StoragePlugin,
+  UploadHookContext,
 } from "../../src/runtime/composables/useUploadKit/types"
 
 /**
@@ -200,7 +201,12 @@ export function createMockFiles(count: number, _baseOptions: Partial<File> = {})
  * Create a mock storage plugin for testing
  */
 export function createMockStoragePlugin(options?: {
-  uploadFn?: (file: UploadFile, onProgress: (p: number) => void) => Promise<{ url: string; storageKey?: string }>
+  uploadFn?: (
+    file: UploadFile,
+    onProgress: (p: number) => void,
+    signal: AbortSignal,
+    context: UploadHookContext,
+  ) => Promise<{ url: string; storageKey?: string }>
   getRemoteFileFn?: (storageKey: string) => Promise<{ size: number; mimeType: string; remoteUrl: string }>
   removeFn?: (file: UploadFile) => Promise<void>
 }): StoragePlugin {
@@ -218,8 +224,8 @@ export function createMockStoragePlugin(options?: {
     id: "mock-storage",
     upload: vi.fn(async () => ({ url: "https://example.com/standalone.jpg", storageKey: "uploads/standalone.jpg" })),
     hooks: {
-      upload: vi.fn(async (file: UploadFile, context: { onProgress: (p: number) => void }) => {
-        const result = await uploadFn(file, context.onProgress)
+      upload: vi.fn(async (file: UploadFile, context: UploadHookContext) => {
+        const result = await uploadFn(file, context.onProgress, context.signal, context)
         return result as { url: string; storageKey: string }
       }),
       getRemoteFile: vi.fn(async (storageKey: string) => getRemoteFileFn(storageKey)),
@@ -4,6 +4,13 @@ import { PluginAzureDataLake } from "../../../src/runtime/composables/useUploadK
 
 // Track subdirectory navigation for integration tests
 let lastSubdirectoryPath: string | null = null
+// Track the most recently created file client so tests can inspect its calls
+const fileClients: {
+  deleteIfExists: ReturnType<typeof vi.fn>
+  create: ReturnType<typeof vi.fn>
+  append: ReturnType<typeof vi.fn>
+  flush: ReturnType<typeof vi.fn>
+}[] = []
 
 // Mock the Azure SDK - vitest hoists vi.mock calls automatically
 vi.mock("@azure/storage-file-datalake", () => {
@@ -19,9 +26,24 @@ vi.mock("@azure/storage-file-datalake", () => {
       this.url = getBaseUrl(sasUrl)
       // Extract filename from URL
       this.name = this.url.split("/").at(-1) || "file.jpg"
+      fileClients.push(this)
     }
 
-    upload = vi.fn().mockResolvedValue({})
+    upload = vi.fn().mockImplementation(async (_data: unknown, opts?: { abortSignal?: AbortSignal }) => {
+      if (opts?.abortSignal?.aborted) throw new Error("The operation was aborted.")
+      return {}
+    })
+    create = vi.fn().mockImplementation(async (opts?: { abortSignal?: AbortSignal }) => {
+      if (opts?.abortSignal?.aborted) throw new Error("The operation was aborted.")
+      return {}
+    })
+    append = vi
+      .fn()
+      .mockImplementation(async (_body: unknown, _offset: number, _length: number, opts?: { abortSignal?: AbortSignal }) => {
+        if (opts?.abortSignal?.aborted) throw new Error("The operation was aborted.")
+        return {}
+      })
+    flush = vi.fn().mockResolvedValue({})
     getProperties = vi.fn().mockResolvedValue({
       contentLength: 1024,
       contentType: "image/jpeg",
@@ -129,6 +151,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         // Upload multiple files
@@ -160,6 +184,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         // First upload - gets expired URL, then refreshes
@@ -194,6 +220,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         // First upload to establish directory mode with expired token
@@ -232,6 +260,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         // Upload multiple files
@@ -265,6 +295,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         // Concurrent uploads in file mode
@@ -294,6 +326,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         const result = await plugin.hooks.upload(createMockLocalFile("photo"), context)
@@ -326,6 +360,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         await plugin.hooks.upload(createMockLocalFile("photo.jpg"), context)
@@ -428,6 +464,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         await expect(plugin.hooks.upload(remoteFile, context)).rejects.toThrow(
@@ -531,6 +569,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         await plugin.hooks.upload(localFile, context)
@@ -679,6 +719,117 @@ describe("providers", () => {
       })
     })
 
+    describe("cancellation", () => {
+      it("should delete the partially created file when the upload is aborted", async () => {
+        const plugin = PluginAzureDataLake({
+          sasURL: "https://account.blob.core.windows.net/container/photo.jpg?se=2030-01-01T00:00:00Z&sr=b&sp=cw&sig=mock",
+        })
+        const controller = new AbortController()
+        controller.abort()
+
+        await expect(
+          plugin.hooks.upload(createMockLocalFile("photo.jpg"), {
+            ...createMockPluginContext(),
+            onProgress: vi.fn(),
+            signal: controller.signal,
+            setCheckpoint: vi.fn(),
+          }),
+        ).rejects.toThrow(/aborted/)
+
+        expect(fileClients.at(-1)?.deleteIfExists).toHaveBeenCalledTimes(1)
+      })
+
+      it("should leave the file in place when the upload succeeds", async () => {
+        const plugin = PluginAzureDataLake({
+          sasURL: "https://account.blob.core.windows.net/container/photo.jpg?se=2030-01-01T00:00:00Z&sr=b&sp=cw&sig=mock",
+        })
+
+        await plugin.hooks.upload(createMockLocalFile("photo.jpg"), {
+          ...createMockPluginContext(),
+          onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
+        })
+
+        expect(fileClients.at(-1)?.deleteIfExists).not.toHaveBeenCalled()
+      })
+    })
+
+    describe("pause and resume", () => {
+      const sasURL = "https://account.blob.core.windows.net/container/video.mp4?se=2030-01-01T00:00:00Z&sr=b&sp=cw&sig=mock"
+
+      it("should append in chunks and checkpoint the confirmed offset", async () => {
+        const plugin = PluginAzureDataLake({ sasURL })
+        const setCheckpoint = vi.fn()
+        const file = createMockLocalFile("video.mp4")
+
+        await plugin.hooks.upload(file, {
+          ...createMockPluginContext(),
+          onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint,
+        })
+
+        const client = fileClients.at(-1)!
+        expect(client.create).toHaveBeenCalledTimes(1)
+        expect(client.append).toHaveBeenCalledWith(expect.any(Blob), 0, file.data.size, expect.any(Object))
+        expect(client.flush).toHaveBeenCalledWith(file.data.size, expect.any(Object))
+        expect(setCheckpoint).toHaveBeenLastCalledWith({ offset: file.data.size, size: file.data.size })
+      })
+
+      it("should keep the partial file when the upload is paused", async () => {
+        const { UploadPausedError } = await import("../../../src/runtime/shared")
+        const plugin = PluginAzureDataLake({ sasURL })
+        const controller = new AbortController()
+        controller.abort(new UploadPausedError())
+
+        await expect(
+          plugin.hooks.upload(createMockLocalFile("video.mp4"), {
+            ...createMockPluginContext(),
+            onProgress: vi.fn(),
+            signal: controller.signal,
+            setCheckpoint: vi.fn(),
+          }),
+        ).rejects.toThrow()
+
+        expect(fileClients.at(-1)?.deleteIfExists).not.toHaveBeenCalled()
+      })
+
+      it("should continue from the checkpoint without recreating the file", async () => {
+        const plugin = PluginAzureDataLake({ sasURL })
+        const file = createMockLocalFile("video.mp4")
+
+        await plugin.hooks.upload(file, {
+          ...createMockPluginContext(),
+          onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          checkpoint: { offset: 2, size: file.data.size },
+          setCheckpoint: vi.fn(),
+        })
+
+        const client = fileClients.at(-1)!
+        expect(client.create).not.toHaveBeenCalled()
+        expect(client.append).toHaveBeenCalledWith(expect.any(Blob), 2, file.data.size - 2, expect.any(Object))
+      })
+
+      it("should start over when the checkpoint belongs to different data", async () => {
+        const plugin = PluginAzureDataLake({ sasURL })
+        const file = createMockLocalFile("video.mp4")
+
+        await plugin.hooks.upload(file, {
+          ...createMockPluginContext(),
+          onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          checkpoint: { offset: 2, size: file.data.size + 1 },
+          setCheckpoint: vi.fn(),
+        })
+
+        const client = fileClients.at(-1)!
+        expect(client.create).toHaveBeenCalledTimes(1)
+        expect(client.append).toHaveBeenCalledWith(expect.any(Blob), 0, file.data.size, expect.any(Object))
+      })
+    })
+
     describe("getSASUrl operation parameter", () => {
       it("should pass 'upload' operation when uploading a file", async () => {
         const futureDate = new Date()
@@ -697,6 +848,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         await plugin.hooks.upload(createMockLocalFile("photo.jpg"), context)
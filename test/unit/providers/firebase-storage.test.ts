@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { FirebaseStorage, UploadTask } from "firebase/storage"
 
-import { createMockPluginContext, createMockRemoteUploadFile } from "../../helpers"
+import { createMockLocalUploadFile, createMockPluginContext, createMockRemoteUploadFile } from "../../helpers"
 import {
   PluginFirebaseStorage,
   type FirebaseStorageUploadResult,
@@ -36,7 +37,7 @@ vi.mock("firebase/storage", () => ({
 
 describe("providers", () => {
   describe("PluginFirebaseStorage", () => {
-    const mockStorage = {} as any // Mock FirebaseStorage instance
+    const mockStorage = {} as FirebaseStorage
 
     beforeEach(() => {
       vi.clearAllMocks()
@@ -127,6 +128,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         await expect(plugin.hooks.upload(remoteFile, context)).rejects.toThrow(
@@ -135,6 +138,67 @@ describe("providers", () => {
       })
     })
 
+    describe("pause and resume", () => {
+      const createPausableTask = () => {
+        let complete: (() => void) | undefined
+        return {
+          on: vi.fn((_event: string, _progress: unknown, _error: unknown, onComplete: () => void) => {
+            complete = onComplete
+            return vi.fn()
+          }),
+          pause: vi.fn(),
+          resume: vi.fn(() => queueMicrotask(() => complete?.())),
+          cancel: vi.fn(),
+          snapshot: {
+            ref: { fullPath: "uploads/video.mp4" },
+            metadata: { fullPath: "uploads/video.mp4", bucket: "test-bucket.appspot.com" },
+          },
+        }
+      }
+
+      it("should pause the task and save it as the checkpoint", async () => {
+        const { uploadBytesResumable } = await import("firebase/storage")
+        const { UploadPausedError } = await import("../../../src/runtime/shared")
+        const task = createPausableTask()
+        vi.mocked(uploadBytesResumable).mockReturnValueOnce(task as unknown as UploadTask)
+
+        const plugin = PluginFirebaseStorage({ storage: mockStorage })
+        const controller = new AbortController()
+        const setCheckpoint = vi.fn()
+        const promise = plugin.hooks.upload(createMockLocalUploadFile({ name: "video.mp4" }), {
+          ...createMockPluginContext(),
+          onProgress: vi.fn(),
+          signal: controller.signal,
+          setCheckpoint,
+        })
+
+        controller.abort(new UploadPausedError())
+
+        await expect(promise).rejects.toBeInstanceOf(UploadPausedError)
+        expect(task.pause).toHaveBeenCalledTimes(1)
+        expect(task.cancel).not.toHaveBeenCalled()
+        expect(setCheckpoint).toHaveBeenCalledWith(task)
+      })
+
+      it("should resume the saved task instead of starting a new upload", async () => {
+        const { uploadBytesResumable } = await import("firebase/storage")
+        const task = createPausableTask()
+
+        const plugin = PluginFirebaseStorage({ storage: mockStorage })
+        const result = await plugin.hooks.upload(createMockLocalUploadFile({ name: "video.mp4" }), {
+          ...createMockPluginContext(),
+          onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          checkpoint: task,
+          setCheckpoint: vi.fn(),
+        })
+
+        expect(uploadBytesResumable).not.toHaveBeenCalled()
+        expect(task.resume).toHaveBeenCalledTimes(1)
+        expect(result.bucket).toBe("test-bucket.appspot.com")
+      })
+    })
+
     describe("getRemoteFile hook", () => {
       it("should have getRemoteFile hook defined", () => {
         const plugin = PluginFirebaseStorage({
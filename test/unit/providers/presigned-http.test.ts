@@ -1,5 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
-import { PluginPresignedHttp } from "../../../src/runtime/composables/useUploadKit/plugins/storage/presigned-http"
+import {
+  PluginPresignedHttp,
+  type PresignedHttpUploadResult,
+} from "../../../src/runtime/composables/useUploadKit/plugins/storage/presigned-http"
+import type { UploadHookContext } from "../../../src/runtime/composables/useUploadKit/types"
+import { createMockLocalUploadFile, createMockPluginContext, createMockRemoteUploadFile } from "../../helpers"
 
 describe("PluginPresignedHttp", () => {
   const originalFetch = globalThis.fetch
@@ -37,12 +42,97 @@ describe("PluginPresignedHttp", () => {
     const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", retries: 5 })
     const blob = new Blob(["x"], { type: "image/jpeg" })
 
-    const assertion = expect(adapter.upload(blob, "f.jpg", { contentType: "image/jpeg" })).rejects.toThrow(/413/)
+    const assertion = expect(adapter.upload(blob, "f.jpg", { contentType: "image/jpeg" })).rejects.toMatchObject({
+      name: "UploadHttpError",
+      status: 413,
+    })
     await vi.runAllTimersAsync()
     await assertion
     expect(fetchMock).toHaveBeenCalledTimes(1)
   })
 
+  it("sends the restriction profile with /presign", async () => {
+    const fetchMock = vi.fn(async () => new Response("rejected", { status: 413 }))
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+
+    const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", profile: "avatar" })
+    const assertion = expect(adapter.upload(new Blob(["x"]), "f.jpg", { contentType: "image/jpeg" })).rejects.toThrow()
+    await vi.runAllTimersAsync()
+    await assertion
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe("/api/_upload/presign")
+    expect(JSON.parse(init.body as string)).toEqual({
+      file: { name: "f.jpg", size: 1, mimeType: "image/jpeg" },
+      profile: "avatar",
+    })
+  })
+
+  it("waits for Retry-After before retrying a 429", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("slow down", { status: 429, headers: { "Retry-After": "5" } }))
+      .mockResolvedValueOnce(new Response("rejected", { status: 413 }))
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+
+    const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", retries: 1 })
+    const assertion = expect(adapter.upload(new Blob(["x"]), "f.jpg", {})).rejects.toMatchObject({ status: 413 })
+
+    await vi.advanceTimersByTimeAsync(4_900)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(100)
+    await assertion
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it("carries Retry-After on the error and waits for it before retrying a 5xx", async () => {
+    const fetchMock = vi.fn(async () => new Response("maintenance", { status: 503, headers: { "Retry-After": "3" } }))
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+
+    const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", retries: 1 })
+    const assertion = expect(adapter.upload(new Blob(["x"]), "f.jpg", {})).rejects.toMatchObject({
+      status: 503,
+      retryAfter: 3000,
+    })
+
+    await vi.advanceTimersByTimeAsync(2_900)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(100)
+    await assertion
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it("stops waiting between retries when the signal aborts", async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new TypeError("Failed to fetch")
+    })
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+
+    const controller = new AbortController()
+    const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", retries: 3 })
+    const assertion = expect(adapter.upload(new Blob(["x"]), "f.jpg", { signal: controller.signal })).rejects.toThrow()
+
+    await vi.advanceTimersByTimeAsync(10)
+    controller.abort()
+    await vi.advanceTimersByTimeAsync(0)
+    await assertion
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("surfaces a 429 once retries are exhausted", async () => {
+    const fetchMock = vi.fn(async () => new Response("slow down", { status: 429, headers: { "Retry-After": "1" } }))
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+
+    const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", retries: 2 })
+    const assertion = expect(adapter.upload(new Blob(["x"]), "f.jpg", {})).rejects.toMatchObject({
+      name: "UploadHttpError",
+      status: 429,
+    })
+    await vi.runAllTimersAsync()
+    await assertion
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
   it("succeeds after a transient 5xx", async () => {
     const fetchMock = vi
       .fn()
@@ -50,6 +140,7 @@ describe("PluginPresignedHttp", () => {
       .mockResolvedValueOnce(
         new Response(JSON.stringify({ uploadUrl: "https://signed/", publicUrl: "https://cdn/f", fileId: "f" }), { status: 200 }),
       )
+      .mockResolvedValueOnce(new Response(JSON.stringify({ fileId: "f", publicUrl: "https://cdn/f" }), { status: 200 }))
     globalThis.fetch = fetchMock as unknown as typeof fetch
 
     // Mock XHR for the PUT step
@@ -80,6 +171,481 @@ describe("PluginPresignedHttp", () => {
     await vi.runAllTimersAsync()
     const result = await promise
     expect(result.url).toBe("https://cdn/f")
-    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(fetchMock).toHaveBeenCalledTimes(3) // failed presign, presign, complete
+  })
+
+  it("keeps the file token the server issued at presign time", async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ uploadUrl: "https://signed/", publicUrl: "https://cdn/f", fileId: "f", fileToken: "tok" })),
+      )
+      .mockResolvedValueOnce(new Response(JSON.stringify({ ok: true }))) as unknown as typeof fetch
+    class FakeXHR {
+      upload = { addEventListener: () => {} }
+      status = 200
+      private listeners: Record<string, () => void> = {}
+      addEventListener(event: string, cb: () => void) {
+        this.listeners[event] = cb
+      }
+      open() {}
+      setRequestHeader() {}
+      getResponseHeader() {
+        return null
+      }
+      send() {
+        queueMicrotask(() => this.listeners.load?.())
+      }
+    }
+    // @ts-expect-error stub doesn't satisfy XMLHttpRequest's full interface
+    globalThis.XMLHttpRequest = FakeXHR
+
+    const result = await PluginPresignedHttp({ endpoint: "/api/_upload" }).upload(new Blob(["x"]), "f.jpg", {})
+    expect(result).toMatchObject({ storageKey: "f", fileToken: "tok" })
+  })
+
+  it("submits POST policy fields as a form with the file last, reporting progress", async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            uploadUrl: "https://bucket.s3.amazonaws.com/",
+            publicUrl: "https://cdn/f",
+            fileId: "uploads/f",
+            fields: { key: "uploads/f", "Content-Type": "image/jpeg", Policy: "p", "X-Amz-Signature": "s" },
+          }),
+        ),
+      )
+      .mockResolvedValueOnce(new Response(JSON.stringify({ ok: true }))) as unknown as typeof fetch
+
+    const sent: Array<{ method: string; url: string; body: unknown; headers: string[] }> = []
+    class FakeXHR {
+      upload = {
+        addEventListener: (_event: string, cb: (e: { lengthComputable: boolean; loaded: number; total: number }) => void) => {
+          this.onProgress = cb
+        },
+      }
+      status = 204
+      private onProgress?: (e: { lengthComputable: boolean; loaded: number; total: number }) => void
+      private listeners: Record<string, () => void> = {}
+      private request = { method: "", url: "", body: undefined as unknown, headers: [] as string[] }
+      addEventListener(event: string, cb: () => void) {
+        this.listeners[event] = cb
+      }
+      open(method: string, url: string) {
+        Object.assign(this.request, { method, url })
+      }
+      setRequestHeader(name: string) {
+        this.request.headers.push(name)
+      }
+      getResponseHeader() {
+        return '"etag-1"'
+      }
+      send(body: unknown) {
+        sent.push({ ...this.request, body })
+        queueMicrotask(() => {
+          this.onProgress?.({ lengthComputable: true, loaded: 50, total: 100 })
+          this.listeners.load?.()
+        })
+      }
+    }
+    // @ts-expect-error stub doesn't satisfy XMLHttpRequest's full interface
+    globalThis.XMLHttpRequest = FakeXHR
+
+    const onProgress = vi.fn()
+    const result = await PluginPresignedHttp({ endpoint: "/api/_upload" }).upload(new Blob(["x"]), "f.jpg", {
+      contentType: "image/jpeg",
+      onProgress,
+    })
+
+    expect(sent).toHaveLength(1)
+    expect(sent[0]).toMatchObject({ method: "POST", url: "https://bucket.s3.amazonaws.com/", headers: [] })
+    const form = sent[0]!.body as FormData
+    expect([...form.keys()]).toEqual(["key", "Content-Type", "Policy", "X-Amz-Signature", "file"])
+    expect(form.get("Policy")).toBe("p")
+    expect((form.get("file") as Blob).type).toBe("image/jpeg")
+    expect(onProgress).toHaveBeenCalledWith(50)
+    expect(result).toMatchObject({ url: "https://cdn/f", storageKey: "uploads/f", etag: "etag-1" })
+  })
+
+  it("aborts the PUT when the signal is aborted", async () => {
+    globalThis.fetch = vi.fn(
+      async () => new Response(JSON.stringify({ uploadUrl: "https://signed/", publicUrl: "https://cdn/f", fileId: "f" })),
+    ) as unknown as typeof fetch
+
+    const abort = vi.fn()
+    class FakeXHR {
+      upload = { addEventListener: () => {} }
+      private listeners: Record<string, () => void> = {}
+      addEventListener(event: string, cb: () => void) {
+        this.listeners[event] = cb
+      }
+      open() {}
+      setRequestHeader() {}
+      send() {}
+      abort() {
+        abort()
+        this.listeners.abort?.()
+      }
+    }
+    // @ts-expect-error stub doesn't satisfy XMLHttpRequest's full interface
+    globalThis.XMLHttpRequest = FakeXHR
+
+    const controller = new AbortController()
+    const adapter = PluginPresignedHttp({ endpoint: "/api/_upload" })
+    const promise = adapter.upload(new Blob(["x"]), "f.jpg", { signal: controller.signal })
+    const assertion = expect(promise).rejects.toThrow(/aborted/)
+    await vi.runAllTimersAsync()
+
+    controller.abort()
+    await assertion
+    expect(abort).toHaveBeenCalledTimes(1)
+  })
+
+  describe("existing files", () => {
+    it("resolves a storage key through /meta", async () => {
+      const fetchMock = vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({
+              fileId: "uploads/a.png",
+              size: 1024,
+              mimeType: "image/png",
+              downloadUrl: "https://signed/uploads/a.png",
+            }),
+          ),
+      )
+      globalThis.fetch = fetchMock as unknown as typeof fetch
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload/" })
+
+      const remote = await adapter.hooks.getRemoteFile!("uploads/a.png", createMockPluginContext())
+
+      expect(fetchMock).toHaveBeenCalledWith("/api/_upload/meta/uploads%2Fa.png", { method: "GET" })
+      expect(remote).toEqual({
+        size: 1024,
+        mimeType: "image/png",
+        remoteUrl: "https://signed/uploads/a.png",
+        uploadResult: { url: "https://signed/uploads/a.png", storageKey: "uploads/a.png" },
+      })
+    })
+
+    it("surfaces a failed lookup as an UploadHttpError", async () => {
+      globalThis.fetch = vi.fn(async () => new Response("gone", { status: 404 })) as unknown as typeof fetch
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload" })
+
+      await expect(adapter.hooks.getRemoteFile!("uploads/a.png", createMockPluginContext())).rejects.toMatchObject({
+        name: "UploadHttpError",
+        status: 404,
+      })
+    })
+
+    it("lists a page through /list", async () => {
+      const fetchMock = vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({
+              files: [{ fileId: "uploads/a.png", size: 10, mimeType: "image/png", downloadUrl: "https://signed/a" }],
+              cursor: "next",
+            }),
+          ),
+      )
+      globalThis.fetch = fetchMock as unknown as typeof fetch
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload" })
+
+      const page = await adapter.hooks.list!({ prefix: "uploads/", cursor: "c1", limit: 10 }, createMockPluginContext())
+
+      expect(fetchMock).toHaveBeenCalledWith("/api/_upload/list?prefix=uploads%2F&cursor=c1&limit=10", { method: "GET" })
+      expect(page).toEqual({
+        files: [
+          {
+            storageKey: "uploads/a.png",
+            size: 10,
+            mimeType: "image/png",
+            remoteUrl: "https://signed/a",
+            uploadResult: { url: "https://signed/a", storageKey: "uploads/a.png" },
+          },
+        ],
+        cursor: "next",
+      })
+    })
+
+    it("asks /download for a signed URL with the requested disposition", async () => {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({ downloadUrl: "https://signed/a" })))
+      globalThis.fetch = fetchMock as unknown as typeof fetch
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload" })
+
+      const url = await adapter.hooks.getDownloadUrl!(
+        "uploads/a.png",
+        { disposition: "attachment", filename: "My photo.png" },
+        createMockPluginContext(),
+      )
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        "/api/_upload/download/uploads%2Fa.png?disposition=attachment&filename=My+photo.png",
+        { method: "GET" },
+      )
+      expect(url).toBe("https://signed/a")
+    })
+
+    it("returns the /download URL itself in proxy mode", async () => {
+      const fetchMock = vi.fn()
+      globalThis.fetch = fetchMock as unknown as typeof fetch
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", downloadMode: "proxy" })
+
+      const url = await adapter.hooks.getDownloadUrl!("uploads/a.png", { disposition: "attachment" }, createMockPluginContext())
+
+      expect(url).toBe("/api/_upload/download/uploads%2Fa.png?disposition=attachment")
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it("sends the file token with downloads and deletes", async () => {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({ ok: true })))
+      globalThis.fetch = fetchMock as unknown as typeof fetch
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", downloadMode: "proxy" })
+
+      const url = await adapter.hooks.getDownloadUrl!("uploads/a.png", { token: "tok" }, createMockPluginContext())
+      await adapter.hooks.remove!(
+        createMockRemoteUploadFile({ name: "a.png", storageKey: "uploads/a.png", uploadResult: { fileToken: "tok" } }),
+        createMockPluginContext(),
+      )
+
+      expect(url).toBe("/api/_upload/download/uploads%2Fa.png?token=tok")
+      expect(fetchMock).toHaveBeenCalledWith("/api/_upload/uploads%2Fa.png", {
+        method: "DELETE",
+        headers: { "X-Upload-Token": "tok" },
+      })
+    })
+
+    it("deletes through DELETE /:fileId, skipping files that were never uploaded", async () => {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({ ok: true })))
+      globalThis.fetch = fetchMock as unknown as typeof fetch
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload" })
+
+      await adapter.hooks.remove!(
+        createMockLocalUploadFile({ name: "a.png", storageKey: "uploads/a.png" }),
+        createMockPluginContext(),
+      )
+      await adapter.hooks.remove!(createMockLocalUploadFile({ name: "b.png" }), createMockPluginContext())
+
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(fetchMock).toHaveBeenCalledWith("/api/_upload/uploads%2Fa.png", { method: "DELETE" })
+    })
+  })
+
+  describe("multipart", () => {
+    const requests: Array<{ url: string; body: any }> = []
+    const puts: Array<{ url: string; size: number }> = []
+
+    const mockServer = (partSize = 4) => {
+      requests.length = 0
+      puts.length = 0
+      globalThis.fetch = vi.fn(async (url: string, init?: RequestInit) => {
+        const body = init?.body ? JSON.parse(init.body as string) : undefined
+        requests.push({ url, body })
+        if (url.endsWith("/multipart/create")) {
+          const partCount = Math.ceil(body.file.size / partSize)
+          return new Response(
+            JSON.stringify({
+              uploadId: "mp-1",
+              fileId: "uploads/big.bin",
+              publicUrl: "https://cdn/big.bin",
+              partSize,
+              partCount,
+            }),
+          )
+        }
+        if (url.endsWith("/multipart/sign-part")) {
+          return new Response(JSON.stringify({ uploadUrl: `https://signed/part-${body.partNumber}` }))
+        }
+        if (url.endsWith("/multipart/complete")) {
+          return new Response(JSON.stringify({ publicUrl: "https://cdn/big.bin", fileId: "uploads/big.bin" }))
+        }
+        if (url.endsWith("/multipart/abort")) return new Response(JSON.stringify({ ok: true }))
+        return new Response(
+          JSON.stringify({ uploadUrl: "https://signed/single", publicUrl: "https://cdn/small", fileId: "small" }),
+        )
+      }) as unknown as typeof fetch
+
+      class FakeXHR {
+        upload = { addEventListener: () => {} }
+        status = 200
+        statusText = "OK"
+        private url = ""
+        private listeners: Record<string, () => void> = {}
+        addEventListener(event: string, cb: () => void) {
+          this.listeners[event] = cb
+        }
+        open(_method: string, url: string) {
+          this.url = url
+        }
+        setRequestHeader() {}
+        getResponseHeader() {
+          return `"etag-${this.url.split("-").pop()}"`
+        }
+        send(data: Blob) {
+          puts.push({ url: this.url, size: data.size })
+          queueMicrotask(() => this.listeners.load?.())
+        }
+        abort() {
+          this.listeners.abort?.()
+        }
+      }
+      // @ts-expect-error stub doesn't satisfy XMLHttpRequest's full interface
+      globalThis.XMLHttpRequest = FakeXHR
+    }
+
+    const uploadContext = (overrides: Partial<UploadHookContext> = {}): UploadHookContext => ({
+      ...createMockPluginContext(),
+      onProgress: vi.fn(),
+      signal: new AbortController().signal,
+      setCheckpoint: vi.fn(),
+      ...overrides,
+    })
+
+    const bigFile = () =>
+      createMockLocalUploadFile<PresignedHttpUploadResult>({
+        id: "big.bin",
+        name: "big.bin",
+        size: 10,
+        mimeType: "application/octet-stream",
+        data: new Blob(["0123456789"]),
+      })
+
+    it("uploads files above the threshold as parts, then completes with their ETags", async () => {
+      mockServer()
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", multipart: { threshold: 5, concurrency: 2 } })
+      const context = uploadContext()
+
+      const promise = adapter.hooks.upload(bigFile(), context)
+      await vi.runAllTimersAsync()
+      const result = await promise
+
+      expect(result).toEqual({ url: "https://cdn/big.bin", storageKey: "uploads/big.bin" })
+      expect(puts.map((p) => p.size).sort()).toEqual([2, 4, 4])
+      const complete = requests.find((r) => r.url.endsWith("/multipart/complete"))!
+      expect(complete.body.parts.sort((a: any, b: any) => a.partNumber - b.partNumber)).toEqual([
+        { partNumber: 1, etag: "etag-1" },
+        { partNumber: 2, etag: "etag-2" },
+        { partNumber: 3, etag: "etag-3" },
+      ])
+      expect(context.setCheckpoint).toHaveBeenLastCalledWith(expect.objectContaining({ uploadId: "mp-1" }))
+      expect(context.onProgress).toHaveBeenLastCalledWith(100)
+    })
+
+    it("keeps small files on the single PUT path", async () => {
+      mockServer()
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", multipart: { threshold: 100 } })
+
+      const promise = adapter.hooks.upload(bigFile(), uploadContext())
+      await vi.runAllTimersAsync()
+      await promise
+
+      expect(requests.map((r) => r.url)).toEqual(["/api/_upload/presign", "/api/_upload/complete"])
+      expect(requests[1]!.body).toEqual({ fileId: "small" })
+    })
+
+    it("treats a 501 from /complete as success", async () => {
+      mockServer()
+      const serve = globalThis.fetch
+      globalThis.fetch = vi.fn(async (url: string, init?: RequestInit) =>
+        url.endsWith("/complete") ? new Response("not implemented", { status: 501 }) : serve(url, init),
+      ) as unknown as typeof fetch
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", retries: 3 })
+
+      const promise = adapter.hooks.upload(bigFile(), uploadContext())
+      await vi.runAllTimersAsync()
+
+      await expect(promise).resolves.toMatchObject({ url: "https://cdn/small", storageKey: "small" })
+      expect(globalThis.fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it("leaves retries to the uploader's retry policy when one is configured", async () => {
+      mockServer()
+      const serve = globalThis.fetch
+      globalThis.fetch = vi.fn(async (url: string, init?: RequestInit) =>
+        url.endsWith("/complete") ? new Response("unavailable", { status: 503 }) : serve(url, init),
+      ) as unknown as typeof fetch
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", retries: 3 })
+
+      const assertion = expect(
+        adapter.hooks.upload(bigFile(), uploadContext({ options: { retry: { attempts: 2 } } })),
+      ).rejects.toMatchObject({ status: 503 })
+      await vi.runAllTimersAsync()
+      await assertion
+      expect(globalThis.fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it("returns the server's processor results from /complete", async () => {
+      mockServer()
+      const serve = globalThis.fetch
+      const processed = { metadata: { size: 10, checksum: "abc" } }
+      globalThis.fetch = vi.fn(async (url: string, init?: RequestInit) =>
+        url.endsWith("/complete")
+          ? new Response(JSON.stringify({ fileId: "small", publicUrl: "https://cdn/small", processed }))
+          : serve(url, init),
+      ) as unknown as typeof fetch
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload" })
+
+      const promise = adapter.hooks.upload(bigFile(), uploadContext())
+      await vi.runAllTimersAsync()
+
+      await expect(promise).resolves.toMatchObject({ storageKey: "small", processed })
+    })
+
+    it("fails the upload when /complete rejects the stored object", async () => {
+      mockServer()
+      const serve = globalThis.fetch
+      globalThis.fetch = vi.fn(async (url: string, init?: RequestInit) =>
+        url.endsWith("/complete") ? new Response("size mismatch", { status: 409 }) : serve(url, init),
+      ) as unknown as typeof fetch
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload" })
+
+      const assertion = expect(adapter.hooks.upload(bigFile(), uploadContext())).rejects.toMatchObject({ status: 409 })
+      await vi.runAllTimersAsync()
+      await assertion
+    })
+
+    it("resumes from a checkpoint, uploading only the missing parts", async () => {
+      mockServer()
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", multipart: { threshold: 5 } })
+      const checkpoint = {
+        uploadId: "mp-1",
+        fileId: "uploads/big.bin",
+        publicUrl: "https://cdn/big.bin",
+        partSize: 4,
+        partCount: 3,
+        parts: [{ partNumber: 1, etag: "etag-1" }],
+      }
+
+      const promise = adapter.hooks.upload(bigFile(), uploadContext({ checkpoint }))
+      await vi.runAllTimersAsync()
+      await promise
+
+      expect(requests.some((r) => r.url.endsWith("/multipart/create"))).toBe(false)
+      expect(puts.map((p) => p.url)).toEqual(["https://signed/part-2", "https://signed/part-3"])
+    })
+
+    it("aborts the multipart upload when cancelled, but not when paused", async () => {
+      const { UploadPausedError } = await import("../../../src/runtime/shared")
+      const adapter = PluginPresignedHttp({ endpoint: "/api/_upload", multipart: { threshold: 5 } })
+
+      for (const reason of [undefined, new UploadPausedError()]) {
+        mockServer()
+        // Park every part PUT so the abort lands mid-transfer.
+        XMLHttpRequest.prototype.send = function (this: any, data: Blob) {
+          puts.push({ url: this.url, size: data.size })
+        }
+        const controller = new AbortController()
+        const promise = adapter.hooks.upload(bigFile(), uploadContext({ signal: controller.signal }))
+        const assertion = expect(promise).rejects.toBeDefined()
+        await vi.runAllTimersAsync()
+
+        controller.abort(reason)
+        await assertion
+        const aborted = requests.some((r) => r.url.endsWith("/multipart/abort"))
+        expect(aborted).toBe(reason === undefined)
+      }
+    })
   })
 })
@@ -120,6 +120,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         await expect(plugin.hooks.upload(remoteFile, context)).rejects.toThrow(
@@ -145,6 +147,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         await plugin.hooks.upload(file, context)
@@ -167,6 +171,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         const result = await plugin.hooks.upload(file, context)
@@ -192,6 +198,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         const result = await plugin.hooks.upload(file, context)
@@ -491,6 +499,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         await plugin.hooks.upload(file, context)
@@ -509,6 +519,8 @@ describe("providers", () => {
         const context = {
           ...createMockPluginContext(),
           onProgress: vi.fn(),
+          signal: new AbortController().signal,
+          setCheckpoint: vi.fn(),
         }
 
         await plugin.hooks.upload(file, context)
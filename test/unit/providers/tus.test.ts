@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { PluginTus, type TusUploadResult } from "../../../src/runtime/composables/useUploadKit/plugins/storage/tus"
+import { UploadPausedError } from "../../../src/runtime/shared"
+import type { UploadHookContext } from "../../../src/runtime/composables/useUploadKit/types"
+import { createMockLocalUploadFile, createMockPluginContext } from "../../helpers"
+
+describe("PluginTus", () => {
+  const originalFetch = globalThis.fetch
+  const originalXMLHttpRequest = globalThis.XMLHttpRequest
+
+  let serverOffset: number
+  let patches: Array<{ url: string; offset: string; size: number }>
+  let requests: Array<{ url: string; method: string; headers: Record<string, string> }>
+  let holdPatches: boolean
+  let fileToken: string | null
+
+  const fileSize = 10
+
+  beforeEach(() => {
+    serverOffset = 0
+    patches = []
+    requests = []
+    holdPatches = false
+    fileToken = null
+
+    globalThis.fetch = vi.fn(async (url: string, init: RequestInit) => {
+      const headers = init.headers as Record<string, string>
+      requests.push({ url, method: init.method!, headers })
+      if (init.method === "POST") {
+        return new Response(null, {
+          status: 201,
+          headers: { Location: "/api/_upload/tus/abc", "Upload-Kit-File-Id": "uploads/a.bin" },
+        })
+      }
+      if (init.method === "HEAD") {
+        return new Response(null, {
+          status: 200,
+          headers: {
+            "Upload-Offset": String(serverOffset),
+            "Upload-Length": String(fileSize),
+            "Upload-Kit-File-Id": "uploads/a.bin",
+          },
+        })
+      }
+      return new Response(null, { status: 204 })
+    }) as unknown as typeof fetch
+
+    class FakeXHR {
+      upload = { addEventListener: () => {} }
+      status = 204
+      statusText = "No Content"
+      private url = ""
+      private headers: Record<string, string> = {}
+      private listeners: Record<string, () => void> = {}
+      addEventListener(event: string, cb: () => void) {
+        this.listeners[event] = cb
+      }
+      open(_method: string, url: string) {
+        this.url = url
+      }
+      setRequestHeader(name: string, value: string) {
+        this.headers[name] = value
+      }
+      getResponseHeader(name: string) {
+        if (name === "Upload-Offset") return String(serverOffset)
+        if (name === "Upload-Kit-File-Id") return "uploads/a.bin"
+        if (name === "Upload-Kit-Public-Url") return serverOffset === fileSize ? "https://cdn/uploads/a.bin" : null
+        if (name === "Upload-Kit-File-Token") return serverOffset === fileSize ? fileToken : null
+        return null
+      }
+      send(chunk: Blob) {
+        patches.push({ url: this.url, offset: this.headers["Upload-Offset"]!, size: chunk.size })
+        if (holdPatches) return
+        serverOffset += chunk.size
+        queueMicrotask(() => this.listeners.load?.())
+      }
+      abort() {
+        this.listeners.abort?.()
+      }
+    }
+    // @ts-expect-error stub doesn't satisfy XMLHttpRequest's full interface
+    globalThis.XMLHttpRequest = FakeXHR
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    globalThis.XMLHttpRequest = originalXMLHttpRequest
+  })
+
+  const localFile = () =>
+    createMockLocalUploadFile<TusUploadResult>({
+      id: "a.bin",
+      name: "a.bin",
+      size: fileSize,
+      mimeType: "application/octet-stream",
+      data: new Blob(["0123456789"]),
+    })
+
+  const context = (overrides: Partial<UploadHookContext> = {}): UploadHookContext => ({
+    ...createMockPluginContext(),
+    onProgress: vi.fn(),
+    signal: new AbortController().signal,
+    setCheckpoint: vi.fn(),
+    ...overrides,
+  })
+
+  it("creates the upload, then sends it in chunks", async () => {
+    const adapter = PluginTus({ endpoint: "/api/_upload/tus", chunkSize: 4 })
+    const ctx = context()
+
+    const result = await adapter.hooks.upload(localFile(), ctx)
+
+    const post = requests.find((r) => r.method === "POST")!
+    expect(post.headers["Upload-Length"]).toBe("10")
+    expect(post.headers["Tus-Resumable"]).toBe("1.0.0")
+    expect(post.headers["Upload-Metadata"]).toBe(`filename ${btoa("a.bin")},filetype ${btoa("application/octet-stream")}`)
+    expect(patches).toEqual([
+      { url: "/api/_upload/tus/abc", offset: "0", size: 4 },
+      { url: "/api/_upload/tus/abc", offset: "4", size: 4 },
+      { url: "/api/_upload/tus/abc", offset: "8", size: 2 },
+    ])
+    expect(ctx.setCheckpoint).toHaveBeenCalledWith("/api/_upload/tus/abc")
+    expect(result).toEqual({ url: "https://cdn/uploads/a.bin", storageKey: "uploads/a.bin", uploadUrl: "/api/_upload/tus/abc" })
+    expect(ctx.onProgress).toHaveBeenLastCalledWith(100)
+  })
+
+  it("sends the restriction profile in the upload metadata", async () => {
+    const adapter = PluginTus({ endpoint: "/api/_upload/tus", profile: "avatar" })
+
+    await adapter.hooks.upload(localFile(), context())
+
+    const post = requests.find((r) => r.method === "POST")!
+    expect(post.headers["Upload-Metadata"]).toBe(
+      `filename ${btoa("a.bin")},filetype ${btoa("application/octet-stream")},profile ${btoa("avatar")}`,
+    )
+  })
+
+  it("keeps the file token the server returns with the final chunk", async () => {
+    fileToken = "tok"
+    const adapter = PluginTus({ endpoint: "/api/_upload/tus" })
+
+    const result = await adapter.hooks.upload(localFile(), context())
+
+    expect(result).toMatchObject({ storageKey: "uploads/a.bin", fileToken: "tok" })
+  })
+
+  it("resumes from the server's offset when given a checkpoint", async () => {
+    serverOffset = 6
+    const adapter = PluginTus({ endpoint: "/api/_upload/tus", chunkSize: 4 })
+
+    await adapter.hooks.upload(localFile(), context({ checkpoint: "/api/_upload/tus/abc" }))
+
+    expect(requests.map((r) => r.method)).toEqual(["HEAD"])
+    expect(patches).toEqual([{ url: "/api/_upload/tus/abc", offset: "6", size: 4 }])
+  })
+
+  it("terminates the upload on cancel but keeps it on pause", async () => {
+    const adapter = PluginTus({ endpoint: "/api/_upload/tus" })
+
+    for (const reason of [undefined, new UploadPausedError()]) {
+      requests = []
+      holdPatches = true
+      const controller = new AbortController()
+      const promise = adapter.hooks.upload(localFile(), context({ signal: controller.signal }))
+      await vi.waitFor(() => expect(patches.length).toBeGreaterThan(0))
+
+      controller.abort(reason)
+      await expect(promise).rejects.toThrow(/aborted/)
+      expect(requests.some((r) => r.method === "DELETE")).toBe(reason === undefined)
+      patches = []
+    }
+  })
+})
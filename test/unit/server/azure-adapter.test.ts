@@ -1,5 +1,6 @@
-import { describe, it, expect } from "vitest"
+import { describe, it, expect, vi, afterEach } from "vitest"
 import type { H3Event } from "h3"
+import { BlobClient, ContainerClient } from "@azure/storage-blob"
 import { AzureStorage } from "../../../src/runtime/server/adapters/azure"
 
 const ctx = { event: {} as H3Event, auth: {} }
@@ -86,6 +87,20 @@ describe("AzureStorage", () => {
     expect(downloadUrl).toContain("sig=")
   })
 
+  it("signs a content-disposition override into the download SAS", async () => {
+    const storage = AzureStorage({
+      account: "s",
+      container: "c",
+      credentials: { accountKey: ACCOUNT_KEY },
+    })
+
+    const { downloadUrl } = await storage.presignDownload!("uploads/abc.png", ctx, {
+      type: "attachment",
+      filename: "Report.png",
+    })
+    expect(new URL(downloadUrl).searchParams.get("rscd")).toBe(`attachment; filename="Report.png"; filename*=UTF-8''Report.png`)
+  })
+
   it("percent-encodes reserved characters in keys per path segment", async () => {
     const storage = AzureStorage({
       account: "s",
@@ -103,4 +118,79 @@ describe("AzureStorage", () => {
     expect(result.uploadUrl.startsWith("https://s.blob.core.windows.net/c/tenant%20a/weird%3Fname%231%2B2.png?")).toBe(true)
     expect(result.publicUrl).toBe("https://s.blob.core.windows.net/c/tenant%20a/weird%3Fname%231%2B2.png")
   })
+
+  describe("stat", () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    const storage = () => AzureStorage({ account: "s", container: "c", credentials: { accountKey: ACCOUNT_KEY } })
+
+    it("reads the blob's properties", async () => {
+      vi.spyOn(BlobClient.prototype, "getProperties").mockResolvedValue({
+        contentLength: 1024,
+        contentType: "image/png",
+        etag: '"0x8DC"',
+        lastModified: new Date("2026-01-02T03:04:05Z"),
+        metadata: { owner: "u1" },
+      } as never)
+
+      expect(await storage().stat!("uploads/a.png", ctx)).toEqual({
+        size: 1024,
+        contentType: "image/png",
+        etag: "0x8DC",
+        lastModified: new Date("2026-01-02T03:04:05Z"),
+        metadata: { owner: "u1" },
+      })
+    })
+
+    it("returns null for a missing blob", async () => {
+      vi.spyOn(BlobClient.prototype, "getProperties").mockRejectedValue(
+        Object.assign(new Error("BlobNotFound"), { statusCode: 404 }) as never,
+      )
+
+      expect(await storage().stat!("uploads/missing.png", ctx)).toBeNull()
+    })
+  })
+
+  it("lists one page of blobs with its continuation token", async () => {
+    const byPage = vi.fn(() => ({
+      next: async () => ({
+        done: false,
+        value: {
+          continuationToken: "token-2",
+          segment: {
+            blobItems: [
+              {
+                name: "uploads/a.png",
+                properties: { contentLength: 10, contentType: "image/png", etag: '"0x1"', lastModified: new Date(0) },
+              },
+            ],
+          },
+        },
+      }),
+    }))
+    const listBlobsFlat = vi.spyOn(ContainerClient.prototype, "listBlobsFlat").mockReturnValue({ byPage } as never)
+    const storage = AzureStorage({ account: "s", container: "c", credentials: { accountKey: ACCOUNT_KEY } })
+
+    const page = await storage.listPage!({ prefix: "uploads/", cursor: "token-1", limit: 1 }, ctx)
+
+    expect(listBlobsFlat).toHaveBeenCalledWith({ prefix: "uploads/" })
+    expect(byPage).toHaveBeenCalledWith({ continuationToken: "token-1", maxPageSize: 1 })
+    expect(page).toEqual({
+      items: [{ key: "uploads/a.png", size: 10, contentType: "image/png", etag: "0x1", lastModified: new Date(0) }],
+      cursor: "token-2",
+    })
+    listBlobsFlat.mockRestore()
+  })
+
+  it("streams a byte range as offset and count", async () => {
+    const body = {}
+    const download = vi.spyOn(BlobClient.prototype, "download").mockResolvedValue({ readableStreamBody: body } as never)
+    const storage = AzureStorage({ account: "s", container: "c", credentials: { accountKey: ACCOUNT_KEY } })
+
+    expect(await storage.getStream!("uploads/a.mp4", { start: 100, end: 199 }, ctx)).toBe(body)
+    expect(download).toHaveBeenCalledWith(100, 100)
+    download.mockRestore()
+  })
 })
@@ -19,6 +19,8 @@ const both: StorageAdapter = {
   put: async () => ({ publicUrl: "p" }),
   presignDownload: async () => ({ downloadUrl: "d" }),
   delete: async () => {},
+  stat: async () => null,
+  listPage: async () => ({ items: [] }),
 }
 
 describe("deriveCapabilities", () => {
@@ -28,6 +30,10 @@ describe("deriveCapabilities", () => {
       server: false,
       download: false,
       delete: false,
+      stat: false,
+      list: false,
+      stream: false,
+      multipart: false,
     })
   })
 
@@ -37,6 +43,10 @@ describe("deriveCapabilities", () => {
       server: true,
       download: false,
       delete: false,
+      stat: false,
+      list: false,
+      stream: false,
+      multipart: false,
     })
   })
 
@@ -46,8 +56,24 @@ describe("deriveCapabilities", () => {
       server: true,
       download: true,
       delete: true,
+      stat: true,
+      list: true,
+      stream: false,
+      multipart: false,
     })
   })
+
+  it("infers multipart only when all four multipart methods exist", () => {
+    const multipart: StorageAdapter = {
+      ...presignOnly,
+      createMultipartUpload: async () => ({ uploadId: "u", fileId: "f", publicUrl: "p" }),
+      signMultipartPart: async () => ({ uploadUrl: "u" }),
+      completeMultipartUpload: async () => ({ publicUrl: "p" }),
+      abortMultipartUpload: async () => {},
+    }
+    expect(deriveCapabilities(multipart).multipart).toBe(true)
+    expect(deriveCapabilities({ ...multipart, abortMultipartUpload: undefined }).multipart).toBe(false)
+  })
 })
 
 describe("supportedModes", () => {
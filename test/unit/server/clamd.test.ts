@@ -0,0 +1,96 @@
+// @vitest-environment node
+import { createServer, type Server } from "node:net"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { Readable } from "node:stream"
+import { afterEach, describe, expect, it } from "vitest"
+import { ClamdScanner } from "../../../src/runtime/server/clamd"
+
+let server: Server | undefined
+
+/**
+ * Minimal clamd: decodes the INSTREAM frames and answers with `reply(body)`.
+ * `received` collects the command and reassembled body of every scan.
+ */
+const fakeClamd = (reply: (body: Buffer) => string, listenOn: number | string = 0) => {
+  const received: Array<{ command: string; body: Buffer; frames: number }> = []
+  server = createServer((socket) => {
+    let buffer = Buffer.alloc(0)
+    socket.on("data", (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk])
+      const commandEnd = buffer.indexOf(0)
+      if (commandEnd === -1) return
+      const parts: Buffer[] = []
+      let offset = commandEnd + 1
+      while (offset + 4 <= buffer.length) {
+        const length = buffer.readUInt32BE(offset)
+        if (length === 0) {
+          const body = Buffer.concat(parts)
+          received.push({ command: buffer.subarray(0, commandEnd).toString(), body, frames: parts.length })
+          socket.end(`${reply(body)}\0`)
+          return
+        }
+        if (offset + 4 + length > buffer.length) return
+        parts.push(buffer.subarray(offset + 4, offset + 4 + length))
+        offset += 4 + length
+      }
+    })
+  })
+  return new Promise<{ port?: number; received: typeof received }>((resolve) => {
+    server!.listen(listenOn, () => {
+      const address = server!.address()
+      resolve({ port: typeof address === "object" && address ? address.port : undefined, received })
+    })
+  })
+}
+
+afterEach(async () => {
+  await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)))
+  server = undefined
+})
+
+describe("ClamdScanner", () => {
+  it("streams the body in INSTREAM frames and reports a clean file", async () => {
+    const { port, received } = await fakeClamd(() => "stream: OK")
+    const scan = ClamdScanner({ port, chunkSize: 4 })
+
+    const result = await scan(Readable.from([Buffer.from("hello "), Buffer.from("world")]))
+
+    expect(result).toEqual({ infected: false })
+    expect(received).toHaveLength(1)
+    expect(received[0]!.command).toBe("zINSTREAM")
+    expect(received[0]!.body.toString()).toBe("hello world")
+    expect(received[0]!.frames).toBe(4) // "hell", "o ", "worl", "d"
+  })
+
+  it("reports the signature of an infected file", async () => {
+    const { port } = await fakeClamd((body) => (body.includes("EICAR") ? "stream: Eicar-Test-Signature FOUND" : "stream: OK"))
+    const scan = ClamdScanner({ port })
+
+    await expect(scan(Readable.from([Buffer.from("X5O!P%@AP EICAR test")]))).resolves.toEqual({
+      infected: true,
+      signature: "Eicar-Test-Signature",
+    })
+  })
+
+  it("connects over a Unix socket", async () => {
+    const socket = join(tmpdir(), `clamd-${process.pid}-${Date.now()}.sock`)
+    await fakeClamd(() => "stream: OK", socket)
+
+    await expect(ClamdScanner({ socket })(Readable.from([Buffer.from("x")]))).resolves.toEqual({ infected: false })
+  })
+
+  it("fails when clamd answers with an error", async () => {
+    const { port } = await fakeClamd(() => "INSTREAM size limit exceeded. ERROR")
+
+    await expect(ClamdScanner({ port })(Readable.from([Buffer.from("x")]))).rejects.toThrow(/size limit exceeded/)
+  })
+
+  it("fails when the daemon is unreachable", async () => {
+    const { port } = await fakeClamd(() => "stream: OK")
+    await new Promise((resolve) => server!.close(resolve))
+    server = undefined
+
+    await expect(ClamdScanner({ port })(Readable.from([Buffer.from("x")]))).rejects.toMatchObject({ code: "ECONNREFUSED" })
+  })
+})
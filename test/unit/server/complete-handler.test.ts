@@ -0,0 +1,242 @@
+import { Readable } from "node:stream"
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import type { StorageAdapter, UploadServerConfig } from "../../../src/runtime/server/types"
+
+let userConfig: UploadServerConfig
+let body: unknown
+
+vi.mock("#upload-kit-user-config", () => ({
+  get default() {
+    return userConfig
+  },
+}))
+
+const stubStorage = (stored: { size: number; contentType?: string } | null = { size: 10, contentType: "image/png" }) => ({
+  id: "stub",
+  presignUpload: vi.fn(async (input: { fileId: string }) => ({
+    uploadUrl: `https://signed/${input.fileId}`,
+    publicUrl: `https://cdn/${input.fileId}`,
+    fileId: `uploads/${input.fileId}`,
+  })),
+  stat: vi.fn(async () => stored),
+})
+
+const png = (width: number, height: number) => {
+  const header = Buffer.alloc(33)
+  header.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+  header.writeUInt32BE(13, 8)
+  header.write("IHDR", 12)
+  header.writeUInt32BE(width, 16)
+  header.writeUInt32BE(height, 20)
+  return header
+}
+
+const fakeEvent = () => ({ node: { req: { method: "POST", headers: {} } }, context: {} })
+
+const call = async (name: "presign" | "complete", payload: unknown) => {
+  body = payload
+  const mod = await import(`../../../src/runtime/server/handlers/${name}.ts`)
+  return (mod.default as (event: unknown) => Promise<any>)(fakeEvent())
+}
+
+const file = { name: "photo.png", size: 10, mimeType: "image/png" }
+
+beforeEach(() => {
+  vi.resetModules()
+  vi.doMock("h3", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("h3")>()
+    return { ...actual, readBody: async () => body }
+  })
+})
+
+afterEach(async () => {
+  vi.doUnmock("h3")
+  const { __setRuntimeConfig, __resetStorage } = await import("../../fixtures/nuxt-imports")
+  __setRuntimeConfig({})
+  __resetStorage()
+})
+
+describe("complete handler", () => {
+  it("verifies the stored object and runs afterUpload with the resolved key", async () => {
+    const storage = stubStorage()
+    const afterUpload = vi.fn()
+    userConfig = { storage, authorize: async () => ({ userId: "u1" }), hooks: { afterUpload } }
+
+    const presigned = await call("presign", { file })
+    expect(afterUpload).not.toHaveBeenCalled()
+
+    const result = await call("complete", { fileId: presigned.fileId })
+
+    expect(result).toEqual({ fileId: presigned.fileId, publicUrl: presigned.publicUrl })
+    expect(storage.stat).toHaveBeenCalledWith(presigned.fileId, expect.objectContaining({ auth: { userId: "u1" } }))
+    expect(afterUpload).toHaveBeenCalledWith(
+      { ...file, key: presigned.fileId },
+      expect.objectContaining({ auth: { userId: "u1" } }),
+    )
+  })
+
+  it("only completes an upload once", async () => {
+    userConfig = { storage: stubStorage() }
+    const { fileId } = await call("presign", { file })
+
+    await call("complete", { fileId })
+    await expect(call("complete", { fileId })).rejects.toMatchObject({ statusCode: 404 })
+  })
+
+  it("returns 404 for a fileId that was never presigned", async () => {
+    userConfig = { storage: stubStorage() }
+    await expect(call("complete", { fileId: "uploads/unknown.png" })).rejects.toMatchObject({ statusCode: 404 })
+  })
+
+  it("returns 404 when the object was not uploaded", async () => {
+    const afterUpload = vi.fn()
+    userConfig = { storage: stubStorage(null), hooks: { afterUpload } }
+    const { fileId } = await call("presign", { file })
+
+    await expect(call("complete", { fileId })).rejects.toMatchObject({ statusCode: 404 })
+    expect(afterUpload).not.toHaveBeenCalled()
+  })
+
+  it("returns 409 when the stored size differs from the presigned descriptor", async () => {
+    const afterUpload = vi.fn()
+    userConfig = { storage: stubStorage({ size: 11, contentType: "image/png" }), hooks: { afterUpload } }
+    const { fileId } = await call("presign", { file })
+
+    await expect(call("complete", { fileId })).rejects.toMatchObject({ statusCode: 409 })
+    expect(afterUpload).not.toHaveBeenCalled()
+  })
+
+  it("returns 409 when the stored content type differs, ignoring parameters and case", async () => {
+    const storage = stubStorage({ size: 10, contentType: "text/html" })
+    userConfig = { storage }
+    const rejected = await call("presign", { file })
+    await expect(call("complete", { fileId: rejected.fileId })).rejects.toMatchObject({ statusCode: 409 })
+
+    const { fileId } = await call("presign", { file })
+    storage.stat.mockResolvedValueOnce({ size: 10, contentType: "Image/PNG; charset=binary" })
+    await expect(call("complete", { fileId })).resolves.toMatchObject({ fileId })
+  })
+
+  it("deletes a mismatched object and forgets its pending upload", async () => {
+    const storage = { ...stubStorage({ size: 11, contentType: "image/png" }), delete: vi.fn(async () => {}) }
+    userConfig = { storage }
+    const { fileId } = await call("presign", { file })
+
+    await expect(call("complete", { fileId })).rejects.toMatchObject({ statusCode: 409 })
+    expect(storage.delete).toHaveBeenCalledWith(fileId, expect.anything())
+
+    storage.stat.mockResolvedValueOnce({ size: 10, contentType: "image/png" })
+    await expect(call("complete", { fileId })).rejects.toMatchObject({ statusCode: 404 })
+    const { getPendingUpload } = await import("../../../src/runtime/server/pending-uploads")
+    expect(await getPendingUpload(fileId)).toBeNull()
+  })
+
+  it("keeps the pending upload when afterUpload throws, so the client can retry", async () => {
+    const afterUpload = vi.fn().mockRejectedValueOnce(new Error("db down"))
+    userConfig = { storage: stubStorage(), hooks: { afterUpload } }
+    const { fileId } = await call("presign", { file })
+
+    await expect(call("complete", { fileId })).rejects.toThrow("db down")
+    await expect(call("complete", { fileId })).resolves.toMatchObject({ fileId })
+    expect(afterUpload).toHaveBeenCalledTimes(2)
+  })
+
+  it("runs processors before afterUpload and returns their results", async () => {
+    const order: string[] = []
+    const storage = { ...stubStorage(), getStream: vi.fn(async () => Readable.from([Buffer.from("0123456789")])) }
+    userConfig = {
+      storage,
+      processors: [
+        {
+          name: "length",
+          process: async (_file, ctx) => {
+            order.push("processor")
+            return (await ctx.read()).byteLength
+          },
+        },
+      ],
+      hooks: { afterUpload: async () => void order.push("afterUpload") },
+    }
+    const { fileId } = await call("presign", { file })
+
+    const result = await call("complete", { fileId })
+
+    expect(result.processed).toEqual({ length: 10 })
+    expect(order).toEqual(["processor", "afterUpload"])
+    expect(storage.getStream).toHaveBeenCalledWith(fileId, undefined, expect.anything())
+  })
+
+  it("keeps the pending upload when a processor throws", async () => {
+    const process = vi.fn().mockRejectedValueOnce(new Error("resize failed")).mockResolvedValueOnce("ok")
+    userConfig = { storage: stubStorage(), processors: [{ name: "resize", process }] }
+    const { fileId } = await call("presign", { file })
+
+    await expect(call("complete", { fileId })).rejects.toThrow("resize failed")
+    await expect(call("complete", { fileId })).resolves.toMatchObject({ processed: { resize: "ok" } })
+  })
+
+  it("checks image dimension restrictions against the stored object's header", async () => {
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { maxWidth: 1920, maxMegapixels: 2 } } })
+    const storage = {
+      ...stubStorage(),
+      getStream: vi.fn(async () => Readable.from([png(4000, 3000)])),
+      delete: vi.fn(async () => {}),
+    }
+    const afterUpload = vi.fn()
+    userConfig = { storage, hooks: { afterUpload } }
+    const rejected = await call("presign", { file })
+
+    await expect(call("complete", { fileId: rejected.fileId })).rejects.toMatchObject({
+      statusCode: 422,
+      data: { code: "max-image-dimensions", width: 4000, height: 3000 },
+    })
+    expect(storage.getStream).toHaveBeenCalledWith(rejected.fileId, { start: 0, end: 9 }, expect.anything())
+    expect(storage.delete).toHaveBeenCalledWith(rejected.fileId, expect.anything())
+    expect(afterUpload).not.toHaveBeenCalled()
+    await expect(call("complete", { fileId: rejected.fileId })).rejects.toMatchObject({ statusCode: 404 })
+
+    const { fileId } = await call("presign", { file })
+    storage.getStream.mockImplementation(async () => Readable.from([png(1600, 1200)]))
+    await expect(call("complete", { fileId })).resolves.toMatchObject({ fileId })
+  })
+
+  it("rejects and deletes a stored object declared as an image whose header can't be read", async () => {
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { maxWidth: 1920 } } })
+    const storage = {
+      ...stubStorage(),
+      getStream: vi.fn(async () => Readable.from([Buffer.from("not a png!")])),
+      delete: vi.fn(async () => {}),
+    }
+    userConfig = { storage }
+    const { fileId } = await call("presign", { file })
+
+    await expect(call("complete", { fileId })).rejects.toMatchObject({
+      statusCode: 422,
+      data: { code: "unreadable-image" },
+    })
+    expect(storage.delete).toHaveBeenCalledWith(fileId, expect.anything())
+  })
+
+  it("returns 501 from presign when image restrictions are set and the adapter cannot read objects back", async () => {
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { minHeight: 100 } } })
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    await expect(call("presign", { file })).rejects.toMatchObject({ statusCode: 501 })
+    expect(storage.presignUpload).not.toHaveBeenCalled()
+  })
+
+  it("rejects a body without a fileId", async () => {
+    userConfig = { storage: stubStorage() }
+    await expect(call("complete", {})).rejects.toMatchObject({ statusCode: 400 })
+  })
+
+  it("returns 501 when the adapter cannot stat", async () => {
+    const storage: StorageAdapter = { id: "no-stat", presignUpload: vi.fn() }
+    userConfig = { storage }
+    await expect(call("complete", { fileId: "uploads/a.png" })).rejects.toMatchObject({ statusCode: 501 })
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { createError } from "h3"
+import type { UploadServerConfig } from "../../../src/runtime/server/types"
+
+let userConfig: UploadServerConfig
+
+vi.mock("#upload-kit-user-config", () => ({
+  get default() {
+    return userConfig
+  },
+}))
+
+const setRuntimeConfig = async (...args: Parameters<typeof import("../../fixtures/nuxt-imports").__setRuntimeConfig>) => {
+  const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+  __setRuntimeConfig(...args)
+}
+
+const callHandler = async () => {
+  const mod = await import("../../../src/runtime/server/handlers/config")
+  return mod.default
+}
+
+const fakeEvent = (search = "") =>
+  ({
+    path: `/api/_upload/config${search}`,
+    node: { req: { method: "GET", url: `/api/_upload/config${search}`, headers: {} } },
+    context: {},
+  }) as unknown as Parameters<Awaited<ReturnType<typeof callHandler>>>[0]
+
+beforeEach(() => {
+  vi.resetModules()
+})
+
+afterEach(async () => {
+  await setRuntimeConfig({})
+})
+
+describe("config handler", () => {
+  it("returns the static restrictions without resolveRestrictions", async () => {
+    await setRuntimeConfig({ uploadKit: { restrictions: { maxFileSize: 100 } } })
+    userConfig = { storage: { id: "stub", presignUpload: vi.fn() } }
+
+    const handler = await callHandler()
+    expect(await handler(fakeEvent())).toEqual({ restrictions: { maxFileSize: 100 } })
+  })
+
+  it("resolves the caller's restrictions from the authorize context and requested profile", async () => {
+    await setRuntimeConfig({
+      uploadKit: { restrictions: { maxFileSize: 100, maxFiles: 5 }, profiles: { video: { allowedMimeTypes: ["video/*"] } } },
+    })
+    const authorize = vi.fn(async () => ({ userId: "u1", plan: "pro" }))
+    const resolveRestrictions = vi.fn(async ({ auth }, restrictions) =>
+      auth.plan === "pro" ? { ...restrictions, maxFileSize: 2000 } : restrictions,
+    )
+    userConfig = { storage: { id: "stub", presignUpload: vi.fn() }, authorize, resolveRestrictions }
+
+    const handler = await callHandler()
+    const result = await handler(fakeEvent("?profile=video"))
+
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), { type: "config", profile: "video" })
+    expect(resolveRestrictions).toHaveBeenCalledWith(expect.objectContaining({ auth: { userId: "u1", plan: "pro" } }), {
+      maxFileSize: 100,
+      maxFiles: 5,
+      allowedMimeTypes: ["video/*"],
+    })
+    expect(result).toEqual({ restrictions: { maxFileSize: 2000, maxFiles: 5, allowedMimeTypes: ["video/*"] } })
+  })
+
+  it("propagates authorize errors and rejects unknown profiles", async () => {
+    userConfig = {
+      storage: { id: "stub", presignUpload: vi.fn() },
+      authorize: async () => {
+        throw createError({ statusCode: 401, message: "nope" })
+      },
+    }
+    const handler = await callHandler()
+    await expect(handler(fakeEvent())).rejects.toMatchObject({ statusCode: 401 })
+
+    vi.resetModules()
+    userConfig = { storage: { id: "stub", presignUpload: vi.fn() } }
+    const fresh = await callHandler()
+    await expect(fresh(fakeEvent("?profile=missing"))).rejects.toMatchObject({ statusCode: 400 })
+  })
+})
@@ -105,6 +105,81 @@ describe("delete handler", () => {
     ).rejects.toMatchObject({ statusCode: 400 })
   })
 
+  it("returns 429 with Retry-After once the caller exceeds the delete rate limit", async () => {
+    const storage = stubStorage()
+    userConfig = {
+      storage,
+      authorize: async () => ({ userId: "u1" }),
+      rateLimit: { limits: { delete: { limit: 1, window: 60 } } },
+    }
+    const setHeader = vi.fn()
+    const event = () =>
+      ({
+        node: { req: { method: "DELETE", headers: {} }, res: { setHeader } },
+        context: { params: { fileId: "abc" } },
+      }) as unknown as Parameters<Awaited<ReturnType<typeof callHandler>>>[0]
+
+    const handler = await callHandler()
+    await handler(event())
+    await expect(handler(event())).rejects.toMatchObject({ statusCode: 429 })
+    expect(setHeader).toHaveBeenCalledWith("Retry-After", 60)
+    expect(storage.delete).toHaveBeenCalledTimes(1)
+
+    const { __resetStorage } = await import("../../fixtures/nuxt-imports")
+    __resetStorage()
+  })
+
+  it("returns 403 before beforeDelete when the caller doesn't own the key", async () => {
+    const storage = stubStorage()
+    const beforeDelete = vi.fn()
+    userConfig = {
+      storage,
+      authorize: async () => ({ userId: "u2" }),
+      ownership: { strategy: "token", secret: "s3cret" },
+      hooks: { beforeDelete },
+    }
+
+    const handler = await callHandler()
+    await expect(handler(fakeEvent("uploads%2Fabc.png"))).rejects.toMatchObject({ statusCode: 403 })
+    expect(beforeDelete).not.toHaveBeenCalled()
+    expect(storage.delete).not.toHaveBeenCalled()
+  })
+
+  it("deletes when the request carries the key's file token", async () => {
+    const storage = stubStorage()
+    userConfig = { storage, ownership: { strategy: "token", secret: "s3cret" } }
+    const { issueFileToken } = await import("../../../src/runtime/server/ownership")
+    const token = issueFileToken(userConfig, "uploads/abc.png")!
+
+    const handler = await callHandler()
+    await handler({
+      node: { req: { method: "DELETE", headers: { "x-upload-token": token } } },
+      context: { params: { fileId: "uploads%2Fabc.png" } },
+    } as never)
+    expect(storage.delete).toHaveBeenCalledWith("uploads/abc.png", expect.anything())
+  })
+
+  it("removes the registry record after deleting", async () => {
+    const storage = stubStorage()
+    userConfig = { storage, authorize: async () => ({ userId: "u1" }), registry: true }
+    const { recordUpload, getUploadRecord } = await import("../../../src/runtime/server/registry")
+    await recordUpload(
+      userConfig,
+      { key: "uploads/abc.png", name: "abc.png", size: 3, mimeType: "image/png" },
+      {
+        event: {} as never,
+        auth: { userId: "u1" },
+      },
+    )
+
+    const handler = await callHandler()
+    await handler(fakeEvent("uploads%2Fabc.png"))
+
+    await expect(getUploadRecord(userConfig, "uploads/abc.png")).resolves.toBeNull()
+    const { __resetStorage } = await import("../../fixtures/nuxt-imports")
+    __resetStorage()
+  })
+
   it("returns 501 when the adapter doesn't implement delete", async () => {
     userConfig = { storage: { id: "stub", presignUpload: vi.fn() } }
     const handler = await callHandler()
@@ -20,6 +20,16 @@ const stubStorage = (): StorageAdapter & {
   put: vi.fn(async (input) => ({ publicUrl: `https://cdn/${input.key}` })),
 })
 
+const png = (width: number, height: number) => {
+  const header = Buffer.alloc(33)
+  header.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+  header.writeUInt32BE(13, 8)
+  header.write("IHDR", 12)
+  header.writeUInt32BE(width, 16)
+  header.writeUInt32BE(height, 20)
+  return header
+}
+
 const callHandler = async () => {
   const mod = await import("../../../src/runtime/server/handlers/direct")
   return mod.default
@@ -49,8 +59,9 @@ beforeEach(() => {
 })
 
 afterEach(async () => {
-  const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+  const { __setRuntimeConfig, __resetStorage } = await import("../../fixtures/nuxt-imports")
   __setRuntimeConfig({})
+  __resetStorage()
 })
 
 describe("direct handler", () => {
@@ -91,6 +102,31 @@ describe("direct handler", () => {
     })
   })
 
+  it("runs processors on the request body and returns their results", async () => {
+    const storage = stubStorage()
+    const afterUpload = vi.fn()
+    const process = vi.fn(async (_file, ctx) => (await ctx.read()).toString())
+    userConfig = {
+      storage,
+      processors: [
+        { name: "text", process },
+        { name: "skipped", match: (file) => file.mimeType === "video/mp4", process: vi.fn() },
+      ],
+      hooks: { afterUpload },
+    }
+    mockMultipart([{ name: "file", filename: "notes.txt", type: "text/plain", data: Buffer.from("hello") }])
+
+    const handler = await callHandler()
+    const result = await handler(fakeEvent())
+
+    expect(result.processed).toEqual({ text: "hello" })
+    expect(process).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "notes.txt", key: result.fileId }),
+      expect.objectContaining({ storage }),
+    )
+    expect(afterUpload).toHaveBeenCalled()
+  })
+
   it("propagates validator errors before putting", async () => {
     const storage = stubStorage()
     userConfig = {
@@ -121,6 +157,84 @@ describe("direct handler", () => {
     expect(storage.put).not.toHaveBeenCalled()
   })
 
+  it("rejects with 422 when the image dimensions break the restrictions", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { minWidth: 400, aspectRatio: "1:1" } } })
+
+    mockMultipart([{ name: "file", filename: "avatar.png", type: "image/png", data: png(200, 200) }])
+    const handler = await callHandler()
+    await expect(handler(fakeEvent())).rejects.toMatchObject({
+      statusCode: 422,
+      data: { code: "min-image-dimensions", width: 200, height: 200, minWidth: 400 },
+    })
+    expect(storage.put).not.toHaveBeenCalled()
+  })
+
+  it("accepts images within the dimension restrictions and files whose header can't be read", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { minWidth: 400, aspectRatio: "1:1" } } })
+
+    mockMultipart([{ name: "file", filename: "avatar.png", type: "image/png", data: png(512, 512) }])
+    await expect((await callHandler())(fakeEvent())).resolves.toMatchObject({ fileId: expect.any(String) })
+
+    vi.resetModules()
+    mockMultipart([{ name: "file", filename: "notes.txt", type: "text/plain", data: Buffer.from("plain text") }])
+    await expect((await callHandler())(fakeEvent())).resolves.toMatchObject({ fileId: expect.any(String) })
+    expect(storage.put).toHaveBeenCalledTimes(2)
+  })
+
+  it("rejects a file declared as a raster image whose header can't be read", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { maxWidth: 1920 } } })
+
+    mockMultipart([{ name: "file", filename: "huge.png", type: "image/png", data: Buffer.from("definitely not a png") }])
+    await expect((await callHandler())(fakeEvent())).rejects.toMatchObject({
+      statusCode: 422,
+      data: { code: "unreadable-image", mimeType: "image/png" },
+    })
+    expect(storage.put).not.toHaveBeenCalled()
+  })
+
+  it("rejects an unreadable image whose declared subtype isn't one it can measure", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { allowedMimeTypes: ["image/*"], maxMegapixels: 1 } } })
+
+    mockMultipart([{ name: "file", filename: "huge.foo", type: "image/x-foo", data: Buffer.alloc(64) }])
+    await expect((await callHandler())(fakeEvent())).rejects.toMatchObject({
+      statusCode: 422,
+      data: { code: "unreadable-image", mimeType: "image/x-foo" },
+    })
+    expect(storage.put).not.toHaveBeenCalled()
+  })
+
+  it("enforces the profile named in the `profile` form field", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { maxFileSize: 100 }, profiles: { avatar: { maxFileSize: 2 } } } })
+
+    mockMultipart([
+      { name: "profile", data: Buffer.from("avatar") },
+      { name: "file", filename: "a.bin", type: "application/octet-stream", data: Buffer.from("xxxx") },
+    ])
+    const handler = await callHandler()
+    await expect(handler(fakeEvent())).rejects.toMatchObject({ statusCode: 413, data: { maxBytes: 2 } })
+    expect(storage.put).not.toHaveBeenCalled()
+  })
+
   it("propagates authorize errors before putting", async () => {
     const storage = stubStorage()
     userConfig = {
@@ -226,6 +340,31 @@ describe("direct handler", () => {
     expect(result.fileId).toMatch(/^uploads\//)
   })
 
+  it("records uploads in the registry and enforces maxFiles from it", async () => {
+    const storage = stubStorage()
+    const afterUpload = vi.fn()
+    userConfig = { storage, authorize: async () => ({ userId: "u1" }), registry: true, hooks: { afterUpload } }
+
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { maxFiles: 1 } } })
+
+    mockMultipart([{ name: "file", filename: "a.png", type: "image/png", data: Buffer.from("pix") }])
+    const handler = await callHandler()
+    const result = await handler(fakeEvent())
+
+    const { getUploadRecord } = await import("../../../src/runtime/server/registry")
+    await expect(getUploadRecord(userConfig, result.fileId)).resolves.toMatchObject({
+      key: result.fileId,
+      owner: "u1",
+      name: "a.png",
+      size: 3,
+      mimeType: "image/png",
+    })
+    await expect(handler(fakeEvent())).rejects.toMatchObject({ statusCode: 409 })
+    expect(storage.put).toHaveBeenCalledTimes(1)
+    expect(afterUpload).toHaveBeenCalledTimes(1)
+  })
+
   it("falls back to uploads/{fileId} when adapter has no resolveKey", async () => {
     const storage: StorageAdapter & { put: ReturnType<typeof vi.fn> } = {
       id: "stub",
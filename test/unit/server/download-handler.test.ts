@@ -1,5 +1,7 @@
+// @vitest-environment node
+import { Readable } from "node:stream"
 import { describe, it, expect, vi, beforeEach } from "vitest"
-import { createError } from "h3"
+import { createApp, createError, createRouter, toWebHandler } from "h3"
 import type { StorageAdapter, UploadServerConfig } from "../../../src/runtime/server/types"
 
 let userConfig: UploadServerConfig
@@ -21,8 +23,9 @@ const callHandler = async () => {
   return mod.default
 }
 
-const fakeEvent = (fileId: string) =>
+const fakeEvent = (fileId: string, search = "") =>
   ({
+    path: `/download/${fileId}${search}`,
     node: { req: { method: "GET", headers: {} } },
     context: { params: { fileId } },
   }) as unknown as Parameters<Awaited<ReturnType<typeof callHandler>>>[0]
@@ -41,10 +44,31 @@ describe("download handler", () => {
     const result = await handler(fakeEvent("uploads%2Fabc.png"))
 
     expect(authorize).toHaveBeenCalledWith(expect.anything(), { type: "presign-download", key: "uploads/abc.png" })
-    expect(storage.presignDownload).toHaveBeenCalledWith("uploads/abc.png", expect.objectContaining({ auth: { userId: "u1" } }))
+    expect(storage.presignDownload).toHaveBeenCalledWith(
+      "uploads/abc.png",
+      expect.objectContaining({ auth: { userId: "u1" } }),
+      undefined,
+    )
     expect(result).toEqual({ downloadUrl: "https://signed/uploads/abc.png" })
   })
 
+  it("refuses keys whose presigned or multipart upload has not been completed", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+    const { __resetStorage } = await import("../../fixtures/nuxt-imports")
+    const { savePendingUpload } = await import("../../../src/runtime/server/pending-uploads")
+    const { saveMultipartSession } = await import("../../../src/runtime/server/multipart")
+    const upload = { name: "a.png", size: 1, mimeType: "image/png" }
+    await savePendingUpload({ key: "uploads/pending.png", file: upload, publicUrl: "https://cdn/p", auth: {} })
+    await saveMultipartSession({ fileId: "uploads/parts.png", uploadId: "u1", file: upload, partSize: 1, partCount: 1, auth: {} })
+
+    const handler = await callHandler()
+    await expect(handler(fakeEvent("uploads%2Fpending.png"))).rejects.toMatchObject({ statusCode: 409 })
+    await expect(handler(fakeEvent("uploads%2Fparts.png"))).rejects.toMatchObject({ statusCode: 409 })
+    expect(storage.presignDownload).not.toHaveBeenCalled()
+    __resetStorage()
+  })
+
   it("propagates authorize errors before presigning", async () => {
     const storage = stubStorage()
     userConfig = {
@@ -81,9 +105,210 @@ describe("download handler", () => {
     await expect(handler(fakeEvent("abc"))).rejects.toMatchObject({ statusCode: 501 })
   })
 
+  it("passes a requested disposition to authorize and presignDownload", async () => {
+    const storage = stubStorage()
+    const authorize = vi.fn(async () => ({}))
+    userConfig = { storage, authorize }
+
+    const handler = await callHandler()
+    await handler(fakeEvent("uploads%2Fabc.png", "?disposition=attachment&filename=Holiday%20photo.png"))
+
+    const disposition = { type: "attachment", filename: "Holiday photo.png" }
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), {
+      type: "presign-download",
+      key: "uploads/abc.png",
+      disposition,
+    })
+    expect(storage.presignDownload).toHaveBeenCalledWith("uploads/abc.png", expect.anything(), disposition)
+  })
+
+  it.each([
+    ["?disposition=download", "unknown disposition"],
+    ["?filename=..%2Fsecret.txt", "path separator in filename"],
+    ["?filename=a%0Db.txt", "control character in filename"],
+    ["?filename=a%5Cb.txt", "backslash in filename"],
+    ["?filename=a%7Fb.txt", "DEL in filename"],
+    [`?filename=${"a".repeat(256)}`, "overlong filename"],
+  ])("returns 400 for %s (%s)", async (search) => {
+    const storage = stubStorage()
+    userConfig = { storage }
+    const handler = await callHandler()
+    await expect(handler(fakeEvent("abc", search))).rejects.toMatchObject({ statusCode: 400 })
+    expect(storage.presignDownload).not.toHaveBeenCalled()
+  })
+
   it("returns 500 when storage is not configured", async () => {
     userConfig = {}
     const handler = await callHandler()
     await expect(handler(fakeEvent("abc"))).rejects.toMatchObject({ statusCode: 500 })
   })
 })
+
+describe("download handler in proxy mode", () => {
+  const body = "0123456789"
+
+  const streamingStorage = () => ({
+    id: "stream",
+    presignUpload: vi.fn(),
+    stat: vi.fn(async () => ({
+      size: body.length,
+      contentType: "text/plain",
+      etag: "abc",
+      lastModified: new Date("2026-01-02T03:04:05Z"),
+    })),
+    getStream: vi.fn(async (_key: string, range?: { start: number; end: number }) =>
+      Readable.from([range ? body.slice(range.start, range.end + 1) : body]),
+    ),
+  })
+
+  const mount = async () => {
+    const { default: handler } = await import("../../../src/runtime/server/handlers/download")
+    const web = toWebHandler(createApp().use(createRouter().get("/api/_upload/download/:fileId", handler)))
+    return (headers: Record<string, string> = {}, fileId = "uploads%2Fnotes.txt", search = "") =>
+      web(new Request(`http://localhost/api/_upload/download/${fileId}${search}`, { headers }))
+  }
+
+  it("streams the whole object with its metadata headers", async () => {
+    const storage = streamingStorage()
+    const authorize = vi.fn(async () => ({ userId: "u1" }))
+    userConfig = { storage, authorize, downloadMode: "proxy" }
+    const call = await mount()
+
+    const response = await call()
+
+    expect(response.status).toBe(200)
+    expect(await response.text()).toBe(body)
+    expect(response.headers.get("Content-Type")).toBe("text/plain")
+    expect(response.headers.get("Content-Length")).toBe("10")
+    expect(response.headers.get("Content-Disposition")).toBe(`inline; filename="notes.txt"; filename*=UTF-8''notes.txt`)
+    expect(response.headers.get("ETag")).toBe('"abc"')
+    expect(response.headers.get("Accept-Ranges")).toBe("bytes")
+    expect(response.headers.get("X-Content-Type-Options")).toBe("nosniff")
+    expect(response.headers.get("Content-Security-Policy")).toBe("sandbox")
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), { type: "presign-download", key: "uploads/notes.txt" })
+    expect(storage.getStream).toHaveBeenCalledWith(
+      "uploads/notes.txt",
+      undefined,
+      expect.objectContaining({ auth: { userId: "u1" } }),
+    )
+  })
+
+  it.each([
+    ["bytes=2-5", "2345", "bytes 2-5/10"],
+    ["bytes=7-", "789", "bytes 7-9/10"],
+    ["bytes=-3", "789", "bytes 7-9/10"],
+    ["bytes=8-100", "89", "bytes 8-9/10"],
+  ])("serves %s as a partial response", async (range, expected, contentRange) => {
+    userConfig = { storage: streamingStorage(), downloadMode: "proxy" }
+    const call = await mount()
+
+    const response = await call({ Range: range })
+
+    expect(response.status).toBe(206)
+    expect(await response.text()).toBe(expected)
+    expect(response.headers.get("Content-Range")).toBe(contentRange)
+    expect(response.headers.get("Content-Length")).toBe(String(expected.length))
+  })
+
+  it("answers an unsatisfiable range with 416", async () => {
+    const storage = streamingStorage()
+    userConfig = { storage, downloadMode: "proxy" }
+    const call = await mount()
+
+    const response = await call({ Range: "bytes=10-" })
+
+    expect(response.status).toBe(416)
+    expect(response.headers.get("Content-Range")).toBe("bytes */10")
+    expect(storage.getStream).not.toHaveBeenCalled()
+  })
+
+  it("serves the full object for multi-range requests", async () => {
+    userConfig = { storage: streamingStorage(), downloadMode: "proxy" }
+    const call = await mount()
+
+    const response = await call({ Range: "bytes=0-1,4-5" })
+
+    expect(response.status).toBe(200)
+    expect(await response.text()).toBe(body)
+  })
+
+  it.each(['"abc"', 'W/"abc"', '"other", "abc"', "*"])("answers If-None-Match: %s with 304", async (ifNoneMatch) => {
+    const storage = streamingStorage()
+    userConfig = { storage, downloadMode: "proxy" }
+    const call = await mount()
+
+    const response = await call({ "If-None-Match": ifNoneMatch })
+
+    expect(response.status).toBe(304)
+    expect(response.headers.get("ETag")).toBe('"abc"')
+    expect(storage.getStream).not.toHaveBeenCalled()
+  })
+
+  it("returns 404 for a missing object", async () => {
+    const storage = { ...streamingStorage(), stat: vi.fn(async () => null) }
+    userConfig = { storage, downloadMode: "proxy" }
+    const call = await mount()
+
+    expect((await call()).status).toBe(404)
+  })
+
+  it("proxies by default when the adapter cannot sign download URLs", async () => {
+    userConfig = { storage: streamingStorage() }
+    const call = await mount()
+
+    const response = await call()
+    expect(response.status).toBe(200)
+    expect(await response.text()).toBe(body)
+  })
+
+  it("encodes non-ASCII filenames in Content-Disposition", async () => {
+    userConfig = { storage: streamingStorage(), downloadMode: "proxy" }
+    const call = await mount()
+
+    const response = await call({}, encodeURIComponent("uploads/résumé (1).txt"))
+
+    expect(response.headers.get("Content-Disposition")).toBe(
+      `inline; filename="r_sum_ (1).txt"; filename*=UTF-8''r%C3%A9sum%C3%A9%20%281%29.txt`,
+    )
+  })
+
+  it("serves a requested attachment disposition and filename", async () => {
+    userConfig = { storage: streamingStorage(), downloadMode: "proxy" }
+    const call = await mount()
+
+    const response = await call({}, undefined, "?disposition=attachment&filename=Meeting%20notes.txt")
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get("Content-Disposition")).toBe(
+      `attachment; filename="Meeting notes.txt"; filename*=UTF-8''Meeting%20notes.txt`,
+    )
+  })
+
+  it.each(["text/html; charset=utf-8", "image/svg+xml", "application/xml", "text/javascript"])(
+    "serves %s as an attachment even when inline is requested",
+    async (contentType) => {
+      const storage = streamingStorage()
+      storage.stat.mockResolvedValue({ size: body.length, contentType, etag: "abc", lastModified: new Date() })
+      userConfig = { storage, downloadMode: "proxy" }
+      const call = await mount()
+
+      const response = await call({}, undefined, "?disposition=inline")
+
+      expect(response.headers.get("Content-Disposition")).toMatch(/^attachment;/)
+      expect(response.headers.get("X-Content-Type-Options")).toBe("nosniff")
+      expect(response.headers.get("Content-Security-Policy")).toBe("sandbox")
+    },
+  )
+
+  it("serves active content inline when authorize opts in", async () => {
+    const storage = streamingStorage()
+    storage.stat.mockResolvedValue({ size: body.length, contentType: "image/svg+xml", etag: "abc", lastModified: new Date() })
+    userConfig = { storage, downloadMode: "proxy", authorize: async () => ({ inlineActiveContent: true }) }
+    const call = await mount()
+
+    const response = await call()
+
+    expect(response.headers.get("Content-Disposition")).toMatch(/^inline;/)
+    expect(response.headers.get("Content-Security-Policy")).toBe("sandbox")
+  })
+})
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { StorageAdapter, StorageListPage, UploadServerConfig } from "../../../src/runtime/server/types"
+
+let userConfig: UploadServerConfig
+
+vi.mock("#upload-kit-user-config", () => ({
+  get default() {
+    return userConfig
+  },
+}))
+
+const page: StorageListPage = {
+  items: [
+    { key: "uploads/a.png", size: 10, contentType: "image/png", lastModified: new Date("2026-01-02T03:04:05Z") },
+    { key: "uploads/b.bin", size: 20 },
+  ],
+  cursor: "next-page",
+}
+
+const stubStorage = () => ({
+  id: "stub",
+  presignUpload: vi.fn(),
+  presignDownload: vi.fn(async (key: string) => ({ downloadUrl: `https://signed/${key}` })),
+  listPage: vi.fn(async () => page),
+})
+
+const callHandler = async () => {
+  const mod = await import("../../../src/runtime/server/handlers/list")
+  return mod.default
+}
+
+const fakeEvent = (search = "") =>
+  ({
+    path: `/api/_upload/list${search}`,
+    node: { req: { method: "GET", url: `/api/_upload/list${search}`, headers: {} } },
+    context: {},
+  }) as unknown as Parameters<Awaited<ReturnType<typeof callHandler>>>[0]
+
+beforeEach(() => {
+  vi.resetModules()
+})
+
+describe("list handler", () => {
+  it("authorizes the prefix, then returns a page with signed URLs", async () => {
+    const storage = stubStorage()
+    const authorize = vi.fn(async () => ({ userId: "u1" }))
+    userConfig = { storage, authorize }
+
+    const handler = await callHandler()
+    const result = await handler(fakeEvent("?prefix=uploads%2F&cursor=abc&limit=2"))
+
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), { type: "list", prefix: "uploads/" })
+    expect(storage.listPage).toHaveBeenCalledWith(
+      { prefix: "uploads/", cursor: "abc", limit: 2 },
+      expect.objectContaining({ auth: { userId: "u1" } }),
+    )
+    expect(result).toEqual({
+      files: [
+        {
+          fileId: "uploads/a.png",
+          size: 10,
+          mimeType: "image/png",
+          lastModified: "2026-01-02T03:04:05.000Z",
+          downloadUrl: "https://signed/uploads/a.png",
+        },
+        {
+          fileId: "uploads/b.bin",
+          size: 20,
+          mimeType: "application/octet-stream",
+          lastModified: undefined,
+          downloadUrl: "https://signed/uploads/b.bin",
+        },
+      ],
+      cursor: "next-page",
+    })
+  })
+
+  it("defaults to 100 items without a prefix or cursor", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    const handler = await callHandler()
+    await handler(fakeEvent())
+
+    expect(storage.listPage).toHaveBeenCalledWith({ prefix: undefined, cursor: undefined, limit: 100 }, expect.anything())
+  })
+
+  it.each(["0", "1001", "abc", "1.5"])("rejects limit=%s with 400", async (limit) => {
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    const handler = await callHandler()
+    await expect(handler(fakeEvent(`?limit=${limit}`))).rejects.toMatchObject({ statusCode: 400 })
+    expect(storage.listPage).not.toHaveBeenCalled()
+  })
+
+  it("leaves out keys the caller does not own under the registry strategy", async () => {
+    const storage = stubStorage()
+    const canAccess = vi.fn(async (key: string) => key === "uploads/b.bin")
+    userConfig = {
+      storage,
+      authorize: async () => ({ userId: "u1" }),
+      registry: true,
+      ownership: { strategy: "registry", canAccess },
+    }
+    const { recordUpload } = await import("../../../src/runtime/server/registry")
+    await recordUpload(
+      userConfig,
+      { key: "uploads/a.png", name: "a.png", size: 10, mimeType: "image/png" },
+      {
+        event: {} as never,
+        auth: { userId: "u2" },
+      },
+    )
+
+    const handler = await callHandler()
+    const result = await handler(fakeEvent())
+
+    expect(result.files.map((file: { fileId: string }) => file.fileId)).toEqual(["uploads/b.bin"])
+    expect(storage.presignDownload).toHaveBeenCalledTimes(1)
+    expect(result.cursor).toBe("next-page")
+  })
+
+  it("only lists keys canAccess allows under the token strategy", async () => {
+    const storage = stubStorage()
+    userConfig = { storage, ownership: { strategy: "token", secret: "s3cret" } }
+
+    const handler = await callHandler()
+    const result = await handler(fakeEvent())
+
+    expect(result.files).toEqual([])
+    expect(storage.presignDownload).not.toHaveBeenCalled()
+  })
+
+  it("lists the caller's recorded keys under the token strategy with the registry enabled", async () => {
+    const storage = stubStorage()
+    userConfig = {
+      storage,
+      authorize: async () => ({ userId: "u1" }),
+      registry: true,
+      ownership: { strategy: "token", secret: "s3cret" },
+    }
+    const { recordUpload } = await import("../../../src/runtime/server/registry")
+    await recordUpload(
+      userConfig,
+      { key: "uploads/a.png", name: "a.png", size: 10, mimeType: "image/png" },
+      { event: {} as never, auth: { userId: "u1" } },
+    )
+
+    const handler = await callHandler()
+    const result = await handler(fakeEvent())
+
+    expect(result.files.map((file: { fileId: string }) => file.fileId)).toEqual(["uploads/a.png"])
+  })
+
+  it("pages through an adapter that only implements the older list(prefix)", async () => {
+    const list = vi.fn(async () => [
+      { key: "uploads/a.png", size: 1 },
+      { key: "uploads/b.png", size: 2 },
+      { key: "uploads/c.png", size: 3 },
+    ])
+    const storage: StorageAdapter = {
+      id: "legacy",
+      presignUpload: vi.fn(),
+      presignDownload: async (key) => ({ downloadUrl: `https://signed/${key}` }),
+      list,
+    }
+    userConfig = { storage }
+
+    const handler = await callHandler()
+    const first = await handler(fakeEvent("?prefix=uploads%2F&limit=2"))
+    expect(list).toHaveBeenCalledWith("uploads/", expect.anything())
+    expect(first.files.map((file: { fileId: string }) => file.fileId)).toEqual(["uploads/a.png", "uploads/b.png"])
+    expect(first.cursor).toBe("2")
+
+    const second = await handler(fakeEvent(`?prefix=uploads%2F&limit=2&cursor=${first.cursor}`))
+    expect(second.files.map((file: { fileId: string }) => file.fileId)).toEqual(["uploads/c.png"])
+    expect(second.cursor).toBeUndefined()
+  })
+
+  it("returns 501 when the adapter cannot list", async () => {
+    const storage: StorageAdapter = { id: "no-list", presignUpload: vi.fn() }
+    userConfig = { storage }
+
+    const handler = await callHandler()
+    await expect(handler(fakeEvent())).rejects.toMatchObject({ statusCode: 501 })
+  })
+})
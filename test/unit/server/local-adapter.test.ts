@@ -0,0 +1,220 @@
+// @vitest-environment node
+import { mkdtemp, readdir, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { Readable } from "node:stream"
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { createApp, createRouter, toWebHandler, type H3Event } from "h3"
+import { LocalFsStorage, type LocalFsStorageOptions } from "../../../src/runtime/server/adapters/local"
+import type { UploadServerConfig } from "../../../src/runtime/server/types"
+
+let userConfig: UploadServerConfig
+
+vi.mock("#upload-kit-user-config", () => ({
+  get default() {
+    return userConfig
+  },
+}))
+
+const ctx = { event: {} as H3Event, auth: {} }
+const file = { fileId: "abc.txt", name: "notes.txt", size: 5, mimeType: "text/plain" }
+
+let directory: string
+
+beforeEach(async () => {
+  vi.resetModules()
+  directory = await mkdtemp(join(tmpdir(), "upload-kit-local-"))
+})
+
+afterEach(async () => {
+  vi.useRealTimers()
+  await rm(directory, { recursive: true, force: true })
+})
+
+const createStorage = (options: Partial<LocalFsStorageOptions> = {}) =>
+  LocalFsStorage({ directory, secret: "s3cret", ...options })
+
+const readAll = async (stream: unknown) => {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream as Readable) chunks.push(Buffer.from(chunk))
+  return Buffer.concat(chunks).toString()
+}
+
+/** Mount the `/local/**` handler on a real h3 app, as the module does. */
+const mount = async (storage: ReturnType<typeof createStorage>) => {
+  userConfig = { storage }
+  const { default: handler } = await import("../../../src/runtime/server/handlers/local")
+  const web = toWebHandler(createApp().use(createRouter().add("/api/_upload/local/**", handler)))
+  return (url: string, init?: RequestInit) => web(new Request(new URL(url, "http://localhost"), init))
+}
+
+describe("LocalFsStorage", () => {
+  it("writes, stats, streams, lists and deletes files under the directory", async () => {
+    const storage = createStorage()
+
+    const { publicUrl } = await storage.put!({ key: "uploads/a.txt", body: Buffer.from("hello"), contentType: "text/plain" }, ctx)
+    await storage.put!({ key: "uploads/nested/b.txt", body: Readable.from([Buffer.from("wor"), Buffer.from("ld")]) }, ctx)
+    await storage.put!({ key: "other/c.txt", body: "!" }, ctx)
+
+    expect(publicUrl).toBe("/api/_upload/local/uploads/a.txt")
+    expect(await storage.stat!("uploads/a.txt", ctx)).toEqual({
+      size: 5,
+      contentType: "text/plain",
+      etag: "5d41402abc4b2a76b9719d911017c592",
+      lastModified: expect.any(Date),
+    })
+    expect(await readAll(await storage.getStream!("uploads/nested/b.txt", undefined, ctx))).toBe("world")
+    expect(await readAll(await storage.getStream!("uploads/a.txt", { start: 1, end: 3 }, ctx))).toBe("ell")
+
+    const page = await storage.listPage!({ prefix: "uploads/" }, ctx)
+    expect(page.items.map((item) => item.key)).toEqual(["uploads/a.txt", "uploads/nested/b.txt"])
+    expect(page.cursor).toBeUndefined()
+
+    await storage.delete!("uploads/a.txt", ctx)
+    await storage.delete!("uploads/missing.txt", ctx)
+    expect(await storage.stat!("uploads/a.txt", ctx)).toBeNull()
+  })
+
+  it("pages through keys in order", async () => {
+    const storage = createStorage()
+    for (const name of ["c", "a", "b"]) await storage.put!({ key: `uploads/${name}`, body: name }, ctx)
+
+    const first = await storage.listPage!({ limit: 2 }, ctx)
+    expect(first.items.map((item) => item.key)).toEqual(["uploads/a", "uploads/b"])
+    const second = await storage.listPage!({ limit: 2, cursor: first.cursor }, ctx)
+    expect(second.items.map((item) => item.key)).toEqual(["uploads/c"])
+    expect(second.cursor).toBeUndefined()
+  })
+
+  it("keeps its metadata out of the listing", async () => {
+    const storage = createStorage()
+    await storage.put!({ key: "uploads/a.txt", body: "a", contentType: "text/plain" }, ctx)
+
+    expect(await readdir(directory)).toEqual(expect.arrayContaining([".upload-kit", "uploads"]))
+    expect((await storage.listPage!({}, ctx)).items.map((item) => item.key)).toEqual(["uploads/a.txt"])
+  })
+
+  it("rejects keys that could escape the directory", async () => {
+    const storage = createStorage()
+    for (const key of ["../etc/passwd", "uploads/../../x", "/abs", "uploads//a", ".upload-kit/meta/x", "a\\b"]) {
+      await expect(storage.put!({ key, body: "x" }, ctx)).rejects.toMatchObject({ statusCode: 400 })
+    }
+    await expect(createStorage({ keyStrategy: () => "../x" }).presignUpload(file, ctx)).rejects.toMatchObject({ statusCode: 400 })
+  })
+
+  it("signs upload URLs for the module's route with the key, size and type", async () => {
+    const storage = createStorage({ baseUrl: "https://app.example.com/", handlerRoute: "/files" })
+
+    const result = await storage.presignUpload(file, ctx)
+
+    const url = new URL(result.uploadUrl)
+    expect(url.origin + url.pathname).toBe("https://app.example.com/files/local/uploads/abc.txt")
+    expect(url.searchParams.get("size")).toBe("5")
+    expect(url.searchParams.get("type")).toBe("text/plain")
+    expect(url.searchParams.get("signature")).toMatch(/^[0-9a-f]{64}$/)
+    expect(result.publicUrl).toBe("https://app.example.com/files/local/uploads/abc.txt")
+    expect(result.fileId).toBe("uploads/abc.txt")
+  })
+})
+
+describe("LocalFsStorage signed routes", () => {
+  it("accepts a PUT to a signed upload URL and serves it through a signed download URL", async () => {
+    const storage = createStorage()
+    const call = await mount(storage)
+    const { uploadUrl } = await storage.presignUpload(file, ctx)
+
+    const put = await call(uploadUrl, { method: "PUT", body: "hello", headers: { "Content-Type": "text/plain" } })
+    expect(put.status).toBeLessThan(300)
+    expect(put.headers.get("etag")).toBe('"5d41402abc4b2a76b9719d911017c592"')
+    expect(await storage.stat!("uploads/abc.txt", ctx)).toMatchObject({ size: 5, contentType: "text/plain" })
+
+    const { downloadUrl } = await storage.presignDownload!("uploads/abc.txt", ctx, { type: "attachment" })
+    const get = await call(downloadUrl)
+    expect(get.status).toBe(200)
+    expect(get.headers.get("content-type")).toBe("text/plain")
+    expect(get.headers.get("content-disposition")).toBe(`attachment; filename="abc.txt"; filename*=UTF-8''abc.txt`)
+    expect(await get.text()).toBe("hello")
+  })
+
+  it("rejects tampered, expired and mismatched uploads with 403", async () => {
+    const storage = createStorage({ expiresIn: 60 })
+    const call = await mount(storage)
+    const { uploadUrl } = await storage.presignUpload(file, ctx)
+    const put = (url: string, type = "text/plain") =>
+      call(url, { method: "PUT", body: "hello", headers: { "Content-Type": type } })
+
+    expect((await put(uploadUrl.replace("size=5", "size=6"))).status).toBe(403)
+    expect((await put(uploadUrl.replace("abc.txt", "other.txt"))).status).toBe(403)
+    expect((await put(uploadUrl, "text/html")).status).toBe(403)
+    expect((await put(uploadUrl.replace(/signature=\w+/, ""))).status).toBe(403)
+
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(Date.now() + 61_000)
+    expect((await put(uploadUrl)).status).toBe(403)
+    expect(await storage.stat!("uploads/abc.txt", ctx)).toBeNull()
+  })
+
+  it("rejects bodies that don't match the signed size and leaves no file behind", async () => {
+    const storage = createStorage()
+    const call = await mount(storage)
+    const { uploadUrl } = await storage.presignUpload(file, ctx)
+    const put = (body: string) => call(uploadUrl, { method: "PUT", body, headers: { "Content-Type": "text/plain" } })
+
+    expect((await put("hello world")).status).toBe(413)
+    expect((await put("hey")).status).toBe(400)
+    expect(await storage.stat!("uploads/abc.txt", ctx)).toBeNull()
+    expect(await readdir(join(directory, ".upload-kit", "tmp"))).toEqual([])
+  })
+
+  it("requires a signature to read unless publicRead is on", async () => {
+    const privateStorage = createStorage()
+    await privateStorage.put!({ key: "uploads/a.txt", body: "a", contentType: "text/plain" }, ctx)
+    const call = await mount(privateStorage)
+    expect((await call("/api/_upload/local/uploads/a.txt")).status).toBe(403)
+
+    const { downloadUrl } = await privateStorage.presignDownload!("uploads/a.txt", ctx)
+    expect((await call(downloadUrl)).status).toBe(200)
+    expect((await call(`${downloadUrl}&disposition=inline`)).status).toBe(403)
+
+    vi.resetModules()
+    const publicCall = await mount(createStorage({ publicRead: true }))
+    const response = await publicCall("/api/_upload/local/uploads/a.txt")
+    expect(response.status).toBe(200)
+    expect(await response.text()).toBe("a")
+    expect((await publicCall("/api/_upload/local/uploads/missing.txt")).status).toBe(404)
+  })
+
+  it("serves uploads with nosniff and a CSP sandbox, and active content as an attachment", async () => {
+    const storage = createStorage({ publicRead: true })
+    await storage.put!({ key: "uploads/page.html", body: "<script>alert(1)</script>", contentType: "text/html" }, ctx)
+    const call = await mount(storage)
+
+    const unsigned = await call("/api/_upload/local/uploads/page.html")
+    expect(unsigned.headers.get("x-content-type-options")).toBe("nosniff")
+    expect(unsigned.headers.get("content-security-policy")).toBe("sandbox")
+    expect(unsigned.headers.get("content-disposition")).toMatch(/^attachment;/)
+
+    const { downloadUrl } = await storage.presignDownload!("uploads/page.html", ctx, { type: "inline" })
+    expect((await call(downloadUrl)).headers.get("content-disposition")).toMatch(/^attachment;/)
+
+    const optedIn = await storage.presignDownload!(
+      "uploads/page.html",
+      { ...ctx, auth: { inlineActiveContent: true } },
+      { type: "inline" },
+    )
+    const inline = await call(optedIn.downloadUrl)
+    expect(inline.headers.get("content-disposition")).toMatch(/^inline;/)
+    expect(inline.headers.get("content-security-policy")).toBe("sandbox")
+  })
+
+  it("answers 405 for other methods and 404 for other adapters", async () => {
+    const call = await mount(createStorage())
+    expect((await call("/api/_upload/local/uploads/a.txt", { method: "POST" })).status).toBe(405)
+
+    vi.resetModules()
+    userConfig = { storage: { id: "stub", presignUpload: vi.fn() } }
+    const { default: handler } = await import("../../../src/runtime/server/handlers/local")
+    const web = toWebHandler(createApp().use(createRouter().add("/api/_upload/local/**", handler)))
+    expect((await web(new Request("http://localhost/api/_upload/local/uploads/a.txt"))).status).toBe(404)
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { StorageAdapter, UploadServerConfig } from "../../../src/runtime/server/types"
+
+let userConfig: UploadServerConfig
+
+vi.mock("#upload-kit-user-config", () => ({
+  get default() {
+    return userConfig
+  },
+}))
+
+const stubStorage = (stored: { size: number; contentType?: string } | null = { size: 1024, contentType: "image/png" }) => ({
+  id: "stub",
+  presignUpload: vi.fn(),
+  presignDownload: vi.fn(async (key: string) => ({ downloadUrl: `https://signed/${key}` })),
+  stat: vi.fn(async () => stored),
+})
+
+const callHandler = async () => {
+  const mod = await import("../../../src/runtime/server/handlers/meta")
+  return mod.default
+}
+
+const fakeEvent = (fileId: string) =>
+  ({
+    node: { req: { method: "GET", headers: {} } },
+    context: { params: { fileId } },
+  }) as unknown as Parameters<Awaited<ReturnType<typeof callHandler>>>[0]
+
+beforeEach(() => {
+  vi.resetModules()
+})
+
+describe("meta handler", () => {
+  it("authorizes, then returns size, content type and a signed URL", async () => {
+    const storage = stubStorage()
+    const authorize = vi.fn(async () => ({ userId: "u1" }))
+    userConfig = { storage, authorize }
+
+    const handler = await callHandler()
+    const result = await handler(fakeEvent("uploads%2Fabc.png"))
+
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), { type: "presign-download", key: "uploads/abc.png" })
+    expect(storage.stat).toHaveBeenCalledWith("uploads/abc.png", expect.objectContaining({ auth: { userId: "u1" } }))
+    expect(result).toEqual({
+      fileId: "uploads/abc.png",
+      size: 1024,
+      mimeType: "image/png",
+      downloadUrl: "https://signed/uploads/abc.png",
+    })
+  })
+
+  it("refuses a key whose presigned upload has not been completed", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+    const { __resetStorage } = await import("../../fixtures/nuxt-imports")
+    const { savePendingUpload } = await import("../../../src/runtime/server/pending-uploads")
+    const file = { name: "a.png", size: 1024, mimeType: "image/png" }
+    await savePendingUpload({ key: "uploads/abc.png", file, publicUrl: "https://cdn/abc.png", auth: {} })
+
+    const handler = await callHandler()
+    await expect(handler(fakeEvent("uploads%2Fabc.png"))).rejects.toMatchObject({ statusCode: 409 })
+    expect(storage.stat).not.toHaveBeenCalled()
+    __resetStorage()
+  })
+
+  it("falls back to application/octet-stream without a stored content type", async () => {
+    userConfig = { storage: stubStorage({ size: 3 }) }
+
+    const handler = await callHandler()
+    await expect(handler(fakeEvent("a.bin"))).resolves.toMatchObject({ mimeType: "application/octet-stream" })
+  })
+
+  it("returns 404 for a missing object without signing a URL", async () => {
+    const storage = stubStorage(null)
+    userConfig = { storage }
+
+    const handler = await callHandler()
+    await expect(handler(fakeEvent("missing.png"))).rejects.toMatchObject({ statusCode: 404 })
+    expect(storage.presignDownload).not.toHaveBeenCalled()
+  })
+
+  it("returns 501 when the adapter cannot stat", async () => {
+    const storage: StorageAdapter = {
+      id: "no-stat",
+      presignUpload: vi.fn(),
+      presignDownload: vi.fn(async () => ({ downloadUrl: "" })),
+    }
+    userConfig = { storage }
+
+    const handler = await callHandler()
+    await expect(handler(fakeEvent("a.png"))).rejects.toMatchObject({ statusCode: 501 })
+  })
+})
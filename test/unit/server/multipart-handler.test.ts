@@ -0,0 +1,274 @@
+import { Readable } from "node:stream"
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import type { StorageAdapter, UploadServerConfig } from "../../../src/runtime/server/types"
+
+let userConfig: UploadServerConfig
+let body: unknown
+
+vi.mock("#upload-kit-user-config", () => ({
+  get default() {
+    return userConfig
+  },
+}))
+
+const MiB = 1024 * 1024
+
+// Completed objects stat as exactly what was declared at create, unless a test overrides `stat`.
+const stubStorage = () => {
+  const declared = new Map<string, { size: number; contentType: string }>()
+  return {
+    id: "stub",
+    presignUpload: vi.fn(),
+    createMultipartUpload: vi.fn(async (input: { fileId: string; size: number; mimeType: string }) => {
+      declared.set(`uploads/${input.fileId}`, { size: input.size, contentType: input.mimeType })
+      return {
+        uploadId: `upload-${input.fileId}`,
+        fileId: `uploads/${input.fileId}`,
+        publicUrl: `https://cdn/uploads/${input.fileId}`,
+      }
+    }),
+    signMultipartPart: vi.fn(async (input: { partNumber: number }) => ({ uploadUrl: `https://signed/part-${input.partNumber}` })),
+    completeMultipartUpload: vi.fn(async (input: { fileId: string }) => ({ publicUrl: `https://cdn/${input.fileId}` })),
+    abortMultipartUpload: vi.fn(async () => {}),
+    stat: vi.fn(async (key: string) => declared.get(key) ?? null),
+  }
+}
+
+const loadHandler = async (name: "create" | "sign-part" | "complete" | "abort") => {
+  const mod = await import(`../../../src/runtime/server/handlers/multipart-${name}.ts`)
+  return mod.default as (event: unknown) => Promise<any>
+}
+
+const fakeEvent = () => ({ node: { req: { method: "POST", headers: {} }, res: { setHeader: vi.fn() } }, context: {} })
+
+const call = async (name: "create" | "sign-part" | "complete" | "abort", payload: unknown) => {
+  body = payload
+  const handler = await loadHandler(name)
+  return handler(fakeEvent())
+}
+
+const file = { name: "video.mp4", size: 20 * MiB + 1, mimeType: "video/mp4" }
+
+const png = (width: number, height: number) => {
+  const header = Buffer.alloc(33)
+  header.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+  header.writeUInt32BE(13, 8)
+  header.write("IHDR", 12)
+  header.writeUInt32BE(width, 16)
+  header.writeUInt32BE(height, 20)
+  return header
+}
+
+beforeEach(() => {
+  vi.resetModules()
+  vi.doMock("h3", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("h3")>()
+    return { ...actual, readBody: async () => body }
+  })
+})
+
+afterEach(async () => {
+  vi.doUnmock("h3")
+  const { __setRuntimeConfig, __resetStorage } = await import("../../fixtures/nuxt-imports")
+  __setRuntimeConfig({})
+  __resetStorage()
+})
+
+describe("multipart handlers", () => {
+  it("runs validators and beforePresign once per file, at create", async () => {
+    const storage = stubStorage()
+    const authorize = vi.fn(async () => ({ userId: "u1" }))
+    const validate = vi.fn()
+    const beforePresign = vi.fn()
+    const afterUpload = vi.fn()
+    userConfig = { storage, authorize, validators: [validate], hooks: { beforePresign, afterUpload } }
+
+    const created = await call("create", { file, partSize: 8 * MiB })
+    expect(created).toMatchObject({ partSize: 8 * MiB, partCount: 3 })
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), { type: "presign-upload", file })
+
+    const parts = []
+    for (const partNumber of [1, 2, 3]) {
+      const signed = await call("sign-part", { uploadId: created.uploadId, partNumber })
+      parts.push({ partNumber, etag: `etag-${signed.partNumber}` })
+    }
+    const result = await call("complete", { uploadId: created.uploadId, parts: [...parts].reverse() })
+
+    expect(result).toEqual({ publicUrl: `https://cdn/${created.fileId}`, fileId: created.fileId })
+    expect(authorize).toHaveBeenCalledTimes(5)
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), { type: "multipart", action: "sign-part", key: created.fileId })
+    expect(authorize).toHaveBeenLastCalledWith(expect.anything(), { type: "multipart", action: "complete", key: created.fileId })
+    expect(validate).toHaveBeenCalledTimes(1)
+    expect(beforePresign).toHaveBeenCalledTimes(1)
+    expect(afterUpload).toHaveBeenCalledWith(
+      { ...file, key: created.fileId },
+      expect.objectContaining({ auth: { userId: "u1" } }),
+    )
+    expect(storage.completeMultipartUpload).toHaveBeenCalledWith(
+      { fileId: created.fileId, uploadId: created.uploadId, parts },
+      expect.anything(),
+    )
+  })
+
+  it("signs each part with its exact size, and only the last part may be short", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    const created = await call("create", { file, partSize: 8 * MiB })
+    await call("sign-part", { uploadId: created.uploadId, partNumber: 1 })
+    await call("sign-part", { uploadId: created.uploadId, partNumber: 3 })
+
+    expect(storage.signMultipartPart.mock.calls.map(([input]) => input)).toEqual([
+      { fileId: created.fileId, uploadId: created.uploadId, partNumber: 1, size: 8 * MiB },
+      { fileId: created.fileId, uploadId: created.uploadId, partNumber: 3, size: 4 * MiB + 1 },
+    ])
+    await expect(call("sign-part", { uploadId: created.uploadId, partNumber: 4 })).rejects.toMatchObject({ statusCode: 400 })
+  })
+
+  it("raises the part size to the 5 MiB minimum", async () => {
+    userConfig = { storage: stubStorage() }
+    const created = await call("create", { file, partSize: 1024 })
+    expect(created).toMatchObject({ partSize: 5 * MiB, partCount: 5 })
+  })
+
+  it("enforces restrictions at create", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { maxFileSize: 10 * MiB } } })
+
+    await expect(call("create", { file })).rejects.toMatchObject({ statusCode: 413 })
+    expect(storage.createMultipartUpload).not.toHaveBeenCalled()
+  })
+
+  it("checks image dimension restrictions against the completed object and deletes a rejected one", async () => {
+    const storage = {
+      ...stubStorage(),
+      getStream: vi.fn(async () => Readable.from([png(20_000, 20_000)])),
+      delete: vi.fn(async () => {}),
+    }
+    const afterUpload = vi.fn()
+    userConfig = { storage, hooks: { afterUpload } }
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { maxMegapixels: 100 } } })
+
+    const image = { name: "scan.png", size: 6 * MiB, mimeType: "image/png" }
+    const created = await call("create", { file: image })
+    const parts = [{ partNumber: 1, etag: "etag-1" }]
+
+    await expect(call("complete", { uploadId: created.uploadId, parts })).rejects.toMatchObject({
+      statusCode: 422,
+      data: { code: "max-megapixels", actual: 400 },
+    })
+    expect(storage.getStream).toHaveBeenCalledWith(created.fileId, { start: 0, end: 256 * 1024 - 1 }, expect.anything())
+    expect(storage.delete).toHaveBeenCalledWith(created.fileId, expect.anything())
+    expect(afterUpload).not.toHaveBeenCalled()
+  })
+
+  it("deletes an assembled object larger than declared, without running afterUpload", async () => {
+    const storage = {
+      ...stubStorage(),
+      stat: vi.fn(async () => ({ size: 64 * MiB, contentType: "video/mp4" })),
+      delete: vi.fn(async () => {}),
+    }
+    const afterUpload = vi.fn()
+    userConfig = { storage, hooks: { afterUpload } }
+
+    const created = await call("create", { file, partSize: 8 * MiB })
+    const parts = [1, 2, 3].map((partNumber) => ({ partNumber, etag: `etag-${partNumber}` }))
+
+    await expect(call("complete", { uploadId: created.uploadId, parts })).rejects.toMatchObject({ statusCode: 409 })
+    expect(storage.stat).toHaveBeenCalledWith(created.fileId, expect.anything())
+    expect(storage.delete).toHaveBeenCalledWith(created.fileId, expect.anything())
+    expect(afterUpload).not.toHaveBeenCalled()
+  })
+
+  it("deletes an assembled object whose content type differs from the declared one", async () => {
+    const storage = {
+      ...stubStorage(),
+      stat: vi.fn(async () => ({ size: file.size, contentType: "text/html" })),
+      delete: vi.fn(async () => {}),
+    }
+    userConfig = { storage }
+
+    const created = await call("create", { file, partSize: 8 * MiB })
+    const parts = [1, 2, 3].map((partNumber) => ({ partNumber, etag: `etag-${partNumber}` }))
+
+    await expect(call("complete", { uploadId: created.uploadId, parts })).rejects.toMatchObject({ statusCode: 409 })
+    expect(storage.delete).toHaveBeenCalledWith(created.fileId, expect.anything())
+  })
+
+  it("refuses follow-up requests from a different user than the one who created the upload", async () => {
+    const storage = stubStorage()
+    let userId = "u1"
+    userConfig = { storage, authorize: async () => ({ userId }) }
+
+    const created = await call("create", { file, partSize: 8 * MiB })
+    userId = "u2"
+    const parts = [1, 2, 3].map((partNumber) => ({ partNumber, etag: `etag-${partNumber}` }))
+
+    await expect(call("sign-part", { uploadId: created.uploadId, partNumber: 1 })).rejects.toMatchObject({ statusCode: 403 })
+    await expect(call("complete", { uploadId: created.uploadId, parts })).rejects.toMatchObject({ statusCode: 403 })
+    await expect(call("abort", { uploadId: created.uploadId })).rejects.toMatchObject({ statusCode: 403 })
+    expect(storage.signMultipartPart).not.toHaveBeenCalled()
+    expect(storage.completeMultipartUpload).not.toHaveBeenCalled()
+    expect(storage.abortMultipartUpload).not.toHaveBeenCalled()
+  })
+
+  it("applies the multipart rate limit to follow-up requests", async () => {
+    const storage = stubStorage()
+    userConfig = {
+      storage,
+      authorize: async () => ({ userId: "u1" }),
+      rateLimit: { limits: { multipart: { limit: 1, window: 60 } } },
+    }
+
+    const created = await call("create", { file, partSize: 8 * MiB })
+    await call("sign-part", { uploadId: created.uploadId, partNumber: 1 })
+
+    await expect(call("sign-part", { uploadId: created.uploadId, partNumber: 2 })).rejects.toMatchObject({ statusCode: 429 })
+    expect(storage.signMultipartPart).toHaveBeenCalledTimes(1)
+  })
+
+  it("rejects unknown upload ids with 404", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    await expect(call("sign-part", { uploadId: "forged", partNumber: 1 })).rejects.toMatchObject({ statusCode: 404 })
+    await expect(call("complete", { uploadId: "forged", parts: [] })).rejects.toMatchObject({ statusCode: 404 })
+    expect(storage.signMultipartPart).not.toHaveBeenCalled()
+    expect(storage.completeMultipartUpload).not.toHaveBeenCalled()
+  })
+
+  it("rejects completion with missing parts", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    const created = await call("create", { file, partSize: 8 * MiB })
+    await expect(call("complete", { uploadId: created.uploadId, parts: [{ partNumber: 1, etag: "a" }] })).rejects.toMatchObject({
+      statusCode: 400,
+    })
+    expect(storage.completeMultipartUpload).not.toHaveBeenCalled()
+  })
+
+  it("aborts the upload and forgets the session", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    const created = await call("create", { file })
+    await call("abort", { uploadId: created.uploadId })
+
+    expect(storage.abortMultipartUpload).toHaveBeenCalledWith(
+      { fileId: created.fileId, uploadId: created.uploadId },
+      expect.anything(),
+    )
+    await expect(call("sign-part", { uploadId: created.uploadId, partNumber: 1 })).rejects.toMatchObject({ statusCode: 404 })
+  })
+
+  it("returns 501 when the adapter has no multipart support", async () => {
+    const storage: StorageAdapter = { id: "plain", presignUpload: vi.fn() }
+    userConfig = { storage }
+
+    await expect(call("create", { file })).rejects.toMatchObject({ statusCode: 501 })
+  })
+})
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { __resetStorage } from "../../fixtures/nuxt-imports"
+import { enforceOwnership, issueFileToken } from "../../../src/runtime/server/ownership"
+import { recordUpload } from "../../../src/runtime/server/registry"
+import type { ServerHookContext, UploadServerConfig } from "../../../src/runtime/server/types"
+
+const config = (ownership: UploadServerConfig["ownership"], extra: Partial<UploadServerConfig> = {}): UploadServerConfig => ({
+  storage: { id: "stub", presignUpload: vi.fn() },
+  ownership,
+  ...extra,
+})
+
+const ctx = ({
+  userId,
+  headers = {},
+  path = "/api/_upload/a",
+}: { userId?: string; headers?: Record<string, string>; path?: string } = {}): ServerHookContext => ({
+  event: { path, node: { req: { method: "DELETE", headers } }, context: {} } as never,
+  auth: userId ? { userId } : {},
+})
+
+afterEach(() => {
+  __resetStorage()
+})
+
+describe("token ownership", () => {
+  const cfg = config({ strategy: "token", secret: "s3cret" })
+
+  it("issues a stable token per key", () => {
+    const token = issueFileToken(cfg, "uploads/a.png")
+    expect(token).toMatch(/^[\w-]{43}$/)
+    expect(issueFileToken(cfg, "uploads/a.png")).toBe(token)
+    expect(issueFileToken(cfg, "uploads/b.png")).not.toBe(token)
+    expect(issueFileToken(config({ strategy: "token", secret: "other" }), "uploads/a.png")).not.toBe(token)
+  })
+
+  it("accepts the token from the X-Upload-Token header or the token query parameter", async () => {
+    const token = issueFileToken(cfg, "uploads/a.png")!
+
+    await expect(enforceOwnership(cfg, "uploads/a.png", ctx({ headers: { "x-upload-token": token } }))).resolves.toBeUndefined()
+    await expect(enforceOwnership(cfg, "uploads/a.png", ctx({ path: `/download/a?token=${token}` }))).resolves.toBeUndefined()
+  })
+
+  it("rejects a missing token or one issued for another key with 403", async () => {
+    const otherToken = issueFileToken(cfg, "uploads/b.png")!
+
+    await expect(enforceOwnership(cfg, "uploads/a.png", ctx())).rejects.toMatchObject({ statusCode: 403 })
+    await expect(
+      enforceOwnership(cfg, "uploads/a.png", ctx({ headers: { "x-upload-token": otherToken } })),
+    ).rejects.toMatchObject({ statusCode: 403 })
+  })
+
+  it("falls back to the registry's recorded owner when the request has no token", async () => {
+    const withRegistry = config({ strategy: "token", secret: "s3cret" }, { registry: true })
+    await recordUpload(
+      withRegistry,
+      { key: "uploads/a.png", name: "a.png", size: 1, mimeType: "image/png" },
+      ctx({ userId: "u1" }),
+    )
+
+    await expect(enforceOwnership(withRegistry, "uploads/a.png", ctx({ userId: "u1" }))).resolves.toBeUndefined()
+    await expect(enforceOwnership(withRegistry, "uploads/a.png", ctx({ userId: "u2" }))).rejects.toMatchObject({
+      statusCode: 403,
+    })
+    await expect(enforceOwnership(cfg, "uploads/a.png", ctx({ userId: "u1" }))).rejects.toMatchObject({ statusCode: 403 })
+  })
+
+  it("fails with 500 when the secret is missing", async () => {
+    const noSecret = config({ strategy: "token" })
+    expect(() => issueFileToken(noSecret, "uploads/a.png")).toThrow(expect.objectContaining({ statusCode: 500 }))
+    await expect(enforceOwnership(noSecret, "uploads/a.png", ctx())).rejects.toMatchObject({ statusCode: 500 })
+  })
+})
+
+describe("registry ownership", () => {
+  const cfg = config({ strategy: "registry" }, { registry: true })
+
+  it("allows the recorded owner only", async () => {
+    await recordUpload(cfg, { key: "uploads/a.png", name: "a.png", size: 1, mimeType: "image/png" }, ctx({ userId: "u1" }))
+
+    await expect(enforceOwnership(cfg, "uploads/a.png", ctx({ userId: "u1" }))).resolves.toBeUndefined()
+    await expect(enforceOwnership(cfg, "uploads/a.png", ctx({ userId: "u2" }))).rejects.toMatchObject({ statusCode: 403 })
+    await expect(enforceOwnership(cfg, "uploads/a.png", ctx())).rejects.toMatchObject({ statusCode: 403 })
+  })
+
+  it("rejects keys without a record, including anonymous uploads", async () => {
+    await recordUpload(cfg, { key: "uploads/anon.png", name: "anon.png", size: 1, mimeType: "image/png" }, ctx())
+
+    await expect(enforceOwnership(cfg, "uploads/missing.png", ctx({ userId: "u1" }))).rejects.toMatchObject({
+      statusCode: 403,
+    })
+    await expect(enforceOwnership(cfg, "uploads/anon.png", ctx())).rejects.toMatchObject({ statusCode: 403 })
+  })
+
+  it("fails with 500 when the registry is off", async () => {
+    await expect(
+      enforceOwnership(config({ strategy: "registry" }), "uploads/a.png", ctx({ userId: "u1" })),
+    ).rejects.toMatchObject({ statusCode: 500 })
+  })
+})
+
+describe("canAccess", () => {
+  it("grants access ownership refuses", async () => {
+    const canAccess = vi.fn(async (_key: string, { auth }: ServerHookContext) => auth.role === "admin")
+    const cfg = config({ strategy: "registry", canAccess }, { registry: true })
+    const admin: ServerHookContext = { ...ctx(), auth: { userId: "root", role: "admin" } }
+
+    await expect(enforceOwnership(cfg, "uploads/a.png", admin)).resolves.toBeUndefined()
+    expect(canAccess).toHaveBeenCalledWith("uploads/a.png", admin)
+    await expect(enforceOwnership(cfg, "uploads/a.png", ctx({ userId: "u2" }))).rejects.toMatchObject({ statusCode: 403 })
+  })
+
+  it("is not consulted when the caller owns the key", async () => {
+    const canAccess = vi.fn(() => false)
+    const cfg = config({ strategy: "token", secret: "s3cret", canAccess })
+    const token = issueFileToken(cfg, "uploads/a.png")!
+
+    await enforceOwnership(cfg, "uploads/a.png", ctx({ headers: { "x-upload-token": token } }))
+    expect(canAccess).not.toHaveBeenCalled()
+  })
+})
+
+describe("without ownership", () => {
+  it("allows every caller and issues no token", async () => {
+    const cfg = config(undefined)
+    expect(issueFileToken(cfg, "uploads/a.png")).toBeUndefined()
+    await expect(enforceOwnership(cfg, "uploads/a.png", ctx())).resolves.toBeUndefined()
+  })
+})
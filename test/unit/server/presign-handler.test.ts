@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
 import { createError } from "h3"
-import type { StorageAdapter, UploadServerConfig } from "../../../src/runtime/server/types"
+import type { ServerHookContext, StorageAdapter, UploadServerConfig } from "../../../src/runtime/server/types"
 
 let userConfig: UploadServerConfig
 
@@ -91,6 +91,116 @@ describe("presign handler", () => {
     expect(storage.presignUpload).not.toHaveBeenCalled()
   })
 
+  it("enforces the requested profile over the shared restrictions and passes it to authorize", async () => {
+    const storage = stubStorage()
+    const authorize = vi.fn(async () => ({}))
+    userConfig = { storage, authorize }
+
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({
+      uploadKit: {
+        restrictions: { maxFileSize: 10_000, allowedMimeTypes: ["image/*"] },
+        profiles: { avatar: { maxFileSize: 1000 } },
+      },
+    })
+
+    const file = { name: "a.png", size: 5000, mimeType: "image/png" }
+    let body: unknown = { file, profile: "avatar" }
+    vi.doMock("h3", async (importOriginal) => {
+      const actual = await importOriginal<typeof import("h3")>()
+      return { ...actual, readBody: async () => body }
+    })
+
+    const handler = await callHandler()
+    await expect(handler(fakeEvent({}))).rejects.toMatchObject({ statusCode: 413 })
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), { type: "presign-upload", file, profile: "avatar" })
+
+    body = { file: { ...file, size: 500, mimeType: "text/plain" }, profile: "avatar" }
+    await expect(handler(fakeEvent({}))).rejects.toMatchObject({ statusCode: 415 })
+
+    body = { file }
+    await expect(handler(fakeEvent({}))).resolves.toMatchObject({ fileId: expect.any(String) })
+  })
+
+  it("enforces the restrictions resolveRestrictions computes for the caller", async () => {
+    const storage = stubStorage()
+    const resolveRestrictions = vi.fn(async ({ auth }: ServerHookContext) => ({
+      maxFileSize: auth.plan === "pro" ? 2000 : 50,
+    }))
+    let plan = "free"
+    userConfig = { storage, authorize: async () => ({ plan }), resolveRestrictions }
+
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { maxFileSize: 100 } } })
+
+    vi.doMock("h3", async (importOriginal) => {
+      const actual = await importOriginal<typeof import("h3")>()
+      return { ...actual, readBody: async () => ({ file: { name: "a.png", size: 500, mimeType: "image/png" } }) }
+    })
+
+    const handler = await callHandler()
+    await expect(handler(fakeEvent({}))).rejects.toMatchObject({ statusCode: 413, data: { maxBytes: 50 } })
+    expect(resolveRestrictions).toHaveBeenCalledWith(expect.objectContaining({ auth: { plan: "free" } }), { maxFileSize: 100 })
+
+    plan = "pro"
+    await expect(handler(fakeEvent({}))).resolves.toMatchObject({ fileId: expect.any(String) })
+  })
+
+  it("rejects custom rule violations with the rule's status", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    const { defineUploadRule } = await import("../../../src/runtime/shared")
+    defineUploadRule({
+      name: "no-spaces",
+      statusCode: 403,
+      statusMessage: "Forbidden",
+      validate: (f) => (f.name.includes(" ") ? "No spaces." : null),
+    })
+    defineUploadRule({ name: "no-gifs", validate: (f) => (f.type === "image/gif" ? "No GIFs." : null) })
+
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { custom: { "no-spaces": true, "no-gifs": true } } } })
+
+    let file = { name: "a b.png", size: 1, mimeType: "image/png" }
+    vi.doMock("h3", async (importOriginal) => {
+      const actual = await importOriginal<typeof import("h3")>()
+      return { ...actual, readBody: async () => ({ file }) }
+    })
+
+    const handler = await callHandler()
+    await expect(handler(fakeEvent({}))).rejects.toMatchObject({
+      statusCode: 403,
+      statusMessage: "Forbidden",
+      data: { code: "no-spaces", fileName: "a b.png" },
+    })
+    file = { name: "a.gif", size: 1, mimeType: "image/gif" }
+    await expect(handler(fakeEvent({}))).rejects.toMatchObject({ statusCode: 422, data: { code: "no-gifs" } })
+    expect(storage.presignUpload).not.toHaveBeenCalled()
+  })
+
+  it("rejects an unknown profile with 400", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { profiles: { avatar: { maxFileSize: 1000 } } } })
+
+    let profile: unknown = "documents"
+    vi.doMock("h3", async (importOriginal) => {
+      const actual = await importOriginal<typeof import("h3")>()
+      return { ...actual, readBody: async () => ({ file: { name: "a.png", size: 1, mimeType: "image/png" }, profile }) }
+    })
+
+    const handler = await callHandler()
+    await expect(handler(fakeEvent({}))).rejects.toMatchObject({ statusCode: 400 })
+    profile = "toString"
+    await expect(handler(fakeEvent({}))).rejects.toMatchObject({ statusCode: 400 })
+    profile = 42
+    await expect(handler(fakeEvent({}))).rejects.toMatchObject({ statusCode: 400 })
+    expect(storage.presignUpload).not.toHaveBeenCalled()
+  })
+
   it("runs validators after authorize and before hooks.beforePresign", async () => {
     const order: string[] = []
     const storage = stubStorage()
@@ -243,6 +353,20 @@ describe("presign handler", () => {
     expect(result).toMatchObject({ uploadUrl: expect.any(String) })
   })
 
+  it("returns a file token under the token ownership strategy", async () => {
+    userConfig = { storage: stubStorage(), ownership: { strategy: "token", secret: "s3cret" } }
+
+    vi.doMock("h3", async (importOriginal) => {
+      const actual = await importOriginal<typeof import("h3")>()
+      return { ...actual, readBody: async () => ({ file: { name: "a.png", size: 100, mimeType: "image/png" } }) }
+    })
+
+    const handler = await callHandler()
+    const result = await handler(fakeEvent({}))
+    const { issueFileToken } = await import("../../../src/runtime/server/ownership")
+    expect(result).toMatchObject({ fileToken: issueFileToken(userConfig, result.fileId) })
+  })
+
   it("calls getExistingState after authorize, before validators", async () => {
     const order: string[] = []
     const storage = stubStorage()
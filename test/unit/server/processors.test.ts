@@ -0,0 +1,215 @@
+import { Readable } from "node:stream"
+import { createHash } from "node:crypto"
+import { describe, it, expect, vi } from "vitest"
+import type { H3Event } from "h3"
+import type { StorageAdapter, UploadedFile, UploadServerConfig } from "../../../src/runtime/server/types"
+import { runProcessors } from "../../../src/runtime/server/processing"
+import { MetadataProcessor } from "../../../src/runtime/server/processors/metadata"
+import { ImageResizeProcessor } from "../../../src/runtime/server/processors/image-resize"
+import { MalwareScanProcessor } from "../../../src/runtime/server/processors/malware-scan"
+
+const ctx = { event: {} as H3Event, auth: { userId: "u1" } }
+
+const png = (width: number, height: number) => {
+  const header = Buffer.alloc(24)
+  header.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], 0)
+  header.write("IHDR", 12, "ascii")
+  header.writeUInt32BE(width, 16)
+  header.writeUInt32BE(height, 20)
+  return header
+}
+
+const file: UploadedFile = { name: "photo.png", size: 24, mimeType: "image/png", key: "uploads/photo.png" }
+
+const stubStorage = (body: Buffer) => ({
+  id: "stub",
+  presignUpload: vi.fn(),
+  getStream: vi.fn(async () => Readable.from([body.subarray(0, 10), body.subarray(10)])),
+  put: vi.fn(async (input: { key: string }) => ({ publicUrl: `https://cdn/${input.key}` })),
+})
+
+describe("runProcessors", () => {
+  it("returns undefined when no processor applies", async () => {
+    const storage = stubStorage(png(1, 1))
+    const process = vi.fn()
+    const config: UploadServerConfig = { storage, processors: [{ name: "video", match: () => false, process }] }
+
+    expect(await runProcessors({ storage }, file, ctx)).toBeUndefined()
+    expect(await runProcessors(config, file, ctx)).toBeUndefined()
+    expect(process).not.toHaveBeenCalled()
+  })
+
+  it("reads the object through getStream once and shares it between processors", async () => {
+    const storage = stubStorage(png(4, 3))
+    const config: UploadServerConfig = {
+      storage,
+      processors: [
+        { name: "first", process: async (_f, c) => (await c.read()).byteLength },
+        { name: "second", process: async (_f, c) => (await c.read()).subarray(1, 4).toString() },
+      ],
+    }
+
+    expect(await runProcessors(config, file, ctx)).toEqual({ first: 24, second: "PNG" })
+    expect(storage.getStream).toHaveBeenCalledTimes(1)
+    expect(storage.getStream).toHaveBeenCalledWith("uploads/photo.png", undefined, ctx)
+  })
+
+  it("uses the in-memory body when one is passed", async () => {
+    const storage = stubStorage(Buffer.from("stored"))
+    const config: UploadServerConfig = {
+      storage,
+      processors: [{ name: "text", process: async (_f, c) => (await c.read()).toString() }],
+    }
+
+    expect(await runProcessors(config, file, ctx, new TextEncoder().encode("request"))).toEqual({ text: "request" })
+    expect(storage.getStream).not.toHaveBeenCalled()
+  })
+
+  it("answers 501 when a processor reads from an adapter without getStream", async () => {
+    const storage: StorageAdapter = { id: "no-stream", presignUpload: vi.fn() }
+    const config: UploadServerConfig = { storage, processors: [{ name: "read", process: (_f, c) => c.read() }] }
+
+    await expect(runProcessors(config, file, ctx)).rejects.toMatchObject({ statusCode: 501 })
+  })
+})
+
+describe("MetadataProcessor", () => {
+  it("reports the stored size, a checksum and image dimensions", async () => {
+    const body = png(640, 480)
+    const storage = stubStorage(body)
+
+    const result = await runProcessors({ storage, processors: [MetadataProcessor()] }, file, ctx)
+
+    expect(result).toEqual({
+      metadata: {
+        size: 24,
+        checksum: createHash("sha256").update(body).digest("hex"),
+        image: { width: 640, height: 480, format: "png" },
+      },
+    })
+  })
+
+  it("skips hashing and image probing when they don't apply", async () => {
+    const storage = stubStorage(Buffer.from("plain text"))
+    const text = { ...file, name: "a.txt", mimeType: "text/plain", key: "uploads/a.txt" }
+
+    const result = await runProcessors({ storage, processors: [MetadataProcessor({ name: "meta", checksum: false })] }, text, ctx)
+
+    expect(result).toEqual({ meta: { size: 10 } })
+  })
+})
+
+describe("ImageResizeProcessor", () => {
+  it("writes each variant next to the original through put", async () => {
+    const storage = stubStorage(png(800, 600))
+    const resize = vi.fn(async (_input: Buffer, variant: { name: string }) => Buffer.from(variant.name))
+    const processor = ImageResizeProcessor({
+      variants: [
+        { name: "thumb", width: 128 },
+        { name: "webp", width: 800, contentType: "image/webp" },
+      ],
+      resize,
+    })
+
+    const result = await runProcessors({ storage, processors: [processor] }, file, ctx)
+
+    expect(result).toEqual({
+      images: {
+        thumb: { key: "uploads/photo_thumb.png", publicUrl: "https://cdn/uploads/photo_thumb.png" },
+        webp: { key: "uploads/photo_webp.png", publicUrl: "https://cdn/uploads/photo_webp.png" },
+      },
+    })
+    expect(resize).toHaveBeenCalledWith(expect.any(Buffer), { name: "thumb", width: 128 })
+    expect(storage.put).toHaveBeenCalledWith(
+      { key: "uploads/photo_thumb.png", body: Buffer.from("thumb"), contentType: "image/png" },
+      ctx,
+    )
+    expect(storage.put).toHaveBeenCalledWith(
+      { key: "uploads/photo_webp.png", body: Buffer.from("webp"), contentType: "image/webp" },
+      ctx,
+    )
+  })
+
+  it("skips non-raster files by default and honours a custom key", async () => {
+    const storage = stubStorage(Buffer.from("<svg/>"))
+    const resize = vi.fn(async () => Buffer.from("x"))
+    const processor = ImageResizeProcessor({
+      variants: [{ name: "small", width: 64 }],
+      resize,
+      key: (f, v) => `derived/${v.name}/${f.name}`,
+    })
+    const svg = { ...file, name: "logo.svg", mimeType: "image/svg+xml", key: "uploads/logo" }
+
+    expect(await runProcessors({ storage, processors: [processor] }, svg, ctx)).toBeUndefined()
+
+    const result = await runProcessors({ storage, processors: [processor] }, file, ctx)
+    expect(result).toEqual({
+      images: { small: { key: "derived/small/photo.png", publicUrl: "https://cdn/derived/small/photo.png" } },
+    })
+  })
+})
+
+describe("MalwareScanProcessor", () => {
+  const scannerFinding = (signature?: string) =>
+    vi.fn(async (stream: Readable) => {
+      for await (const _chunk of stream);
+      return signature ? { infected: true, signature } : { infected: false }
+    })
+
+  const withDelete = (body: Buffer) => ({ ...stubStorage(body), delete: vi.fn(async () => {}) })
+
+  it("passes clean files through with the scan result", async () => {
+    const storage = withDelete(Buffer.from("clean"))
+    const scanner = scannerFinding()
+
+    const result = await runProcessors({ storage, processors: [MalwareScanProcessor({ scanner })] }, file, ctx)
+
+    expect(result).toEqual({ malwareScan: { infected: false } })
+    expect(scanner).toHaveBeenCalledWith(expect.any(Readable))
+    expect(storage.delete).not.toHaveBeenCalled()
+  })
+
+  it("deletes an infected object and fails with malware-detected", async () => {
+    const storage = withDelete(Buffer.from("evil"))
+    const after = vi.fn()
+    const config: UploadServerConfig = {
+      storage,
+      processors: [MalwareScanProcessor({ scanner: scannerFinding("Eicar-Test-Signature") }), { name: "after", process: after }],
+    }
+
+    await expect(runProcessors(config, file, ctx)).rejects.toMatchObject({
+      statusCode: 422,
+      data: { code: "malware-detected", signature: "Eicar-Test-Signature" },
+    })
+    expect(storage.delete).toHaveBeenCalledWith("uploads/photo.png", expect.anything())
+    expect(storage.put).not.toHaveBeenCalled()
+    expect(after).not.toHaveBeenCalled()
+  })
+
+  it("quarantines an infected object before deleting it", async () => {
+    const storage = withDelete(Buffer.from("evil"))
+    const processor = MalwareScanProcessor({ scanner: scannerFinding("Win.Trojan"), onInfected: "quarantine" })
+
+    await expect(runProcessors({ storage, processors: [processor] }, file, ctx, Buffer.from("evil"))).rejects.toMatchObject({
+      statusCode: 422,
+    })
+    expect(storage.put).toHaveBeenCalledWith(
+      { key: "quarantine/uploads/photo.png", body: Buffer.from("evil"), contentType: "image/png" },
+      ctx,
+    )
+    expect(storage.delete).toHaveBeenCalledWith("uploads/photo.png", expect.anything())
+    expect(storage.getStream).not.toHaveBeenCalled()
+  })
+
+  it("fails the upload when the scanner errors, keeping the object for a retry", async () => {
+    const storage = withDelete(Buffer.from("x"))
+    const scanner = vi.fn(async () => {
+      throw new Error("[clamd] no reply within 30000ms")
+    })
+
+    await expect(runProcessors({ storage, processors: [MalwareScanProcessor({ scanner })] }, file, ctx)).rejects.toThrow(
+      "no reply",
+    )
+    expect(storage.delete).not.toHaveBeenCalled()
+  })
+})
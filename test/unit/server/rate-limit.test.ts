@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { H3Event } from "h3"
+import { __resetStorage, __storageKeys } from "../../fixtures/nuxt-imports"
+import { authorizeRequest, enforceRateLimit } from "../../../src/runtime/server/rate-limit"
+import type { AuthorizeOp, UploadServerConfig } from "../../../src/runtime/server/types"
+
+const fakeEvent = (ip = "10.0.0.1", headers: Record<string, string> = {}) => {
+  const setHeader = vi.fn()
+  const event = {
+    node: { req: { method: "POST", headers, socket: { remoteAddress: ip } }, res: { setHeader } },
+    context: {},
+  } as unknown as H3Event
+  return { event, setHeader }
+}
+
+const presignOp: AuthorizeOp = { type: "presign-upload", file: { name: "a.png", size: 1, mimeType: "image/png" } }
+const deleteOp: AuthorizeOp = { type: "delete", key: "a.png" }
+
+const config = (rateLimit: UploadServerConfig["rateLimit"], extra: Partial<UploadServerConfig> = {}): UploadServerConfig => ({
+  storage: { id: "stub", presignUpload: vi.fn() },
+  rateLimit,
+  ...extra,
+})
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(new Date("2026-01-01T00:00:00Z"))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  __resetStorage()
+})
+
+describe("enforceRateLimit", () => {
+  it("rejects with 429 and Retry-After once the limit is reached", async () => {
+    const cfg = config({ limits: { "presign-upload": { limit: 2, window: 60 } } })
+    const { event, setHeader } = fakeEvent()
+
+    await enforceRateLimit(cfg, event, presignOp, {})
+    vi.advanceTimersByTime(10_000)
+    await enforceRateLimit(cfg, event, presignOp, {})
+
+    await expect(enforceRateLimit(cfg, event, presignOp, {})).rejects.toMatchObject({
+      statusCode: 429,
+      data: { retryAfter: 50 },
+    })
+    expect(setHeader).toHaveBeenCalledWith("Retry-After", 50)
+  })
+
+  it("slides the window as old requests expire", async () => {
+    const cfg = config({ limits: { "presign-upload": { limit: 2, window: 60 } } })
+    const { event } = fakeEvent()
+
+    await enforceRateLimit(cfg, event, presignOp, {})
+    vi.advanceTimersByTime(30_000)
+    await enforceRateLimit(cfg, event, presignOp, {})
+    await expect(enforceRateLimit(cfg, event, presignOp, {})).rejects.toMatchObject({ statusCode: 429 })
+
+    // The first request leaves the window; the second is still in it.
+    vi.advanceTimersByTime(30_001)
+    await enforceRateLimit(cfg, event, presignOp, {})
+    await expect(enforceRateLimit(cfg, event, presignOp, {})).rejects.toMatchObject({
+      statusCode: 429,
+      data: { retryAfter: 30 },
+    })
+  })
+
+  it("keys by userId when authorize identified the caller, otherwise by IP", async () => {
+    const cfg = config({ limits: { "presign-upload": { limit: 1, window: 60 } } })
+
+    await enforceRateLimit(cfg, fakeEvent("10.0.0.1").event, presignOp, { userId: "u1" })
+    // Same user from another address is still limited.
+    await expect(enforceRateLimit(cfg, fakeEvent("10.0.0.2").event, presignOp, { userId: "u1" })).rejects.toMatchObject({
+      statusCode: 429,
+    })
+    // Anonymous callers are counted per address.
+    await enforceRateLimit(cfg, fakeEvent("10.0.0.1").event, presignOp, {})
+    await enforceRateLimit(cfg, fakeEvent("10.0.0.2").event, presignOp, {})
+    await expect(enforceRateLimit(cfg, fakeEvent("10.0.0.2").event, presignOp, {})).rejects.toMatchObject({
+      statusCode: 429,
+    })
+  })
+
+  it("reads X-Forwarded-For only when trustProxy is set", async () => {
+    const limits = { "presign-upload": { limit: 1, window: 60 } }
+    const forwarded = (client: string) => fakeEvent("10.0.0.1", { "x-forwarded-for": client }).event
+
+    const trusting = config({ limits, trustProxy: true })
+    await enforceRateLimit(trusting, forwarded("1.1.1.1"), presignOp, {})
+    await enforceRateLimit(trusting, forwarded("2.2.2.2"), presignOp, {})
+
+    __resetStorage()
+    const direct = config({ limits })
+    await enforceRateLimit(direct, forwarded("1.1.1.1"), presignOp, {})
+    await expect(enforceRateLimit(direct, forwarded("2.2.2.2"), presignOp, {})).rejects.toMatchObject({ statusCode: 429 })
+  })
+
+  it("uses a custom key and storage mount", async () => {
+    const key = vi.fn(() => "tenant-1")
+    const cfg = config({ limits: { "presign-upload": { limit: 1, window: 60 } }, key, storage: "redis" })
+    const { event } = fakeEvent()
+
+    await enforceRateLimit(cfg, event, presignOp, { userId: "u1" })
+
+    expect(key).toHaveBeenCalledWith(event, presignOp, { userId: "u1" })
+    expect(__storageKeys()).toEqual(["redis:upload-kit:rate-limit:presign-upload:tenant-1"])
+  })
+
+  it("leaves operations without a rule unlimited", async () => {
+    const cfg = config({ limits: { "presign-upload": { limit: 1, window: 60 } } })
+    const { event } = fakeEvent()
+
+    for (let i = 0; i < 5; i++) await enforceRateLimit(cfg, event, deleteOp, {})
+    expect(__storageKeys()).toEqual([])
+  })
+})
+
+describe("authorizeRequest", () => {
+  it("rate-limits after authorize and returns its context", async () => {
+    const authorize = vi.fn(async () => ({ userId: "u1" }))
+    const cfg = config({ limits: { delete: { limit: 1, window: 60 } } }, { authorize })
+    const { event } = fakeEvent()
+
+    await expect(authorizeRequest(cfg, event, deleteOp)).resolves.toEqual({ userId: "u1" })
+    await expect(authorizeRequest(cfg, event, deleteOp)).rejects.toMatchObject({ statusCode: 429 })
+    expect(authorize).toHaveBeenCalledTimes(2)
+  })
+
+  it("does not count requests that authorize rejects", async () => {
+    const authorize = vi.fn().mockRejectedValueOnce(new Error("nope")).mockResolvedValue({})
+    const cfg = config({ limits: { delete: { limit: 1, window: 60 } } }, { authorize })
+    const { event } = fakeEvent()
+
+    await expect(authorizeRequest(cfg, event, deleteOp)).rejects.toThrow("nope")
+    await expect(authorizeRequest(cfg, event, deleteOp)).resolves.toEqual({})
+  })
+})
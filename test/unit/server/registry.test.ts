@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { __resetStorage, __storageKeys } from "../../fixtures/nuxt-imports"
+import { getUploadRecord, recordUpload, removeUploadRecord, resolveExistingState } from "../../../src/runtime/server/registry"
+import type { ServerHookContext, UploadedFile, UploadServerConfig } from "../../../src/runtime/server/types"
+
+const config = (
+  registry: UploadServerConfig["registry"] = true,
+  extra: Partial<UploadServerConfig> = {},
+): UploadServerConfig => ({
+  storage: { id: "stub", presignUpload: vi.fn() },
+  registry,
+  ...extra,
+})
+
+const ctx = (userId?: string): ServerHookContext => ({ event: {} as never, auth: userId ? { userId } : {} })
+
+const file = (key: string, size = 100): UploadedFile => ({ key, name: key.split("/").pop()!, size, mimeType: "image/png" })
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(new Date("2026-01-01T00:00:00Z"))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  __resetStorage()
+})
+
+describe("upload registry", () => {
+  it("records key, owner, size, type, name and timestamps", async () => {
+    const cfg = config()
+    await recordUpload(cfg, file("uploads/a.png"), ctx("u1"))
+
+    await expect(getUploadRecord(cfg, "uploads/a.png")).resolves.toEqual({
+      key: "uploads/a.png",
+      owner: "u1",
+      name: "a.png",
+      size: 100,
+      mimeType: "image/png",
+      createdAt: Date.parse("2026-01-01T00:00:00Z"),
+      updatedAt: Date.parse("2026-01-01T00:00:00Z"),
+    })
+  })
+
+  it("keeps createdAt and moves ownership when a key is overwritten", async () => {
+    const cfg = config()
+    await recordUpload(cfg, file("uploads/a.png", 100), ctx("u1"))
+    vi.advanceTimersByTime(60_000)
+    await recordUpload(cfg, file("uploads/a.png", 300), ctx("u2"))
+
+    const record = await getUploadRecord(cfg, "uploads/a.png")
+    expect(record).toMatchObject({ owner: "u2", size: 300 })
+    expect(record!.updatedAt - record!.createdAt).toBe(60_000)
+    await expect(resolveExistingState(cfg, ctx("u1"))).resolves.toEqual({ count: 0, totalSize: 0 })
+    await expect(resolveExistingState(cfg, ctx("u2"))).resolves.toEqual({ count: 1, totalSize: 300 })
+  })
+
+  it("derives existing state from the caller's records", async () => {
+    const cfg = config()
+    await recordUpload(cfg, file("uploads/a.png", 100), ctx("u1"))
+    await recordUpload(cfg, file("uploads/b.png", 250), ctx("u1"))
+    await recordUpload(cfg, file("uploads/c.png", 999), ctx("u2"))
+
+    await expect(resolveExistingState(cfg, ctx("u1"))).resolves.toEqual({ count: 2, totalSize: 350 })
+
+    await removeUploadRecord(cfg, "uploads/a.png")
+    await expect(getUploadRecord(cfg, "uploads/a.png")).resolves.toBeNull()
+    await expect(resolveExistingState(cfg, ctx("u1"))).resolves.toEqual({ count: 1, totalSize: 250 })
+  })
+
+  it("records anonymous uploads without attributing them", async () => {
+    const cfg = config()
+    await recordUpload(cfg, file("uploads/a.png"), ctx())
+
+    await expect(getUploadRecord(cfg, "uploads/a.png")).resolves.toMatchObject({ owner: undefined })
+    await expect(resolveExistingState(cfg, ctx())).resolves.toBeUndefined()
+  })
+
+  it("prefers a configured getExistingState", async () => {
+    const getExistingState = vi.fn(async () => ({ count: 7, totalSize: 7 }))
+    const cfg = config(true, { getExistingState })
+    await recordUpload(cfg, file("uploads/a.png"), ctx("u1"))
+
+    await expect(resolveExistingState(cfg, ctx("u1"))).resolves.toEqual({ count: 7, totalSize: 7 })
+  })
+
+  it("writes to the configured storage mount", async () => {
+    const cfg = config({ storage: "uploads-db" })
+    await recordUpload(cfg, file("a.png"), ctx("u1"))
+
+    expect(__storageKeys().sort()).toEqual([
+      "uploads-db:upload-kit:registry:files:a.png",
+      "uploads-db:upload-kit:registry:owners:u1",
+    ])
+  })
+
+  it("does nothing when the registry is off", async () => {
+    const cfg = config(false)
+    await recordUpload(cfg, file("uploads/a.png"), ctx("u1"))
+
+    expect(__storageKeys()).toEqual([])
+    await expect(getUploadRecord(cfg, "uploads/a.png")).resolves.toBeNull()
+    await expect(resolveExistingState(cfg, ctx("u1"))).resolves.toBeUndefined()
+  })
+})
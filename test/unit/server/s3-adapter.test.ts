@@ -1,5 +1,6 @@
-import { describe, it, expect } from "vitest"
+import { describe, it, expect, vi, afterEach } from "vitest"
 import type { H3Event } from "h3"
+import { S3Client } from "@aws-sdk/client-s3"
 import { S3Storage } from "../../../src/runtime/server/adapters/s3"
 
 const ctx = { event: {} as H3Event, auth: {} }
@@ -80,4 +81,256 @@ describe("S3Storage", () => {
     expect(result.uploadUrl).toMatch(/^http:\/\/localhost:9000\/minio-bucket\/uploads\/file\.bin\?/)
     expect(result.publicUrl).toBe("http://localhost:9000/minio-bucket/uploads/file.bin")
   })
+
+  describe("POST policy", () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    const input = { fileId: "abc.png", name: "photo.png", size: 1024, mimeType: "image/png" }
+    const decodePolicy = (fields: Record<string, string>) => JSON.parse(Buffer.from(fields.Policy!, "base64").toString("utf8"))
+
+    it("returns the bucket URL with signed POST fields", async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date("2026-03-04T05:06:07.890Z"))
+      const storage = S3Storage({
+        bucket: "test-bucket",
+        region: "eu-west-1",
+        credentials: { accessKeyId: "AKIATEST", secretAccessKey: "secretkeyfortesting", sessionToken: "session" },
+        presignedPost: true,
+      })
+
+      const result = await storage.presignUpload(input, ctx)
+
+      expect(result.uploadUrl).toBe("https://test-bucket.s3.eu-west-1.amazonaws.com/")
+      expect(result.publicUrl).toBe("https://test-bucket.s3.eu-west-1.amazonaws.com/uploads/abc.png")
+      expect(result.fileId).toBe("uploads/abc.png")
+      expect(result.fields).toMatchObject({
+        key: "uploads/abc.png",
+        "Content-Type": "image/png",
+        "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+        "X-Amz-Credential": "AKIATEST/20260304/eu-west-1/s3/aws4_request",
+        "X-Amz-Date": "20260304T050607Z",
+        "X-Amz-Security-Token": "session",
+      })
+      expect(result.fields!["X-Amz-Signature"]).toMatch(/^[0-9a-f]{64}$/)
+    })
+
+    it("pins the size with content-length-range and the key and Content-Type with exact matches", async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date("2026-03-04T05:06:07.890Z"))
+      const storage = S3Storage({
+        bucket: "test-bucket",
+        region: "us-east-1",
+        credentials: { accessKeyId: "x", secretAccessKey: "y" },
+        expiresIn: 60,
+        presignedPost: true,
+      })
+
+      const { fields } = await storage.presignUpload(input, ctx)
+      const policy = decodePolicy(fields!)
+
+      expect(policy.expiration).toBe("2026-03-04T05:07:07Z")
+      expect(policy.conditions).toEqual(
+        expect.arrayContaining([
+          { bucket: "test-bucket" },
+          ["content-length-range", 1024, 1024],
+          { key: "uploads/abc.png" },
+          { "Content-Type": "image/png" },
+          { "X-Amz-Credential": "x/20260304/us-east-1/s3/aws4_request" },
+        ]),
+      )
+      // Every signed form field is pinned by the policy, so the browser can't alter any of them.
+      for (const [name, value] of Object.entries(fields!)) {
+        if (name === "Policy" || name === "X-Amz-Signature") continue
+        expect(policy.conditions).toContainEqual({ [name]: value })
+      }
+    })
+
+    it("targets the bucket path on S3-compatible endpoints", async () => {
+      const storage = S3Storage({
+        bucket: "minio-bucket",
+        region: "us-east-1",
+        endpoint: "http://localhost:9000",
+        forcePathStyle: true,
+        credentials: { accessKeyId: "x", secretAccessKey: "y" },
+        presignedPost: true,
+      })
+
+      const result = await storage.presignUpload(input, ctx)
+      expect(result.uploadUrl).toBe("http://localhost:9000/minio-bucket")
+    })
+  })
+
+  describe("multipart", () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    const storage = () =>
+      S3Storage({ bucket: "my-bucket", region: "us-east-1", credentials: { accessKeyId: "x", secretAccessKey: "y" } })
+
+    it("creates the upload under the resolved key", async () => {
+      const send = vi.spyOn(S3Client.prototype, "send").mockResolvedValue({ UploadId: "mp-1" } as never)
+
+      const result = await storage().createMultipartUpload!(
+        { fileId: "big.bin", name: "big.bin", size: 10, mimeType: "application/octet-stream" },
+        ctx,
+      )
+
+      expect(result).toEqual({
+        uploadId: "mp-1",
+        fileId: "uploads/big.bin",
+        publicUrl: "https://my-bucket.s3.us-east-1.amazonaws.com/uploads/big.bin",
+      })
+      expect(send.mock.calls[0]![0].input).toMatchObject({ Bucket: "my-bucket", Key: "uploads/big.bin" })
+    })
+
+    it("presigns UploadPart for the given part", async () => {
+      const { uploadUrl } = await storage().signMultipartPart!(
+        { fileId: "uploads/big.bin", uploadId: "mp-1", partNumber: 2, size: 5 * 1024 * 1024 },
+        ctx,
+      )
+
+      expect(uploadUrl).toMatch(/^https:\/\/my-bucket\.s3\.us-east-1\.amazonaws\.com\/uploads\/big\.bin\?/)
+      expect(uploadUrl).toContain("partNumber=2")
+      expect(uploadUrl).toContain("uploadId=mp-1")
+      expect(uploadUrl).not.toContain("x-amz-checksum")
+    })
+
+    it("completes with quoted ETags", async () => {
+      const send = vi.spyOn(S3Client.prototype, "send").mockResolvedValue({} as never)
+
+      const result = await storage().completeMultipartUpload!(
+        {
+          fileId: "uploads/big.bin",
+          uploadId: "mp-1",
+          parts: [
+            { partNumber: 1, etag: "abc" },
+            { partNumber: 2, etag: '"def"' },
+          ],
+        },
+        ctx,
+      )
+
+      expect(result.publicUrl).toBe("https://my-bucket.s3.us-east-1.amazonaws.com/uploads/big.bin")
+      expect(send.mock.calls[0]![0].input).toMatchObject({
+        UploadId: "mp-1",
+        MultipartUpload: {
+          Parts: [
+            { PartNumber: 1, ETag: '"abc"' },
+            { PartNumber: 2, ETag: '"def"' },
+          ],
+        },
+      })
+    })
+  })
+
+  describe("stat", () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    const storage = () =>
+      S3Storage({ bucket: "my-bucket", region: "us-east-1", credentials: { accessKeyId: "x", secretAccessKey: "y" } })
+
+    it("reads the object's metadata with HeadObject", async () => {
+      const send = vi.spyOn(S3Client.prototype, "send").mockResolvedValue({
+        ContentLength: 1024,
+        ContentType: "image/png",
+        ETag: '"abc123"',
+        LastModified: new Date("2026-01-02T03:04:05Z"),
+        Metadata: { owner: "u1" },
+      } as never)
+
+      expect(await storage().stat!("uploads/a.png", ctx)).toEqual({
+        size: 1024,
+        contentType: "image/png",
+        etag: "abc123",
+        lastModified: new Date("2026-01-02T03:04:05Z"),
+        metadata: { owner: "u1" },
+      })
+      expect(send.mock.calls[0]![0].input).toEqual({ Bucket: "my-bucket", Key: "uploads/a.png" })
+    })
+
+    it("returns null for a missing object", async () => {
+      vi.spyOn(S3Client.prototype, "send").mockRejectedValue(
+        Object.assign(new Error("NotFound"), { $metadata: { httpStatusCode: 404 } }) as never,
+      )
+
+      expect(await storage().stat!("uploads/missing.png", ctx)).toBeNull()
+    })
+  })
+
+  describe("list", () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it("pages through ListObjectsV2", async () => {
+      const send = vi.spyOn(S3Client.prototype, "send").mockResolvedValue({
+        Contents: [{ Key: "uploads/a.png", Size: 10, ETag: '"e1"', LastModified: new Date("2026-01-02T03:04:05Z") }],
+        IsTruncated: true,
+        NextContinuationToken: "token-2",
+      } as never)
+      const storage = S3Storage({
+        bucket: "my-bucket",
+        region: "us-east-1",
+        credentials: { accessKeyId: "x", secretAccessKey: "y" },
+      })
+
+      const page = await storage.listPage!({ prefix: "uploads/", cursor: "token-1", limit: 1 }, ctx)
+
+      expect(send.mock.calls[0]![0].input).toEqual({
+        Bucket: "my-bucket",
+        Prefix: "uploads/",
+        ContinuationToken: "token-1",
+        MaxKeys: 1,
+      })
+      expect(page).toEqual({
+        items: [{ key: "uploads/a.png", size: 10, etag: "e1", lastModified: new Date("2026-01-02T03:04:05Z") }],
+        cursor: "token-2",
+      })
+    })
+
+    it("omits the cursor on the last page", async () => {
+      vi.spyOn(S3Client.prototype, "send").mockResolvedValue({ IsTruncated: false } as never)
+      const storage = S3Storage({
+        bucket: "my-bucket",
+        region: "us-east-1",
+        credentials: { accessKeyId: "x", secretAccessKey: "y" },
+      })
+
+      expect(await storage.listPage!({}, ctx)).toEqual({ items: [], cursor: undefined })
+    })
+  })
+
+  it("signs a response-content-disposition override into presignDownload", async () => {
+    const storage = S3Storage({
+      bucket: "my-bucket",
+      region: "us-east-1",
+      credentials: { accessKeyId: "x", secretAccessKey: "y" },
+    })
+
+    const plain = await storage.presignDownload!("uploads/a.pdf", ctx)
+    expect(plain.downloadUrl).not.toContain("response-content-disposition")
+
+    const { downloadUrl } = await storage.presignDownload!("uploads/a.pdf", ctx, { type: "attachment" })
+    const param = new URL(downloadUrl).searchParams.get("response-content-disposition")
+    expect(param).toBe(`attachment; filename="a.pdf"; filename*=UTF-8''a.pdf`)
+  })
+
+  it("streams a byte range with GetObject", async () => {
+    const body = {}
+    const send = vi.spyOn(S3Client.prototype, "send").mockResolvedValue({ Body: body } as never)
+    const storage = S3Storage({
+      bucket: "my-bucket",
+      region: "us-east-1",
+      credentials: { accessKeyId: "x", secretAccessKey: "y" },
+    })
+
+    expect(await storage.getStream!("uploads/a.mp4", { start: 0, end: 99 }, ctx)).toBe(body)
+    expect(send.mock.calls[0]![0].input).toEqual({ Bucket: "my-bucket", Key: "uploads/a.mp4", Range: "bytes=0-99" })
+    send.mockRestore()
+  })
 })
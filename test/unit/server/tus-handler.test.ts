@@ -0,0 +1,281 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { createApp, createError, createRouter, toWebHandler } from "h3"
+import type { StorageAdapter, UploadServerConfig } from "../../../src/runtime/server/types"
+
+let userConfig: UploadServerConfig
+
+vi.mock("#upload-kit-user-config", () => ({
+  get default() {
+    return userConfig
+  },
+}))
+
+const BASE = "http://localhost/api/_upload/tus"
+
+const stubStorage = () => ({
+  id: "stub",
+  presignUpload: vi.fn(),
+  resolveKey: vi.fn((input: { fileId: string }) => `uploads/${input.fileId}`),
+  put: vi.fn(async (input: { key: string; body: unknown }) => ({ publicUrl: `https://cdn/${input.key}` })),
+})
+
+/** Mount the tus handler the way the module does and return a fetch-style caller. */
+const mountTus = async () => {
+  const { default: handler } = await import("../../../src/runtime/server/handlers/tus")
+  const router = createRouter().use("/api/_upload/tus", handler).use("/api/_upload/tus/:uploadId", handler)
+  const app = createApp().use(router)
+  const web = toWebHandler(app)
+  return (url: string, init: RequestInit = {}) =>
+    web(new Request(url, { ...init, headers: { "Tus-Resumable": "1.0.0", ...(init.headers as Record<string, string>) } }))
+}
+
+const metadata = (name: string, type: string) =>
+  `filename ${Buffer.from(name).toString("base64")},filetype ${Buffer.from(type).toString("base64")}`
+
+const create = (call: Awaited<ReturnType<typeof mountTus>>, size: number) =>
+  call(BASE, { method: "POST", headers: { "Upload-Length": String(size), "Upload-Metadata": metadata("clip.mp4", "video/mp4") } })
+
+const patch = (call: Awaited<ReturnType<typeof mountTus>>, url: string, offset: number, body: string) =>
+  call(url, {
+    method: "PATCH",
+    headers: { "Upload-Offset": String(offset), "Content-Type": "application/offset+octet-stream" },
+    body,
+  })
+
+const png = (width: number, height: number) => {
+  const header = Buffer.alloc(33)
+  header.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+  header.writeUInt32BE(13, 8)
+  header.write("IHDR", 12)
+  header.writeUInt32BE(width, 16)
+  header.writeUInt32BE(height, 20)
+  return header
+}
+
+beforeEach(() => {
+  vi.resetModules()
+})
+
+afterEach(async () => {
+  const { __setRuntimeConfig, __resetStorage } = await import("../../fixtures/nuxt-imports")
+  __setRuntimeConfig({})
+  __resetStorage()
+})
+
+describe("tus handler", () => {
+  it("advertises the protocol on OPTIONS", async () => {
+    userConfig = { storage: stubStorage() }
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { maxFileSize: 1000 } } })
+    const call = await mountTus()
+
+    const response = await call(BASE, { method: "OPTIONS", headers: {} })
+
+    expect(response.status).toBe(204)
+    expect(response.headers.get("Tus-Version")).toBe("1.0.0")
+    expect(response.headers.get("Tus-Extension")).toBe("creation,termination")
+    expect(response.headers.get("Tus-Max-Size")).toBe("1000")
+  })
+
+  it("advertises the largest size any MIME group allows", async () => {
+    userConfig = { storage: stubStorage() }
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { maxFileSize: 1000, rules: [{ match: "video/*", maxFileSize: 5000 }] } } })
+    const call = await mountTus()
+
+    const response = await call(BASE, { method: "OPTIONS", headers: {} })
+    expect(response.headers.get("Tus-Max-Size")).toBe("5000")
+
+    __setRuntimeConfig({ uploadKit: { restrictions: { rules: [{ match: "video/*", maxFileSize: 5000 }] } } })
+    expect((await call(BASE, { method: "OPTIONS", headers: {} })).headers.get("Tus-Max-Size")).toBe(String(100 * 1024 * 1024))
+  })
+
+  it("advertises the requested profile's static restrictions without authorizing the request", async () => {
+    const authorize = vi.fn(async () => {
+      throw createError({ statusCode: 401, statusMessage: "Unauthorized" })
+    })
+    const resolveRestrictions = vi.fn(async () => ({ maxFileSize: 8000 }))
+    userConfig = { storage: stubStorage(), authorize, resolveRestrictions }
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { maxFileSize: 1000 }, profiles: { avatar: { maxFileSize: 200 } } } })
+    const call = await mountTus()
+
+    const response = await call(`${BASE}?profile=avatar`, { method: "OPTIONS", headers: {} })
+
+    expect(response.status).toBe(204)
+    expect(response.headers.get("Tus-Max-Size")).toBe("200")
+    expect(authorize).not.toHaveBeenCalled()
+    expect(resolveRestrictions).not.toHaveBeenCalled()
+  })
+
+  it("caps uploads at tusMaxSize", async () => {
+    const authorize = vi.fn(async () => ({}))
+    userConfig = { storage: stubStorage(), authorize, tusMaxSize: 8 }
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { maxFileSize: 1000 } } })
+    const call = await mountTus()
+
+    expect((await call(BASE, { method: "OPTIONS", headers: {} })).headers.get("Tus-Max-Size")).toBe("8")
+
+    const created = await create(call, 10)
+    expect(created.status).toBe(413)
+    expect(authorize).not.toHaveBeenCalled()
+    expect((await create(call, 8)).status).toBe(201)
+  })
+
+  it("creates, resumes and completes an upload through the storage adapter", async () => {
+    const storage = stubStorage()
+    const authorize = vi.fn(async () => ({ userId: "u1" }))
+    const afterUpload = vi.fn()
+    userConfig = { storage, authorize, hooks: { afterUpload } }
+    const call = await mountTus()
+
+    const created = await create(call, 10)
+    expect(created.status).toBe(201)
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), {
+      type: "direct-upload",
+      file: { name: "clip.mp4", size: 10, mimeType: "video/mp4" },
+    })
+    const location = created.headers.get("Location")!
+    expect(location).toMatch(/^\/api\/_upload\/tus\/[\w-]+$/)
+    const url = `http://localhost${location}`
+
+    const first = await patch(call, url, 0, "01234")
+    expect(first.status).toBe(204)
+    expect(first.headers.get("Upload-Offset")).toBe("5")
+
+    const head = await call(url, { method: "HEAD" })
+    expect(head.headers.get("Upload-Offset")).toBe("5")
+    expect(head.headers.get("Upload-Length")).toBe("10")
+
+    const last = await patch(call, url, 5, "56789")
+    expect(last.headers.get("Upload-Offset")).toBe("10")
+    expect(last.headers.get("Upload-Kit-Public-Url")).toBe(`https://cdn/${created.headers.get("Upload-Kit-File-Id")}`)
+
+    expect(storage.put).toHaveBeenCalledTimes(1)
+    const [input, ctx] = storage.put.mock.calls[0]! as unknown as [{ body: Buffer; contentType: string }, { auth: unknown }]
+    expect(input.body.toString()).toBe("0123456789")
+    expect(input.contentType).toBe("video/mp4")
+    expect(ctx.auth).toEqual({ userId: "u1" })
+    expect(authorize).toHaveBeenCalledTimes(1)
+    expect(afterUpload).toHaveBeenCalledWith(
+      { name: "clip.mp4", size: 10, mimeType: "video/mp4", key: created.headers.get("Upload-Kit-File-Id") },
+      expect.anything(),
+    )
+  })
+
+  it("accepts only one of two concurrent PATCHes at the same offset", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+    const call = await mountTus()
+
+    const created = await create(call, 10)
+    const url = `http://localhost${created.headers.get("Location")}`
+
+    const responses = await Promise.all([patch(call, url, 0, "01234"), patch(call, url, 0, "abcde")])
+    expect(responses.map((response) => response.status).sort()).toEqual([204, 409])
+
+    const head = await call(url, { method: "HEAD" })
+    expect(head.headers.get("Upload-Offset")).toBe("5")
+    await patch(call, url, 5, "56789")
+    const body = (storage.put.mock.calls[0]![0] as { body: Buffer }).body.toString()
+    expect(["0123456789", "abcde56789"]).toContain(body)
+  })
+
+  it("returns a file token with the final chunk under the token ownership strategy", async () => {
+    userConfig = { storage: stubStorage(), ownership: { strategy: "token", secret: "s3cret" } }
+    const call = await mountTus()
+    const { issueFileToken } = await import("../../../src/runtime/server/ownership")
+
+    const created = await create(call, 10)
+    const key = created.headers.get("Upload-Kit-File-Id")!
+    const url = `http://localhost${created.headers.get("Location")}`
+    expect(created.headers.get("Upload-Kit-File-Token")).toBeNull()
+
+    expect((await patch(call, url, 0, "01234")).headers.get("Upload-Kit-File-Token")).toBeNull()
+    const last = await patch(call, url, 5, "56789")
+    expect(last.headers.get("Upload-Kit-File-Token")).toBe(issueFileToken(userConfig, key))
+    expect((await call(url, { method: "HEAD" })).headers.get("Upload-Kit-File-Token")).toBe(issueFileToken(userConfig, key))
+  })
+
+  it("enforces restrictions at creation", async () => {
+    userConfig = { storage: stubStorage() }
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { maxFileSize: 5 } } })
+    const call = await mountTus()
+
+    const response = await create(call, 10)
+    expect(response.status).toBe(413)
+  })
+
+  it("checks image dimension restrictions on the assembled body and forgets a rejected upload", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+    const { __setRuntimeConfig } = await import("../../fixtures/nuxt-imports")
+    __setRuntimeConfig({ uploadKit: { restrictions: { aspectRatio: "16:9" } } })
+    const call = await mountTus()
+
+    const created = await call(BASE, {
+      method: "POST",
+      headers: { "Upload-Length": "33", "Upload-Metadata": metadata("banner.png", "image/png") },
+    })
+    const url = `http://localhost${created.headers.get("Location")}`
+    const response = await call(url, {
+      method: "PATCH",
+      headers: { "Upload-Offset": "0", "Content-Type": "application/offset+octet-stream" },
+      body: png(1000, 1000),
+    })
+
+    expect(response.status).toBe(422)
+    expect(await response.json()).toMatchObject({ data: { code: "aspect-ratio" } })
+    expect(storage.put).not.toHaveBeenCalled()
+    expect((await call(url, { method: "HEAD" })).status).toBe(404)
+  })
+
+  it("rejects a PATCH at the wrong offset with 409", async () => {
+    userConfig = { storage: stubStorage() }
+    const call = await mountTus()
+    const url = `http://localhost${(await create(call, 10)).headers.get("Location")}`
+
+    const response = await patch(call, url, 3, "abc")
+    expect(response.status).toBe(409)
+  })
+
+  it("rejects chunks past the declared length with 413", async () => {
+    userConfig = { storage: stubStorage() }
+    const call = await mountTus()
+    const url = `http://localhost${(await create(call, 4)).headers.get("Location")}`
+
+    const response = await patch(call, url, 0, "too long")
+    expect(response.status).toBe(413)
+  })
+
+  it("requires a supported Tus-Resumable header", async () => {
+    userConfig = { storage: stubStorage() }
+    const call = await mountTus()
+
+    const response = await call(BASE, { method: "POST", headers: { "Tus-Resumable": "0.2.2", "Upload-Length": "1" } })
+    expect(response.status).toBe(412)
+    expect(response.headers.get("Tus-Version")).toBe("1.0.0")
+  })
+
+  it("terminates an upload", async () => {
+    const storage = stubStorage()
+    userConfig = { storage }
+    const call = await mountTus()
+    const url = `http://localhost${(await create(call, 10)).headers.get("Location")}`
+
+    expect((await call(url, { method: "DELETE" })).status).toBe(204)
+    expect((await call(url, { method: "HEAD" })).status).toBe(404)
+    expect(storage.put).not.toHaveBeenCalled()
+  })
+
+  it("returns 501 when the adapter cannot put", async () => {
+    const storage: StorageAdapter = { id: "presign-only", presignUpload: vi.fn() }
+    userConfig = { storage }
+    const call = await mountTus()
+
+    expect((await create(call, 1)).status).toBe(501)
+  })
+})
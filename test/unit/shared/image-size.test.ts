@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest"
+import { readImageSize } from "../../../src/runtime/shared/image-size"
+
+const bytes = (...parts: Array<string | number[]>) =>
+  new Uint8Array(parts.flatMap((part) => (typeof part === "string" ? [...part].map((c) => c.charCodeAt(0)) : part)))
+
+const u32be = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff]
+const u16be = (n: number) => [(n >>> 8) & 0xff, n & 0xff]
+const u16le = (n: number) => [n & 0xff, (n >>> 8) & 0xff]
+const u24le = (n: number) => [n & 0xff, (n >>> 8) & 0xff, (n >>> 16) & 0xff]
+const zeros = (n: number) => Array.from({ length: n }, () => 0)
+
+const box = (type: string, ...payload: number[][]) => {
+  const body = payload.flat()
+  return [...u32be(8 + body.length), ...bytes(type), ...body]
+}
+const fullBox = (type: string, ...payload: number[][]) => box(type, [0, 0, 0, 0], ...payload)
+
+/** A JPEG with an Exif APP1 segment in `order` byte order, followed by a 1920x1080 baseline frame. */
+const exifJpeg = (order: "II" | "MM", orientation: number) => {
+  const u16 = order === "II" ? u16le : u16be
+  const u32 = order === "II" ? (n: number) => u32be(n).reverse() : u32be
+  const tiff = [
+    ...bytes(order),
+    ...u16(42),
+    ...u32(8),
+    ...u16(1),
+    ...u16(0x0112),
+    ...u16(3),
+    ...u32(1),
+    ...u16(orientation),
+    0,
+    0,
+    ...u32(0),
+  ]
+  const app1 = [0xff, 0xe1, ...u16be(2 + 6 + tiff.length), ...bytes("Exif\0\0"), ...tiff]
+  const sof0 = [0xff, 0xc0, 0x00, 0x11, 0x08, 0x04, 0x38, 0x07, 0x80, 0x03]
+  return bytes([0xff, 0xd8], app1, sof0, zeros(12))
+}
+
+describe("readImageSize", () => {
+  it("reads PNG dimensions from IHDR", () => {
+    const png = bytes([0x89], "PNG\r\n\x1A\n", u32be(13), "IHDR", u32be(640), u32be(480), [8, 6, 0, 0, 0])
+    expect(readImageSize(png)).toEqual({ width: 640, height: 480, format: "png" })
+  })
+
+  it("reads GIF dimensions from the logical screen descriptor", () => {
+    const gif = bytes("GIF89a", u16le(320), u16le(200), [0, 0, 0, 0])
+    expect(readImageSize(gif)).toEqual({ width: 320, height: 200, format: "gif" })
+  })
+
+  it("skips JPEG segments up to the start-of-frame", () => {
+    const app0 = [0xff, 0xe0, 0x00, 0x06, ...bytes("JFIF")]
+    const sof2 = [0xff, 0xc2, 0x00, 0x11, 0x08, 0x04, 0x38, 0x07, 0x80, 0x03]
+    const jpeg = bytes([0xff, 0xd8], app0, sof2, zeros(12))
+    expect(readImageSize(jpeg)).toEqual({ width: 1920, height: 1080, format: "jpeg" })
+  })
+
+  it("reads lossy, lossless and extended WebP headers", () => {
+    const riff = (chunk: string, payload: number[]) => bytes("RIFF", u32be(0), "WEBP", chunk, u32be(0), payload)
+
+    const lossy = riff("VP8 ", [0, 0, 0, 0x9d, 0x01, 0x2a, ...u16le(800), ...u16le(600), 0, 0])
+    expect(readImageSize(lossy)).toEqual({ width: 800, height: 600, format: "webp" })
+
+    // 14-bit width-1 and height-1, packed little-endian after the 0x2f signature.
+    const w = 99
+    const h = 49
+    const packed = w | (h << 14)
+    const lossless = riff("VP8L", [0x2f, ...u24le(packed), packed >>> 24, 0, 0, 0, 0, 0])
+    expect(readImageSize(lossless)).toEqual({ width: 100, height: 50, format: "webp" })
+
+    const extended = riff("VP8X", [0, 0, 0, 0, ...u24le(4095), ...u24le(2047), 0])
+    expect(readImageSize(extended)).toEqual({ width: 4096, height: 2048, format: "webp" })
+  })
+
+  it("swaps JPEG width and height for EXIF orientations that turn the image", () => {
+    expect(readImageSize(exifJpeg("MM", 6))).toEqual({ width: 1080, height: 1920, format: "jpeg" })
+    expect(readImageSize(exifJpeg("II", 8))).toEqual({ width: 1080, height: 1920, format: "jpeg" })
+    expect(readImageSize(exifJpeg("II", 3))).toEqual({ width: 1920, height: 1080, format: "jpeg" })
+  })
+
+  it("reads AVIF dimensions from the primary item's ispe property, not a thumbnail's", () => {
+    const ftyp = (major: string, ...compatible: string[]) =>
+      box("ftyp", [...bytes(major)], u32be(0), ...compatible.map((b) => [...bytes(b)]))
+    // Item 1 is a 160x120 thumbnail listed first; item 2 is the primary 1200x800 image.
+    const meta = (...extraProperties: number[][]) =>
+      fullBox(
+        "meta",
+        fullBox("hdlr", u32be(0), [...bytes("pict")], zeros(13)),
+        fullBox("pitm", u16be(2)),
+        box(
+          "iprp",
+          box("ipco", fullBox("ispe", u32be(160), u32be(120)), fullBox("ispe", u32be(1200), u32be(800)), ...extraProperties),
+          fullBox("ipma", u32be(2), u16be(1), [1, 0x81], u16be(2), extraProperties.length ? [2, 0x82, 0x83] : [1, 0x82]),
+        ),
+      )
+
+    expect(readImageSize(bytes(ftyp("avif", "mif1"), meta()))).toEqual({ width: 1200, height: 800, format: "avif" })
+    expect(readImageSize(bytes(ftyp("mif1", "avif", "miaf"), meta()))).toEqual({ width: 1200, height: 800, format: "avif" })
+    expect(readImageSize(bytes(ftyp("avif"), meta(box("irot", [1]))))).toEqual({ width: 800, height: 1200, format: "avif" })
+    expect(readImageSize(bytes(ftyp("mif1", "heic"), meta()))).toBeUndefined()
+  })
+
+  it("returns undefined for other formats and truncated headers", () => {
+    expect(readImageSize(bytes("%PDF-1.7 not an image"))).toBeUndefined()
+    expect(readImageSize(bytes([0x89], "PNG\r\n\x1A\n", u32be(13)))).toBeUndefined()
+    expect(readImageSize(bytes([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10], zeros(8)))).toBeUndefined()
+  })
+})
@@ -1,7 +1,14 @@
 import { describe, expect, it } from "vitest"
-import { applyRestrictions } from "../../../../src/runtime/shared/rules/apply"
+import {
+  applyFileRestrictions,
+  applyImageRestrictions,
+  applyRestrictions,
+  hasImageRestrictions,
+} from "../../../../src/runtime/shared/rules/apply"
 
-const file = (overrides: Partial<{ name: string; size: number; type: string }> = {}) => ({
+const file = (
+  overrides: Partial<{ name: string; size: number; type: string; dimensions: { width: number; height: number } }> = {},
+) => ({
   name: "f.jpg",
   size: 1000,
   type: "image/jpeg",
@@ -54,4 +61,79 @@ describe("applyRestrictions", () => {
     const v = applyRestrictions(file({ size: 500 }), { existingCount: 1, existingTotalSize: 700 }, { maxTotalSize: 1000 })
     expect(v?.code).toBe("max-total-size")
   })
+
+  describe("rules", () => {
+    const restrictions = {
+      maxFileSize: 100,
+      minFileSize: 10,
+      rules: [
+        { match: "image/*", maxFileSize: 1000 },
+        { match: "video/*", maxFileSize: 5000, minFileSize: 2000 },
+        { match: "application/pdf", minFileSize: 50 },
+      ],
+    }
+
+    it("applies the limits of the first matching group", () => {
+      expect(applyRestrictions(file({ size: 900 }), ctx, restrictions)).toBeNull()
+      expect(applyRestrictions(file({ size: 4000, type: "video/mp4" }), ctx, restrictions)).toBeNull()
+
+      const v = applyRestrictions(file({ size: 6000, type: "video/mp4" }), ctx, restrictions)
+      expect(v?.code).toBe("max-file-size")
+      expect(v?.message).toContain("exceeds the 5000-byte limit for video/*")
+      expect(v?.meta).toMatchObject({ maxBytes: 5000, group: "video/*" })
+
+      expect(applyRestrictions(file({ size: 1500, type: "video/mp4" }), ctx, restrictions)?.meta).toMatchObject({
+        minBytes: 2000,
+        group: "video/*",
+      })
+    })
+
+    it("falls back to the top-level limits a group leaves out, and for unmatched files", () => {
+      const pdf = applyRestrictions(file({ size: 500, type: "application/pdf" }), ctx, restrictions)
+      expect(pdf?.meta).toEqual({ maxBytes: 100, actual: 500, fileName: "f.jpg" })
+      expect(applyRestrictions(file({ size: 20, type: "application/pdf" }), ctx, restrictions)?.meta).toMatchObject({
+        minBytes: 50,
+        group: "application/pdf",
+      })
+      expect(applyRestrictions(file({ size: 500, type: "audio/mpeg" }), ctx, restrictions)?.code).toBe("max-file-size")
+    })
+
+    it("are applied by applyFileRestrictions too", () => {
+      expect(applyFileRestrictions(file({ size: 900 }), restrictions)).toBeNull()
+      expect(applyFileRestrictions(file({ size: 6000, type: "video/mp4" }), restrictions)?.meta).toMatchObject({
+        group: "video/*",
+      })
+    })
+  })
+
+  describe("image dimensions", () => {
+    const restrictions = { maxFileSize: 100, minWidth: 400, aspectRatio: 1, maxMegapixels: 1 }
+
+    it("are checked after the size and type rules, and only when the dimensions are known", () => {
+      expect(applyRestrictions(file({ size: 50 }), ctx, restrictions)).toBeNull()
+      expect(applyRestrictions(file({ size: 500, dimensions: { width: 10, height: 10 } }), ctx, restrictions)?.code).toBe(
+        "max-file-size",
+      )
+      expect(applyRestrictions(file({ size: 50, dimensions: { width: 300, height: 300 } }), ctx, restrictions)?.code).toBe(
+        "min-image-dimensions",
+      )
+      expect(applyFileRestrictions(file({ size: 50, dimensions: { width: 800, height: 600 } }), restrictions)?.code).toBe(
+        "aspect-ratio",
+      )
+    })
+
+    it("applyImageRestrictions runs only the image rules", () => {
+      expect(applyImageRestrictions(file({ size: 500, dimensions: { width: 500, height: 500 } }), restrictions)).toBeNull()
+      expect(applyImageRestrictions(file({ dimensions: { width: 2000, height: 2000 } }), restrictions)?.code).toBe(
+        "max-megapixels",
+      )
+    })
+
+    it("hasImageRestrictions reports whether any image limit is set", () => {
+      expect(hasImageRestrictions(undefined)).toBe(false)
+      expect(hasImageRestrictions({ maxFileSize: 100 })).toBe(false)
+      expect(hasImageRestrictions({ maxHeight: 1080 })).toBe(true)
+      expect(hasImageRestrictions({ aspectRatio: "16:9" })).toBe(true)
+    })
+  })
 })
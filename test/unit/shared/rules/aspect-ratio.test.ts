@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest"
+import { aspectRatioRule } from "../../../../src/runtime/shared/rules/aspect-ratio"
+
+const file = (width: number, height: number) => ({ name: "f.png", size: 1000, type: "image/png", dimensions: { width, height } })
+const ctx = { existingCount: 0, existingTotalSize: 0 }
+
+describe("aspectRatioRule", () => {
+  it("returns null when unset, unparsable, or the dimensions are unknown", () => {
+    expect(aspectRatioRule(undefined)(file(100, 10), ctx)).toBeNull()
+    expect(aspectRatioRule("wide")(file(100, 10), ctx)).toBeNull()
+    expect(aspectRatioRule(1)({ name: "f.png", size: 1000, type: "image/png" }, ctx)).toBeNull()
+  })
+
+  it("accepts a number or a width:height string", () => {
+    expect(aspectRatioRule(1)(file(512, 512), ctx)).toBeNull()
+    expect(aspectRatioRule("16:9")(file(1920, 1080), ctx)).toBeNull()
+  })
+
+  it("tolerates dimensions rounded to whole pixels", () => {
+    expect(aspectRatioRule("16:9")(file(1366, 768), ctx)).toBeNull()
+  })
+
+  it("returns violation when the ratio differs", () => {
+    const v = aspectRatioRule("16:9")(file(1000, 1000), ctx)
+    expect(v?.code).toBe("aspect-ratio")
+    expect(v?.message).toContain("does not have the required 16:9 aspect ratio")
+    expect(v?.meta).toMatchObject({ aspectRatio: "16:9", actual: 1, width: 1000, height: 1000 })
+  })
+})
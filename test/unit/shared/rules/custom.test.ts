@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type * as Shared from "../../../../src/runtime/shared"
+
+let shared: typeof Shared
+
+const file = (overrides: Partial<{ name: string; size: number; type: string }> = {}) => ({
+  name: "holiday photo.jpg",
+  size: 1000,
+  type: "image/jpeg",
+  ...overrides,
+})
+const ctx = { existingCount: 0, existingTotalSize: 0 }
+
+beforeEach(async () => {
+  vi.resetModules()
+  shared = await import("../../../../src/runtime/shared")
+})
+
+describe("defineUploadRule", () => {
+  it("runs registered rules enabled in restrictions.custom, with their options", () => {
+    const validate = vi.fn((f: { name: string }, max: number) => (f.name.length > max ? `Name is over ${max} characters.` : null))
+    shared.defineUploadRule<number>({ name: "max-name-length", validate })
+
+    expect(shared.applyRestrictions(file(), ctx, { custom: { "max-name-length": 50 } })).toBeNull()
+    expect(shared.applyRestrictions(file(), ctx, { custom: { "max-name-length": 5 } })).toEqual({
+      code: "max-name-length",
+      message: "Name is over 5 characters.",
+      meta: { fileName: "holiday photo.jpg" },
+    })
+    expect(validate).toHaveBeenLastCalledWith(file(), 5, ctx)
+  })
+
+  it("reports meta, runs after the built-in rules, and in both apply functions", () => {
+    shared.defineUploadRule({
+      name: "no-spaces",
+      validate: (f) => (f.name.includes(" ") ? { message: "No spaces.", meta: { at: f.name.indexOf(" ") } } : null),
+    })
+
+    const restrictions = { maxFileSize: 10, custom: { "no-spaces": true } }
+    expect(shared.applyRestrictions(file(), ctx, restrictions)?.code).toBe("max-file-size")
+    expect(shared.applyFileRestrictions(file({ size: 1 }), restrictions)).toEqual({
+      code: "no-spaces",
+      message: "No spaces.",
+      meta: { fileName: "holiday photo.jpg", at: 7 },
+    })
+  })
+
+  it("skips rules set to false", () => {
+    shared.defineUploadRule({ name: "never", validate: () => "always fails" })
+    expect(shared.applyFileRestrictions(file(), { custom: { never: false } })).toBeNull()
+  })
+
+  it("throws for a rule that was never registered", () => {
+    expect(() => shared.applyFileRestrictions(file(), { custom: { missing: true } })).toThrow(/Unknown upload rule "missing"/)
+  })
+
+  it("refuses to redefine a built-in restriction", () => {
+    expect(() => shared.defineUploadRule({ name: "max-file-size", validate: () => null })).toThrow(/built-in/)
+  })
+})
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest"
+import { maxImageDimensionsRule } from "../../../../src/runtime/shared/rules/max-image-dimensions"
+
+const file = (width: number, height: number) => ({ name: "f.png", size: 1000, type: "image/png", dimensions: { width, height } })
+const ctx = { existingCount: 0, existingTotalSize: 0 }
+
+describe("maxImageDimensionsRule", () => {
+  it("returns null when no maximum is set or the dimensions are unknown", () => {
+    expect(maxImageDimensionsRule(undefined, undefined)(file(9000, 9000), ctx)).toBeNull()
+    expect(maxImageDimensionsRule(100, 100)({ name: "f.png", size: 1000, type: "image/png" }, ctx)).toBeNull()
+  })
+
+  it("returns null when at or below the maximum", () => {
+    expect(maxImageDimensionsRule(1920, 1080)(file(1920, 1080), ctx)).toBeNull()
+    expect(maxImageDimensionsRule(undefined, 1080)(file(5000, 1000), ctx)).toBeNull()
+  })
+
+  it("returns violation when either side exceeds its maximum", () => {
+    const v = maxImageDimensionsRule(1920, 1080)(file(1920, 1200), ctx)
+    expect(v?.code).toBe("max-image-dimensions")
+    expect(v?.message).toContain("(1920×1200) exceeds the maximum of 1920×1080 pixels")
+    expect(v?.meta).toEqual({ maxWidth: 1920, maxHeight: 1080, width: 1920, height: 1200, fileName: "f.png" })
+  })
+})
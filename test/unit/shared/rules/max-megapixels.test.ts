@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+import { maxMegapixelsRule } from "../../../../src/runtime/shared/rules/max-megapixels"
+
+const file = (width: number, height: number) => ({ name: "f.png", size: 1000, type: "image/png", dimensions: { width, height } })
+const ctx = { existingCount: 0, existingTotalSize: 0 }
+
+describe("maxMegapixelsRule", () => {
+  it("returns null when unset or the dimensions are unknown", () => {
+    expect(maxMegapixelsRule(undefined)(file(10_000, 10_000), ctx)).toBeNull()
+    expect(maxMegapixelsRule(1)({ name: "f.png", size: 1000, type: "image/png" }, ctx)).toBeNull()
+  })
+
+  it("returns null when at or below the limit", () => {
+    expect(maxMegapixelsRule(2)(file(2000, 1000), ctx)).toBeNull()
+  })
+
+  it("returns violation when the area exceeds the limit", () => {
+    const v = maxMegapixelsRule(12)(file(4000, 4000), ctx)
+    expect(v?.code).toBe("max-megapixels")
+    expect(v?.meta).toEqual({ maxMegapixels: 12, actual: 16, width: 4000, height: 4000, fileName: "f.png" })
+  })
+})
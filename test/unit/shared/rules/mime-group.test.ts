@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest"
+import { matchRestrictionRule, restrictionRuleGroup } from "../../../../src/runtime/shared/rules/mime-group"
+
+const file = (type: string) => ({ name: "f", size: 1, type })
+
+describe("matchRestrictionRule", () => {
+  const rules = [
+    { match: "video/mp4", maxFileSize: 1 },
+    { match: "video/*", maxFileSize: 2 },
+    { match: ["application/pdf", "text/*"], maxFileSize: 3 },
+  ]
+
+  it("returns the first rule whose pattern matches", () => {
+    expect(matchRestrictionRule(file("video/mp4"), rules)).toBe(rules[0])
+    expect(matchRestrictionRule(file("video/webm"), rules)).toBe(rules[1])
+    expect(matchRestrictionRule(file("text/plain"), rules)).toBe(rules[2])
+  })
+
+  it("returns undefined without a match or rules", () => {
+    expect(matchRestrictionRule(file("image/png"), rules)).toBeUndefined()
+    expect(matchRestrictionRule(file("image/png"), undefined)).toBeUndefined()
+  })
+
+  it("names the group after its patterns", () => {
+    expect(restrictionRuleGroup(rules[1]!)).toBe("video/*")
+    expect(restrictionRuleGroup(rules[2]!)).toBe("application/pdf, text/*")
+  })
+})
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+import { minImageDimensionsRule } from "../../../../src/runtime/shared/rules/min-image-dimensions"
+
+const file = (width: number, height: number) => ({ name: "f.png", size: 1000, type: "image/png", dimensions: { width, height } })
+const ctx = { existingCount: 0, existingTotalSize: 0 }
+
+describe("minImageDimensionsRule", () => {
+  it("returns null when no minimum is set or the dimensions are unknown", () => {
+    expect(minImageDimensionsRule(undefined, undefined)(file(10, 10), ctx)).toBeNull()
+    expect(minImageDimensionsRule(100, 100)({ name: "f.png", size: 1000, type: "image/png" }, ctx)).toBeNull()
+  })
+
+  it("returns null when at or above the minimum", () => {
+    expect(minImageDimensionsRule(100, 50)(file(100, 50), ctx)).toBeNull()
+    expect(minImageDimensionsRule(100, undefined)(file(400, 1), ctx)).toBeNull()
+  })
+
+  it("returns violation when either side is below its minimum", () => {
+    const v = minImageDimensionsRule(100, 50)(file(200, 40), ctx)
+    expect(v?.code).toBe("min-image-dimensions")
+    expect(v?.message).toContain("(200×40) is below the minimum of 100×50 pixels")
+    expect(v?.meta).toEqual({ minWidth: 100, minHeight: 50, width: 200, height: 40, fileName: "f.png" })
+    expect(minImageDimensionsRule(100, undefined)(file(99, 1000), ctx)?.code).toBe("min-image-dimensions")
+  })
+})
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from "vitest"
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
 import { ref } from "vue"
 import { createMockFile, wait, createMockStoragePlugin } from "../helpers"
 import type { ProcessingPlugin, StoragePlugin } from "../../src/runtime/composables/useUploadKit/types"
@@ -43,7 +43,7 @@ describe("useUploadKit", () => {
 
       expect(uploader.files.value).toEqual([])
       expect(uploader.totalProgress.value).toBe(0)
-      expect(uploader.status.value).toBe("waiting")
+      expect(uploader.status.value).toBe("idle")
     })
 
     it("should initialize with custom options", () => {
@@ -60,6 +60,150 @@ describe("useUploadKit", () => {
     })
   })
 
+  describe("profile", () => {
+    afterEach(async () => {
+      const { __setRuntimeConfig } = await import("../fixtures/nuxt-imports")
+      __setRuntimeConfig({})
+    })
+
+    it("layers the profile over the shared restrictions, below per-instance overrides", async () => {
+      const { __setRuntimeConfig } = await import("../fixtures/nuxt-imports")
+      __setRuntimeConfig({
+        uploadKit: {
+          restrictions: { maxFileSize: 1000, allowedMimeTypes: ["image/*"] },
+          profiles: { avatar: { maxFileSize: 100, maxFiles: 1 } },
+        },
+      })
+      const storage = createMockStoragePlugin()
+
+      const avatar = useUploadKit({ storage, profile: "avatar" })
+      await expect(avatar.addFile(createMockFile("big.jpg", 500, "image/jpeg"))).rejects.toThrow("exceeds the 100-byte limit")
+      await expect(
+        useUploadKit({ storage, profile: "avatar" }).addFile(createMockFile("doc.pdf", 50, "application/pdf")),
+      ).rejects.toThrow()
+
+      const overridden = useUploadKit({ storage, profile: "avatar", restrictions: { maxFileSize: 800 } })
+      await overridden.addFile(createMockFile("big.jpg", 500, "image/jpeg"))
+      await expect(overridden.addFile(createMockFile("second.jpg", 50, "image/jpeg"))).rejects.toThrow("Maximum number of files")
+    })
+
+    it("throws for a profile that isn't configured", () => {
+      expect(() => useUploadKit({ profile: "avatar" })).toThrow(/Unknown restriction profile "avatar"/)
+    })
+  })
+
+  describe("custom rules", () => {
+    afterEach(async () => {
+      const { __setRuntimeConfig } = await import("../fixtures/nuxt-imports")
+      __setRuntimeConfig({})
+    })
+
+    it("runs rules registered with defineUploadRule when a file is added", async () => {
+      const { defineUploadRule } = await import("../../src/runtime/shared")
+      defineUploadRule<number>({
+        name: "max-name-length",
+        validate: (file, max) => (file.name.length > max ? `"${file.name}" is too long.` : null),
+      })
+      const { __setRuntimeConfig } = await import("../fixtures/nuxt-imports")
+      __setRuntimeConfig({ uploadKit: { restrictions: { custom: { "max-name-length": 8 } } } })
+
+      const uploader = useUploadKit({ storage: createMockStoragePlugin() })
+      await uploader.addFile(createMockFile("a.jpg", 10, "image/jpeg"))
+      await expect(uploader.addFile(createMockFile("long-name.jpg", 10, "image/jpeg"))).rejects.toMatchObject({
+        message: '"long-name.jpg" is too long.',
+        details: { code: "max-name-length" },
+      })
+    })
+  })
+
+  describe("image restrictions", () => {
+    const png = (name: string, width: number, height: number) => {
+      const header = new Uint8Array(33)
+      const view = new DataView(header.buffer)
+      header.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+      view.setUint32(8, 13)
+      header.set([0x49, 0x48, 0x44, 0x52], 12)
+      view.setUint32(16, width)
+      view.setUint32(20, height)
+      return new File([header], name, { type: "image/png" })
+    }
+
+    it("checks the dimensions read from the image header before preprocessing", async () => {
+      const preprocess = vi.fn((file) => file)
+      const preprocessor: ProcessingPlugin = { id: "preprocessor", hooks: { preprocess } }
+      const uploader = useUploadKit({
+        storage: createMockStoragePlugin(),
+        restrictions: { minWidth: 256, aspectRatio: "1:1" },
+        plugins: [preprocessor],
+      })
+
+      await expect(uploader.addFile(png("small.png", 128, 128))).rejects.toMatchObject({
+        details: { code: "min-image-dimensions", width: 128, height: 128, minWidth: 256 },
+      })
+      await expect(uploader.addFile(png("wide.png", 512, 256))).rejects.toMatchObject({
+        details: { code: "aspect-ratio" },
+      })
+      expect(preprocess).not.toHaveBeenCalled()
+
+      await uploader.addFile(png("avatar.png", 512, 512))
+      await uploader.addFile(createMockFile("notes.txt", 10, "text/plain"))
+      expect(preprocess).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe("dynamic restrictions", () => {
+    const originalFetch = globalThis.fetch
+
+    afterEach(async () => {
+      globalThis.fetch = originalFetch
+      const { __setRuntimeConfig } = await import("../fixtures/nuxt-imports")
+      __setRuntimeConfig({})
+    })
+
+    it("fetches the caller's restrictions from /config before checking the first file", async () => {
+      const { __setRuntimeConfig } = await import("../fixtures/nuxt-imports")
+      __setRuntimeConfig({
+        uploadKit: {
+          handlerRoute: "/api/files",
+          restrictions: { maxFileSize: 100 },
+          profiles: { video: {} },
+          dynamicRestrictions: true,
+        },
+      })
+      const fetchMock = vi.fn(async () => Response.json({ restrictions: { maxFileSize: 1000, maxFiles: 2 } }))
+      globalThis.fetch = fetchMock as unknown as typeof fetch
+
+      const uploader = useUploadKit({ storage: createMockStoragePlugin(), profile: "video", restrictions: { maxFiles: 3 } })
+      expect(fetchMock).not.toHaveBeenCalled()
+
+      await uploader.addFile(createMockFile("a.mp4", 500, "video/mp4"))
+      await uploader.addFile(createMockFile("b.mp4", 500, "video/mp4"))
+      await expect(uploader.addFile(createMockFile("c.mp4", 1500, "video/mp4"))).rejects.toThrow("exceeds the 1000-byte limit")
+      // `maxFiles` passed to useUploadKit still overrides the server's value.
+      await expect(uploader.addFile(createMockFile("d.mp4", 500, "video/mp4"))).rejects.toThrow("Maximum number of files (3)")
+
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(fetchMock).toHaveBeenCalledWith("/api/files/config?profile=video")
+    })
+
+    it("keeps the static restrictions when /config fails, and retries on the next add", async () => {
+      const { __setRuntimeConfig } = await import("../fixtures/nuxt-imports")
+      __setRuntimeConfig({ uploadKit: { restrictions: { maxFileSize: 100 }, dynamicRestrictions: true } })
+      const fetchMock = vi.fn(async () => new Response("down", { status: 503 }))
+      globalThis.fetch = fetchMock as unknown as typeof fetch
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+
+      const uploader = useUploadKit({ storage: createMockStoragePlugin() })
+      await expect(uploader.addFile(createMockFile("a.jpg", 500, "image/jpeg"))).rejects.toThrow("exceeds the 100-byte limit")
+      await expect(uploader.addFile(createMockFile("b.jpg", 500, "image/jpeg"))).rejects.toThrow()
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(fetchMock).toHaveBeenCalledWith("/api/_upload/config")
+      expect(warn).toHaveBeenCalled()
+      warn.mockRestore()
+    })
+  })
+
   describe("addFile", () => {
     it("should add a valid file successfully", async () => {
       const uploader = useUploadKit()
@@ -642,13 +786,37 @@ describe("useUploadKit", () => {
     })
 
     it("falls back to the built-in presigned-http transport when no storage is provided", async () => {
-      // Stub fetch so the default transport's call to /api/_upload/presign is observable
-      // without needing a real Nitro server in the unit test environment.
-      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
-        new Response(JSON.stringify({ uploadUrl: "https://signed.example/u", publicUrl: "https://cdn.example/f", fileId: "f" }), {
-          status: 200,
-          headers: { "Content-Type": "application/json" },
-        }),
+      // Stub fetch and XHR so the default transport's /presign, PUT and /complete are observable
+      // without a Nitro server or any network access.
+      const fetchSpy = vi
+        .spyOn(globalThis, "fetch")
+        .mockImplementation(async (url) =>
+          String(url).endsWith("/presign")
+            ? new Response(
+                JSON.stringify({ uploadUrl: "https://signed.example/u", publicUrl: "https://cdn.example/f", fileId: "f" }),
+              )
+            : new Response(JSON.stringify({ fileId: "f" })),
+        )
+      const open = vi.fn()
+      vi.stubGlobal(
+        "XMLHttpRequest",
+        class {
+          upload = { addEventListener: () => {} }
+          status = 200
+          statusText = "OK"
+          private listeners: Record<string, () => void> = {}
+          addEventListener(event: string, listener: () => void) {
+            this.listeners[event] = listener
+          }
+          open = open
+          setRequestHeader() {}
+          getResponseHeader() {
+            return null
+          }
+          send() {
+            queueMicrotask(() => this.listeners.load?.())
+          }
+        },
       )
 
       try {
@@ -657,11 +825,12 @@ describe("useUploadKit", () => {
         await uploader.upload()
 
         expect(fetchSpy).toHaveBeenCalledWith("/api/_upload/presign", expect.objectContaining({ method: "POST" }))
-        // PUT to the signed URL fails in happy-dom (no XHR target) — the file ends in 'error',
-        // proving the default transport actually attempted the upload after presign.
-        expect(["error", "complete"]).toContain(uploader.files.value[0]!.status)
+        expect(open).toHaveBeenCalledWith("PUT", "https://signed.example/u")
+        expect(fetchSpy).toHaveBeenCalledWith("/api/_upload/complete", expect.objectContaining({ method: "POST" }))
+        expect(uploader.files.value[0]!.status).toBe("complete")
       } finally {
         fetchSpy.mockRestore()
+        vi.unstubAllGlobals()
       }
     })
 
@@ -768,9 +937,10 @@ describe("useUploadKit", () => {
         // files:uploaded fires once total (guarded by hasEmittedFilesUploaded)
         expect(filesUploadedHandler).toHaveBeenCalledTimes(1)
 
-        // upload:complete fires per upload() call (current behavior) — second call emits with the
-        // already-complete files list even though no new work happened
+        // upload:complete fires per upload() call, with only the files that call uploaded
         expect(completeHandler).toHaveBeenCalledTimes(2)
+        expect(completeHandler.mock.calls[0]![0]).toHaveLength(2)
+        expect(completeHandler.mock.calls[1]![0]).toEqual([])
       })
 
       it("should upload each file exactly once even when upload() is called back-to-back without awaiting (#169)", async () => {
@@ -894,6 +1064,726 @@ describe("useUploadKit", () => {
     })
   })
 
+  describe("status", () => {
+    it("should move through processing and uploading to completed", async () => {
+      let finishUpload!: () => void
+      let finishProcess!: () => void
+      const storage = createMockStoragePlugin({
+        uploadFn: () =>
+          new Promise((resolve) => {
+            finishUpload = () => resolve({ url: "https://example.com/a.jpg" })
+          }),
+      })
+      const processor: ProcessingPlugin = {
+        id: "slow-processor",
+        hooks: {
+          process: (file) =>
+            new Promise((resolve) => {
+              finishProcess = () => resolve(file)
+            }),
+        },
+      }
+      const uploader = useUploadKit({ storage, plugins: [processor] })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      const uploadPromise = uploader.upload()
+      await wait(10)
+      expect(uploader.status.value).toBe("processing")
+
+      finishProcess()
+      await wait(10)
+      expect(uploader.status.value).toBe("uploading")
+
+      finishUpload()
+      await uploadPromise
+      expect(uploader.status.value).toBe("completed")
+    })
+
+    it("should end in completed-with-errors when a file fails", async () => {
+      let calls = 0
+      const storage = createMockStoragePlugin({
+        uploadFn: async () => {
+          if (++calls === 1) throw new Error("Network error")
+          return { url: "https://example.com/file.jpg" }
+        },
+      })
+      const uploader = useUploadKit({ storage })
+
+      await uploader.addFiles([createMockFile("a.jpg"), createMockFile("b.jpg")])
+      await uploader.upload()
+
+      expect(uploader.status.value).toBe("completed-with-errors")
+      expect(uploader.failedCount.value).toBe(1)
+      expect(uploader.completedCount.value).toBe(1)
+      expect(uploader.pendingCount.value).toBe(0)
+    })
+
+    it("should end in completed when the other files of the batch were cancelled", async () => {
+      const storage = createMockStoragePlugin({
+        uploadFn: async (file) => {
+          if (file.name === "b.jpg") await wait(50)
+          return { url: "https://example.com/file.jpg" }
+        },
+      })
+      const uploader = useUploadKit({ storage })
+
+      await uploader.addFiles([createMockFile("a.jpg"), createMockFile("b.jpg")])
+      const uploadPromise = uploader.upload()
+      await wait(10)
+      uploader.cancelFile(uploader.files.value[1]!.id)
+      await uploadPromise
+
+      expect(uploader.files.value.map((f) => f.status)).toEqual(["complete", "cancelled"])
+      expect(uploader.status.value).toBe("completed")
+    })
+
+    it("should go back to idle when new files are added after completion", async () => {
+      const storage = createMockStoragePlugin()
+      const uploader = useUploadKit({ storage })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      await uploader.upload()
+      expect(uploader.status.value).toBe("completed")
+
+      await uploader.addFile(createMockFile("b.jpg"))
+      expect(uploader.status.value).toBe("idle")
+      expect(uploader.pendingCount.value).toBe(1)
+    })
+
+    it("should not report completed for files that were never uploaded in this session", async () => {
+      const uploader = useUploadKit({ storage: createMockStoragePlugin() })
+
+      await uploader.addExistingFiles([{ storageKey: "uploads/a.jpg" }])
+      expect(uploader.completedCount.value).toBe(1)
+
+      expect(uploader.status.value).toBe("idle")
+    })
+
+    it("should reach a terminal status when upload() has nothing left to upload", async () => {
+      const uploader = useUploadKit({ storage: createMockStoragePlugin() })
+      await uploader.upload()
+      expect(uploader.status.value).toBe("idle")
+
+      await uploader.addExistingFiles([{ storageKey: "uploads/a.jpg" }])
+      await uploader.upload()
+      expect(uploader.status.value).toBe("completed")
+    })
+
+    it("should report completed-with-errors when every file was rejected", async () => {
+      const uploader = useUploadKit({ storage: createMockStoragePlugin(), restrictions: { maxFileSize: 1 } })
+
+      await expect(uploader.addFile(createMockFile("big.jpg", 100))).rejects.toBeDefined()
+      expect(uploader.status.value).toBe("idle")
+
+      await uploader.upload()
+      expect(uploader.status.value).toBe("completed-with-errors")
+    })
+
+    it("should return to idle on reset", async () => {
+      const storage = createMockStoragePlugin()
+      const uploader = useUploadKit({ storage })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      await uploader.upload()
+      uploader.reset()
+
+      expect(uploader.status.value).toBe("idle")
+    })
+  })
+
+  describe("concurrency", () => {
+    const deferredUpload = () => {
+      const started: string[] = []
+      const pending = new Map<string, () => void>()
+      const storage = createMockStoragePlugin({
+        uploadFn: (file) =>
+          new Promise((resolve) => {
+            started.push(file.name)
+            pending.set(file.name, () => resolve({ url: `https://example.com/${file.name}` }))
+          }),
+      })
+      const finish = (name: string) => pending.get(name)!()
+      return { storage, started, finish }
+    }
+
+    it("should upload one file at a time by default", async () => {
+      const { storage, started, finish } = deferredUpload()
+      const uploader = useUploadKit({ storage })
+
+      await uploader.addFiles([createMockFile("a.jpg"), createMockFile("b.jpg")])
+      const uploadPromise = uploader.upload()
+      await wait(10)
+      expect(started).toEqual(["a.jpg"])
+
+      finish("a.jpg")
+      await wait(10)
+      finish("b.jpg")
+      await uploadPromise
+
+      expect(started).toEqual(["a.jpg", "b.jpg"])
+    })
+
+    it("should run up to `concurrency` uploads in parallel", async () => {
+      const { storage, started, finish } = deferredUpload()
+      const uploader = useUploadKit({ storage, concurrency: 2 })
+
+      await uploader.addFiles([createMockFile("a.jpg"), createMockFile("b.jpg"), createMockFile("c.jpg")])
+      const uploadPromise = uploader.upload()
+      await wait(10)
+      expect(started).toEqual(["a.jpg", "b.jpg"])
+
+      finish("b.jpg")
+      await wait(10)
+      expect(started).toEqual(["a.jpg", "b.jpg", "c.jpg"])
+
+      finish("a.jpg")
+      finish("c.jpg")
+      await uploadPromise
+
+      expect(uploader.files.value.every((f) => f.status === "complete")).toBe(true)
+    })
+
+    it("should start higher-priority files first", async () => {
+      const { storage, started, finish } = deferredUpload()
+      const uploader = useUploadKit({ storage })
+
+      await uploader.addFile(createMockFile("low.jpg"))
+      await uploader.addFile(createMockFile("high.jpg"), { priority: 10 })
+      await uploader.addFile(createMockFile("mid.jpg"))
+      uploader.setFilePriority(uploader.files.value[2]!.id, 5)
+
+      const uploadPromise = uploader.upload()
+      for (const name of ["high.jpg", "mid.jpg", "low.jpg"]) {
+        await wait(10)
+        finish(name)
+      }
+      await uploadPromise
+
+      expect(started).toEqual(["high.jpg", "mid.jpg", "low.jpg"])
+    })
+
+    it("should process the next file while the current one uploads", async () => {
+      const { storage, finish } = deferredUpload()
+      const processed: string[] = []
+      const processor: ProcessingPlugin = {
+        id: "recorder",
+        hooks: {
+          process: async (file) => {
+            processed.push(file.name)
+            return file
+          },
+        },
+      }
+      const uploader = useUploadKit({ storage, plugins: [processor] })
+
+      await uploader.addFiles([createMockFile("a.jpg"), createMockFile("b.jpg")])
+      const uploadPromise = uploader.upload()
+      await wait(10)
+
+      // a.jpg is still uploading, b.jpg has already been processed
+      expect(processed).toEqual(["a.jpg", "b.jpg"])
+
+      finish("a.jpg")
+      await wait(10)
+      finish("b.jpg")
+      await uploadPromise
+    })
+
+    it("should emit files:uploaded once when batches finish out of order", async () => {
+      const { storage, finish } = deferredUpload()
+      const uploader = useUploadKit({ storage, concurrency: 2 })
+      const completeHandler = vi.fn()
+      const filesUploadedHandler = vi.fn()
+      uploader.on("upload:complete", completeHandler)
+      uploader.on("files:uploaded", filesUploadedHandler)
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      const first = uploader.upload()
+      await uploader.addFile(createMockFile("b.jpg"))
+      const second = uploader.upload()
+      await wait(10)
+
+      finish("b.jpg")
+      await second
+      expect(completeHandler).toHaveBeenCalledTimes(1)
+      expect(filesUploadedHandler).not.toHaveBeenCalled()
+
+      finish("a.jpg")
+      await first
+      expect(completeHandler).toHaveBeenCalledTimes(2)
+      expect(filesUploadedHandler).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe("retry", () => {
+    const flakyUpload = (failures: number, error: () => unknown = () => new TypeError("Failed to fetch")) => {
+      let calls = 0
+      return createMockStoragePlugin({
+        uploadFn: async () => {
+          calls++
+          if (calls <= failures) throw error()
+          return { url: "https://example.com/file.jpg" }
+        },
+      })
+    }
+
+    it("should not retry automatically without a retry policy", async () => {
+      const storage = flakyUpload(1)
+      const uploader = useUploadKit({ storage })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      await uploader.upload()
+
+      expect(storage.hooks.upload).toHaveBeenCalledTimes(1)
+      expect(uploader.files.value[0]!.status).toBe("error")
+    })
+
+    it("should retry a failed transfer and emit file:retry with the attempt number", async () => {
+      const storage = flakyUpload(2)
+      const uploader = useUploadKit({ storage, retry: { attempts: 3, backoff: 0 } })
+      const retryHandler = vi.fn()
+      const errorHandler = vi.fn()
+      uploader.on("file:retry", retryHandler)
+      uploader.on("file:error", errorHandler)
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      await uploader.upload()
+
+      expect(storage.hooks.upload).toHaveBeenCalledTimes(3)
+      expect(retryHandler.mock.calls.map(([payload]) => payload.attempt)).toEqual([1, 2])
+      expect(errorHandler).not.toHaveBeenCalled()
+      expect(uploader.files.value[0]!.status).toBe("complete")
+    })
+
+    it("should give up once the attempts are exhausted", async () => {
+      const storage = flakyUpload(5)
+      const uploader = useUploadKit({ storage, retry: { attempts: 2, backoff: 0 } })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      await uploader.upload()
+
+      expect(storage.hooks.upload).toHaveBeenCalledTimes(3)
+      expect(uploader.files.value[0]!.status).toBe("error")
+    })
+
+    it("should not retry 4xx rejections by default", async () => {
+      const { UploadHttpError } = await import("../../src/runtime/shared")
+      const storage = flakyUpload(1, () => new UploadHttpError("Forbidden", 403))
+      const uploader = useUploadKit({ storage, retry: { attempts: 3, backoff: 0 } })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      await uploader.upload()
+
+      expect(storage.hooks.upload).toHaveBeenCalledTimes(1)
+      expect(uploader.files.value[0]!.status).toBe("error")
+    })
+
+    it("should retry network errors from the XHR transports and 5xx responses by default", async () => {
+      const { UploadHttpError, UploadNetworkError } = await import("../../src/runtime/shared")
+      const errors = [new UploadNetworkError(), new UploadHttpError("Bad Gateway", 502)]
+      const storage = flakyUpload(2, () => errors.shift())
+      const uploader = useUploadKit({ storage, retry: { attempts: 2, backoff: 0 } })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      await uploader.upload()
+
+      expect(storage.hooks.upload).toHaveBeenCalledTimes(3)
+      expect(uploader.files.value[0]!.status).toBe("complete")
+    })
+
+    it("should not retry other errors, such as misconfiguration, by default", async () => {
+      const storage = flakyUpload(1, () => new Error("Storage plugin with upload hook is required"))
+      const uploader = useUploadKit({ storage, retry: { attempts: 3, backoff: 0 } })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      await uploader.upload()
+
+      expect(storage.hooks.upload).toHaveBeenCalledTimes(1)
+      expect(uploader.files.value[0]!.status).toBe("error")
+    })
+
+    it("should respect a custom retryable predicate and backoff function", async () => {
+      const storage = flakyUpload(1, () => new Error("Processing failed"))
+      const backoff = vi.fn(() => 0)
+      const retryable = vi.fn(() => true)
+      const uploader = useUploadKit({ storage, retry: { attempts: 1, backoff, retryable } })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      await uploader.upload()
+
+      expect(retryable).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ name: "a.jpg" }))
+      expect(backoff).toHaveBeenCalledWith(1)
+      expect(uploader.files.value[0]!.status).toBe("complete")
+    })
+
+    it("should retry a failed process stage when the predicate allows it", async () => {
+      let processCalls = 0
+      const processor: ProcessingPlugin = {
+        id: "flaky-processor",
+        hooks: {
+          process: async (file) => {
+            processCalls++
+            if (processCalls === 1) throw new Error("Compression failed")
+            return file
+          },
+        },
+      }
+      const storage = createMockStoragePlugin()
+      const uploader = useUploadKit({
+        storage,
+        plugins: [processor],
+        retry: { attempts: 1, backoff: 0, retryable: () => true },
+      })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      await uploader.upload()
+
+      expect(processCalls).toBe(2)
+      expect(uploader.files.value[0]!.status).toBe("complete")
+    })
+
+    it("should wait at least as long as the failed response's Retry-After", async () => {
+      const { UploadHttpError } = await import("../../src/runtime/shared")
+      const storage = flakyUpload(1, () => new UploadHttpError("Too Many Requests", 429, 100))
+      const uploader = useUploadKit({ storage, retry: { attempts: 1, backoff: 0 } })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      const uploadPromise = uploader.upload()
+      await wait(50)
+      expect(storage.hooks.upload).toHaveBeenCalledTimes(1)
+
+      await uploadPromise
+      expect(storage.hooks.upload).toHaveBeenCalledTimes(2)
+      expect(uploader.files.value[0]!.status).toBe("complete")
+    })
+
+    it("should stop waiting for a retry when the file is cancelled", async () => {
+      const storage = flakyUpload(5)
+      const uploader = useUploadKit({ storage, retry: { attempts: 3, backoff: 10_000 } })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      const uploadPromise = uploader.upload()
+      await wait(10)
+
+      uploader.cancelFile(uploader.files.value[0]!.id)
+      await uploadPromise
+
+      expect(storage.hooks.upload).toHaveBeenCalledTimes(1)
+      expect(uploader.files.value[0]!.status).toBe("cancelled")
+    })
+
+    it("should upload a failed file again with retryFile()", async () => {
+      const storage = flakyUpload(1)
+      const uploader = useUploadKit({ storage })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      await uploader.upload()
+      const fileId = uploader.files.value[0]!.id
+      expect(uploader.files.value[0]!.status).toBe("error")
+
+      await uploader.retryFile(fileId)
+
+      expect(storage.hooks.upload).toHaveBeenCalledTimes(2)
+      expect(uploader.files.value[0]!.status).toBe("complete")
+      expect(uploader.files.value[0]!.error).toBeUndefined()
+    })
+
+    it("should retry every failed file with retryFailed()", async () => {
+      const storage = flakyUpload(2)
+      const uploader = useUploadKit({ storage })
+      const filesUploadedHandler = vi.fn()
+      uploader.on("files:uploaded", filesUploadedHandler)
+
+      await uploader.addFiles([createMockFile("a.jpg"), createMockFile("b.jpg")])
+      await uploader.upload()
+      expect(uploader.files.value.map((f) => f.status)).toEqual(["error", "error"])
+
+      await uploader.retryFailed()
+
+      expect(uploader.files.value.map((f) => f.status)).toEqual(["complete", "complete"])
+      expect(filesUploadedHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it("should ignore files that were rejected when added", async () => {
+      const storage = createMockStoragePlugin()
+      const uploader = useUploadKit({ storage, restrictions: { maxFileSize: 10 } })
+
+      await expect(uploader.addFile(createMockFile("big.jpg", 1024))).rejects.toBeDefined()
+      await uploader.retryFailed()
+      await uploader.retryFile(uploader.files.value[0]!.id)
+
+      expect(storage.hooks.upload).not.toHaveBeenCalled()
+      expect(uploader.files.value[0]!.status).toBe("error")
+    })
+  })
+
+  describe("pause and resume", () => {
+    /**
+     * Storage that transfers in 4 chunks, waiting on `step()` between them and saving the
+     * number of confirmed chunks as its checkpoint.
+     */
+    const chunkedUpload = () => {
+      const waiters: Array<() => void> = []
+      const startedFrom: number[] = []
+      const step = async () => {
+        await wait(5)
+        waiters.shift()?.()
+        await wait(5)
+      }
+      const storage = createMockStoragePlugin({
+        uploadFn: async (_file, onProgress, signal, context) => {
+          let chunk = (context.checkpoint as number | undefined) ?? 0
+          startedFrom.push(chunk)
+          while (chunk < 4) {
+            await new Promise<void>((resolve, reject) => {
+              waiters.push(resolve)
+              signal.addEventListener(
+                "abort",
+                () => {
+                  waiters.splice(waiters.indexOf(resolve), 1)
+                  reject(signal.reason)
+                },
+                { once: true },
+              )
+            })
+            chunk++
+            context.setCheckpoint(chunk)
+            onProgress(chunk * 25)
+          }
+          return { url: "https://example.com/video.mp4", storageKey: "uploads/video.mp4" }
+        },
+      })
+      return { storage, step, startedFrom }
+    }
+
+    it("should pause an in-flight file and keep its progress", async () => {
+      const { storage, step } = chunkedUpload()
+      const uploader = useUploadKit({ storage })
+      const pausedHandler = vi.fn()
+      uploader.on("file:paused", pausedHandler)
+
+      await uploader.addFile(createMockFile("video.mp4", 1024, "video/mp4"))
+      const uploadPromise = uploader.upload()
+      await step()
+      await step()
+
+      uploader.pauseFile(uploader.files.value[0]!.id)
+      await uploadPromise
+
+      expect(uploader.files.value[0]!.status).toBe("paused")
+      expect(uploader.files.value[0]!.progress.percentage).toBe(50)
+      expect(uploader.totalProgress.value).toBe(50)
+      expect(uploader.status.value).toBe("paused")
+      expect(pausedHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it("should hold back the completion events until paused files have finished", async () => {
+      const { storage, step } = chunkedUpload()
+      const uploader = useUploadKit({ storage })
+      const completeHandler = vi.fn()
+      const filesUploadedHandler = vi.fn()
+      uploader.on("upload:complete", completeHandler)
+      uploader.on("files:uploaded", filesUploadedHandler)
+
+      await uploader.addFile(createMockFile("video.mp4", 1024, "video/mp4"))
+      const uploadPromise = uploader.upload()
+      await step()
+      uploader.pause()
+      await uploadPromise
+
+      expect(completeHandler).not.toHaveBeenCalled()
+      expect(filesUploadedHandler).not.toHaveBeenCalled()
+
+      const resumePromise = uploader.resume()
+      for (let i = 0; i < 3; i++) await step()
+      await resumePromise
+
+      expect(completeHandler).toHaveBeenCalledTimes(1)
+      expect(filesUploadedHandler).toHaveBeenCalledTimes(1)
+      expect(uploader.status.value).toBe("completed")
+    })
+
+    it("should resume from the last checkpoint instead of restarting", async () => {
+      const { storage, step, startedFrom } = chunkedUpload()
+      const uploader = useUploadKit({ storage })
+      const resumedHandler = vi.fn()
+      uploader.on("file:resumed", resumedHandler)
+
+      await uploader.addFile(createMockFile("video.mp4", 1024, "video/mp4"))
+      const uploadPromise = uploader.upload()
+      await step()
+      uploader.pause()
+      await uploadPromise
+
+      const resumePromise = uploader.resume()
+      for (let i = 0; i < 3; i++) await step()
+      await resumePromise
+
+      expect(startedFrom).toEqual([0, 1])
+      expect(resumedHandler).toHaveBeenCalledTimes(1)
+      expect(uploader.files.value[0]!.status).toBe("complete")
+      expect(uploader.status.value).toBe("completed")
+    })
+
+    it("should not run the process stage again on resume", async () => {
+      const { storage, step } = chunkedUpload()
+      const process = vi.fn(async (file) => file)
+      const uploader = useUploadKit({ storage, plugins: [{ id: "recorder", hooks: { process } }] })
+
+      await uploader.addFile(createMockFile("video.mp4", 1024, "video/mp4"))
+      const uploadPromise = uploader.upload()
+      await step()
+      uploader.pause()
+      await uploadPromise
+
+      const resumePromise = uploader.resume()
+      for (let i = 0; i < 3; i++) await step()
+      await resumePromise
+
+      expect(process).toHaveBeenCalledTimes(1)
+    })
+
+    it("should pause files still waiting for a concurrency slot", async () => {
+      const { storage, step } = chunkedUpload()
+      const uploader = useUploadKit({ storage })
+
+      await uploader.addFiles([createMockFile("a.mp4", 1024, "video/mp4"), createMockFile("b.mp4", 1024, "video/mp4")])
+      const uploadPromise = uploader.upload()
+      await step()
+      uploader.pause()
+      await uploadPromise
+
+      expect(uploader.files.value.map((f) => f.status)).toEqual(["paused", "paused"])
+      expect(storage.hooks.upload).toHaveBeenCalledTimes(1)
+    })
+
+    it("should let a paused file be cancelled", async () => {
+      const { storage, step } = chunkedUpload()
+      const uploader = useUploadKit({ storage })
+
+      await uploader.addFile(createMockFile("video.mp4", 1024, "video/mp4"))
+      const uploadPromise = uploader.upload()
+      await step()
+      uploader.pause()
+      await uploadPromise
+
+      uploader.cancelFile(uploader.files.value[0]!.id)
+
+      expect(uploader.files.value[0]!.status).toBe("cancelled")
+      expect(uploader.pendingCount.value).toBe(0)
+    })
+
+    it("should ignore pauseFile() for files that are not uploading", async () => {
+      const uploader = useUploadKit({ storage: createMockStoragePlugin() })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      uploader.pauseFile(uploader.files.value[0]!.id)
+      await uploader.resumeFile(uploader.files.value[0]!.id)
+
+      expect(uploader.files.value[0]!.status).toBe("waiting")
+    })
+  })
+
+  describe("cancellation", () => {
+    const hangingUpload = () => {
+      const signals: AbortSignal[] = []
+      const storage = createMockStoragePlugin({
+        uploadFn: (_file, _onProgress, signal) =>
+          new Promise((_resolve, reject) => {
+            signals.push(signal)
+            signal.addEventListener("abort", () => reject(new Error("Upload was aborted")))
+          }),
+      })
+      return { storage, signals }
+    }
+
+    it("should abort an in-flight upload and mark the file cancelled", async () => {
+      const { storage, signals } = hangingUpload()
+      const uploader = useUploadKit({ storage })
+      const cancelledHandler = vi.fn()
+      const errorHandler = vi.fn()
+      uploader.on("file:cancelled", cancelledHandler)
+      uploader.on("file:error", errorHandler)
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      const uploadPromise = uploader.upload()
+      await wait(10)
+
+      uploader.cancelFile(uploader.files.value[0]!.id)
+      await uploadPromise
+
+      expect(signals[0]!.aborted).toBe(true)
+      expect(uploader.files.value[0]!.status).toBe("cancelled")
+      expect(cancelledHandler).toHaveBeenCalledTimes(1)
+      expect(errorHandler).not.toHaveBeenCalled()
+    })
+
+    it("should never start a waiting file that was cancelled", async () => {
+      const storage = createMockStoragePlugin()
+      const uploader = useUploadKit({ storage })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      uploader.cancelFile(uploader.files.value[0]!.id)
+      await uploader.upload()
+
+      expect(storage.hooks.upload).not.toHaveBeenCalled()
+      expect(uploader.files.value[0]!.status).toBe("cancelled")
+    })
+
+    it("should cancel every queued and in-flight file with cancelAll()", async () => {
+      const { storage } = hangingUpload()
+      const uploader = useUploadKit({ storage })
+
+      await uploader.addFiles([createMockFile("a.jpg"), createMockFile("b.jpg")])
+      const uploadPromise = uploader.upload()
+      await wait(10)
+
+      uploader.cancelAll()
+      await uploadPromise
+
+      expect(storage.hooks.upload).toHaveBeenCalledTimes(1)
+      expect(uploader.files.value.map((f) => f.status)).toEqual(["cancelled", "cancelled"])
+    })
+
+    it("should remove the uploaded object when the upload finishes after cancellation", async () => {
+      let resolveUpload!: (value: { url: string; storageKey: string }) => void
+      const removeFn = vi.fn(async () => {})
+      const storage = createMockStoragePlugin({
+        uploadFn: () =>
+          new Promise((resolve) => {
+            resolveUpload = resolve
+          }),
+        removeFn,
+      })
+      const uploader = useUploadKit({ storage })
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      const uploadPromise = uploader.upload()
+      await wait(10)
+
+      uploader.cancelFile(uploader.files.value[0]!.id)
+      resolveUpload({ url: "https://example.com/a.jpg", storageKey: "uploads/a.jpg" })
+      await uploadPromise
+
+      expect(removeFn).toHaveBeenCalledWith(expect.objectContaining({ storageKey: "uploads/a.jpg" }))
+      expect(uploader.files.value[0]!.status).toBe("cancelled")
+    })
+
+    it("should ignore cancelFile() for completed files", async () => {
+      const storage = createMockStoragePlugin()
+      const uploader = useUploadKit({ storage })
+      const cancelledHandler = vi.fn()
+      uploader.on("file:cancelled", cancelledHandler)
+
+      await uploader.addFile(createMockFile("a.jpg"))
+      await uploader.upload()
+      uploader.cancelFile(uploader.files.value[0]!.id)
+
+      expect(uploader.files.value[0]!.status).toBe("complete")
+      expect(cancelledHandler).not.toHaveBeenCalled()
+    })
+  })
+
   describe("totalProgress", () => {
     it("should calculate total progress correctly", async () => {
       const storage = createMockStoragePlugin()
@@ -1229,14 +2119,72 @@ describe("useUploadKit", () => {
       expect(uploader.files.value.map((f) => f.storageKey)).toEqual(["batch-1.jpg", "batch-2.jpg", "batch-3.jpg"])
     })
 
-    it("should throw if no storage plugin with getRemoteFile is configured", async () => {
-      const uploader = useUploadKit()
+    it("should throw if the storage plugin has no getRemoteFile hook", async () => {
+      const storage: StoragePlugin = { id: "upload-only", upload: vi.fn(), hooks: { upload: vi.fn() } }
+      const uploader = useUploadKit({ storage })
 
       await expect(uploader.addExistingFiles([{ storageKey: "remote.jpg" }])).rejects.toThrow(
         "Storage plugin with getRemoteFile hook is required",
       )
     })
 
+    it("resolves through the built-in transport's /meta endpoint when no storage is provided", async () => {
+      const fetchSpy = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValue(
+          new Response(
+            JSON.stringify({ fileId: "uploads/remote.jpg", size: 2048, mimeType: "image/jpeg", downloadUrl: "https://signed/r" }),
+          ),
+        )
+
+      try {
+        const uploader = useUploadKit()
+        const [added] = await uploader.addExistingFiles([{ storageKey: "uploads/remote.jpg" }])
+
+        expect(fetchSpy).toHaveBeenCalledWith("/api/_upload/meta/uploads%2Fremote.jpg", { method: "GET" })
+        expect(added).toMatchObject({
+          storageKey: "uploads/remote.jpg",
+          size: 2048,
+          mimeType: "image/jpeg",
+          remoteUrl: "https://signed/r",
+        })
+      } finally {
+        fetchSpy.mockRestore()
+      }
+    })
+
+    it("browses stored files without adding them", async () => {
+      const list = vi.fn(async () => ({
+        files: [{ storageKey: "library/a.jpg", size: 10, mimeType: "image/jpeg", remoteUrl: "https://cdn/a.jpg" }],
+        cursor: "page-2",
+      }))
+      const storage: StoragePlugin = { id: "browsable", upload: vi.fn(), hooks: { upload: vi.fn(), list } }
+      const uploader = useUploadKit({ storage })
+
+      const result = await uploader.browse({ prefix: "library/", limit: 1 })
+
+      expect(list).toHaveBeenCalledWith({ prefix: "library/", limit: 1 }, expect.anything())
+      expect(result.cursor).toBe("page-2")
+      expect(result.files).toHaveLength(1)
+      expect(result.files[0]).toMatchObject({
+        storageKey: "library/a.jpg",
+        name: "a.jpg",
+        source: "storage",
+        status: "complete",
+        data: null,
+        remoteUrl: "https://cdn/a.jpg",
+        preview: "https://cdn/a.jpg",
+      })
+      expect(uploader.files.value).toHaveLength(0)
+    })
+
+    it("should throw from browse if the storage plugin has no list hook", async () => {
+      const storage: StoragePlugin = { id: "upload-only", upload: vi.fn(), hooks: { upload: vi.fn() } }
+      const uploader = useUploadKit({ storage })
+
+      await expect(uploader.browse()).rejects.toThrow("Storage plugin with list hook is required")
+    })
+
     it("should skip entries with empty storageKey without calling storage", async () => {
       const getRemoteFileFn = vi.fn(defaultGetRemoteFileFn)
       const storage = createMockStoragePlugin({ getRemoteFileFn })
@@ -1264,6 +2212,91 @@ describe("useUploadKit", () => {
     })
   })
 
+  describe("downloadFile", () => {
+    it("clicks a link to an attachment URL named after the file", async () => {
+      const getDownloadUrl = vi.fn(async () => "https://signed/report.pdf")
+      const getRemoteFile = vi.fn(async () => ({ size: 10, mimeType: "application/pdf", remoteUrl: "https://cdn/report.pdf" }))
+      const storage: StoragePlugin = {
+        id: "downloadable",
+        upload: vi.fn(),
+        hooks: { upload: vi.fn(), getRemoteFile, getDownloadUrl },
+      }
+      const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(function (this: HTMLAnchorElement) {
+        expect(this.href).toBe("https://signed/report.pdf")
+        expect(this.download).toBe("report.pdf")
+      })
+
+      try {
+        const uploader = useUploadKit({ storage })
+        const [file] = await uploader.addExistingFiles([{ storageKey: "docs/report.pdf" }])
+
+        await uploader.downloadFile(file!.id)
+
+        expect(getDownloadUrl).toHaveBeenCalledWith(
+          "docs/report.pdf",
+          { disposition: "attachment", filename: "report.pdf" },
+          expect.anything(),
+        )
+        expect(click).toHaveBeenCalledTimes(1)
+        expect(document.querySelector("a[download]")).toBeNull()
+      } finally {
+        click.mockRestore()
+      }
+    })
+
+    it("passes the file's ownership token", async () => {
+      const getDownloadUrl = vi.fn(async () => "https://signed/report.pdf")
+      const getRemoteFile = vi.fn(async () => ({
+        size: 10,
+        mimeType: "application/pdf",
+        remoteUrl: "https://cdn/report.pdf",
+        uploadResult: { url: "https://cdn/report.pdf", storageKey: "docs/report.pdf", fileToken: "tok" },
+      }))
+      const storage: StoragePlugin = {
+        id: "downloadable",
+        upload: vi.fn(),
+        hooks: { upload: vi.fn(), getRemoteFile, getDownloadUrl },
+      }
+      const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {})
+
+      try {
+        const uploader = useUploadKit({ storage })
+        const [file] = await uploader.addExistingFiles([{ storageKey: "docs/report.pdf" }])
+
+        await uploader.downloadFile(file!.id)
+
+        expect(getDownloadUrl).toHaveBeenCalledWith(
+          "docs/report.pdf",
+          { disposition: "attachment", filename: "report.pdf", token: "tok" },
+          expect.anything(),
+        )
+      } finally {
+        click.mockRestore()
+      }
+    })
+
+    it("should throw for a file that has not been uploaded", async () => {
+      const storage: StoragePlugin = {
+        id: "downloadable",
+        upload: vi.fn(),
+        hooks: { upload: vi.fn(), getDownloadUrl: vi.fn() },
+      }
+      const uploader = useUploadKit({ storage })
+      const file = await uploader.addFile(createMockFile("local.jpg"))
+
+      await expect(uploader.downloadFile(file.id)).rejects.toThrow("File has not been uploaded")
+    })
+
+    it("should throw if the storage plugin has no getDownloadUrl hook", async () => {
+      const getRemoteFileFn = async () => ({ size: 10, mimeType: "image/jpeg", remoteUrl: "https://cdn/photo.jpg" })
+      const storage = createMockStoragePlugin({ getRemoteFileFn })
+      const uploader = useUploadKit({ storage })
+      const [file] = await uploader.addExistingFiles([{ storageKey: "library/photo.jpg" }])
+
+      await expect(uploader.downloadFile(file!.id)).rejects.toThrow("Storage plugin with getDownloadUrl hook is required")
+    })
+  })
+
   describe("event system", () => {
     it("should allow registering and receiving events", async () => {
       const uploader = useUploadKit()